@@ -45,7 +45,7 @@ export default function Page() {
     // Should have at least 1 diagnostic for the function prop
     expect(result.diagnostics.length).toBeGreaterThan(0);
     expect(result.rulesExecuted.length).toBeGreaterThan(0);
-    expect(result.rulesExecuted).toContain('serialization-boundary-violation');
+    expect(result.rulesExecuted).toContain('server-client-serialization-violation');
   });
 
   it('should analyze client-forbidden-imports scenario and return diagnostics', async () => {
@@ -56,7 +56,7 @@ export const scenarios: Scenario[] = [
     title: 'Serialization Boundary Violation',
     category: 'fundamentals',
     isPro: false,
-    rule: 'serialization-boundary-violation',
+    rule: 'server-client-serialization-violation',
     description: 'Passing non-serializable props from Server to Client components',
     code: `import { ClientButton } from './ClientButton';
 
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { analyzeLspRequest, analyzeScenario, createSourceFile, shouldAnalyzeFile } from '../lsp';
+import { createRuleRegistry, type Rule } from '../lib/ruleRegistry';
+import { BUILT_IN_RULES } from '../rules/builtin';
 
 describe('LSP API', () => {
   describe('createSourceFile', () => {
@@ -64,7 +66,7 @@ describe('LSP API', () => {
 
       // This test may not detect issues without full project context
       // The LSP API is best-effort for serialization boundary detection
-      expect(result.rulesExecuted).toContain('serialization-boundary-violation');
+      expect(result.rulesExecuted).toContain('server-client-serialization-violation');
       expect(result.duration).toBeGreaterThan(0);
     });
 
@@ -181,6 +183,146 @@ describe('LSP API', () => {
     });
   });
 
+  describe('analyzeLspRequest - quick fixes', () => {
+    it('returns fixes with offsets and with line/column edits', () => {
+      const code = `'use client';\nexport const Price = () => <span />;\n`;
+
+      const result = analyzeLspRequest({
+        code,
+        fileName: 'components/Price.tsx',
+        rules: ['client-directive-unnecessary'],
+      });
+
+      expect(result.diagnostics[0]?.fixes?.[0]?.edits).toEqual([
+        { file: 'components/Price.tsx', range: { from: 0, to: 14 }, newText: '' },
+      ]);
+      expect(result.unifiedDiagnostics[0]?.fixes).toEqual([
+        {
+          title: "Remove the 'use client' directive",
+          kind: 'refactor',
+          edits: [
+            {
+              file: 'components/Price.tsx',
+              startLine: 1,
+              startColumn: 1,
+              endLine: 2,
+              endColumn: 1,
+              newText: '',
+            },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe('analyzeLspRequest - suppression comments', () => {
+    it('should drop suppressed findings and count them', () => {
+      const code = `'use client';
+// rsc-xray-disable-next-line client-forbidden-import -- build-time only
+import fs from 'fs';
+import os from 'os';
+
+export default function Component() {
+  return <div>{String(fs)}{String(os)}</div>;
+}
+`;
+
+      const result = analyzeLspRequest({
+        code,
+        fileName: 'components/BadClient.tsx',
+        scenario: 'client-forbidden-imports',
+      });
+
+      expect(result.diagnostics.map((item) => item.message)).toEqual([
+        "Client components must not import 'os'.",
+      ]);
+      expect(result.suppressed).toEqual({ 'client-forbidden-import': 1 });
+    });
+
+    it('should warn about unused suppressions only for rules that ran', () => {
+      const code = `'use client';
+// rsc-xray-disable-next-line client-forbidden-import
+import { useState } from 'react';
+// rsc-xray-disable-next-line react19-cache-opportunity
+export default function Component() {
+  return <div>{String(useState)}</div>;
+}
+`;
+
+      const result = analyzeLspRequest({
+        code,
+        fileName: 'components/Button.tsx',
+        scenario: 'client-forbidden-imports',
+      });
+
+      expect(result.diagnostics).toEqual([
+        {
+          rule: 'unused-suppression',
+          level: 'warn',
+          message:
+            "Unused rsc-xray-disable-next-line comment: no 'client-forbidden-import' findings to suppress.",
+          loc: { file: 'components/Button.tsx', range: { from: 14, to: 67 } },
+        },
+      ]);
+    });
+  });
+
+  describe('analyzeLspRequest - custom rules', () => {
+    const noDefaultExport: Rule = {
+      id: 'no-default-export',
+      meta: { type: 'diagnostic', description: 'Prefer named exports.' },
+      appliesTo: ['server', 'client', 'shared'],
+      check: (sourceFile, context) => {
+        const from = sourceFile.text.indexOf('export default');
+        return from === -1
+          ? []
+          : [
+              {
+                rule: 'no-default-export',
+                level: 'warn',
+                message: 'Use a named export.',
+                loc: { file: context.fileName, range: { from, to: from + 14 } },
+              },
+            ];
+      },
+    };
+    const registry = createRuleRegistry([...BUILT_IN_RULES, noDefaultExport]);
+    const code = 'export default function Button() {\n  return <button />;\n}\n';
+
+    it('should run custom rules from the registry', () => {
+      const result = analyzeLspRequest({
+        code,
+        fileName: 'components/Button.tsx',
+        registry,
+        rules: ['no-default-export'],
+      });
+
+      expect(result.rulesExecuted).toEqual(['no-default-export']);
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({ rule: 'no-default-export', loc: expect.anything() }),
+      ]);
+    });
+
+    it('should skip custom rules for scenarios and disabled rules', () => {
+      expect(
+        analyzeLspRequest({
+          code,
+          fileName: 'components/Button.tsx',
+          registry,
+          scenario: 'react19-cache',
+        }).rulesExecuted
+      ).toEqual(['react19-cache-opportunity']);
+      expect(
+        analyzeLspRequest({
+          code,
+          fileName: 'components/Button.tsx',
+          registry,
+          config: { rules: { 'no-default-export': 'off' } },
+        }).rulesExecuted
+      ).not.toContain('no-default-export');
+    });
+  });
+
   describe('analyzeLspRequest - route config conflicts', () => {
     it('should run route config analysis', () => {
       const code = `
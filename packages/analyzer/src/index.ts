@@ -1,11 +1,30 @@
 export * from './lib/classify.js';
 export * from './lib/classifyFiles.js';
+export * from './lib/clientPropagation.js';
+export * from './lib/config.js';
 export * from './lib/attributeBytes.js';
 export * from './lib/clientBundles.js';
 export * from './lib/graph.js';
+export * from './lib/middleware.js';
+export * from './lib/pagesRouter.js';
+export * from './lib/pathAliases.js';
 export * from './lib/readManifests.js';
+export * from './lib/routeHandlers.js';
+export * from './lib/routeTree.js';
 export * from './lib/suggestions.js';
+export * from './lib/ruleRegistry.js';
+export * from './lib/suppressions.js';
+export * from './lib/baseline.js';
+export * from './lib/modelDiff.js';
+export * from './lib/budgets.js';
+export * from './lib/diagnosticHelpers.js';
+export * from './lib/unifiedDiagnostics.js';
+export * from './lib/sarif.js';
+export * from './lib/sourceFiles.js';
+export * from './lib/analysisCache.js';
+export * from './lib/analysisSession.js';
 export * from './lib/analyzeProject.js';
+export * from './lib/fixes.js';
 export * from './types/next-manifest.js';
 export * from './rules/clientForbiddenImports.js';
 export * from './rules/serializationBoundary.js';
@@ -13,4 +32,15 @@ export * from './rules/suspenseBoundary.js';
 export * from './rules/react19Cache.js';
 export * from './rules/clientSizeThreshold.js';
 export * from './rules/routeSegmentConfig.js';
+export * from './rules/dataFetching.js';
+export * from './rules/clientDirective.js';
+export * from './rules/builtin.js';
 export * from './lsp.js';
+export {
+  getRuleInfo,
+  resolveRuleId,
+  RULE_CATALOG,
+  type RuleCategory,
+  type RuleExample,
+  type RuleInfo,
+} from '@rsc-xray/schemas';
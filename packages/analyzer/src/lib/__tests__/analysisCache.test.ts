@@ -0,0 +1,131 @@
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import type { RscXrayConfig } from '@rsc-xray/schemas';
+
+import { loadAnalysisCache, saveAnalysisCache, setCachedSource } from '../analysisCache';
+import { analyzeProject } from '../analyzeProject';
+import { collectCacheMetadata } from '../cacheMetadata';
+import type { RunRulesOptions } from '../ruleRegistry';
+
+const PAGE = `import { Price } from './Price';\n\nexport const revalidate = 60;\n\nexport default async function Page() {\n  const a = await fetch('/a');\n  const b = await fetch('/b');\n  return <Price />;\n}\n`;
+const PRICE = `'use client';\nimport { readFileSync } from 'fs';\nimport { format } from './format';\n\nexport function Price() {\n  return <span>{format(1)}</span>;\n}\n`;
+const FORMAT = `export const format = (value: number) => value.toFixed(2);\n`;
+
+describe('analysis cache', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(join(tmpdir(), 'scx-cache-'));
+    await mkdir(join(projectRoot, 'app'), { recursive: true });
+    await mkdir(join(projectRoot, '.next'), { recursive: true });
+    await writeFile(join(projectRoot, 'app/page.tsx'), PAGE, 'utf8');
+    await writeFile(join(projectRoot, 'app/Price.tsx'), PRICE, 'utf8');
+    await writeFile(join(projectRoot, 'app/format.ts'), FORMAT, 'utf8');
+    await writeFile(join(projectRoot, '.next/build-manifest.json'), '{"pages":{}}', 'utf8');
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  async function analyzeWithCache(config?: RscXrayConfig) {
+    const analyzed: string[] = [];
+    const model = await analyzeProject({
+      projectRoot,
+      cache: true,
+      config,
+      onRunRules: ({ context }: RunRulesOptions) => analyzed.push(context.fileName),
+    });
+    return { model, analyzed: analyzed.sort() };
+  }
+
+  it('reuses the results of unchanged files on later runs', async () => {
+    const first = await analyzeWithCache();
+    expect(first.analyzed).toEqual(['app/Price.tsx', 'app/format.ts', 'app/page.tsx']);
+
+    const second = await analyzeWithCache();
+    expect(second.analyzed).toEqual([]);
+    expect(second.model.nodes).toEqual(first.model.nodes);
+    expect(second.model.routes).toEqual(first.model.routes);
+    expect(
+      second.model.nodes['module:app/Price.tsx']?.diagnostics?.map(({ rule }) => rule)
+    ).toEqual(['client-forbidden-import']);
+
+    const stored = JSON.parse(
+      await readFile(join(projectRoot, '.scx/cache/analysis.json'), 'utf8')
+    );
+    expect(Object.keys(stored.files).sort()).toEqual([
+      'app/Price.tsx',
+      'app/format.ts',
+      'app/page.tsx',
+    ]);
+  });
+
+  it('analyzes files again when their content or rule context changes', async () => {
+    await analyzeWithCache();
+
+    await writeFile(join(projectRoot, 'app/format.ts'), `${FORMAT}export const unused = 1;\n`);
+    expect((await analyzeWithCache()).analyzed).toEqual(['app/format.ts']);
+
+    // Dropping 'use client' turns the imported module back into a server module
+    await writeFile(join(projectRoot, 'app/Price.tsx'), PRICE.slice(14), 'utf8');
+    const { model, analyzed } = await analyzeWithCache();
+    expect(analyzed).toEqual(['app/Price.tsx', 'app/format.ts', 'app/page.tsx']);
+    expect(model.nodes['module:app/Price.tsx']).not.toHaveProperty('diagnostics');
+  });
+
+  it('starts over when the config changes', async () => {
+    await analyzeWithCache();
+
+    const config: RscXrayConfig = { rules: { 'client-forbidden-import': 'off' } };
+    const { model, analyzed } = await analyzeWithCache(config);
+    expect(analyzed).toHaveLength(3);
+    expect(model.nodes['module:app/Price.tsx']).not.toHaveProperty('diagnostics');
+
+    expect((await analyzeWithCache(config)).analyzed).toEqual([]);
+  });
+
+  it('analyzes files again when a plugin file changes', async () => {
+    const plugin = (message: string) =>
+      `const message = () => '${message}';\n\nexport default [\n  {\n    id: 'no-price',\n    meta: { type: 'diagnostic', description: 'Flags Price.' },\n    appliesTo: ['client'],\n    check: (sourceFile, context) => [{ rule: 'no-price', level: 'warn', message: message(), loc: { file: context.fileName, range: { from: 0, to: 1 } } }],\n  },\n];\n`;
+    const config: RscXrayConfig = { plugins: ['./rules/no-price.mjs'] };
+    await mkdir(join(projectRoot, 'rules'), { recursive: true });
+    await writeFile(join(projectRoot, 'rules/no-price.mjs'), plugin('first'), 'utf8');
+    await analyzeWithCache(config);
+    expect((await analyzeWithCache(config)).analyzed).toEqual([]);
+
+    // Only the helper changes, not the source of the rule function
+    await writeFile(join(projectRoot, 'rules/no-price.mjs'), plugin('second'), 'utf8');
+    expect((await analyzeWithCache(config)).analyzed).toEqual([
+      'app/Price.tsx',
+      'app/format.ts',
+      'app/page.tsx',
+    ]);
+  });
+
+  it('discards caches of other analyzer versions and unreadable caches', async () => {
+    const dir = join(projectRoot, '.scx/cache');
+    const cache = await loadAnalysisCache({ dir, config: {}, analyzerVersion: '1.0.0' });
+    setCachedSource(cache, 'app/format.ts', 'hash', {
+      kind: 'server',
+      cacheMetadata: collectCacheMetadata({ sourceText: FORMAT }),
+      module: { imports: [], components: [] },
+    });
+    await saveAnalysisCache(cache, ['app/format.ts']);
+
+    const reloaded = await loadAnalysisCache({ dir, config: {}, analyzerVersion: '1.0.0' });
+    expect([...reloaded.files.keys()]).toEqual(['app/format.ts']);
+    expect(
+      (await loadAnalysisCache({ dir, config: {}, analyzerVersion: '1.1.0' })).files.size
+    ).toBe(0);
+
+    await writeFile(join(dir, 'analysis.json'), '{"format":', 'utf8');
+    expect(
+      (await loadAnalysisCache({ dir, config: {}, analyzerVersion: '1.0.0' })).files.size
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,136 @@
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  collectDependents,
+  createAnalysisSession,
+  invalidateBuildArtifacts,
+  invalidateFiles,
+} from '../analysisSession';
+import { analyzeProject } from '../analyzeProject';
+import type { RunRulesOptions } from '../ruleRegistry';
+
+const PAGE = `import { Price } from './Price';\nimport { Header } from './Header';\n\nexport default function Page() {\n  return <Header><Price /></Header>;\n}\n`;
+const PRICE = `'use client';\nimport { format } from './format';\n\nexport function Price() {\n  return <span>{format(1)}</span>;\n}\n`;
+const FORMAT = `export const format = (value: number) => value.toFixed(2);\n`;
+const HEADER = `export function Header({ children }) {\n  return <header>{children}</header>;\n}\n`;
+
+describe('analysis sessions', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(join(tmpdir(), 'scx-session-'));
+    await mkdir(join(projectRoot, 'app'), { recursive: true });
+    await mkdir(join(projectRoot, '.next'), { recursive: true });
+    await writeFile(join(projectRoot, 'app/page.tsx'), PAGE, 'utf8');
+    await writeFile(join(projectRoot, 'app/Price.tsx'), PRICE, 'utf8');
+    await writeFile(join(projectRoot, 'app/format.ts'), FORMAT, 'utf8');
+    await writeFile(join(projectRoot, 'app/Header.tsx'), HEADER, 'utf8');
+    await writeFile(join(projectRoot, '.next/build-manifest.json'), '{"pages":{}}', 'utf8');
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  async function analyzeWithSession(session = createAnalysisSession()) {
+    const analyzed: string[] = [];
+    const model = await analyzeProject({
+      projectRoot,
+      session,
+      onRunRules: ({ context }: RunRulesOptions) => analyzed.push(context.fileName),
+    });
+    return { model, analyzed: analyzed.sort(), session };
+  }
+
+  it('re-runs the rules of changed files and their dependents only', async () => {
+    const { session, analyzed: initial } = await analyzeWithSession();
+    expect(initial).toEqual(['app/Header.tsx', 'app/Price.tsx', 'app/format.ts', 'app/page.tsx']);
+
+    expect(invalidateFiles(session, ['app/format.ts'])).toEqual([
+      'app/Price.tsx',
+      'app/format.ts',
+      'app/page.tsx',
+    ]);
+    await writeFile(join(projectRoot, 'app/format.ts'), `${FORMAT}export const unused = 1;\n`);
+    const { analyzed } = await analyzeWithSession(session);
+    expect(analyzed).toEqual(['app/Price.tsx', 'app/format.ts', 'app/page.tsx']);
+
+    const { analyzed: unchanged } = await analyzeWithSession(session);
+    expect(unchanged).toEqual([]);
+  });
+
+  it('reports findings of edited files on the next run', async () => {
+    const { session, model: before } = await analyzeWithSession();
+    expect(before.nodes['module:app/Price.tsx']?.diagnostics).toBeUndefined();
+
+    await writeFile(
+      join(projectRoot, 'app/Price.tsx'),
+      `'use client';\nimport { readFileSync } from 'fs';\n${PRICE.slice(13)}`,
+      'utf8'
+    );
+    invalidateFiles(session, ['app/Price.tsx']);
+    const { model: after, analyzed } = await analyzeWithSession(session);
+
+    expect(analyzed).toEqual(['app/Price.tsx', 'app/page.tsx']);
+    expect(after.nodes['module:app/Price.tsx']?.diagnostics?.map(({ rule }) => rule)).toEqual([
+      'client-forbidden-import',
+    ]);
+  });
+
+  it('re-runs the rules of a segment and the segments below it when a boundary file changes', async () => {
+    await mkdir(join(projectRoot, 'app/dashboard/stats'), { recursive: true });
+    const asyncPage = `export default async function Page() {\n  const data = await fetch('/a');\n  return <div>{String(data)}</div>;\n}\n`;
+    await writeFile(join(projectRoot, 'app/dashboard/page.tsx'), asyncPage, 'utf8');
+    await writeFile(join(projectRoot, 'app/dashboard/stats/page.tsx'), asyncPage, 'utf8');
+    const { session, model: before } = await analyzeWithSession();
+    expect(
+      before.nodes['module:app/dashboard/stats/page.tsx']?.suggestions?.map(({ rule }) => rule)
+    ).toContain('suspense-boundary-missing');
+
+    // Neither page imports the new loading file
+    await writeFile(
+      join(projectRoot, 'app/dashboard/loading.tsx'),
+      'export default function Loading() {\n  return <p>Loading</p>;\n}\n',
+      'utf8'
+    );
+    expect(invalidateFiles(session, ['app/dashboard/loading.tsx'])).toEqual([
+      'app/dashboard/loading.tsx',
+      'app/dashboard/page.tsx',
+      'app/dashboard/stats/page.tsx',
+    ]);
+    const { model: after, analyzed } = await analyzeWithSession(session);
+
+    expect(analyzed).toEqual([
+      'app/dashboard/loading.tsx',
+      'app/dashboard/page.tsx',
+      'app/dashboard/stats/page.tsx',
+    ]);
+    expect(
+      (after.nodes['module:app/dashboard/stats/page.tsx']?.suggestions ?? []).map(
+        ({ rule }) => rule
+      )
+    ).not.toContain('suspense-boundary-missing');
+  });
+
+  it('finds dependents through the module graph and re-reads build artifacts on demand', async () => {
+    const { session } = await analyzeWithSession();
+
+    expect([...collectDependents(session.moduleGraph!, ['app/Header.tsx'])]).toEqual([
+      'app/Header.tsx',
+      'app/page.tsx',
+    ]);
+
+    const artifacts = session.buildArtifacts;
+    await analyzeWithSession(session);
+    expect(session.buildArtifacts).toBe(artifacts);
+
+    invalidateBuildArtifacts(session);
+    const { analyzed } = await analyzeWithSession(session);
+    expect(session.buildArtifacts).not.toBe(artifacts);
+    expect(analyzed).toHaveLength(4);
+  });
+});
@@ -92,6 +92,7 @@ describe('analyzeProject', () => {
           rootNodeId: 'route:/',
           chunks: ['static/chunks/app/page.js'],
           totalBytes: 4096,
+          router: 'app',
         },
       ]);
 
@@ -470,6 +471,154 @@ export default async function Page() {
       await rm(projectRoot, { recursive: true, force: true });
     }
   });
+
+  it('applies client rules to modules pulled into the client bundle by a client import', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-client-propagation-'));
+    try {
+      await mkdir(join(projectRoot, 'app/components'), { recursive: true });
+      await mkdir(join(projectRoot, 'app/lib'), { recursive: true });
+      await mkdir(join(projectRoot, '.next/server/app'), { recursive: true });
+
+      await writeFile(
+        join(projectRoot, 'app/page.tsx'),
+        `import { ClientIsland } from './components/ClientIsland';\nimport { formatDate } from './lib/format';\n\nexport default function Page() {\n  return <ClientIsland label={formatDate()} />;\n}\n`,
+        'utf8'
+      );
+      await writeFile(
+        join(projectRoot, 'app/components/ClientIsland.tsx'),
+        `'use client';\nimport { loadConfig } from '../lib/config';\nimport { formatDate } from '../lib/format';\n\nexport function ClientIsland({ label }: { label: string }) {\n  return <div>{label}{loadConfig()}{formatDate()}</div>;\n}\n`,
+        'utf8'
+      );
+      await writeFile(
+        join(projectRoot, 'app/lib/config.ts'),
+        `import { readFileSync } from 'fs';\n\nexport async function loadConfig() {\n  const res = await fetch('/api/config');\n  return readFileSync(String(res.status), 'utf8');\n}\n`,
+        'utf8'
+      );
+      await writeFile(
+        join(projectRoot, 'app/lib/format.ts'),
+        `export const formatDate = () => new Date().toISOString();\n`,
+        'utf8'
+      );
+
+      await writeFile(join(projectRoot, '.next/build-manifest.json'), BUILD_MANIFEST, 'utf8');
+      await writeFile(
+        join(projectRoot, '.next/server/app-build-manifest.json'),
+        APP_BUILD_MANIFEST,
+        'utf8'
+      );
+
+      const model = await analyzeProject({ projectRoot });
+
+      const configNode = model.nodes['module:app/lib/config.ts'];
+      expect(configNode?.kind).toBe('client');
+      expect(configNode?.clientReason).toEqual({
+        type: 'import',
+        importChain: ['module:app/components/ClientIsland.tsx', 'module:app/lib/config.ts'],
+      });
+      expect(configNode?.diagnostics?.map((item) => item.rule)).toEqual([
+        'client-forbidden-import',
+      ]);
+      expect(configNode?.suggestions?.map((item) => item.rule)).toEqual(['client-hoist-fetch']);
+
+      expect(model.nodes['module:app/lib/format.ts']?.kind).toBe('shared');
+      expect(model.nodes['module:app/components/ClientIsland.tsx']?.clientReason).toEqual({
+        type: 'directive',
+      });
+      expect(model.nodes['module:app/page.tsx']?.kind).toBe('server');
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('records server actions and allows passing them to client components', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-server-actions-'));
+    try {
+      await mkdir(join(projectRoot, 'app/components'), { recursive: true });
+      await mkdir(join(projectRoot, '.next/server/app'), { recursive: true });
+
+      await writeFile(
+        join(projectRoot, 'app/actions.ts'),
+        `'use server';\nimport { readFileSync } from 'fs';\n\nexport async function createTodo(data: FormData) {\n  readFileSync(String(data.get('path')));\n}\n\nexport async function deleteTodo(id: string) {}\n`,
+        'utf8'
+      );
+      await writeFile(
+        join(projectRoot, 'app/components/TodoForm.tsx'),
+        `'use client';\nimport { deleteTodo } from '../actions';\n\nexport function TodoForm({ onCreate }: { onCreate: (data: FormData) => Promise<void> }) {\n  return <form action={onCreate}><button formAction={() => deleteTodo('1')} /></form>;\n}\n`,
+        'utf8'
+      );
+      await writeFile(
+        join(projectRoot, 'app/page.tsx'),
+        `import { TodoForm } from './components/TodoForm';\nimport { createTodo } from './actions';\n\nexport default function Page() {\n  async function rename() {\n    'use server';\n  }\n  return <TodoForm onCreate={createTodo} onRename={rename} />;\n}\n`,
+        'utf8'
+      );
+
+      await writeFile(join(projectRoot, '.next/build-manifest.json'), BUILD_MANIFEST, 'utf8');
+      await writeFile(
+        join(projectRoot, '.next/server/app-build-manifest.json'),
+        APP_BUILD_MANIFEST,
+        'utf8'
+      );
+
+      const model = await analyzeProject({ projectRoot });
+
+      const actionsNode = model.nodes['module:app/actions.ts'];
+      expect(actionsNode?.kind).toBe('server');
+      expect(actionsNode?.diagnostics).toBeUndefined();
+      expect(actionsNode?.serverActions).toEqual({
+        module: true,
+        exported: ['createTodo', 'deleteTodo'],
+        importedBy: ['module:app/components/TodoForm.tsx'],
+        passedTo: [
+          { action: 'createTodo', component: 'TodoForm', prop: 'onCreate', file: 'app/page.tsx' },
+        ],
+      });
+
+      const pageNode = model.nodes['module:app/page.tsx'];
+      expect(pageNode?.diagnostics).toBeUndefined();
+      expect(pageNode?.serverActions).toEqual({
+        module: false,
+        inline: ['rename'],
+        passedTo: [
+          { action: 'rename', component: 'TodoForm', prop: 'onRename', file: 'app/page.tsx' },
+        ],
+      });
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('resolves client components through the render graph for serialization checks', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-render-graph-'));
+    try {
+      const files: Record<string, string> = {
+        'app/components/Chart.tsx': `'use client';\n\nexport default function Chart({ onHover }) {\n  return <canvas onMouseMove={onHover} />;\n}\n`,
+        'app/components/Legend.tsx': `'use client';\n\nexport function Legend() {\n  return <ul />;\n}\n`,
+        'app/page.tsx': `import FancyChart from './components/Chart';\n\nfunction Legend({ format }) {\n  return <p>{format(1)}</p>;\n}\n\nexport default function Page() {\n  return <main><FancyChart onHover={() => {}} /><Legend format={(value) => String(value)} /></main>;\n}\n`,
+        '.next/build-manifest.json': BUILD_MANIFEST,
+        '.next/server/app-build-manifest.json': APP_BUILD_MANIFEST,
+      };
+      for (const [file, contents] of Object.entries(files)) {
+        await mkdir(join(projectRoot, file, '..'), { recursive: true });
+        await writeFile(join(projectRoot, file), contents, 'utf8');
+      }
+
+      const model = await analyzeProject({ projectRoot, components: true });
+
+      // The aliased default import is a client component; the local Legend shadows the client one
+      expect(model.nodes['module:app/page.tsx']?.diagnostics).toEqual([
+        expect.objectContaining({
+          rule: 'server-client-serialization-violation',
+          message: expect.stringContaining('onHover'),
+        }),
+      ]);
+      expect(model.nodes['component:app/page.tsx#Page']?.children).toEqual([
+        'component:app/components/Chart.tsx#Chart',
+        'component:app/page.tsx#Legend',
+      ]);
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
 });
 
 describe('analyzeProject - Static/Dynamic Route Detection (T4.2)', () => {
@@ -957,4 +1106,203 @@ describe('analyzeProject - Static/Dynamic Route Detection (T4.2)', () => {
       await rm(projectRoot, { recursive: true, force: true });
     }
   });
+
+  it('analyzes Pages Router projects without an app build manifest', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-analyze-pages-'));
+    try {
+      const files: Record<string, string> = {
+        'pages/index.tsx': `export default function Home() {\n  return <main />;\n}\n`,
+        'pages/dashboard.tsx': `export async function getServerSideProps() {\n  return { props: {} };\n}\n\nexport default function Dashboard() {\n  return <main />;\n}\n`,
+        '.next/build-manifest.json': JSON.stringify({
+          pages: {
+            '/': ['static/chunks/pages/index.js'],
+            '/dashboard': ['static/chunks/pages/dashboard.js'],
+            '/_app': ['static/chunks/pages/_app.js'],
+          },
+        }),
+        '.next/build-manifest.json.__scx_sizes__': JSON.stringify({
+          'static/chunks/pages/index.js': [{ name: 'index.js', size: 1024 }],
+          'static/chunks/pages/dashboard.js': [{ name: 'dashboard.js', size: 2048 }],
+        }),
+      };
+      for (const [file, contents] of Object.entries(files)) {
+        await mkdir(join(projectRoot, file, '..'), { recursive: true });
+        await writeFile(join(projectRoot, file), contents, 'utf8');
+      }
+
+      const model = await analyzeProject({ projectRoot });
+
+      expect(model.routes).toEqual([
+        expect.objectContaining({
+          route: '/',
+          router: 'pages',
+          totalBytes: 1024,
+          cache: { dynamic: 'force-static' },
+        }),
+        expect.objectContaining({
+          route: '/dashboard',
+          router: 'pages',
+          totalBytes: 2048,
+          cache: { dynamic: 'force-dynamic' },
+          dataFetching: ['getServerSideProps'],
+        }),
+      ]);
+      expect(model.nodes['module:pages/dashboard.tsx']?.role).toBe('page');
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('applies rsc-xray.config rule levels, options, overrides, and excludes', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-analyze-config-'));
+    try {
+      const clientWidget = `'use client';\nimport { Pool } from 'pg';\nimport { readFileSync } from 'fs';\n\nexport async function load() {\n  return await fetch('/api/data');\n}\n\nexport function Widget() {\n  return <div>{String(Pool)}{readFileSync('x', 'utf8')}</div>;\n}\n`;
+      const files: Record<string, string> = {
+        'app/page.tsx': `import { Widget } from './widgets/Widget';\nimport { Admin } from './admin/Admin';\n\nexport default function Page() {\n  return <><Widget /><Admin /></>;\n}\n`,
+        'app/widgets/Widget.tsx': clientWidget,
+        'app/admin/Admin.tsx': clientWidget.replace('Widget', 'Admin'),
+        'app/legacy/Old.tsx': `'use client';\nimport fs from 'fs';\n\nexport const Old = () => fs;\n`,
+        'rsc-xray.config.json': JSON.stringify({
+          exclude: ['app/legacy/**'],
+          rules: {
+            'client-forbidden-import': { level: 'warn', options: { modules: ['pg'] } },
+          },
+          overrides: [{ files: ['app/widgets/**'], rules: { 'client-hoist-fetch': 'off' } }],
+        }),
+        '.next/build-manifest.json': BUILD_MANIFEST,
+        '.next/server/app-build-manifest.json': APP_BUILD_MANIFEST,
+      };
+      for (const [file, contents] of Object.entries(files)) {
+        await mkdir(join(projectRoot, file, '..'), { recursive: true });
+        await writeFile(join(projectRoot, file), contents, 'utf8');
+      }
+
+      const model = await analyzeProject({ projectRoot });
+
+      const widget = model.nodes['module:app/widgets/Widget.tsx'];
+      expect(widget?.diagnostics?.map((item) => [item.message, item.level])).toEqual([
+        ["Client components must not import 'pg'.", 'warn'],
+        ["Client components must not import 'fs'.", 'warn'],
+      ]);
+      expect(widget?.suggestions).toBeUndefined();
+      expect(
+        model.nodes['module:app/admin/Admin.tsx']?.suggestions?.map((item) => item.rule)
+      ).toEqual(['client-hoist-fetch']);
+      expect(model.nodes['module:app/legacy/Old.tsx']).toBeUndefined();
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('honors inline suppression comments and reports unused ones', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-analyze-suppress-'));
+    try {
+      const files: Record<string, string> = {
+        'app/page.tsx': `import { Widget } from './widgets/Widget';\n\nexport default function Page() {\n  return <Widget />;\n}\n`,
+        'app/widgets/Widget.tsx': `'use client';\n// rsc-xray-disable-next-line client-forbidden-import\nimport { readFileSync } from 'fs';\n/* rsc-xray-disable client-hoist-fetch */\nexport async function load() {\n  return await fetch('/api/data');\n}\n/* rsc-xray-enable */\n// rsc-xray-disable-next-line client-forbidden-import\nimport os from 'os';\nimport net from 'net';\n\nexport function Widget() {\n  return <div>{String(readFileSync)}{String(os)}{String(net)}</div>;\n}\n`,
+        'app/lib/format.ts': `// rsc-xray-disable-file\nexport const format = () => '';\n`,
+        '.next/build-manifest.json': BUILD_MANIFEST,
+        '.next/server/app-build-manifest.json': APP_BUILD_MANIFEST,
+      };
+      for (const [file, contents] of Object.entries(files)) {
+        await mkdir(join(projectRoot, file, '..'), { recursive: true });
+        await writeFile(join(projectRoot, file), contents, 'utf8');
+      }
+
+      const model = await analyzeProject({ projectRoot });
+
+      const widget = model.nodes['module:app/widgets/Widget.tsx'];
+      expect(widget?.diagnostics?.map((item) => item.message)).toEqual([
+        "Client components must not import 'net'.",
+      ]);
+      expect(widget?.suggestions).toBeUndefined();
+      expect(widget?.suppressed).toEqual({
+        'client-forbidden-import': 2,
+        'client-hoist-fetch': 1,
+      });
+      expect(model.nodes['module:app/lib/format.ts']?.diagnostics).toEqual([
+        expect.objectContaining({
+          rule: 'unused-suppression',
+          message: 'Unused rsc-xray-disable-file comment: no findings to suppress.',
+        }),
+      ]);
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('only reports unused suppressions of rules that ran on the file', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-analyze-unused-suppress-'));
+    try {
+      const files: Record<string, string> = {
+        'rsc-xray.config.json': JSON.stringify({ rules: { 'server-promise-all': 'off' } }),
+        'app/page.tsx': `// rsc-xray-disable-next-line server-promise-all\nimport { format } from './format';\n// rsc-xray-disable-next-line client-forbidden-import\nexport default function Page() {\n  return <main>{format()}</main>;\n}\n`,
+        'app/format.ts': `// rsc-xray-disable-next-line react19-cache-opportunity\nexport const format = () => '';\n`,
+        '.next/build-manifest.json': BUILD_MANIFEST,
+        '.next/server/app-build-manifest.json': APP_BUILD_MANIFEST,
+      };
+      for (const [file, contents] of Object.entries(files)) {
+        await mkdir(join(projectRoot, file, '..'), { recursive: true });
+        await writeFile(join(projectRoot, file), contents, 'utf8');
+      }
+
+      const model = await analyzeProject({ projectRoot });
+
+      // server-promise-all is off and client-forbidden-import never runs on server modules
+      expect(model.nodes['module:app/page.tsx']?.diagnostics).toBeUndefined();
+      expect(model.nodes['module:app/format.ts']?.diagnostics).toEqual([
+        expect.objectContaining({
+          rule: 'unused-suppression',
+          message:
+            "Unused rsc-xray-disable-next-line comment: no 'react19-cache-opportunity' findings to suppress.",
+        }),
+      ]);
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('runs custom rules from config plugins', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-analyze-plugins-'));
+    try {
+      const files: Record<string, string> = {
+        'rsc-xray.config.json': JSON.stringify({
+          plugins: ['./rules/no-todo.mjs'],
+          rules: { 'no-todo': 'error' },
+        }),
+        'rules/no-todo.mjs': `export default [
+  {
+    id: 'no-todo',
+    meta: { type: 'diagnostic', description: 'Flags TODO comments.' },
+    appliesTo: ['server', 'client', 'shared'],
+    check: (sourceFile, context) => {
+      const from = sourceFile.text.indexOf('TODO');
+      return from === -1 ? [] : [{ rule: 'no-todo', level: 'warn', message: context.kind + ' TODO', loc: { file: context.fileName, range: { from, to: from + 4 } } }];
+    },
+  },
+];
+`,
+        'app/page.tsx': `// TODO: add content\nexport default function Page() {\n  return <div />;\n}\n`,
+        '.next/build-manifest.json': BUILD_MANIFEST,
+        '.next/server/app-build-manifest.json': APP_BUILD_MANIFEST,
+      };
+      for (const [file, contents] of Object.entries(files)) {
+        await mkdir(join(projectRoot, file, '..'), { recursive: true });
+        await writeFile(join(projectRoot, file), contents, 'utf8');
+      }
+
+      const model = await analyzeProject({ projectRoot });
+
+      expect(model.nodes['module:app/page.tsx']?.diagnostics).toEqual([
+        {
+          rule: 'no-todo',
+          level: 'error',
+          message: 'server TODO',
+          loc: { file: 'app/page.tsx', range: { from: 3, to: 7 } },
+        },
+      ]);
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
 });
@@ -0,0 +1,84 @@
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import type { Model } from '@rsc-xray/schemas';
+
+import {
+  collectBaselineEntries,
+  compareWithBaseline,
+  createBaseline,
+  readBaseline,
+  writeBaseline,
+} from '../baseline';
+
+function createModel(sourceText: string, markers: string[]): Model {
+  return {
+    version: '0.1',
+    build: { nextVersion: '15.0.0', timestamp: '2025-09-20T10:00:00.000Z' },
+    routes: [],
+    nodes: {
+      'module:app/Widget.tsx': {
+        id: 'module:app/Widget.tsx',
+        kind: 'client',
+        file: 'app/Widget.tsx',
+        diagnostics: markers.map((marker) => {
+          const from = sourceText.indexOf(marker);
+          return {
+            rule: 'client-forbidden-import',
+            level: 'error',
+            message: `Client components must not import '${marker}'.`,
+            loc: { file: 'app/Widget.tsx', range: { from, to: from + marker.length } },
+          };
+        }),
+      },
+    },
+  };
+}
+
+describe('baseline', () => {
+  it('matches findings after lines shift and reports new and fixed ones', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-baseline-'));
+    try {
+      await mkdir(join(projectRoot, 'app'), { recursive: true });
+      const before = `'use client';\nimport fs from 'fs';\nimport os from 'os';\n`;
+      await writeFile(join(projectRoot, 'app/Widget.tsx'), before, 'utf8');
+      const baseline = await createBaseline(createModel(before, ['fs', 'os']), projectRoot);
+
+      const after = `'use client';\n\n// loads config\n  import fs from 'fs';\nimport net from 'net';\n`;
+      await writeFile(join(projectRoot, 'app/Widget.tsx'), after, 'utf8');
+      const current = await collectBaselineEntries(createModel(after, ['fs', 'net']), projectRoot);
+
+      const comparison = compareWithBaseline(baseline, current);
+
+      expect(comparison.existing.map((entry) => entry.message)).toEqual([
+        "Client components must not import 'fs'.",
+      ]);
+      expect(comparison.new.map((entry) => entry.message)).toEqual([
+        "Client components must not import 'net'.",
+      ]);
+      expect(comparison.fixed.map((entry) => entry.message)).toEqual([
+        "Client components must not import 'os'.",
+      ]);
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('round-trips the baseline file and treats a missing file as empty', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-baseline-'));
+    try {
+      const path = join(projectRoot, '.scx/baseline.json');
+      expect((await readBaseline(path)).findings).toEqual([]);
+
+      const baseline = await createBaseline(createModel('', []), projectRoot);
+      await writeBaseline(path, baseline);
+
+      expect(await readBaseline(path)).toEqual(baseline);
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+});
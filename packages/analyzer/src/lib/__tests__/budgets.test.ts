@@ -0,0 +1,175 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import type { Model } from '@rsc-xray/schemas';
+
+import {
+  applyBudgetDiagnostics,
+  evaluateBudgets,
+  readBudgets,
+  resolveRouteBudget,
+  validateBudgets,
+} from '../budgets';
+
+const MODEL: Model = {
+  version: '0.1',
+  build: { nextVersion: '15.0.0', timestamp: '2025-09-20T10:00:00.000Z' },
+  routes: [
+    {
+      route: '/checkout',
+      rootNodeId: 'route:/checkout',
+      totalBytes: 250_000,
+      chunks: ['static/chunks/framework.js', 'static/chunks/checkout.js'],
+    },
+    {
+      route: '/checkout/[step]',
+      rootNodeId: 'route:/checkout/[step]',
+      totalBytes: 90_000,
+      chunks: ['static/chunks/framework.js'],
+    },
+    { route: '/about', rootNodeId: 'route:/about', totalBytes: 500_000 },
+  ],
+  nodes: {
+    'route:/checkout': {
+      id: 'route:/checkout',
+      kind: 'route',
+      children: ['module:app/checkout/page.tsx'],
+      diagnostics: [{ rule: 'route-budget', level: 'error', message: 'From an earlier run.' }],
+    },
+    'route:/checkout/[step]': { id: 'route:/checkout/[step]', kind: 'route', children: [] },
+    'route:/about': { id: 'route:/about', kind: 'route', children: [] },
+    'module:app/checkout/page.tsx': {
+      id: 'module:app/checkout/page.tsx',
+      kind: 'server',
+      file: 'app/checkout/page.tsx',
+      children: ['module:app/checkout/Cart.tsx', 'module:app/checkout/Map.tsx'],
+    },
+    'module:app/checkout/Cart.tsx': {
+      id: 'module:app/checkout/Cart.tsx',
+      kind: 'client',
+      file: 'app/checkout/Cart.tsx',
+      bytes: 20_000,
+      children: ['module:app/checkout/CartItem.tsx'],
+    },
+    'module:app/checkout/CartItem.tsx': {
+      id: 'module:app/checkout/CartItem.tsx',
+      kind: 'client',
+      file: 'app/checkout/CartItem.tsx',
+      bytes: 5_000,
+    },
+    'module:app/checkout/Map.tsx': {
+      id: 'module:app/checkout/Map.tsx',
+      kind: 'client',
+      file: 'app/checkout/Map.tsx',
+      bytes: 60_000,
+    },
+  },
+};
+
+const BUDGETS = {
+  budgets: [
+    {
+      routes: ['/checkout/**'],
+      maxTotalBytes: 200_000,
+      maxClientIslands: 1,
+      maxIslandBytes: 51_200,
+      maxSharedChunkBytes: 100_000,
+    },
+    { routes: ['/checkout/*'], maxTotalBytes: 100_000 },
+  ],
+};
+
+const CHUNK_SIZES = new Map([
+  ['static/chunks/framework.js', 120_000],
+  ['static/chunks/checkout.js', 130_000],
+]);
+
+describe('budgets', () => {
+  it('merges the limits of matching budgets in order', () => {
+    expect(resolveRouteBudget(BUDGETS, '/checkout')).toEqual({
+      totalBytes: 200_000,
+      clientIslands: 1,
+      islandBytes: 51_200,
+      sharedChunkBytes: 100_000,
+    });
+    expect(resolveRouteBudget(BUDGETS, '/checkout/[step]').totalBytes).toBe(100_000);
+    expect(resolveRouteBudget(BUDGETS, '/about')).toEqual({});
+  });
+
+  it('reports every limit a route exceeds', () => {
+    const evaluation = evaluateBudgets(MODEL, BUDGETS, { chunkSizes: CHUNK_SIZES });
+
+    expect(evaluation.passed).toBe(false);
+    expect(evaluation.routes.map(({ route }) => route)).toEqual(['/checkout', '/checkout/[step]']);
+    expect(evaluation.routes[0]!.metrics).toEqual({
+      totalBytes: 250_000,
+      islands: [
+        { id: 'module:app/checkout/Map.tsx', file: 'app/checkout/Map.tsx', bytes: 60_000 },
+        { id: 'module:app/checkout/Cart.tsx', file: 'app/checkout/Cart.tsx', bytes: 20_000 },
+      ],
+      sharedChunkBytes: 120_000,
+    });
+    expect(
+      evaluation.overages.map(({ route, metric, limit, actual }) => [route, metric, limit, actual])
+    ).toEqual([
+      ['/checkout', 'totalBytes', 200_000, 250_000],
+      ['/checkout', 'clientIslands', 1, 2],
+      ['/checkout', 'islandBytes', 51_200, 60_000],
+      ['/checkout', 'sharedChunkBytes', 100_000, 120_000],
+      ['/checkout/[step]', 'sharedChunkBytes', 100_000, 120_000],
+    ]);
+  });
+
+  it('passes routes within their budgets', () => {
+    const evaluation = evaluateBudgets(MODEL, {
+      budgets: [{ routes: ['/checkout/**'], maxTotalBytes: 300_000, maxClientIslands: 2 }],
+    });
+
+    expect(evaluation.passed).toBe(true);
+    expect(evaluation.routes).toHaveLength(2);
+  });
+
+  it('replaces earlier budget diagnostics on the route nodes', () => {
+    const { overages } = evaluateBudgets(MODEL, BUDGETS, { chunkSizes: CHUNK_SIZES });
+    const model = applyBudgetDiagnostics(MODEL, overages.slice(0, 2));
+
+    expect(model.nodes['route:/checkout']!.diagnostics).toEqual([
+      {
+        rule: 'route-budget',
+        level: 'error',
+        message: 'Route /checkout loads 244.1 kB of JavaScript, 48.8 kB over its 195.3 kB budget.',
+      },
+      {
+        rule: 'route-budget',
+        level: 'error',
+        message: 'Route /checkout renders 2 client islands, 1 over its budget of 1.',
+      },
+    ]);
+    expect(applyBudgetDiagnostics(MODEL, []).nodes['route:/checkout']).not.toHaveProperty(
+      'diagnostics'
+    );
+    expect(MODEL.nodes['route:/checkout']!.diagnostics).toHaveLength(1);
+  });
+
+  it('validates budgets files', async () => {
+    expect(() => validateBudgets({ budgets: [{ routes: '/checkout' }] }, 'budgets.json')).toThrow(
+      "Invalid rsc-xray budgets (budgets.json): 'budgets[0].routes' must be an array of strings"
+    );
+    expect(() => validateBudgets({ budgets: [{ routes: ['/'], maxTotalBytes: '1MB' }] })).toThrow(
+      "'budgets[0].maxTotalBytes' must be a whole number"
+    );
+
+    const dir = await mkdtemp(join(tmpdir(), 'scx-budgets-'));
+    try {
+      const path = join(dir, 'rsc-xray.budgets.json');
+      await expect(readBudgets(path)).rejects.toThrow(`Budgets file not found: ${path}`);
+      await writeFile(path, JSON.stringify(BUDGETS), 'utf8');
+      expect(await readBudgets(path)).toEqual(BUDGETS);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -21,4 +21,47 @@ export function Button() { return <button />; }`,
 
     expect(result).toMatchObject({ kind: 'server', hasUseClientDirective: false });
   });
+
+  it('records exported actions of use server modules', () => {
+    const result = classifyComponent({
+      fileName: '/tmp/actions.ts',
+      sourceText: `'use server';
+export async function createTodo(data: FormData) {}
+export const deleteTodo = async (id: string) => {};
+export default async function archive() {}
+export type TodoInput = { title: string };`,
+    });
+
+    expect(result).toMatchObject({
+      kind: 'server',
+      hasUseServerDirective: true,
+      serverActions: {
+        moduleDirective: true,
+        exported: ['createTodo', 'default', 'deleteTodo'],
+        inline: [],
+      },
+    });
+  });
+
+  it('records inline use server functions without marking the module', () => {
+    const result = classifyComponent({
+      fileName: '/tmp/page.tsx',
+      sourceText: `export default function Page() {
+  async function save() {
+    'use server';
+  }
+  const remove = async () => {
+    'use server';
+  };
+  return <form action={save} />;
+}`,
+    });
+
+    expect(result.hasUseServerDirective).toBe(false);
+    expect(result.serverActions).toEqual({
+      moduleDirective: false,
+      exported: [],
+      inline: ['remove', 'save'],
+    });
+  });
 });
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+
+import { propagateClientKinds } from '../clientPropagation';
+
+describe('propagateClientKinds', () => {
+  it('marks modules imported from client entry points as client with the import chain', () => {
+    const result = propagateClientKinds([
+      { id: 'module:app/page.tsx', kind: 'server', imports: ['module:app/Widget.tsx'] },
+      { id: 'module:app/Widget.tsx', kind: 'client', imports: ['module:app/chart.ts'] },
+      { id: 'module:app/chart.ts', kind: 'server', imports: ['module:app/chart-utils.ts'] },
+      { id: 'module:app/chart-utils.ts', kind: 'server', imports: [] },
+    ]);
+
+    expect(result.get('module:app/page.tsx')).toEqual({ kind: 'server' });
+    expect(result.get('module:app/Widget.tsx')).toEqual({
+      kind: 'client',
+      clientReason: { type: 'directive' },
+    });
+    expect(result.get('module:app/chart-utils.ts')).toEqual({
+      kind: 'client',
+      clientReason: {
+        type: 'import',
+        importChain: ['module:app/Widget.tsx', 'module:app/chart.ts', 'module:app/chart-utils.ts'],
+      },
+    });
+  });
+
+  it('marks modules imported from both server and client code as shared', () => {
+    const result = propagateClientKinds([
+      {
+        id: 'module:app/page.tsx',
+        kind: 'server',
+        imports: ['module:app/Button.tsx', 'module:app/format.ts'],
+      },
+      { id: 'module:app/Button.tsx', kind: 'client', imports: ['module:app/format.ts'] },
+      { id: 'module:app/format.ts', kind: 'server', imports: [] },
+    ]);
+
+    expect(result.get('module:app/format.ts')).toEqual({
+      kind: 'shared',
+      clientReason: {
+        type: 'import',
+        importChain: ['module:app/Button.tsx', 'module:app/format.ts'],
+      },
+    });
+  });
+
+  it('does not walk past client boundaries when computing server reachability', () => {
+    const result = propagateClientKinds([
+      { id: 'module:app/page.tsx', kind: 'server', imports: ['module:app/Modal.tsx'] },
+      { id: 'module:app/Modal.tsx', kind: 'client', imports: ['module:app/useModal.ts'] },
+      { id: 'module:app/useModal.ts', kind: 'server', imports: ['module:app/Modal.tsx'] },
+    ]);
+
+    expect(result.get('module:app/useModal.ts')?.kind).toBe('client');
+    expect(result.get('module:app/Modal.tsx')?.kind).toBe('client');
+  });
+
+  it('stops at use server modules imported by client code', () => {
+    const result = propagateClientKinds([
+      { id: 'module:app/Form.tsx', kind: 'client', imports: ['module:app/actions.ts'] },
+      {
+        id: 'module:app/actions.ts',
+        kind: 'server',
+        imports: ['module:app/db.ts'],
+        serverActions: { moduleDirective: true, exported: ['save'], inline: [] },
+      },
+      { id: 'module:app/db.ts', kind: 'server', imports: [] },
+    ]);
+
+    expect(result.get('module:app/actions.ts')).toEqual({ kind: 'server' });
+    expect(result.get('module:app/db.ts')).toEqual({ kind: 'server' });
+  });
+});
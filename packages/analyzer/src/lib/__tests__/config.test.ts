@@ -0,0 +1,150 @@
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import type { Diagnostic, RscXrayConfig } from '@rsc-xray/schemas';
+
+import {
+  applyRuleConfig,
+  isSourceFileIncluded,
+  loadConfig,
+  matchesGlob,
+  resolveRuleSetting,
+} from '../config';
+
+describe('matchesGlob', () => {
+  it('supports *, **, ?, and brace alternatives', () => {
+    expect(matchesGlob('app/legacy', ['app/legacy/**'])).toBe(true);
+    expect(matchesGlob('app/legacy/deep/Old.tsx', ['app/legacy/**'])).toBe(true);
+    expect(matchesGlob('app/legacy-v2/page.tsx', ['app/legacy/**'])).toBe(false);
+    expect(matchesGlob('app/node_modules', ['**/node_modules/**'])).toBe(true);
+    expect(matchesGlob('app/page.tsx', ['app/*.tsx'])).toBe(true);
+    expect(matchesGlob('app/blog/page.tsx', ['app/*.tsx'])).toBe(false);
+    expect(matchesGlob('app/blog/page.tsx', ['app/**/*.{ts,tsx}'])).toBe(true);
+    expect(matchesGlob('app/page.tsx', ['./app/**/page.tsx'])).toBe(true);
+    expect(matchesGlob('app/a1.tsx', ['app/a?.tsx'])).toBe(true);
+  });
+});
+
+describe('resolveRuleSetting', () => {
+  const config: RscXrayConfig = {
+    rules: {
+      'client-component-oversized': { level: 'error', options: { thresholdBytes: 1000 } },
+      'duplicate-dependencies': 'off',
+    },
+    overrides: [
+      {
+        files: ['app/admin/**'],
+        rules: {
+          'client-component-oversized': { options: { thresholdBytes: 5000 } },
+          'duplicate-dependencies': 'info',
+        },
+      },
+    ],
+  };
+
+  it('applies matching overrides after the top-level rules', () => {
+    expect(resolveRuleSetting(config, 'client-component-oversized', 'app/page.tsx')).toEqual({
+      level: 'error',
+      options: { thresholdBytes: 1000 },
+    });
+    expect(resolveRuleSetting(config, 'client-component-oversized', 'app/admin/page.tsx')).toEqual({
+      level: 'error',
+      options: { thresholdBytes: 5000 },
+    });
+    expect(resolveRuleSetting(config, 'duplicate-dependencies', 'app/admin/page.tsx').level).toBe(
+      'info'
+    );
+    expect(resolveRuleSetting(config, 'server-promise-all', 'app/page.tsx')).toEqual({
+      options: {},
+    });
+  });
+
+  it('honors former rule ids from the catalogue', () => {
+    const legacy: RscXrayConfig = { rules: { 'serialization-boundary-violation': 'warn' } };
+    expect(
+      resolveRuleSetting(legacy, 'server-client-serialization-violation', 'app/page.tsx').level
+    ).toBe('warn');
+  });
+
+  it('drops disabled findings and overrides levels', () => {
+    const diagnostics: Diagnostic[] = [
+      {
+        rule: 'duplicate-dependencies',
+        level: 'warn',
+        message: 'shared',
+        loc: { file: 'app/page.tsx', range: { from: 0, to: 0 } },
+      },
+      { rule: 'duplicate-dependencies', level: 'warn', message: 'shared' },
+      { rule: 'client-component-oversized', level: 'warn', message: 'big' },
+    ];
+
+    expect(applyRuleConfig(diagnostics, config, 'app/admin/Chart.tsx')).toEqual([
+      { rule: 'duplicate-dependencies', level: 'info', message: 'shared' },
+      { rule: 'client-component-oversized', level: 'error', message: 'big' },
+    ]);
+  });
+});
+
+describe('isSourceFileIncluded', () => {
+  it('always excludes build and dependency directories', () => {
+    const config: RscXrayConfig = { include: ['app/**'], exclude: ['**/*.test.tsx'] };
+    expect(isSourceFileIncluded(config, 'app/page.tsx')).toBe(true);
+    expect(isSourceFileIncluded(config, 'app/page.test.tsx')).toBe(false);
+    expect(isSourceFileIncluded(config, 'app/node_modules/pkg/index.js')).toBe(false);
+    expect(isSourceFileIncluded(config, 'pages/index.tsx')).toBe(false);
+  });
+});
+
+describe('loadConfig', () => {
+  it('returns an empty config when the project has none', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-config-'));
+    try {
+      expect(await loadConfig(projectRoot)).toEqual({ config: {} });
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('loads TypeScript configs without writing into the project', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-config-'));
+    try {
+      await writeFile(
+        join(projectRoot, 'rsc-xray.config.ts'),
+        `import type { RscXrayConfig } from '@rsc-xray/schemas';\nimport { join } from 'node:path';\nimport { base } from './base.mjs';\n\nconst threshold: number = base * 2;\nexport default { include: [join('app', '**')], rules: { 'client-component-oversized': { options: { thresholdBytes: threshold } } } } satisfies RscXrayConfig;\n`,
+        'utf8'
+      );
+      await writeFile(join(projectRoot, 'base.mjs'), 'export const base = 1024;\n', 'utf8');
+
+      const loaded = await loadConfig(projectRoot);
+
+      expect(loaded.filePath).toBe(join(projectRoot, 'rsc-xray.config.ts'));
+      expect(loaded.config.include).toEqual([join('app', '**')]);
+      expect(loaded.config.rules).toEqual({
+        'client-component-oversized': { options: { thresholdBytes: 2048 } },
+      });
+      expect((await readdir(projectRoot)).sort()).toEqual(['base.mjs', 'rsc-xray.config.ts']);
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('reports invalid settings with the config path', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-config-'));
+    try {
+      await writeFile(
+        join(projectRoot, 'custom.json'),
+        JSON.stringify({ rules: { 'duplicate-dependencies': 'loud' } }),
+        'utf8'
+      );
+
+      await expect(loadConfig(projectRoot, 'custom.json')).rejects.toThrow(
+        /custom\.json\): 'rules\.duplicate-dependencies' must be one of off, error, warn, info/
+      );
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+});
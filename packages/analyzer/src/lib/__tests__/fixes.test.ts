@@ -0,0 +1,159 @@
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import { fixProject } from '../fixes';
+
+// Fixes only edit sources, so the projects have no build output
+async function createProject(files: Record<string, string>): Promise<string> {
+  const projectRoot = await mkdtemp(join(tmpdir(), 'scx-fixes-'));
+  for (const [file, content] of Object.entries(files)) {
+    await mkdir(dirname(join(projectRoot, file)), { recursive: true });
+    await writeFile(join(projectRoot, file), content, 'utf8');
+  }
+  return projectRoot;
+}
+
+const PAGE = [
+  'async function loadUser() {',
+  '  const user = await getUser();',
+  '  const prefs = await getPrefs();',
+  '  return { user, prefs };',
+  '}',
+  '',
+  'export default async function Page() {',
+  '  const a = await getA();',
+  '  const b = await getB();',
+  '  return <div>{a}{b}</div>;',
+  '}',
+  '',
+].join('\n');
+
+const FIXED_PAGE = PAGE.replace(
+  '  const user = await getUser();\n  const prefs = await getPrefs();',
+  '  const [user, prefs] = await Promise.all([getUser(), getPrefs()]);'
+).replace(
+  '  const a = await getA();\n  const b = await getB();',
+  '  const [a, b] = await Promise.all([getA(), getB()]);'
+);
+
+describe('fixProject', () => {
+  it('applies fixes one at a time against the re-analyzed source without writing', async () => {
+    const projectRoot = await createProject({ 'app/page.tsx': PAGE });
+    try {
+      const result = await fixProject({ projectRoot, fixKinds: ['refactor'] });
+
+      // The second fix is computed from the source the first one produced, so its offsets
+      // account for the lines the first fix removed
+      expect(result.fixes.map((fix) => fix.title)).toEqual([
+        'Run 2 awaits in parallel with Promise.all',
+        'Run 2 awaits in parallel with Promise.all',
+      ]);
+      expect(result.fixes[0]).toMatchObject({
+        rule: 'server-promise-all',
+        file: 'app/page.tsx',
+        kind: 'refactor',
+      });
+      expect(result.files).toEqual([
+        { file: 'app/page.tsx', originalText: PAGE, text: FIXED_PAGE },
+      ]);
+      expect(result.unfixed).toEqual([]);
+      expect(await readFile(join(projectRoot, 'app/page.tsx'), 'utf8')).toBe(PAGE);
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('reports the findings left when a file reaches the fix limit', async () => {
+    const projectRoot = await createProject({ 'app/page.tsx': PAGE });
+    try {
+      const result = await fixProject({ projectRoot, fixKinds: ['refactor'], maxFixesPerFile: 1 });
+
+      expect(result.fixes).toHaveLength(1);
+      expect(result.unfixed).toEqual([
+        {
+          rule: 'server-promise-all',
+          file: 'app/page.tsx',
+          message: expect.any(String),
+          reason: 'limit',
+        },
+      ]);
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('only applies quick fixes unless other kinds are requested', async () => {
+    const projectRoot = await createProject({
+      'app/page.tsx': PAGE,
+      'app/Uploader.tsx': `'use client';\nimport { readFileSync } from 'fs';\n\nexport function Uploader() {\n  return <button onClick={() => readFileSync('x')} />;\n}\n`,
+    });
+    try {
+      expect((await fixProject({ projectRoot })).fixes).toEqual([]);
+      expect(
+        (await fixProject({ projectRoot, fixKinds: ['refactor'] })).fixes.map((fix) => fix.rule)
+      ).toEqual(['client-forbidden-import', 'server-promise-all', 'server-promise-all']);
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('creates files, filters by rule, and skips suppressed findings', async () => {
+    const projectRoot = await createProject({
+      'app/page.tsx': PAGE,
+      'app/Uploader.tsx': `'use client';\nimport { readFileSync } from 'fs';\n\nexport function Uploader() {\n  return <button onClick={() => readFileSync('x')} />;\n}\n`,
+      'app/Price.tsx': `// rsc-xray-disable-next-line client-directive-unnecessary\n'use client';\nexport const Price = () => <span />;\n`,
+    });
+    try {
+      const result = await fixProject({
+        projectRoot,
+        fixRules: ['client-forbidden-import', 'client-directive-unnecessary'],
+        fixKinds: ['quickfix', 'refactor'],
+      });
+
+      expect(result.fixes.map((fix) => [fix.rule, fix.file])).toEqual([
+        ['client-forbidden-import', 'app/Uploader.tsx'],
+      ]);
+      expect(result.files.map((file) => file.file)).toEqual([
+        'app/Uploader.fs.actions.ts',
+        'app/Uploader.tsx',
+      ]);
+      expect(result.files[0]).not.toHaveProperty('originalText');
+      expect(result.files[0]?.text).toContain('export async function readFileSync() {');
+      expect(result.files[1]?.text).toContain(
+        "import { readFileSync } from './Uploader.fs.actions';"
+      );
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('skips fixes that would create a file that already exists', async () => {
+    const actions = `'use server';\n\nexport async function load() {}\n`;
+    const projectRoot = await createProject({
+      'app/Uploader.tsx': `'use client';\nimport { readFileSync } from 'fs';\n\nexport function Uploader() {\n  return <button onClick={() => readFileSync('x')} />;\n}\n`,
+      'app/Uploader.fs.actions.ts': actions,
+    });
+    try {
+      const result = await fixProject({
+        projectRoot,
+        fixRules: ['client-forbidden-import'],
+        fixKinds: ['refactor'],
+      });
+
+      expect(result.fixes).toEqual([]);
+      expect(result.files).toEqual([]);
+      expect(result.unfixed).toEqual([
+        expect.objectContaining({
+          rule: 'client-forbidden-import',
+          file: 'app/Uploader.tsx',
+          reason: 'failed',
+        }),
+      ]);
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,4 +1,5 @@
-import { readdir } from 'node:fs/promises';
+import { mkdir, mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 
 import { describe, expect, it } from 'vitest';
@@ -71,8 +72,8 @@ describe('buildGraph', () => {
     });
 
     expect(graph.routes).toEqual([
-      { route: '/', rootNodeId: 'route:/' },
-      { route: '/products', rootNodeId: 'route:/products' },
+      { route: '/', rootNodeId: 'route:/', router: 'app' },
+      { route: '/products', rootNodeId: 'route:/products', router: 'app' },
     ]);
 
     expect(graph.nodes['route:/']).toMatchObject({
@@ -104,4 +105,428 @@ describe('buildGraph', () => {
 
     expect(graph.nodes['module:app/components/ServerMessage.tsx'].diagnostics).toBeUndefined();
   });
+
+  it('resolves tsconfig path aliases and baseUrl imports to project files', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-graph-aliases-'));
+    try {
+      await mkdir(join(projectRoot, 'app/components'), { recursive: true });
+      await mkdir(join(projectRoot, 'app/lib'), { recursive: true });
+
+      await writeFile(
+        join(projectRoot, 'tsconfig.base.json'),
+        JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@/*': ['./app/*'] } } }),
+        'utf8'
+      );
+      await writeFile(
+        join(projectRoot, 'tsconfig.json'),
+        JSON.stringify({ extends: './tsconfig.base.json' }),
+        'utf8'
+      );
+      await writeFile(
+        join(projectRoot, 'app/page.tsx'),
+        `import { Button } from '@/components/Button';\nimport { formatPrice } from 'app/lib';\nimport { useState } from 'react';\n\nexport default function Page() {\n  return <Button label={formatPrice(1)} />;\n}\n`,
+        'utf8'
+      );
+      await writeFile(
+        join(projectRoot, 'app/components/Button.tsx'),
+        `'use client';\nexport function Button({ label }: { label: string }) {\n  return <button>{label}</button>;\n}\n`,
+        'utf8'
+      );
+      await writeFile(
+        join(projectRoot, 'app/lib/index.ts'),
+        `export const formatPrice = (value: number) => value.toFixed(2);\n`,
+        'utf8'
+      );
+
+      const filePaths = await collectTsFiles(join(projectRoot, 'app'));
+      const classified = await classifyFiles({ projectRoot, filePaths });
+      const graph = await buildGraph({ projectRoot, classifiedFiles: classified });
+
+      expect(graph.nodes['module:app/page.tsx']?.children).toEqual([
+        'module:app/components/Button.tsx',
+        'module:app/lib/index.ts',
+      ]);
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('nests pages inside the layout, template, error, and loading files of their segments', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-graph-route-tree-'));
+    try {
+      await mkdir(join(projectRoot, 'app/dashboard'), { recursive: true });
+
+      const files: Record<string, string> = {
+        'app/layout.tsx': `export default function RootLayout({ children }) {\n  return <html>{children}</html>;\n}\n`,
+        'app/page.tsx': `export default function Home() {\n  return <main />;\n}\n`,
+        'app/dashboard/layout.tsx': `export default function DashboardLayout({ children }) {\n  return <section>{children}</section>;\n}\n`,
+        'app/dashboard/template.tsx': `export default function Template({ children }) {\n  return <div>{children}</div>;\n}\n`,
+        'app/dashboard/error.tsx': `'use client';\nexport default function ErrorBoundary() {\n  return <p>Error</p>;\n}\n`,
+        'app/dashboard/loading.tsx': `export default function Loading() {\n  return <p>Loading</p>;\n}\n`,
+        'app/dashboard/page.tsx': `export default async function Dashboard() {\n  return <main />;\n}\n`,
+      };
+      for (const [file, contents] of Object.entries(files)) {
+        await writeFile(join(projectRoot, file), contents, 'utf8');
+      }
+
+      const filePaths = await collectTsFiles(join(projectRoot, 'app'));
+      const classified = await classifyFiles({ projectRoot, filePaths });
+      const graph = await buildGraph({ projectRoot, classifiedFiles: classified });
+
+      expect(graph.nodes['route:/']?.children).toEqual(['layout:/:app/layout.tsx']);
+      expect(graph.nodes['layout:/:app/layout.tsx']?.children).toEqual([
+        'module:app/layout.tsx',
+        'module:app/page.tsx',
+      ]);
+
+      const chain: string[] = [];
+      let currentId = graph.nodes['route:/dashboard']?.children?.[0];
+      while (currentId && !currentId.startsWith('module:')) {
+        chain.push(currentId);
+        currentId = graph.nodes[currentId]?.children?.[1];
+      }
+      expect(chain).toEqual([
+        'layout:/dashboard:app/layout.tsx',
+        'layout:/dashboard:app/dashboard/layout.tsx',
+        'template:/dashboard:app/dashboard/template.tsx',
+        'error:/dashboard:app/dashboard/error.tsx',
+        'loading:/dashboard:app/dashboard/loading.tsx',
+      ]);
+      expect(currentId).toBe('module:app/dashboard/page.tsx');
+
+      expect(graph.nodes['error:/dashboard:app/dashboard/error.tsx']).toMatchObject({
+        kind: 'client',
+        role: 'error',
+        file: 'app/dashboard/error.tsx',
+      });
+      expect(graph.nodes['loading:/dashboard:app/dashboard/loading.tsx']).toMatchObject({
+        kind: 'suspense',
+        role: 'loading',
+        children: ['module:app/dashboard/loading.tsx', 'module:app/dashboard/page.tsx'],
+      });
+      expect(graph.nodes['module:app/dashboard/layout.tsx']?.role).toBe('layout');
+      expect(graph.nodes['module:app/dashboard/page.tsx']?.role).toBe('page');
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('attaches slots to their layout, links interceptors, and reports duplicate routes', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-graph-segments-'));
+    try {
+      const files: Record<string, string> = {
+        'app/dashboard/layout.tsx': `export default function Layout({ children, analytics }) {\n  return <>{children}{analytics}</>;\n}\n`,
+        'app/dashboard/page.tsx': `export default function Dashboard() {\n  return <main />;\n}\n`,
+        'app/dashboard/@analytics/loading.tsx': `export default function Loading() {\n  return <p />;\n}\n`,
+        'app/dashboard/@analytics/page.tsx': `export default function Analytics() {\n  return <section />;\n}\n`,
+        'app/photo/[id]/page.tsx': `export default function Photo() {\n  return <img />;\n}\n`,
+        'app/feed/(..)photo/[id]/page.tsx': `export default function PhotoModal() {\n  return <dialog />;\n}\n`,
+        'app/(a)/about/page.tsx': `export default function AboutA() {\n  return <p />;\n}\n`,
+        'app/(b)/about/page.tsx': `export default function AboutB() {\n  return <p />;\n}\n`,
+      };
+      for (const [file, contents] of Object.entries(files)) {
+        await mkdir(join(projectRoot, file, '..'), { recursive: true });
+        await writeFile(join(projectRoot, file), contents, 'utf8');
+      }
+
+      const filePaths = await collectTsFiles(join(projectRoot, 'app'));
+      const classified = await classifyFiles({ projectRoot, filePaths });
+      const graph = await buildGraph({ projectRoot, classifiedFiles: classified });
+
+      expect(graph.routes.map((entry) => entry.route)).toEqual([
+        '/about',
+        '/dashboard',
+        '/feed/(..)photo/[id]',
+        '/photo/[id]',
+      ]);
+
+      const dashboard = graph.routes.find((entry) => entry.route === '/dashboard');
+      expect(dashboard?.slots).toEqual(['analytics']);
+      expect(graph.nodes['layout:/dashboard:app/dashboard/layout.tsx']?.children).toEqual([
+        'module:app/dashboard/layout.tsx',
+        'module:app/dashboard/page.tsx',
+        'loading:/dashboard:app/dashboard/@analytics/loading.tsx',
+      ]);
+      expect(graph.nodes['loading:/dashboard:app/dashboard/@analytics/loading.tsx']).toMatchObject({
+        kind: 'suspense',
+        children: [
+          'module:app/dashboard/@analytics/loading.tsx',
+          'module:app/dashboard/@analytics/page.tsx',
+        ],
+      });
+
+      expect(graph.routes.find((entry) => entry.route === '/feed/(..)photo/[id]')).toMatchObject({
+        intercepts: '/photo/[id]',
+        params: [{ name: 'id', type: 'dynamic' }],
+      });
+
+      expect(graph.nodes['route:/about']?.children).toEqual(['module:app/(a)/about/page.tsx']);
+      expect(graph.nodes['route:/about']?.diagnostics).toEqual([
+        expect.objectContaining({
+          rule: 'duplicate-route',
+          level: 'error',
+          loc: { file: 'app/(b)/about/page.tsx', range: { from: 0, to: 0 } },
+        }),
+      ]);
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('models route handlers with their methods, config, and matching middleware', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-graph-handlers-'));
+    try {
+      const files: Record<string, string> = {
+        'app/layout.tsx': `export default function Layout({ children }) {\n  return <html>{children}</html>;\n}\n`,
+        'app/page.tsx': `export default function Home() {\n  return <main />;\n}\n`,
+        'app/api/users/[id]/route.ts': `export const runtime = 'edge';\nexport const dynamic = 'force-dynamic';\n\nexport async function GET() {\n  return Response.json({});\n}\n\nexport const DELETE = async () => new Response(null);\n`,
+      };
+      for (const [file, contents] of Object.entries(files)) {
+        await mkdir(join(projectRoot, file, '..'), { recursive: true });
+        await writeFile(join(projectRoot, file), contents, 'utf8');
+      }
+
+      const filePaths = await collectTsFiles(join(projectRoot, 'app'));
+      const classified = await classifyFiles({ projectRoot, filePaths });
+      const graph = await buildGraph({
+        projectRoot,
+        classifiedFiles: classified,
+        middleware: { filePath: 'middleware.ts', matchers: ['/api/:path*'] },
+      });
+
+      expect(graph.routes).toEqual([
+        { route: '/', rootNodeId: 'route:/', router: 'app' },
+        {
+          route: '/api/users/[id]',
+          rootNodeId: 'route:/api/users/[id]',
+          segmentConfig: { dynamic: 'force-dynamic', runtime: 'edge' },
+          params: [{ name: 'id', type: 'dynamic' }],
+          handler: { methods: ['GET', 'DELETE'] },
+          middleware: ['middleware.ts'],
+          router: 'app',
+        },
+      ]);
+      expect(graph.nodes['route:/api/users/[id]']?.children).toEqual([
+        'module:app/api/users/[id]/route.ts',
+      ]);
+      expect(graph.nodes['module:app/api/users/[id]/route.ts']?.role).toBe('route');
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('adds Pages Router routes next to App Router routes', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-graph-pages-'));
+    try {
+      const files: Record<string, string> = {
+        'app/layout.tsx': `export default function Layout({ children }) {\n  return <html>{children}</html>;\n}\n`,
+        'app/page.tsx': `export default function Home() {\n  return <main />;\n}\n`,
+        'pages/_app.tsx': `export default function App({ Component, pageProps }) {\n  return <Component {...pageProps} />;\n}\n`,
+        'pages/index.tsx': `export default function Legacy() {\n  return <main />;\n}\n`,
+        'pages/blog/[slug].tsx': `export async function getStaticPaths() {\n  return { paths: [], fallback: 'blocking' };\n}\n\nexport async function getStaticProps() {\n  return { props: {}, revalidate: 60 };\n}\n\nexport default function Post() {\n  return <article />;\n}\n`,
+        'pages/account.tsx': `export async function getServerSideProps() {\n  return { props: {} };\n}\n\nexport default function Account() {\n  return <main />;\n}\n`,
+        'pages/api/health.ts': `export default function handler(req, res) {\n  res.status(200).json({ ok: true });\n}\n`,
+      };
+      for (const [file, contents] of Object.entries(files)) {
+        await mkdir(join(projectRoot, file, '..'), { recursive: true });
+        await writeFile(join(projectRoot, file), contents, 'utf8');
+      }
+
+      const filePaths = [
+        ...(await collectTsFiles(join(projectRoot, 'app'))),
+        ...(await collectTsFiles(join(projectRoot, 'pages'))),
+      ];
+      const classified = await classifyFiles({ projectRoot, filePaths });
+      const graph = await buildGraph({ projectRoot, classifiedFiles: classified });
+
+      expect(graph.routes).toEqual([
+        { route: '/', rootNodeId: 'route:/', router: 'app' },
+        {
+          route: '/account',
+          rootNodeId: 'route:/account',
+          cache: { dynamic: 'force-dynamic' },
+          router: 'pages',
+          dataFetching: ['getServerSideProps'],
+        },
+        {
+          route: '/api/health',
+          rootNodeId: 'route:/api/health',
+          handler: { methods: [] },
+          router: 'pages',
+        },
+        {
+          route: '/blog/[slug]',
+          rootNodeId: 'route:/blog/[slug]',
+          cache: { dynamic: 'force-static', revalidateSeconds: 60 },
+          params: [{ name: 'slug', type: 'dynamic' }],
+          router: 'pages',
+          dataFetching: ['getStaticProps', 'getStaticPaths'],
+        },
+      ]);
+
+      expect(graph.nodes['route:/account']?.children).toEqual(['layout:/account:pages/_app.tsx']);
+      expect(graph.nodes['layout:/account:pages/_app.tsx']?.children).toEqual([
+        'module:pages/_app.tsx',
+        'module:pages/account.tsx',
+      ]);
+      expect(graph.nodes['module:pages/api/health.ts']?.role).toBe('route');
+      expect(graph.nodes['route:/']?.diagnostics).toEqual([
+        expect.objectContaining({
+          rule: 'duplicate-route',
+          loc: { file: 'pages/index.tsx', range: { from: 0, to: 0 } },
+        }),
+      ]);
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('records dynamic, re-export, and type-only edges', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-graph-edges-'));
+    try {
+      const files: Record<string, string> = {
+        'app/page.tsx': `import dynamic from 'next/dynamic';\nimport { Header } from './components';\n\nconst Chart = dynamic(() => import('./Chart'));\n\nexport default async function Page() {\n  const { format } = await import('./format');\n  return <Header title={format('x')}><Chart /></Header>;\n}\n`,
+        'app/components/index.ts': `export * from './Header';\nexport type { Theme } from './theme';\n`,
+        'app/components/Header.tsx': `export function Header({ children }) {\n  return <header>{children}</header>;\n}\n`,
+        'app/components/theme.ts': `export type Theme = 'light' | 'dark';\n`,
+        'app/Chart.tsx': `'use client';\nimport type { Theme } from './components/theme';\n\nexport default function Chart() {\n  return <canvas />;\n}\n`,
+        'app/format.ts': `export const format = (value: string) => value;\n`,
+      };
+      for (const [file, contents] of Object.entries(files)) {
+        await mkdir(join(projectRoot, file, '..'), { recursive: true });
+        await writeFile(join(projectRoot, file), contents, 'utf8');
+      }
+
+      const filePaths = await collectTsFiles(join(projectRoot, 'app'));
+      const classified = await classifyFiles({ projectRoot, filePaths });
+      const graph = await buildGraph({ projectRoot, classifiedFiles: classified });
+
+      expect(graph.nodes['module:app/page.tsx']?.edges).toEqual([
+        { target: 'module:app/Chart.tsx', kind: 'dynamic' },
+        { target: 'module:app/components/index.ts', kind: 'static' },
+        { target: 'module:app/format.ts', kind: 'dynamic' },
+      ]);
+      expect(graph.nodes['module:app/components/index.ts']?.edges).toEqual([
+        { target: 'module:app/components/Header.tsx', kind: 're-export' },
+        { target: 'module:app/components/theme.ts', kind: 'type-only' },
+      ]);
+      expect(graph.nodes['module:app/components/index.ts']?.children).toEqual([
+        'module:app/components/Header.tsx',
+      ]);
+      // Type-only imports are erased, so they never pull a module into the client bundle
+      expect(graph.nodes['module:app/Chart.tsx']?.children).toEqual([]);
+      expect(graph.nodes['module:app/components/theme.ts']?.kind).toBe('server');
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('adds a component layer with render edges resolved through imports and barrels', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-graph-components-'));
+    try {
+      const files: Record<string, string> = {
+        'app/page.tsx': `import { Card } from './ui';\nimport * as widgets from './widgets';\nimport { unused } from './unused';\n\nexport default function Page() {\n  return <Card><widgets.Counter /></Card>;\n}\n`,
+        'app/ui/index.ts': `export * from './Card';\n`,
+        'app/ui/Card.tsx': `export function Card({ children }) {\n  return <section><Title />{children}</section>;\n}\n\nfunction Title() {\n  return <h2 />;\n}\n`,
+        'app/widgets.tsx': `'use client';\n\nexport function Counter() {\n  return <button />;\n}\n\nexport function Slider() {\n  return <input />;\n}\n`,
+        'app/unused.tsx': `export const unused = 1;\n\nexport function Banner() {\n  return <aside />;\n}\n`,
+      };
+      for (const [file, contents] of Object.entries(files)) {
+        await mkdir(join(projectRoot, file, '..'), { recursive: true });
+        await writeFile(join(projectRoot, file), contents, 'utf8');
+      }
+
+      const filePaths = await collectTsFiles(join(projectRoot, 'app'));
+      const classified = await classifyFiles({ projectRoot, filePaths });
+      const graph = await buildGraph({
+        projectRoot,
+        classifiedFiles: classified,
+        components: true,
+      });
+
+      expect(graph.nodes['module:app/widgets.tsx']?.components).toEqual([
+        'component:app/widgets.tsx#Counter',
+        'component:app/widgets.tsx#Slider',
+      ]);
+      expect(graph.nodes['component:app/page.tsx#Page']).toEqual({
+        id: 'component:app/page.tsx#Page',
+        kind: 'server',
+        file: 'app/page.tsx',
+        name: 'Page',
+        children: ['component:app/ui/Card.tsx#Card', 'component:app/widgets.tsx#Counter'],
+      });
+      expect(graph.nodes['component:app/ui/Card.tsx#Card']?.children).toEqual([
+        'component:app/ui/Card.tsx#Title',
+      ]);
+      expect(graph.nodes['component:app/widgets.tsx#Counter']?.kind).toBe('client');
+      // Imported but never rendered, so no render edge
+      expect(graph.nodes['component:app/unused.tsx#Banner']?.children).toEqual([]);
+
+      const withoutLayer = await buildGraph({ projectRoot, classifiedFiles: classified });
+      expect(withoutLayer.nodes['component:app/page.tsx#Page']).toBeUndefined();
+      expect(withoutLayer.nodes['module:app/page.tsx']?.components).toBeUndefined();
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('follows renamed barrel exports to the components they re-export', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-graph-renamed-barrels-'));
+    try {
+      const files: Record<string, string> = {
+        'app/page.tsx': `import Shell, { Button, Badge, Icon } from './ui';
+
+export default function Page() {
+  return <Shell><Button /><Badge /><Icon /></Shell>;
+}
+`,
+        'app/ui/index.ts': `export { default as Button } from './Button';
+export { Label as Badge } from './Label';
+export { default } from './Shell';
+export * from './icons';
+`,
+        'app/ui/Button.tsx': `export default function Button() {
+  return <button />;
+}
+`,
+        'app/ui/Label.tsx': `export function Label() {
+  return <span />;
+}
+`,
+        'app/ui/Shell.tsx': `export default function Shell({ children }) {
+  return <main>{children}</main>;
+}
+`,
+        'app/ui/icons.tsx': `export function Icon() {
+  return <svg />;
+}
+
+export default function Logo() {
+  return <svg />;
+}
+`,
+      };
+      for (const [file, contents] of Object.entries(files)) {
+        await mkdir(join(projectRoot, file, '..'), { recursive: true });
+        await writeFile(join(projectRoot, file), contents, 'utf8');
+      }
+
+      const filePaths = await collectTsFiles(join(projectRoot, 'app'));
+      const classified = await classifyFiles({ projectRoot, filePaths });
+      const graph = await buildGraph({
+        projectRoot,
+        classifiedFiles: classified,
+        components: true,
+      });
+
+      expect(graph.nodes['component:app/page.tsx#Page']?.children).toEqual([
+        'component:app/ui/Button.tsx#Button',
+        'component:app/ui/Label.tsx#Label',
+        'component:app/ui/Shell.tsx#Shell',
+        'component:app/ui/icons.tsx#Icon',
+      ]);
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
 });
@@ -0,0 +1,68 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import {
+  loadMiddleware,
+  matcherToRegExp,
+  middlewareMatchesRoute,
+  parseMiddlewareMatchers,
+} from '../middleware';
+
+describe('middleware', () => {
+  it('parses string, array, and object matchers', () => {
+    expect(parseMiddlewareMatchers(`export const config = { matcher: '/about/:path*' };`)).toEqual([
+      '/about/:path*',
+    ]);
+    expect(
+      parseMiddlewareMatchers(
+        `export const config = {\n  matcher: ['/dashboard/:path+', { source: '/api/:path*', has: [] }],\n};`
+      )
+    ).toEqual(['/dashboard/:path+', '/api/:path*']);
+    expect(parseMiddlewareMatchers(`export function middleware() {}`)).toBeUndefined();
+  });
+
+  it('converts path-to-regexp matchers into regular expressions', () => {
+    expect(matcherToRegExp('/about/:path*').test('/about')).toBe(true);
+    expect(matcherToRegExp('/about/:path*').test('/about/team/jobs')).toBe(true);
+    expect(matcherToRegExp('/about/:path*').test('/aboutus')).toBe(false);
+    expect(matcherToRegExp('/dashboard/:path+').test('/dashboard')).toBe(false);
+    expect(matcherToRegExp('/dashboard/:path+').test('/dashboard/settings')).toBe(true);
+    expect(matcherToRegExp('/users/:id').test('/users/42')).toBe(true);
+
+    const negative = matcherToRegExp('/((?!api|_next/static|favicon.ico).*)');
+    expect(negative.test('/shop/cart')).toBe(true);
+    expect(negative.test('/api/users')).toBe(false);
+  });
+
+  it('matches route patterns against matchers and runs everywhere without config', () => {
+    const scoped = { filePath: 'middleware.ts', matchers: ['/blog/:slug', '/account/:path*'] };
+    expect(middlewareMatchesRoute(scoped, '/blog/[slug]')).toBe(true);
+    expect(middlewareMatchesRoute(scoped, '/account/[[...rest]]')).toBe(true);
+    expect(middlewareMatchesRoute(scoped, '/')).toBe(false);
+    expect(middlewareMatchesRoute({ filePath: 'middleware.ts' }, '/')).toBe(true);
+  });
+
+  it('loads middleware from src/ when the project root has none', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-middleware-'));
+    try {
+      expect(await loadMiddleware(projectRoot)).toBeUndefined();
+
+      await mkdir(join(projectRoot, 'src'), { recursive: true });
+      await writeFile(
+        join(projectRoot, 'src/middleware.ts'),
+        `export function middleware() {}\nexport const config = { matcher: '/admin/:path*' };\n`,
+        'utf8'
+      );
+
+      expect(await loadMiddleware(projectRoot)).toEqual({
+        filePath: 'src/middleware.ts',
+        matchers: ['/admin/:path*'],
+      });
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Model } from '@rsc-xray/schemas';
+
+import { diffModels, getRouteRendering } from '../modelDiff';
+
+const BASE: Model = {
+  version: '0.1',
+  build: { nextVersion: '15.0.0', timestamp: '2025-09-20T10:00:00.000Z' },
+  routes: [
+    { route: '/', rootNodeId: 'route:/', totalBytes: 120_000, cache: { revalidateSeconds: 60 } },
+    { route: '/cart', rootNodeId: 'route:/cart', totalBytes: 80_000 },
+    { route: '/legacy', rootNodeId: 'route:/legacy', totalBytes: 10_000 },
+  ],
+  nodes: {
+    'module:app/Header.tsx': {
+      id: 'module:app/Header.tsx',
+      kind: 'client',
+      file: 'app/Header.tsx',
+      bytes: 4_000,
+    },
+    'module:app/Legacy.tsx': {
+      id: 'module:app/Legacy.tsx',
+      kind: 'client',
+      file: 'app/Legacy.tsx',
+      bytes: 2_000,
+    },
+    'module:app/page.tsx': {
+      id: 'module:app/page.tsx',
+      kind: 'server',
+      file: 'app/page.tsx',
+      diagnostics: [
+        { rule: 'client-forbidden-import', level: 'error', message: "Don't import 'fs'." },
+      ],
+      suggestions: [
+        {
+          rule: 'client-size-threshold',
+          level: 'warn',
+          message: 'Client bundle is 52000 bytes.',
+          loc: { file: 'app/page.tsx', range: { from: 10, to: 20 } },
+        },
+      ],
+    },
+  },
+};
+
+const HEAD: Model = {
+  ...BASE,
+  routes: [
+    { route: '/', rootNodeId: 'route:/', totalBytes: 150_000, cache: { dynamic: 'force-dynamic' } },
+    { route: '/cart', rootNodeId: 'route:/cart', totalBytes: 80_000 },
+    { route: '/search', rootNodeId: 'route:/search', totalBytes: 5_000 },
+  ],
+  nodes: {
+    'module:app/Header.tsx': {
+      id: 'module:app/Header.tsx',
+      kind: 'client',
+      file: 'app/Header.tsx',
+      bytes: 3_000,
+    },
+    'module:app/Search.tsx': {
+      id: 'module:app/Search.tsx',
+      kind: 'client',
+      file: 'app/Search.tsx',
+      bytes: 30_000,
+    },
+    'module:app/page.tsx': {
+      id: 'module:app/page.tsx',
+      kind: 'server',
+      file: 'app/page.tsx',
+      suggestions: [
+        {
+          rule: 'client-size-threshold',
+          level: 'warn',
+          message: 'Client bundle is 61000 bytes.',
+          loc: { file: 'app/page.tsx', range: { from: 40, to: 50 } },
+        },
+        { rule: 'route-waterfall', level: 'warn', message: 'Sequential awaits.' },
+      ],
+    },
+  },
+};
+
+describe('diffModels', () => {
+  it('reports added and removed routes with their byte deltas, largest first', () => {
+    const diff = diffModels(BASE, HEAD);
+
+    expect(diff.routes).toEqual({ added: ['/search'], removed: ['/legacy'] });
+    expect(diff.routeBytes).toEqual([
+      { route: '/', base: 120_000, head: 150_000, delta: 30_000 },
+      { route: '/legacy', base: 10_000, delta: -10_000 },
+      { route: '/search', head: 5_000, delta: 5_000 },
+    ]);
+    expect(diff.nodeBytes).toEqual([
+      { id: 'module:app/Search.tsx', file: 'app/Search.tsx', head: 30_000, delta: 30_000 },
+      { id: 'module:app/Legacy.tsx', file: 'app/Legacy.tsx', base: 2_000, delta: -2_000 },
+      {
+        id: 'module:app/Header.tsx',
+        file: 'app/Header.tsx',
+        base: 4_000,
+        head: 3_000,
+        delta: -1_000,
+      },
+    ]);
+  });
+
+  it('reports client islands that appeared or went away', () => {
+    expect(diffModels(BASE, HEAD).clientIslands).toEqual({
+      added: [{ id: 'module:app/Search.tsx', file: 'app/Search.tsx', bytes: 30_000 }],
+      removed: [{ id: 'module:app/Legacy.tsx', file: 'app/Legacy.tsx', bytes: 2_000 }],
+    });
+  });
+
+  it('reports routes whose dynamic mode or revalidation changed', () => {
+    expect(diffModels(BASE, HEAD).cache).toEqual([
+      {
+        route: '/',
+        base: { revalidateSeconds: 60, rendering: 'static' },
+        head: { dynamic: 'force-dynamic', rendering: 'dynamic' },
+      },
+    ]);
+    expect(getRouteRendering({ revalidateSeconds: 0 })).toBe('dynamic');
+    expect(getRouteRendering(undefined)).toBe('static');
+  });
+
+  it('matches findings whose location and numbers changed, separating diagnostics and suggestions', () => {
+    const diff = diffModels(BASE, HEAD);
+
+    expect(diff.diagnostics).toEqual({
+      added: [],
+      resolved: [
+        {
+          rule: 'client-forbidden-import',
+          file: 'app/page.tsx',
+          level: 'error',
+          message: "Don't import 'fs'.",
+        },
+      ],
+    });
+    expect(diff.suggestions).toEqual({
+      added: [
+        {
+          rule: 'route-waterfall',
+          file: 'app/page.tsx',
+          level: 'warn',
+          message: 'Sequential awaits.',
+        },
+      ],
+      resolved: [],
+    });
+  });
+
+  it('reports nothing for identical models', () => {
+    expect(diffModels(BASE, BASE)).toEqual({
+      routes: { added: [], removed: [] },
+      routeBytes: [],
+      nodeBytes: [],
+      clientIslands: { added: [], removed: [] },
+      cache: [],
+      diagnostics: { added: [], resolved: [] },
+      suggestions: { added: [], resolved: [] },
+    });
+  });
+});
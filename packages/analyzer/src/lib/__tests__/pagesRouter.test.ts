@@ -0,0 +1,65 @@
+import * as ts from 'typescript';
+import { describe, expect, it } from 'vitest';
+
+import {
+  collectPagesDataFetching,
+  createPagesRouteCache,
+  getPagesFileRole,
+  parsePagesRoute,
+} from '../pagesRouter';
+
+function parse(sourceText: string): ts.SourceFile {
+  return ts.createSourceFile('page.tsx', sourceText, ts.ScriptTarget.Latest, true);
+}
+
+describe('pages router', () => {
+  it('derives routes from page files and skips special files', () => {
+    expect(parsePagesRoute('pages', 'pages/index.tsx')).toEqual({ route: '/', params: [] });
+    expect(parsePagesRoute('pages', 'pages/blog/index.js')).toEqual({
+      route: '/blog',
+      params: [],
+    });
+    expect(parsePagesRoute('pages', 'pages/docs/[...slug].tsx')).toEqual({
+      route: '/docs/[...slug]',
+      params: [{ name: 'slug', type: 'catch-all' }],
+    });
+    expect(parsePagesRoute('pages', 'pages/api/users/[id].ts')).toEqual({
+      route: '/api/users/[id]',
+      params: [{ name: 'id', type: 'dynamic' }],
+      api: true,
+    });
+    expect(parsePagesRoute('pages', 'pages/_app.tsx')).toBeUndefined();
+    expect(parsePagesRoute('pages', 'pages/_document.tsx')).toBeUndefined();
+    expect(parsePagesRoute('pages', 'app/page.tsx')).toBeUndefined();
+  });
+
+  it('assigns roles to pages, API routes, and the custom App', () => {
+    expect(getPagesFileRole('pages', 'pages/about.tsx')).toBe('page');
+    expect(getPagesFileRole('pages', 'pages/api/health.ts')).toBe('route');
+    expect(getPagesFileRole('pages', 'pages/_app.tsx')).toBe('layout');
+    expect(getPagesFileRole('pages', 'pages/_error.tsx')).toBe('error');
+    expect(getPagesFileRole('pages', 'pages/_document.tsx')).toBeUndefined();
+  });
+
+  it('classifies pages as static or dynamic from their data fetching', () => {
+    const isr = collectPagesDataFetching(
+      parse(`export const getStaticProps = async () => ({ props: {}, revalidate: 30 });`)
+    );
+    expect(isr).toEqual({ methods: ['getStaticProps'], revalidateSeconds: 30 });
+    expect(createPagesRouteCache(isr)).toEqual({ dynamic: 'force-static', revalidateSeconds: 30 });
+
+    const initialProps = collectPagesDataFetching(
+      parse(
+        `function Page() { return null; }\nPage.getInitialProps = async () => ({});\nexport default Page;`
+      )
+    );
+    expect(initialProps).toEqual({ methods: ['getInitialProps'] });
+    expect(createPagesRouteCache(initialProps)).toEqual({ dynamic: 'force-dynamic' });
+
+    expect(
+      createPagesRouteCache(collectPagesDataFetching(parse(`export default () => null;`)))
+    ).toEqual({
+      dynamic: 'force-static',
+    });
+  });
+});
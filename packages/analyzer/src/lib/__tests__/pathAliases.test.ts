@@ -0,0 +1,86 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import { expandPathAlias, loadPathAliases } from '../pathAliases';
+
+describe('path aliases', () => {
+  async function withTempDir(run: (dir: string) => Promise<void>) {
+    const dir = await mkdtemp(join(tmpdir(), 'scx-path-aliases-'));
+    try {
+      await run(dir);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  it('returns undefined when the project has no tsconfig or jsconfig', async () => {
+    await withTempDir(async (dir) => {
+      expect(loadPathAliases(dir)).toBeUndefined();
+    });
+  });
+
+  it('follows extends chains and resolves paths against the declaring config', async () => {
+    await withTempDir(async (dir) => {
+      await mkdir(join(dir, 'config'), { recursive: true });
+      await writeFile(
+        join(dir, 'config/tsconfig.base.json'),
+        `{
+  // comments are allowed in tsconfig files
+  "compilerOptions": { "paths": { "@ui/*": ["../src/ui/*"] } }
+}`,
+        'utf8'
+      );
+      await writeFile(
+        join(dir, 'tsconfig.json'),
+        JSON.stringify({ extends: './config/tsconfig.base.json' }),
+        'utf8'
+      );
+
+      const aliases = loadPathAliases(dir);
+      expect(aliases?.baseUrl).toBeUndefined();
+      expect(aliases?.pathsBasePath).toBe(join(dir, 'config'));
+      expect(expandPathAlias(aliases!, '@ui/Button')).toEqual([join(dir, 'src/ui/Button')]);
+    });
+  });
+
+  it('falls back to jsconfig.json and resolves bare specifiers from baseUrl', async () => {
+    await withTempDir(async (dir) => {
+      await writeFile(
+        join(dir, 'jsconfig.json'),
+        JSON.stringify({ compilerOptions: { baseUrl: 'src' } }),
+        'utf8'
+      );
+
+      const aliases = loadPathAliases(dir);
+      expect(aliases?.baseUrl).toBe(join(dir, 'src'));
+      expect(expandPathAlias(aliases!, 'components/Card')).toEqual([
+        join(dir, 'src/components/Card'),
+      ]);
+    });
+  });
+
+  it('prefers exact matches, then the longest wildcard prefix', () => {
+    const aliases = {
+      configPath: '/project/tsconfig.json',
+      pathsBasePath: '/project',
+      paths: {
+        '@/*': ['./src/*'],
+        '@/lib/*': ['./lib/*', './vendor/lib/*'],
+        '@/config': ['./config/index.ts'],
+      },
+    };
+
+    expect(expandPathAlias(aliases, '@/config')).toEqual(['/project/config/index.ts']);
+    expect(expandPathAlias(aliases, '@/lib/db')).toEqual([
+      '/project/lib/db',
+      '/project/vendor/lib/db',
+    ]);
+    expect(expandPathAlias(aliases, '@/components/Button')).toEqual([
+      '/project/src/components/Button',
+    ]);
+    expect(expandPathAlias(aliases, 'react')).toEqual([]);
+  });
+});
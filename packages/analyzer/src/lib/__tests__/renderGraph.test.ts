@@ -0,0 +1,52 @@
+import * as ts from 'typescript';
+import { describe, expect, it } from 'vitest';
+
+import { collectComponentDeclarations } from '../renderGraph';
+
+function parse(sourceText: string): ts.SourceFile {
+  return ts.createSourceFile(
+    'module.tsx',
+    sourceText,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.TSX
+  );
+}
+
+describe('render graph', () => {
+  it('collects components with their exports and rendered tags', () => {
+    const components = collectComponentDeclarations(
+      parse(`import { memo } from 'react';
+import * as ui from './ui';
+
+function Row({ item }) {
+  return <li><ui.Badge>{item.label}</ui.Badge></li>;
+}
+
+export const List = memo(({ items }) => <ul>{items.map((item) => <Row item={item} />)}</ul>);
+
+export default function Page() {
+  return <main><List items={[]} /><Missing /></main>;
+}
+
+function helper() {
+  return <div />;
+}
+
+export { Row as TableRow };
+`)
+    );
+
+    expect(components).toEqual([
+      { name: 'List', exports: ['List'], renders: ['Row'] },
+      { name: 'Page', exports: ['default'], renders: ['List', 'Missing'] },
+      { name: 'Row', exports: ['TableRow'], renders: ['ui.Badge'] },
+    ]);
+  });
+
+  it('names anonymous default exports default', () => {
+    expect(collectComponentDeclarations(parse(`export default () => <main />;`))).toEqual([
+      { name: 'default', exports: ['default'], renders: [] },
+    ]);
+  });
+});
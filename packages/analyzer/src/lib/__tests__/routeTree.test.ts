@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  collectRouteBoundaries,
+  getSegmentFileRole,
+  indexSegmentFiles,
+  isInsideLoadingBoundary,
+  parseAppRoute,
+} from '../routeTree';
+
+const FILES = [
+  'app/layout.tsx',
+  'app/not-found.tsx',
+  'app/page.tsx',
+  'app/(marketing)/layout.tsx',
+  'app/(marketing)/about/page.tsx',
+  'app/dashboard/error.tsx',
+  'app/dashboard/layout.tsx',
+  'app/dashboard/loading.tsx',
+  'app/dashboard/page.tsx',
+  'app/dashboard/template.tsx',
+  'app/dashboard/settings/layout.tsx',
+  'app/dashboard/settings/page.tsx',
+  'app/components/Card.tsx',
+];
+
+describe('route tree', () => {
+  it('detects special file roles inside the app directory only', () => {
+    expect(getSegmentFileRole('app', 'app/dashboard/loading.tsx')).toBe('loading');
+    expect(getSegmentFileRole('app', 'app/not-found.js')).toBe('not-found');
+    expect(getSegmentFileRole('app', 'app/page.tsx')).toBe('page');
+    expect(getSegmentFileRole('app', 'app/components/Card.tsx')).toBeUndefined();
+    expect(getSegmentFileRole('app', 'lib/layout.tsx')).toBeUndefined();
+  });
+
+  it('collects boundaries from the root layout down in render order', () => {
+    const segmentFiles = indexSegmentFiles('app', FILES);
+
+    expect(collectRouteBoundaries('app', 'app/dashboard/settings/page.tsx', segmentFiles)).toEqual([
+      { role: 'layout', filePath: 'app/layout.tsx' },
+      { role: 'not-found', filePath: 'app/not-found.tsx' },
+      { role: 'layout', filePath: 'app/dashboard/layout.tsx' },
+      { role: 'template', filePath: 'app/dashboard/template.tsx' },
+      { role: 'error', filePath: 'app/dashboard/error.tsx' },
+      { role: 'loading', filePath: 'app/dashboard/loading.tsx' },
+      { role: 'layout', filePath: 'app/dashboard/settings/layout.tsx' },
+    ]);
+    expect(collectRouteBoundaries('app', 'app/(marketing)/about/page.tsx', segmentFiles)).toEqual([
+      { role: 'layout', filePath: 'app/layout.tsx' },
+      { role: 'not-found', filePath: 'app/not-found.tsx' },
+      { role: 'layout', filePath: 'app/(marketing)/layout.tsx' },
+    ]);
+  });
+
+  it('places pages inside their own loading boundary but layouts only inside parent ones', () => {
+    const segmentFiles = indexSegmentFiles('app', FILES);
+
+    expect(isInsideLoadingBoundary('app', 'app/dashboard/page.tsx', segmentFiles)).toBe(true);
+    expect(isInsideLoadingBoundary('app', 'app/dashboard/layout.tsx', segmentFiles)).toBe(false);
+    expect(isInsideLoadingBoundary('app', 'app/dashboard/settings/layout.tsx', segmentFiles)).toBe(
+      true
+    );
+    expect(isInsideLoadingBoundary('app', 'app/page.tsx', segmentFiles)).toBe(false);
+    expect(isInsideLoadingBoundary('app', 'app/components/Card.tsx', segmentFiles)).toBe(false);
+  });
+
+  it('derives routes with Next.js segment semantics', () => {
+    expect(parseAppRoute('app', 'app/components/Card.tsx')).toBeUndefined();
+    expect(parseAppRoute('app', 'app/(shop)/products/page.tsx')).toEqual({
+      route: '/products',
+      params: [],
+    });
+    expect(parseAppRoute('app', 'app/blog/[category]/[...slug]/page.tsx')).toEqual({
+      route: '/blog/[category]/[...slug]',
+      params: [
+        { name: 'category', type: 'dynamic' },
+        { name: 'slug', type: 'catch-all' },
+      ],
+    });
+    expect(parseAppRoute('app', 'app/docs/[[...path]]/page.tsx')?.params).toEqual([
+      { name: 'path', type: 'optional-catch-all' },
+    ]);
+    expect(parseAppRoute('app', 'app/dashboard/@analytics/page.tsx')).toEqual({
+      route: '/dashboard',
+      params: [],
+      slot: 'analytics',
+      slotDir: 'app/dashboard/@analytics',
+    });
+  });
+
+  it('links intercepting routes to the route they intercept', () => {
+    expect(parseAppRoute('app', 'app/feed/(..)photo/[id]/page.tsx')).toEqual({
+      route: '/feed/(..)photo/[id]',
+      params: [{ name: 'id', type: 'dynamic' }],
+      intercepts: '/photo/[id]',
+    });
+    expect(parseAppRoute('app', 'app/@modal/(.)login/page.tsx')).toMatchObject({
+      route: '/(.)login',
+      slot: 'modal',
+      intercepts: '/login',
+    });
+    expect(parseAppRoute('app', 'app/a/b/(...)settings/page.tsx')?.intercepts).toBe('/settings');
+    expect(parseAppRoute('app', 'app/a/b/(..)(..)c/page.tsx')?.intercepts).toBe('/c');
+  });
+});
@@ -0,0 +1,165 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, expect, it, vi } from 'vitest';
+
+import { getRuleInfo } from '@rsc-xray/schemas';
+
+import { BUILT_IN_RULES } from '../../rules/builtin';
+import { detectSuspenseBoundaryIssues } from '../../rules/suspenseBoundary';
+import { createRuleRegistry, loadCustomRules, runRules, type Rule } from '../ruleRegistry';
+import { parseSourceFile } from '../sourceFiles';
+
+vi.mock('../../rules/suspenseBoundary', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../rules/suspenseBoundary')>();
+  return { ...actual, detectSuspenseBoundaryIssues: vi.fn(actual.detectSuspenseBoundaryIssues) };
+});
+
+const todoRule: Rule = {
+  id: 'no-todo',
+  meta: { type: 'diagnostic', description: 'Flags TODO comments.' },
+  appliesTo: ['server'],
+  check: (sourceFile, context) => {
+    const from = sourceFile.text.indexOf('TODO');
+    return from === -1
+      ? []
+      : [
+          {
+            rule: 'no-todo',
+            level: context.options.level === 'error' ? 'error' : 'warn',
+            message: 'Resolve this TODO.',
+            loc: { file: context.fileName, range: { from, to: from + 4 } },
+          },
+        ];
+  },
+};
+
+describe('createRuleRegistry', () => {
+  it('registers the built-in rules and rejects duplicate ids', () => {
+    const registry = createRuleRegistry(BUILT_IN_RULES);
+    expect(registry.get('client-hoist-fetch')?.meta.type).toBe('suggestion');
+    expect(() => registry.register(todoRule)).not.toThrow();
+    expect(() => registry.register(todoRule)).toThrow("Rule 'no-todo' is already registered");
+  });
+
+  it('describes every built-in rule in the catalogue and resolves aliases', () => {
+    for (const rule of BUILT_IN_RULES) {
+      expect(getRuleInfo(rule.id)).toMatchObject({ id: rule.id, type: rule.meta.type });
+    }
+    expect(createRuleRegistry(BUILT_IN_RULES).get('serialization-boundary-violation')?.id).toBe(
+      'server-client-serialization-violation'
+    );
+  });
+});
+
+describe('runRules', () => {
+  const registry = createRuleRegistry([todoRule]);
+  const context = { fileName: 'app/page.tsx', sourceText: '// TODO: remove\n' };
+
+  it('skips rules that do not apply to the module kind', () => {
+    expect(runRules({ registry, context: { ...context, kind: 'client' } }).rulesExecuted).toEqual(
+      []
+    );
+    expect(runRules({ registry, context }).diagnostics).toHaveLength(1);
+  });
+
+  it('passes config options and honors levels', () => {
+    const result = runRules({
+      registry,
+      context: { ...context, kind: 'server' },
+      config: { rules: { 'no-todo': { options: { level: 'error' } } } },
+    });
+    expect(result.diagnostics.map((item) => item.level)).toEqual(['error']);
+
+    const disabled = runRules({ registry, context, config: { rules: { 'no-todo': 'off' } } });
+    expect(disabled.rulesExecuted).toEqual([]);
+  });
+
+  it('skips rules whose required context is missing', () => {
+    const result = runRules({
+      registry: createRuleRegistry(BUILT_IN_RULES),
+      context: { fileName: 'app/page.tsx', sourceText: 'export default function Page() {}' },
+    });
+    expect(result.rulesExecuted).not.toContain('route-segment-config-conflict');
+    expect(result.rulesExecuted).not.toContain('client-component-oversized');
+  });
+
+  it('detects suspense boundary issues once for both suspense rules', () => {
+    const detect = vi.mocked(detectSuspenseBoundaryIssues);
+    detect.mockClear();
+    const page = {
+      fileName: 'app/page.tsx',
+      sourceText: `export default async function Page() {\n  const data = await fetch('/a');\n  return <div>{String(data)}</div>;\n}\n`,
+      kind: 'server' as const,
+    };
+    const registry = createRuleRegistry(BUILT_IN_RULES);
+    const sourceFile = parseSourceFile(page.fileName, page.sourceText);
+
+    const result = runRules({ registry, context: page, sourceFile });
+    expect(result.rulesExecuted).toEqual(
+      expect.arrayContaining(['suspense-boundary-missing', 'suspense-boundary-opportunity'])
+    );
+    expect(result.suggestions.map(({ rule }) => rule)).toContain('suspense-boundary-missing');
+    expect(detect).toHaveBeenCalledTimes(1);
+
+    runRules({ registry, context: page, sourceFile });
+    expect(detect).toHaveBeenCalledTimes(1);
+    runRules({ registry, context: { ...page, insideLoadingBoundary: true }, sourceFile });
+    expect(detect).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports rule failures through onError', () => {
+    const failing: Rule = {
+      ...todoRule,
+      id: 'broken',
+      check: () => {
+        throw new Error('boom');
+      },
+    };
+    const errors: string[] = [];
+    const result = runRules({
+      registry: createRuleRegistry([failing, todoRule]),
+      context,
+      onError: (rule, error) => errors.push(`${rule.id}: ${(error as Error).message}`),
+    });
+    expect(errors).toEqual(['broken: boom']);
+    expect(result.rulesExecuted).toEqual(['no-todo']);
+  });
+});
+
+describe('loadCustomRules', () => {
+  it('loads rules from project files, npm packages, and inline plugins', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-rules-'));
+    try {
+      const ruleSource = (id: string) =>
+        `{ id: '${id}', meta: { type: 'suggestion', description: '' }, appliesTo: ['server'], check: () => [] }`;
+      const files: Record<string, string> = {
+        'package.json': '{"name":"app"}',
+        'rules/local.mjs': `export const rules = [${ruleSource('local-rule')}];\n`,
+        'node_modules/rsc-xray-plugin-acme/package.json':
+          '{"name":"rsc-xray-plugin-acme","main":"index.js"}',
+        'node_modules/rsc-xray-plugin-acme/index.js': `module.exports = { rules: [${ruleSource('acme-rule')}] };\n`,
+      };
+      for (const [file, contents] of Object.entries(files)) {
+        await mkdir(join(projectRoot, file, '..'), { recursive: true });
+        await writeFile(join(projectRoot, file), contents, 'utf8');
+      }
+
+      const rules = await loadCustomRules(
+        { plugins: ['./rules/local.mjs', 'rsc-xray-plugin-acme', { rules: [todoRule] }] },
+        projectRoot
+      );
+      expect(rules.map((rule) => rule.id)).toEqual(['local-rule', 'acme-rule', 'no-todo']);
+
+      await expect(loadCustomRules({ plugins: ['missing-plugin'] }, projectRoot)).rejects.toThrow(
+        "Cannot resolve rsc-xray plugin 'missing-plugin'"
+      );
+      await expect(loadCustomRules({ plugins: [{ rules: [{}] }] }, projectRoot)).rejects.toThrow(
+        'Invalid rule in plugin inline plugin'
+      );
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,189 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import type { Diagnostic, Model, Suggestion } from '@rsc-xray/schemas';
+
+import { fingerprintFinding } from '../baseline';
+import { createRuleRegistry } from '../ruleRegistry';
+import { collectSarifLog, createSarifLog, SARIF_FINGERPRINT_KEY } from '../sarif';
+
+const SOURCE = [
+  "'use client';",
+  "import { readFileSync } from 'fs';",
+  '',
+  'export const Widget = () => <div />;',
+].join('\n');
+
+const FORBIDDEN_IMPORT: Diagnostic = {
+  rule: 'client-forbidden-import',
+  level: 'error',
+  message: "Client components must not import 'fs'.",
+  loc: {
+    file: 'app/Widget.tsx',
+    range: { from: SOURCE.indexOf("'fs'"), to: SOURCE.indexOf("'fs'") + 4 },
+  },
+};
+
+describe('createSarifLog', () => {
+  it('describes referenced rules and converts offsets to regions', () => {
+    const log = createSarifLog([{ finding: FORBIDDEN_IMPORT, file: 'app/Widget.tsx' }], {
+      getSourceText: (file) => (file === 'app/Widget.tsx' ? SOURCE : undefined),
+      projectRoot: '/work/shop',
+      toolVersion: '1.2.3',
+    });
+
+    expect(log.version).toBe('2.1.0');
+    const [run] = log.runs;
+    expect(run?.originalUriBaseIds).toEqual({ '%SRCROOT%': { uri: 'file:///work/shop/' } });
+    expect(run?.tool.driver).toMatchObject({ name: 'rsc-xray', version: '1.2.3' });
+    expect(run?.tool.driver.rules).toEqual([
+      expect.objectContaining({
+        id: 'client-forbidden-import',
+        shortDescription: {
+          text: 'Client modules must not import Node.js built-ins or other server-only modules.',
+        },
+        defaultConfiguration: { level: 'error' },
+        properties: { category: 'correctness', tags: ['correctness'] },
+      }),
+    ]);
+    expect(run?.results).toEqual([
+      {
+        ruleId: 'client-forbidden-import',
+        ruleIndex: 0,
+        level: 'error',
+        message: { text: "Client components must not import 'fs'." },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: 'app/Widget.tsx', uriBaseId: '%SRCROOT%' },
+              region: { startLine: 2, startColumn: 30, endLine: 2, endColumn: 34 },
+            },
+          },
+        ],
+        partialFingerprints: {
+          [SARIF_FINGERPRINT_KEY]: fingerprintFinding(FORBIDDEN_IMPORT, SOURCE),
+        },
+      },
+    ]);
+  });
+
+  it('maps levels, node findings, related locations, fixes, and custom rules', () => {
+    const suggestion: Suggestion = {
+      rule: 'acme/no-barrel',
+      level: 'info',
+      message: 'Import from the module instead of the barrel.',
+      loc: { file: 'app/Widget.tsx', range: { from: 0, to: 12 } },
+      related: [
+        { message: 'Barrel file', loc: { file: 'app/index.ts', range: { from: 0, to: 0 } } },
+      ],
+      fixes: [
+        {
+          title: 'Remove the directive',
+          kind: 'quickfix',
+          edits: [{ file: 'app/Widget.tsx', range: { from: 0, to: 14 }, newText: '' }],
+        },
+      ],
+    };
+    const routeWarning: Suggestion = {
+      rule: 'route-waterfall',
+      level: 'warn',
+      message: 'Waterfall suspected.',
+    };
+    const registry = createRuleRegistry([
+      {
+        id: 'acme/no-barrel',
+        meta: { type: 'suggestion', description: 'Avoid barrels', docsUrl: 'https://acme.dev/x' },
+        appliesTo: ['client'],
+        check: () => [],
+      },
+    ]);
+
+    const log = createSarifLog(
+      [
+        { finding: suggestion, file: 'app/Widget.tsx' },
+        { finding: routeWarning, file: 'route:/' },
+      ],
+      { getSourceText: (file) => (file === 'app/Widget.tsx' ? SOURCE : undefined), registry }
+    );
+
+    const [run] = log.runs;
+    expect(run?.originalUriBaseIds).toBeUndefined();
+    expect(run?.tool.driver.rules[0]).toEqual({
+      id: 'acme/no-barrel',
+      shortDescription: { text: 'Avoid barrels' },
+      helpUri: 'https://acme.dev/x',
+      properties: { category: 'best-practice', tags: ['best-practice'] },
+    });
+    const [custom, route] = run!.results;
+    expect(custom?.level).toBe('note');
+    expect(custom?.relatedLocations).toEqual([
+      {
+        id: 1,
+        message: { text: 'Barrel file' },
+        physicalLocation: {
+          artifactLocation: { uri: 'app/index.ts', uriBaseId: '%SRCROOT%' },
+          region: { startLine: 1 },
+        },
+      },
+    ]);
+    expect(custom?.fixes).toEqual([
+      {
+        description: { text: 'Remove the directive' },
+        artifactChanges: [
+          {
+            artifactLocation: { uri: 'app/Widget.tsx', uriBaseId: '%SRCROOT%' },
+            replacements: [
+              {
+                deletedRegion: { startLine: 1, startColumn: 1, endLine: 2, endColumn: 1 },
+                insertedContent: { text: '' },
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+    expect(route).toMatchObject({
+      ruleIndex: 1,
+      level: 'warning',
+      locations: [{ logicalLocations: [{ fullyQualifiedName: 'route:/' }] }],
+    });
+  });
+});
+
+describe('collectSarifLog', () => {
+  it('reads sources from the project and applies the filter', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-sarif-'));
+    try {
+      await mkdir(join(projectRoot, 'app'), { recursive: true });
+      await writeFile(join(projectRoot, 'app/Widget.tsx'), SOURCE, 'utf8');
+      const model: Model = {
+        version: '0.1',
+        build: { nextVersion: '15.0.0', timestamp: new Date().toISOString() },
+        routes: [],
+        nodes: {
+          'module:app/Widget.tsx': {
+            id: 'module:app/Widget.tsx',
+            kind: 'client',
+            file: 'app/Widget.tsx',
+            diagnostics: [FORBIDDEN_IMPORT],
+            suggestions: [{ rule: 'client-hoist-fetch', level: 'warn', message: 'Hoist fetch.' }],
+          },
+        },
+      };
+
+      const log = await collectSarifLog(model, projectRoot, {
+        filter: (finding) => finding.rule !== 'client-hoist-fetch',
+      });
+
+      expect(log.runs[0]?.results.map((result) => result.ruleId)).toEqual([
+        'client-forbidden-import',
+      ]);
+      expect(log.runs[0]?.results[0]?.locations[0]?.physicalLocation?.region?.startLine).toBe(2);
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,69 @@
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import * as ts from 'typescript';
+import { describe, expect, it, vi } from 'vitest';
+
+import { analyzeProject } from '../analyzeProject';
+import { createSourceFileStore, getScriptKind } from '../sourceFiles';
+
+vi.mock('typescript', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('typescript')>();
+  return { ...actual, createSourceFile: vi.fn(actual.createSourceFile) };
+});
+
+const FILES: Record<string, string> = {
+  '.next/build-manifest.json': '{"pages":{}}',
+  'app/page.tsx': `import { Chart } from './Chart';\nimport { format } from './format';\n\nexport const dynamic = 'force-dynamic';\n\nexport default async function Page() {\n  const a = await fetch('/a');\n  const b = await fetch('/b');\n  return <Chart label={format(a, b)} onSelect={() => {}} />;\n}\n`,
+  'app/Chart.tsx': `'use client';\nimport { readFileSync } from 'fs';\n\nexport function Chart({ label }: { label: string }) {\n  return <span>{label}</span>;\n}\n`,
+  'app/format.ts': `export const format = (a: unknown, b: unknown) => <string>String([a, b]);\n`,
+};
+
+describe('source files', () => {
+  it('picks the script kind from the extension', () => {
+    expect(getScriptKind('app/page.tsx')).toBe(ts.ScriptKind.TSX);
+    expect(getScriptKind('app/page.jsx')).toBe(ts.ScriptKind.JSX);
+    expect(getScriptKind('lib/format.ts')).toBe(ts.ScriptKind.TS);
+    expect(getScriptKind('lib/format.mts')).toBe(ts.ScriptKind.TS);
+    expect(getScriptKind('lib/format.js')).toBe(ts.ScriptKind.JS);
+  });
+
+  it('reuses trees until the text of a file changes', () => {
+    const store = createSourceFileStore(new Map([['app/page.tsx', 'export {};\n']]));
+
+    const page = store.get('app/page.tsx');
+    expect(page?.text).toBe('export {};\n');
+    expect(store.get('app/page.tsx')).toBe(page);
+    expect(store.parse('app/page.tsx', 'export {};\n')).toBe(page);
+    expect(store.parse('app/page.tsx', 'export const a = 1;\n')).not.toBe(page);
+    expect(store.get('app/missing.tsx')).toBeUndefined();
+  });
+
+  it('parses every source file once per analysis run', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-source-files-'));
+    try {
+      for (const [file, content] of Object.entries(FILES)) {
+        await mkdir(join(projectRoot, file, '..'), { recursive: true });
+        await writeFile(join(projectRoot, file), content, 'utf8');
+      }
+      const createSourceFile = vi.mocked(ts.createSourceFile);
+      createSourceFile.mockClear();
+
+      const model = await analyzeProject({ projectRoot });
+
+      const parsed = createSourceFile.mock.calls.map(([fileName]) => fileName).sort();
+      expect(parsed).toEqual(['app/Chart.tsx', 'app/format.ts', 'app/page.tsx']);
+      expect(
+        [
+          ...(model.nodes['module:app/page.tsx']?.diagnostics ?? []),
+          ...(model.nodes['module:app/Chart.tsx']?.diagnostics ?? []),
+        ].map(({ rule }) => rule)
+      ).toEqual(['server-client-serialization-violation', 'client-forbidden-import']);
+      // `<string>` is a type assertion in .ts files, not a JSX element
+      expect(model.nodes['module:app/format.ts']).not.toHaveProperty('diagnostics');
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+});
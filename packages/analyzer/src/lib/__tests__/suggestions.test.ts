@@ -17,7 +17,11 @@ describe('collectSuggestionsForSource', () => {
       kind: 'client',
     });
 
-    expect(suggestions).toHaveLength(1);
+    // The module needs nothing else from the client, so the directive is reported too
+    expect(suggestions.map((suggestion) => suggestion.rule)).toEqual([
+      'client-hoist-fetch',
+      'client-directive-unnecessary',
+    ]);
     expect(suggestions[0]).toMatchObject({
       rule: 'client-hoist-fetch',
       level: 'warn',
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Diagnostic } from '@rsc-xray/schemas';
+
+import { applySuppressions, collectUnusedSuppressions, parseSuppressions } from '../suppressions';
+
+function findingAt(sourceText: string, rule: string, marker: string): Diagnostic {
+  const from = sourceText.indexOf(marker);
+  return {
+    rule,
+    level: 'warn',
+    message: `${rule} at ${marker}`,
+    loc: { file: 'app/page.tsx', range: { from, to: from + marker.length } },
+  };
+}
+
+describe('parseSuppressions', () => {
+  it('returns undefined for files without suppression comments', () => {
+    expect(parseSuppressions('export const value = 1;\n', 'app/page.tsx')).toBeUndefined();
+  });
+
+  it('suppresses the next line, disable/enable blocks, and JSX comments', () => {
+    const sourceText = [
+      '// rsc-xray-disable-next-line rule-a, rule-b -- reviewed',
+      'const first = 1;',
+      'const second = 2;',
+      '/* rsc-xray-disable rule-c */',
+      'const third = 3;',
+      'const fourth = 4;',
+      '/* rsc-xray-enable rule-c */',
+      'const fifth = (',
+      '  <div>',
+      '    {/* rsc-xray-disable-next-line */}',
+      '    <Sixth />',
+      '  </div>',
+      ');',
+    ].join('\n');
+    const file = parseSuppressions(sourceText, 'app/page.tsx')!;
+
+    const findings = [
+      findingAt(sourceText, 'rule-a', 'first'),
+      findingAt(sourceText, 'rule-a', 'second'),
+      findingAt(sourceText, 'rule-c', 'third'),
+      findingAt(sourceText, 'rule-c', 'fourth'),
+      findingAt(sourceText, 'rule-c', 'fifth'),
+      findingAt(sourceText, 'rule-d', 'Sixth'),
+    ];
+    const result = applySuppressions(findings, file);
+
+    expect(result.kept.map((item) => item.message)).toEqual([
+      'rule-a at second',
+      'rule-c at fifth',
+    ]);
+    expect(result.suppressed).toEqual({ 'rule-a': 1, 'rule-c': 2, 'rule-d': 1 });
+    expect(collectUnusedSuppressions(file).map((item) => item.message)).toEqual([
+      "Unused rsc-xray-disable-next-line comment: no 'rule-b' findings to suppress.",
+    ]);
+  });
+
+  it('suppresses findings anywhere in the file, including those without a location', () => {
+    const sourceText = `// rsc-xray-disable-file client-component-oversized\nexport const value = 1;\n`;
+    const file = parseSuppressions(sourceText, 'app/page.tsx')!;
+
+    const result = applySuppressions(
+      [
+        { rule: 'client-component-oversized', level: 'warn', message: 'big' },
+        { rule: 'duplicate-dependencies', level: 'warn', message: 'shared' },
+      ],
+      file
+    );
+
+    expect(result.kept.map((item) => item.rule)).toEqual(['duplicate-dependencies']);
+    expect(collectUnusedSuppressions(file)).toEqual([]);
+  });
+
+  it('matches former rule ids to the findings of the renamed rule', () => {
+    const sourceText = `// rsc-xray-disable-next-line serialization-boundary-violation\n<Button onClick={handler} />\n`;
+    const file = parseSuppressions(sourceText, 'app/page.tsx')!;
+
+    const result = applySuppressions(
+      [findingAt(sourceText, 'server-client-serialization-violation', 'handler')],
+      file
+    );
+
+    expect(result.kept).toEqual([]);
+    expect(result.suppressed).toEqual({ 'server-client-serialization-violation': 1 });
+  });
+});
@@ -0,0 +1,226 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import type { Diagnostic, Model, Suggestion } from '@rsc-xray/schemas';
+
+import { createRuleRegistry } from '../ruleRegistry';
+import {
+  collectRscXrayDiagnostics,
+  createCodeFrame,
+  toRscXrayDiagnostic,
+} from '../unifiedDiagnostics';
+
+const SOURCE = [
+  'export default async function Page() {',
+  '  const user = await getUser();',
+  '  const posts = await getPosts();',
+  '  return <Feed user={user} posts={posts} />;',
+  '}',
+].join('\n');
+
+function findingAt(marker: string, overrides: Partial<Suggestion> = {}): Suggestion {
+  const from = SOURCE.indexOf(marker);
+  return {
+    rule: 'server-promise-all',
+    level: 'info',
+    message: 'Run independent awaits in parallel.',
+    loc: { file: 'app/page.tsx', range: { from, to: from + marker.length } },
+    ...overrides,
+  };
+}
+
+describe('createCodeFrame', () => {
+  it('marks the flagged lines and underlines the range with context lines', () => {
+    const from = SOURCE.indexOf('await getPosts()');
+
+    const frame = createCodeFrame(SOURCE, { from, to: from + 'await getPosts()'.length });
+
+    expect(frame).toBe(
+      [
+        '  1 | export default async function Page() {',
+        '  2 |   const user = await getUser();',
+        '> 3 |   const posts = await getPosts();',
+        '    |                 ^^^^^^^^^^^^^^^^',
+        '  4 |   return <Feed user={user} posts={posts} />;',
+        '  5 | }',
+      ].join('\n')
+    );
+  });
+
+  it('underlines every line of a multi-line range', () => {
+    const from = SOURCE.indexOf('const user');
+    const to = SOURCE.indexOf(';', SOURCE.indexOf('const posts'));
+
+    const frame = createCodeFrame(SOURCE, { from, to }, { contextLines: 0 });
+
+    expect(frame.split('\n')).toEqual([
+      '> 2 |   const user = await getUser();',
+      '    |   ^^^^^^^^^^^^^^^^^^^^^^^^^^^^^',
+      '> 3 |   const posts = await getPosts();',
+      '    | ^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^',
+    ]);
+  });
+});
+
+describe('toRscXrayDiagnostic', () => {
+  it('converts offsets to 1-based positions with severity, category, and a code frame', () => {
+    const diagnostic = toRscXrayDiagnostic(findingAt('await getUser()', { level: 'warn' }), {
+      getSourceText: () => SOURCE,
+    });
+
+    expect(diagnostic).toMatchObject({
+      file: 'app/page.tsx',
+      line: 2,
+      column: 16,
+      endLine: 2,
+      endColumn: 31,
+      severity: 'warning',
+      rule: 'server-promise-all',
+      category: 'performance',
+      source: 'rsc-xray',
+    });
+    expect(diagnostic.codeFrame).toContain('> 2 |   const user = await getUser();');
+  });
+
+  it('falls back to line 1 and the given file without a location or source', () => {
+    const finding: Diagnostic = { rule: 'custom-rule', level: 'error', message: 'Bad' };
+
+    expect(toRscXrayDiagnostic(finding, { file: 'app/page.tsx' })).toEqual({
+      file: 'app/page.tsx',
+      line: 1,
+      column: 1,
+      severity: 'error',
+      rule: 'custom-rule',
+      category: 'best-practice',
+      message: 'Bad',
+      source: 'rsc-xray',
+    });
+  });
+
+  it('takes the category of custom rules from the registry and resolves related locations', () => {
+    const registry = createRuleRegistry([
+      {
+        id: 'custom-rule',
+        meta: { type: 'diagnostic', description: 'Custom', category: 'security' },
+        appliesTo: ['server'],
+        check: () => [],
+      },
+    ]);
+    const related = SOURCE.indexOf('return');
+
+    const diagnostic = toRscXrayDiagnostic(
+      findingAt('getUser', {
+        rule: 'custom-rule',
+        related: [
+          {
+            message: 'Rendered here',
+            loc: { file: 'app/page.tsx', range: { from: related, to: related } },
+          },
+        ],
+      }),
+      { registry, getSourceText: () => SOURCE }
+    );
+
+    expect(diagnostic.category).toBe('security');
+    expect(diagnostic.relatedInformation).toEqual([
+      { file: 'app/page.tsx', line: 4, message: 'Rendered here' },
+    ]);
+  });
+});
+
+describe('toRscXrayDiagnostic fixes', () => {
+  it('converts edits to line/column ranges and drops fixes editing unknown sources', () => {
+    const from = SOURCE.indexOf('const user');
+    const finding = findingAt('await getUser()', {
+      fixes: [
+        {
+          title: 'Parallelize',
+          kind: 'quickfix',
+          edits: [{ file: 'app/page.tsx', range: { from, to: from + 5 }, newText: 'let' }],
+        },
+        {
+          title: 'Create a module',
+          kind: 'refactor',
+          edits: [{ file: 'app/new.ts', range: { from: 0, to: 0 }, newText: 'export {};\n' }],
+        },
+        {
+          title: 'Edit an unknown file',
+          kind: 'refactor',
+          edits: [{ file: 'app/other.ts', range: { from: 3, to: 4 }, newText: '' }],
+        },
+      ],
+    });
+
+    const diagnostic = toRscXrayDiagnostic(finding, {
+      getSourceText: (file) => (file === 'app/page.tsx' ? SOURCE : undefined),
+    });
+
+    expect(diagnostic.fixes).toEqual([
+      {
+        title: 'Parallelize',
+        kind: 'quickfix',
+        edits: [
+          {
+            file: 'app/page.tsx',
+            startLine: 2,
+            startColumn: 3,
+            endLine: 2,
+            endColumn: 8,
+            newText: 'let',
+          },
+        ],
+      },
+      {
+        title: 'Create a module',
+        kind: 'refactor',
+        edits: [
+          {
+            file: 'app/new.ts',
+            startLine: 1,
+            startColumn: 1,
+            endLine: 1,
+            endColumn: 1,
+            newText: 'export {};\n',
+          },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('collectRscXrayDiagnostics', () => {
+  it('positions every finding of a model against the project sources', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-unified-'));
+    try {
+      await mkdir(join(projectRoot, 'app'), { recursive: true });
+      await writeFile(join(projectRoot, 'app/page.tsx'), SOURCE, 'utf8');
+      const model: Model = {
+        version: '0.1',
+        build: { nextVersion: '15.0.0', timestamp: '2025-09-20T10:00:00.000Z' },
+        routes: [],
+        nodes: {
+          'module:app/page.tsx': {
+            id: 'module:app/page.tsx',
+            kind: 'server',
+            file: 'app/page.tsx',
+            suggestions: [findingAt('await getPosts()'), findingAt('await getUser()')],
+            diagnostics: [{ rule: 'custom-rule', level: 'error', message: 'Unlocated' }],
+          },
+        },
+      };
+
+      const diagnostics = await collectRscXrayDiagnostics(model, projectRoot);
+
+      expect(diagnostics.map(({ line, column, rule }) => [rule, line, column])).toEqual([
+        ['custom-rule', 1, 1],
+        ['server-promise-all', 2, 16],
+        ['server-promise-all', 3, 17],
+      ]);
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,268 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import type { Diagnostic, RscXrayConfig, Suggestion } from '@rsc-xray/schemas';
+
+import type { FileCacheMetadata } from './cacheMetadata.js';
+import type { ComponentKind, ServerActionInfo } from './classify.js';
+import type { ParsedModule } from './graph.js';
+import type { ServerActionProp } from '../rules/serializationBoundary.js';
+
+export const DEFAULT_CACHE_DIR = '.scx/cache';
+
+const CACHE_FILE_NAME = 'analysis.json';
+
+/** Bumped when the layout of cache entries changes */
+const CACHE_FORMAT = 1;
+
+/**
+ * Results that depend only on a file's own source: its classification, cache metadata, and
+ * import list
+ */
+export interface FileSourceAnalysis {
+  kind: ComponentKind;
+  serverActions?: ServerActionInfo;
+  cacheMetadata: FileCacheMetadata;
+  module: ParsedModule;
+}
+
+/**
+ * Rule results of a file. Besides the source they depend on what the project tells the rules
+ * about the file (its effective kind, rendered client components, client bundles, ...), so they
+ * are stored under a key of those inputs.
+ */
+export interface CachedRuleResults {
+  key: string;
+  diagnostics: Diagnostic[];
+  suggestions: Suggestion[];
+  serverActionProps: ServerActionProp[];
+}
+
+type SerializedCacheMetadata = {
+  [Key in keyof FileCacheMetadata]: FileCacheMetadata[Key] extends Set<infer Value>
+    ? Value[]
+    : FileCacheMetadata[Key];
+};
+
+interface CacheEntry {
+  contentHash: string;
+  source: Omit<FileSourceAnalysis, 'cacheMetadata'> & { cacheMetadata: SerializedCacheMetadata };
+  rules?: CachedRuleResults;
+}
+
+interface CacheFile {
+  format: number;
+  analyzerVersion: string;
+  configHash: string;
+  files: Record<string, CacheEntry>;
+}
+
+/**
+ * Per-file results persisted between runs. The whole cache is discarded when the analyzer
+ * version or the config changes; single entries when the content of their file changes.
+ */
+export interface AnalysisCache {
+  /** Absolute directory the cache is stored in */
+  dir: string;
+  analyzerVersion: string;
+  configHash: string;
+  /** Entries per posix path relative to the project root */
+  files: Map<string, CacheEntry>;
+  /** Entries were added or replaced since the cache was loaded */
+  changed: boolean;
+}
+
+export interface LoadAnalysisCacheOptions {
+  /** Absolute cache directory */
+  dir: string;
+  config: RscXrayConfig;
+  /** Defaults to the version of this package */
+  analyzerVersion?: string;
+}
+
+function toStableValue(value: unknown): unknown {
+  if (typeof value === 'function') {
+    return value.toString();
+  }
+  if (value instanceof Set) {
+    return Array.from(value, toStableValue).sort();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toStableValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, toStableValue((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Hash of a JSON-like value that ignores key order. Sets hash like sorted arrays and functions
+ * (e.g. rules from config plugins) by their source.
+ */
+export function hashCacheKey(value: unknown): string {
+  return createHash('sha1')
+    .update(JSON.stringify(toStableValue(value)) ?? '')
+    .digest('hex');
+}
+
+export function hashContent(sourceText: string): string {
+  return createHash('sha1').update(sourceText).digest('hex');
+}
+
+async function readAnalyzerVersion(): Promise<string> {
+  const raw = await readFile(new URL('../../package.json', import.meta.url), 'utf8');
+  return (JSON.parse(raw) as { version: string }).version;
+}
+
+function serializeCacheMetadata(metadata: FileCacheMetadata): SerializedCacheMetadata {
+  return {
+    ...metadata,
+    tags: [...metadata.tags],
+    cacheModes: [...metadata.cacheModes],
+    revalidateSeconds: [...metadata.revalidateSeconds],
+    revalidateTagCalls: [...metadata.revalidateTagCalls],
+    revalidatePathCalls: [...metadata.revalidatePathCalls],
+  };
+}
+
+function deserializeCacheMetadata(metadata: SerializedCacheMetadata): FileCacheMetadata {
+  return {
+    ...metadata,
+    tags: new Set(metadata.tags),
+    cacheModes: new Set(metadata.cacheModes),
+    revalidateSeconds: new Set(metadata.revalidateSeconds),
+    revalidateTagCalls: new Set(metadata.revalidateTagCalls),
+    revalidatePathCalls: new Set(metadata.revalidatePathCalls),
+  };
+}
+
+/**
+ * Load the cache from `dir`. A missing or unreadable cache, or one written by another analyzer
+ * version or for another config, loads empty.
+ */
+export async function loadAnalysisCache({
+  dir,
+  config,
+  analyzerVersion,
+}: LoadAnalysisCacheOptions): Promise<AnalysisCache> {
+  const cache: AnalysisCache = {
+    dir,
+    analyzerVersion: analyzerVersion ?? (await readAnalyzerVersion()),
+    configHash: hashCacheKey(config),
+    files: new Map(),
+    changed: false,
+  };
+
+  let stored: CacheFile;
+  try {
+    stored = JSON.parse(await readFile(join(dir, CACHE_FILE_NAME), 'utf8')) as CacheFile;
+  } catch {
+    return cache;
+  }
+  if (
+    stored?.format === CACHE_FORMAT &&
+    stored.analyzerVersion === cache.analyzerVersion &&
+    stored.configHash === cache.configHash &&
+    stored.files
+  ) {
+    cache.files = new Map(Object.entries(stored.files));
+  }
+  return cache;
+}
+
+/**
+ * Source results of a file, when the cache has them for this content
+ */
+export function getCachedSource(
+  cache: AnalysisCache,
+  filePath: string,
+  contentHash: string
+): FileSourceAnalysis | undefined {
+  const entry = cache.files.get(filePath);
+  if (entry?.contentHash !== contentHash) {
+    return undefined;
+  }
+  return { ...entry.source, cacheMetadata: deserializeCacheMetadata(entry.source.cacheMetadata) };
+}
+
+/**
+ * Store the source results of a file, replacing its entry along with the rule results of the
+ * previous content
+ */
+export function setCachedSource(
+  cache: AnalysisCache,
+  filePath: string,
+  contentHash: string,
+  source: FileSourceAnalysis
+): void {
+  cache.files.set(filePath, {
+    contentHash,
+    source: { ...source, cacheMetadata: serializeCacheMetadata(source.cacheMetadata) },
+  });
+  cache.changed = true;
+}
+
+/**
+ * Rule results of a file stored under `key`. Call after `getCachedSource` / `setCachedSource`
+ * so the entry belongs to the current content.
+ */
+export function getCachedRules(
+  cache: AnalysisCache,
+  filePath: string,
+  key: string
+): CachedRuleResults | undefined {
+  const rules = cache.files.get(filePath)?.rules;
+  return rules?.key === key ? rules : undefined;
+}
+
+export function setCachedRules(
+  cache: AnalysisCache,
+  filePath: string,
+  rules: CachedRuleResults
+): void {
+  const entry = cache.files.get(filePath);
+  if (entry) {
+    entry.rules = rules;
+    cache.changed = true;
+  }
+}
+
+/**
+ * Write the cache, keeping only the entries of `filePaths` so deleted files drop out. Nothing
+ * is written when every entry was reused.
+ */
+export async function saveAnalysisCache(
+  cache: AnalysisCache,
+  filePaths: Iterable<string>
+): Promise<void> {
+  const files: Record<string, CacheEntry> = {};
+  for (const filePath of filePaths) {
+    const entry = cache.files.get(filePath);
+    if (entry) {
+      files[filePath] = entry;
+    }
+  }
+  if (!cache.changed && Object.keys(files).length === cache.files.size) {
+    return;
+  }
+
+  const stored: CacheFile = {
+    format: CACHE_FORMAT,
+    analyzerVersion: cache.analyzerVersion,
+    configHash: cache.configHash,
+    files,
+  };
+  const filePath = join(cache.dir, CACHE_FILE_NAME);
+  await mkdir(cache.dir, { recursive: true });
+  // Write through a temporary file so an interrupted run never leaves a truncated cache
+  await writeFile(`${filePath}.tmp`, JSON.stringify(stored), 'utf8');
+  await rename(`${filePath}.tmp`, filePath);
+  cache.files = new Map(Object.entries(files));
+  cache.changed = false;
+}
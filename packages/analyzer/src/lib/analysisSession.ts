@@ -0,0 +1,112 @@
+import type { Diagnostic, Suggestion } from '@rsc-xray/schemas';
+
+import type { ClientComponentBundle } from './clientBundles.js';
+import type { ModuleClassification } from './clientPropagation.js';
+import type { ModuleGraph } from './graph.js';
+import { getSegmentFileRole, SEGMENT_BOUNDARY_ROLES } from './routeTree.js';
+import type { ParsedManifests } from '../types/next-manifest.js';
+
+/**
+ * Data read from the Next.js build output
+ */
+export interface BuildArtifacts {
+  clientBundles: ClientComponentBundle[];
+  manifest: ParsedManifests;
+}
+
+/**
+ * Rule results of a file, valid while the file and the modules it imports are unchanged
+ */
+export interface FileAnalysis {
+  sourceText: string;
+  kind: ModuleClassification['kind'];
+  diagnostics: Diagnostic[];
+  suggestions: Suggestion[];
+}
+
+/**
+ * State `analyzeProject` keeps between runs of the same project, e.g. in watch mode. Build
+ * artifacts are read once and rule results are reused for files that were not invalidated.
+ */
+export interface AnalysisSession {
+  buildArtifacts?: BuildArtifacts;
+  /** Module graph of the last run, used to find the dependents of changed files */
+  moduleGraph?: ModuleGraph;
+  /** App Router directory of the last run, used to find the segments of changed boundary files */
+  appDir?: string;
+  /** Rule results per posix path relative to the project root */
+  files: Map<string, FileAnalysis>;
+}
+
+export function createAnalysisSession(): AnalysisSession {
+  return { files: new Map() };
+}
+
+/**
+ * Files importing any of `files`, directly or through other modules, including `files`
+ * themselves. Paths are posix paths relative to the project root.
+ */
+export function collectDependents(graph: ModuleGraph, files: Iterable<string>): Set<string> {
+  const importers = new Map<string, string[]>();
+  const idsByFile = new Map<string, string>();
+  for (const meta of graph.values()) {
+    idsByFile.set(meta.filePath, meta.id);
+    for (const imported of meta.imports) {
+      importers.set(imported, [...(importers.get(imported) ?? []), meta.id]);
+    }
+  }
+
+  const dependents = new Set<string>(files);
+  const queue = [...dependents].flatMap((file) => idsByFile.get(file) ?? []);
+  const visited = new Set<string>(queue);
+  while (queue.length) {
+    const id = queue.shift()!;
+    for (const importer of importers.get(id) ?? []) {
+      if (!visited.has(importer)) {
+        visited.add(importer);
+        queue.push(importer);
+        dependents.add(graph.get(importer)!.filePath);
+      }
+    }
+  }
+  return dependents;
+}
+
+/**
+ * Drop the rule results of changed files and of every file importing them, so the next run
+ * analyzes them again. Boundary files such as `loading.tsx` also change what rules know about
+ * the files of their segment and the segments below it (e.g. whether they render inside a
+ * Suspense boundary), so those are dropped too. Returns the invalidated files, sorted.
+ */
+export function invalidateFiles(session: AnalysisSession, files: Iterable<string>): string[] {
+  const changed = [...files];
+  const affected = session.moduleGraph
+    ? collectDependents(session.moduleGraph, changed)
+    : new Set(changed);
+  const { appDir } = session;
+  const boundaryRoles: readonly string[] = SEGMENT_BOUNDARY_ROLES;
+  const segmentDirs = changed
+    .filter((file) => {
+      const role = appDir === undefined ? undefined : getSegmentFileRole(appDir, file);
+      return role !== undefined && boundaryRoles.includes(role);
+    })
+    .map((file) => file.slice(0, file.lastIndexOf('/') + 1));
+  for (const file of session.files.keys()) {
+    if (segmentDirs.some((dir) => file.startsWith(dir))) {
+      affected.add(file);
+    }
+  }
+  for (const file of affected) {
+    session.files.delete(file);
+  }
+  return [...affected].sort();
+}
+
+/**
+ * Read the build output again on the next run. Rules see client bundle sizes, so every file is
+ * analyzed again too.
+ */
+export function invalidateBuildArtifacts(session: AnalysisSession): void {
+  delete session.buildArtifacts;
+  session.files.clear();
+}
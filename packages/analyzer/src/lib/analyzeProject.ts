@@ -1,5 +1,7 @@
 import { readdir, readFile, stat } from 'node:fs/promises';
-import { extname, join, relative } from 'node:path';
+import { extname, join, relative, resolve } from 'node:path';
+
+import type * as ts from 'typescript';
 
 import {
   ROUTE_WATERFALL_SUGGESTION_RULE,
@@ -7,39 +9,116 @@ import {
   type Diagnostic,
   type Model,
   type NodeCacheMetadata,
+  type RscXrayConfig,
   type RouteCacheMetadata,
   type RouteEntry,
   type Suggestion,
   type XNode,
 } from '@rsc-xray/schemas';
 
+import {
+  DEFAULT_CACHE_DIR,
+  getCachedRules,
+  getCachedSource,
+  hashCacheKey,
+  hashContent,
+  loadAnalysisCache,
+  saveAnalysisCache,
+  setCachedRules,
+  setCachedSource,
+  type FileSourceAnalysis,
+} from './analysisCache.js';
+import type { AnalysisSession, BuildArtifacts } from './analysisSession.js';
 import { collectClientComponentBundles } from './clientBundles.js';
-import { buildGraph } from './graph.js';
-import { classifyFiles } from './classifyFiles.js';
+import {
+  buildGraph,
+  collectModuleGraph,
+  DUPLICATE_ROUTE_RULE,
+  collectParsedModule,
+  type ModuleGraph,
+  type ParsedModule,
+  type ServerActionUsage,
+} from './graph.js';
+import type { ClassifiedFile } from './classifyFiles.js';
+import {
+  applyRuleConfig,
+  DEFAULT_SOURCE_EXTENSIONS,
+  isSourceFileIncluded,
+  loadConfig,
+  resolveRuleSetting,
+} from './config.js';
+import { classifyComponent, type ComponentKind } from './classify.js';
+import { propagateClientKinds, type ModuleClassification } from './clientPropagation.js';
+import { loadMiddleware } from './middleware.js';
 import { readManifests } from './readManifests.js';
-import { collectSuggestionsForSource } from './suggestions.js';
+import { resolveRenderedComponent } from './renderGraph.js';
+import { indexSegmentFiles, isInsideLoadingBoundary } from './routeTree.js';
+import {
+  createRuleRegistry,
+  loadCustomRules,
+  readPluginSources,
+  runRules,
+  selectRules,
+  type Rule,
+  type RunRulesOptions,
+  type RunRulesResult,
+} from './ruleRegistry.js';
+import {
+  applySuppressions,
+  collectUnusedSuppressions,
+  parseSuppressions,
+  type FileSuppressions,
+} from './suppressions.js';
 import { collectCacheMetadata, type FileCacheMetadata } from './cacheMetadata.js';
-import { analyzeClientFileForForbiddenImports } from '../rules/clientForbiddenImports.js';
-import { detectClientSizeIssues } from '../rules/clientSizeThreshold.js';
-import { analyzeSerializationBoundary } from '../rules/serializationBoundary.js';
+import { createSourceFileStore } from './sourceFiles.js';
+import { BUILT_IN_RULES } from '../rules/builtin.js';
+import { collectServerActionProps, type ServerActionProp } from '../rules/serializationBoundary.js';
 import { readFlightSnapshot, readHydrationSnapshot } from './snapshots.js';
 
-interface AnalyzeProjectOptions {
+export interface AnalyzeProjectOptions {
   projectRoot: string;
   distDir?: string;
   appDir?: string;
+  pagesDir?: string;
+  /** Emit component nodes with render edges next to the module graph */
+  components?: boolean;
+  /** Project config; loaded from `rsc-xray.config.*` in the project root when omitted */
+  config?: RscXrayConfig;
+  /** Config file (absolute or relative to the project root), instead of looking up `rsc-xray.config.*` */
+  configPath?: string;
+  /** Custom rules run next to the built-in rules and those of the config `plugins` */
+  rules?: Rule[];
+  /** Called with the rule run of each file, so callers can re-run it on edited source */
+  onRunRules?: (options: RunRulesOptions) => void;
+  /**
+   * State kept between runs, e.g. in watch mode: the build output is read once and files not
+   * invalidated since the last run reuse their rule results
+   */
+  session?: AnalysisSession;
+  /**
+   * Persist per-file results in `cacheDir` and reuse them for files whose content is unchanged.
+   * A new analyzer version or config discards the cache.
+   */
+  cache?: boolean;
+  /** Cache directory, relative to the project root; defaults to `.scx/cache` */
+  cacheDir?: string;
+  /**
+   * Analyze the sources without the Next.js build output, e.g. before the first build: routes
+   * get no chunks or sizes, and rules about client bundles find nothing
+   */
+  skipBuildOutput?: boolean;
 }
 
 interface SourceEntry {
   filePath: string;
-  kind: 'server' | 'client';
+  /** Kind from the file's own 'use client' directive */
+  directiveKind: ComponentKind;
+  /** Effective kind after propagating client boundaries through imports */
+  kind: ModuleClassification['kind'];
   sourceText: string;
   cacheMetadata: FileCacheMetadata;
 }
 
-const SOURCE_EXTENSIONS = new Set(['.ts', '.tsx', '.js', '.jsx']);
-const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', '.next', '.turbo']);
-
 function mergeRouteCacheMetadata(
   ...sources: Array<RouteCacheMetadata | undefined>
 ): RouteCacheMetadata | undefined {
@@ -363,6 +442,205 @@ function applyRouteWaterfallSuggestions(nodes: Record<string, XNode>, routes: Ro
   }
 }
 
+interface ImportedServerAction {
+  /** Posix path of the 'use server' module */
+  file: string;
+  /** Exported name, or '*' for namespace imports */
+  imported: string;
+}
+
+/**
+ * Map local identifiers of a module to the Server Actions they import from 'use server' modules
+ */
+function collectImportedServerActions(
+  moduleGraph: ModuleGraph,
+  filePath: string
+): Map<string, ImportedServerAction> {
+  const result = new Map<string, ImportedServerAction>();
+  const meta = moduleGraph.get(`module:${filePath}`);
+  if (!meta) {
+    return result;
+  }
+
+  for (const [importedId, bindings] of Object.entries(meta.importBindings)) {
+    const imported = moduleGraph.get(importedId);
+    if (!imported?.serverActions?.moduleDirective) {
+      continue;
+    }
+    for (const binding of bindings) {
+      result.set(binding.local, { file: imported.filePath, imported: binding.imported });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Attribute a Server Action prop reference to the module and name declaring the action.
+ * Anything not imported from a 'use server' module is an inline action of the current file.
+ */
+function resolveServerActionUsage(
+  reference: string,
+  filePath: string,
+  importedActions: Map<string, ImportedServerAction>
+): Pick<ServerActionUsage, 'actionFile' | 'action'> {
+  const [local, member] = reference.split('.');
+  const imported = importedActions.get(local!);
+  if (!imported) {
+    return { actionFile: filePath, action: reference };
+  }
+  return {
+    actionFile: imported.file,
+    action: imported.imported === '*' && member ? member : imported.imported,
+  };
+}
+
+/**
+ * Client component tags rendered by a module. Tags the render graph resolves use the kind of the
+ * module declaring the component; unresolved tags (e.g. package imports) fall back to the
+ * file-name heuristic.
+ */
+function collectClientComponentTags(
+  moduleGraph: ModuleGraph,
+  filePath: string,
+  fallback: Set<string>
+): Set<string> {
+  const result = new Set(fallback);
+  const meta = moduleGraph.get(`module:${filePath}`);
+  if (!meta) {
+    return result;
+  }
+
+  for (const tag of new Set(meta.components.flatMap((component) => component.renders))) {
+    const resolved = resolveRenderedComponent(moduleGraph, meta, tag);
+    if (!resolved) {
+      continue;
+    }
+    if (moduleGraph.get(resolved.moduleId)?.kind === 'client') {
+      result.add(tag);
+    } else {
+      result.delete(tag);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Drop findings of disabled rules and apply severity overrides. Findings without a location
+ * are matched against the file of the node they are attached to.
+ */
+function applyConfigToNodes(nodes: Record<string, XNode>, config: RscXrayConfig): void {
+  if (!config.rules && !config.overrides) {
+    return;
+  }
+  for (const [nodeId, node] of Object.entries(nodes)) {
+    if (!node.diagnostics?.length && !node.suggestions?.length) {
+      continue;
+    }
+    const diagnostics = applyRuleConfig(node.diagnostics ?? [], config, node.file);
+    const suggestions = applyRuleConfig(node.suggestions ?? [], config, node.file);
+    const updated: XNode = { ...node, diagnostics, suggestions };
+    if (!diagnostics.length) {
+      delete updated.diagnostics;
+    }
+    if (!suggestions.length) {
+      delete updated.suggestions;
+    }
+    nodes[nodeId] = updated;
+  }
+}
+
+function suppressFindings<T extends Diagnostic | Suggestion>(
+  findings: readonly T[],
+  node: XNode,
+  suppressionsByFile: Map<string, FileSuppressions>,
+  suppressed: Record<string, number>
+): T[] {
+  return findings.filter((finding) => {
+    const file = suppressionsByFile.get(finding.loc?.file ?? node.file ?? '');
+    if (!file) {
+      return true;
+    }
+    const result = applySuppressions([finding], file);
+    for (const [rule, count] of Object.entries(result.suppressed)) {
+      suppressed[rule] = (suppressed[rule] ?? 0) + count;
+    }
+    return result.kept.length > 0;
+  });
+}
+
+/**
+ * Remove findings silenced by inline comments in the file they point at, counting them on the
+ * node that carried them
+ */
+function applySuppressionsToNodes(
+  nodes: Record<string, XNode>,
+  suppressionsByFile: Map<string, FileSuppressions>
+): void {
+  if (suppressionsByFile.size === 0) {
+    return;
+  }
+  for (const [nodeId, node] of Object.entries(nodes)) {
+    if (!node.diagnostics?.length && !node.suggestions?.length) {
+      continue;
+    }
+    const suppressed: Record<string, number> = { ...node.suppressed };
+    const diagnostics = suppressFindings(
+      node.diagnostics ?? [],
+      node,
+      suppressionsByFile,
+      suppressed
+    );
+    const suggestions = suppressFindings(
+      node.suggestions ?? [],
+      node,
+      suppressionsByFile,
+      suppressed
+    );
+    if (!Object.keys(suppressed).length) {
+      continue;
+    }
+    const updated: XNode = { ...node, diagnostics, suggestions, suppressed };
+    if (!diagnostics.length) {
+      delete updated.diagnostics;
+    }
+    if (!suggestions.length) {
+      delete updated.suggestions;
+    }
+    nodes[nodeId] = updated;
+  }
+}
+
+/** Rules of the whole project rather than of single files, reported after the file rules ran */
+const PROJECT_RULES = [ROUTE_WATERFALL_SUGGESTION_RULE, DUPLICATE_ROUTE_RULE];
+
+/**
+ * Attach a warning to the module node of every suppression comment that silenced nothing.
+ * Comments for rules that did not run on the file, e.g. rules turned off in the config, are
+ * not reported.
+ */
+function reportUnusedSuppressions(
+  nodes: Record<string, XNode>,
+  suppressionsByFile: Map<string, FileSuppressions>,
+  fileRulesByFile: Map<string, string[]>,
+  config: RscXrayConfig
+): void {
+  for (const [filePath, file] of suppressionsByFile) {
+    const nodeId = `module:${filePath}`;
+    const node = nodes[nodeId];
+    const projectRules = PROJECT_RULES.filter(
+      (rule) => resolveRuleSetting(config, rule, filePath).level !== 'off'
+    );
+    const ranRules = new Set(['*', ...(fileRulesByFile.get(filePath) ?? []), ...projectRules]);
+    const unused = applyRuleConfig(collectUnusedSuppressions(file, ranRules), config, filePath);
+    if (!node || unused.length === 0) {
+      continue;
+    }
+    nodes[nodeId] = { ...node, diagnostics: [...(node.diagnostics ?? []), ...unused] };
+  }
+}
+
 async function pathExists(path: string): Promise<boolean> {
   try {
     await stat(path);
@@ -375,24 +653,29 @@ async function pathExists(path: string): Promise<boolean> {
   }
 }
 
-async function discoverSourceFiles(baseDir: string, projectRoot: string): Promise<string[]> {
+async function discoverSourceFiles(
+  baseDir: string,
+  projectRoot: string,
+  config: RscXrayConfig
+): Promise<string[]> {
   const results: string[] = [];
+  const extensions = new Set(config.extensions ?? DEFAULT_SOURCE_EXTENSIONS);
 
   async function walk(currentDir: string) {
     const entries = await readdir(currentDir, { withFileTypes: true });
     for (const entry of entries) {
-      if (IGNORED_DIRECTORIES.has(entry.name)) {
-        continue;
-      }
       const fullPath = join(currentDir, entry.name);
+      const rel = toPosix(relative(projectRoot, fullPath));
       if (entry.isDirectory()) {
-        await walk(fullPath);
+        // Excluded directories are pruned instead of walked
+        if (isSourceFileIncluded({ exclude: config.exclude }, rel)) {
+          await walk(fullPath);
+        }
         continue;
       }
-      if (!SOURCE_EXTENSIONS.has(extname(entry.name))) {
+      if (!extensions.has(extname(entry.name)) || !isSourceFileIncluded(config, rel)) {
         continue;
       }
-      const rel = toPosix(relative(projectRoot, fullPath));
       results.push(rel);
     }
   }
@@ -418,50 +701,145 @@ async function readNextVersion(projectRoot: string): Promise<string> {
   }
 }
 
+function analyzeFileSource(sourceFile: ts.SourceFile): FileSourceAnalysis {
+  const { fileName, text: sourceText } = sourceFile;
+  const classification = classifyComponent({ fileName, sourceText, sourceFile });
+  return {
+    kind: classification.kind,
+    ...(classification.serverActions ? { serverActions: classification.serverActions } : {}),
+    cacheMetadata: collectCacheMetadata({ sourceText, sourceFile }),
+    module: collectParsedModule(sourceFile),
+  };
+}
+
 export async function analyzeProject({
   projectRoot,
   distDir = '.next',
   appDir = 'app',
+  pagesDir = 'pages',
+  components = false,
+  config: providedConfig,
+  configPath,
+  rules: customRules = [],
+  onRunRules,
+  session,
+  cache: useCache = false,
+  cacheDir = DEFAULT_CACHE_DIR,
+  skipBuildOutput = false,
 }: AnalyzeProjectOptions): Promise<Model> {
+  const config = providedConfig ?? (await loadConfig(projectRoot, configPath)).config;
   const appRoot = join(projectRoot, appDir);
-  const sourcePaths = await discoverSourceFiles(appRoot, projectRoot);
-  const absolutePaths = sourcePaths.map((relativePath) => join(projectRoot, relativePath));
+  const pagesRoot = join(projectRoot, pagesDir);
+  const middleware = await loadMiddleware(projectRoot);
+  const sourcePaths = [
+    ...(await discoverSourceFiles(appRoot, projectRoot, config)),
+    ...(await discoverSourceFiles(pagesRoot, projectRoot, config)),
+  ];
+  if (middleware) {
+    sourcePaths.push(middleware.filePath);
+  }
 
-  const classified = await classifyFiles({ projectRoot, filePaths: absolutePaths });
+  const cache = useCache
+    ? await loadAnalysisCache({ dir: resolve(projectRoot, cacheDir), config })
+    : undefined;
+  const texts = await Promise.all(
+    sourcePaths.map(async (relativePath) => ({
+      relativePath,
+      filePath: toPosix(relativePath),
+      sourceText: await readFile(join(projectRoot, relativePath), 'utf8'),
+    }))
+  );
+  texts.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  // One tree per file for every step below, parsed on first use, so files whose results come
+  // from the cache are only parsed when a step without cached results needs them
+  const sourceFiles = createSourceFileStore(
+    new Map(texts.map(({ filePath, sourceText }) => [filePath, sourceText]))
+  );
+  const files = texts.map((file) => {
+    const contentHash = cache ? hashContent(file.sourceText) : '';
+    let source = cache && getCachedSource(cache, file.filePath, contentHash);
+    if (!source) {
+      source = analyzeFileSource(sourceFiles.get(file.filePath)!);
+      if (cache) {
+        setCachedSource(cache, file.filePath, contentHash, source);
+      }
+    }
+    return { ...file, source };
+  });
 
-  const sources: SourceEntry[] = await Promise.all(
-    classified.map(async (entry) => {
-      const absPath = join(projectRoot, entry.filePath);
-      const sourceText = await readFile(absPath, 'utf8');
-      return {
-        filePath: toPosix(entry.filePath),
-        kind: entry.kind,
-        sourceText,
-        cacheMetadata: collectCacheMetadata({ sourceText }),
-      } as SourceEntry;
-    })
+  const classified: ClassifiedFile[] = files.map(({ relativePath, source }) => ({
+    filePath: relativePath,
+    kind: source.kind,
+    ...(source.serverActions ? { serverActions: source.serverActions } : {}),
+  }));
+  const parsedModules = new Map<string, ParsedModule>(
+    files.map(({ filePath, source }) => [filePath, source.module])
   );
+  const moduleGraph = await collectModuleGraph({
+    projectRoot,
+    classifiedFiles: classified,
+    parsedModules,
+  });
 
-  const diagnosticsByFile: Record<string, Diagnostic[]> = {};
+  const moduleKinds = propagateClientKinds(moduleGraph.values());
+  const effectiveKindByFile = new Map<string, ModuleClassification['kind']>();
+  for (const meta of moduleGraph.values()) {
+    const classification = moduleKinds.get(meta.id);
+    if (classification) {
+      effectiveKindByFile.set(meta.filePath, classification.kind);
+    }
+  }
+
+  const sources: SourceEntry[] = files.map(({ filePath, sourceText, source }) => ({
+    filePath,
+    directiveKind: source.kind,
+    kind: effectiveKindByFile.get(filePath) ?? source.kind,
+    sourceText,
+    cacheMetadata: source.cacheMetadata,
+  }));
 
-  // Analyze client components for forbidden imports
+  const suppressionsByFile = new Map<string, FileSuppressions>();
   for (const entry of sources) {
-    if (entry.kind !== 'client') {
-      continue;
-    }
-    const diagnostics = analyzeClientFileForForbiddenImports({
-      fileName: entry.filePath,
-      sourceText: entry.sourceText,
-    });
-    if (diagnostics.length > 0) {
-      diagnosticsByFile[entry.filePath] = diagnostics;
+    const suppressions = parseSuppressions(entry.sourceText, entry.filePath);
+    if (suppressions) {
+      suppressionsByFile.set(entry.filePath, suppressions);
     }
   }
 
-  // Build set of known client component names for serialization boundary analysis
+  const nextVersion = await readNextVersion(projectRoot);
+  let buildArtifacts: BuildArtifacts | undefined = session?.buildArtifacts;
+  if (!buildArtifacts) {
+    buildArtifacts = skipBuildOutput
+      ? { clientBundles: [], manifest: { routes: [] } }
+      : {
+          clientBundles: await collectClientComponentBundles({ projectRoot, distDir }),
+          manifest: await readManifests({ projectRoot, distDir }),
+        };
+    if (session) {
+      session.buildArtifacts = buildArtifacts;
+    }
+  }
+  const { clientBundles, manifest } = buildArtifacts;
+  const registry = createRuleRegistry([
+    ...BUILT_IN_RULES,
+    ...(await loadCustomRules(config, projectRoot)),
+    ...customRules,
+  ]);
+  // Rule results also depend on the rules themselves and on the build output. Plugin files are
+  // hashed as well, since the source of a rule function does not show the helpers it calls.
+  const rulesRunKey = cache
+    ? hashCacheKey({
+        rules: registry.list(),
+        plugins: await readPluginSources(config, projectRoot),
+        clientBundles,
+        nextVersion,
+      })
+    : undefined;
+
+  // File-name heuristic for client component names, used for tags the render graph cannot resolve
   const clientComponentNames = new Set<string>();
   for (const entry of sources) {
-    if (entry.kind === 'client') {
+    if (entry.directiveKind === 'client') {
       // Extract component name from file path (e.g., Button from Button.tsx)
       const fileName = entry.filePath.split('/').pop() || '';
       const componentName = fileName.replace(/\.(tsx?|jsx?)$/, '');
@@ -469,48 +847,132 @@ export async function analyzeProject({
     }
   }
 
-  // Analyze server components for serialization boundary violations
+  const segmentFiles = indexSegmentFiles(
+    appDir,
+    sources.map((entry) => entry.filePath)
+  );
+  const diagnosticsByFile: Record<string, Diagnostic[]> = {};
+  const suggestionsByFile: Record<string, Suggestion[]> = {};
+  const serverActionUsages: ServerActionUsage[] = [];
+  const fileRulesByFile = new Map<string, string[]>();
   for (const entry of sources) {
-    if (entry.kind !== 'server') {
-      continue;
+    const router = entry.filePath.startsWith(`${pagesDir}/`) ? 'pages' : 'app';
+    let clientComponents: Set<string> | undefined;
+    let serverActions: Set<string> | undefined;
+    let importedActions: Map<string, ImportedServerAction> | undefined;
+
+    // Server Actions passed as props are allowed and recorded so the graph can show who
+    // receives them. Pages Router modules hydrate as a whole, so they have no such boundary.
+    if (entry.kind !== 'client' && router === 'app') {
+      importedActions = collectImportedServerActions(moduleGraph, entry.filePath);
+      clientComponents = collectClientComponentTags(
+        moduleGraph,
+        entry.filePath,
+        clientComponentNames
+      );
+      serverActions = new Set(importedActions.keys());
     }
-    const diagnostics = analyzeSerializationBoundary({
-      fileName: entry.filePath,
-      sourceText: entry.sourceText,
-      clientComponents: clientComponentNames,
-    });
-    if (diagnostics.length > 0) {
-      const existing = diagnosticsByFile[entry.filePath] ?? [];
-      existing.push(...diagnostics);
-      diagnosticsByFile[entry.filePath] = existing;
+    const insideLoadingBoundary = isInsideLoadingBoundary(appDir, entry.filePath, segmentFiles);
+    const rulesKey =
+      cache &&
+      hashCacheKey({
+        run: rulesRunKey,
+        kind: entry.kind,
+        router,
+        clientComponents,
+        serverActions,
+        insideLoadingBoundary,
+      });
+    const cachedRules = rulesKey ? getCachedRules(cache, entry.filePath, rulesKey) : undefined;
+
+    let serverActionProps: ServerActionProp[] = [];
+    if (importedActions) {
+      serverActionProps =
+        cachedRules?.serverActionProps ??
+        collectServerActionProps({
+          fileName: entry.filePath,
+          sourceText: entry.sourceText,
+          clientComponents,
+          serverActions,
+          sourceFile: sourceFiles.get(entry.filePath),
+        });
+      for (const prop of serverActionProps) {
+        serverActionUsages.push({
+          ...resolveServerActionUsage(prop.action, entry.filePath, importedActions),
+          component: prop.component,
+          prop: prop.prop,
+          file: entry.filePath,
+        });
+      }
     }
-  }
-
-  const nextVersion = await readNextVersion(projectRoot);
 
-  const suggestionsByFile: Record<string, Suggestion[]> = {};
-  for (const entry of sources) {
-    const suggestions = collectSuggestionsForSource({
-      filePath: entry.filePath,
-      sourceText: entry.sourceText,
-      kind: entry.kind,
-      reactVersion: nextVersion, // Pass React/Next version for React 19 cache detection
-    });
+    // Modules that only became client because a 'use client' module imports them count as
+    // client modules, so their kind comes from propagation rather than their directive
+    const runOptions: RunRulesOptions = {
+      registry,
+      context: {
+        fileName: entry.filePath,
+        sourceText: entry.sourceText,
+        kind: entry.kind,
+        router,
+        clientComponents,
+        serverActions,
+        clientBundles,
+        reactVersion: nextVersion, // Pass React/Next version for React 19 cache detection
+        insideLoadingBoundary,
+      },
+      config,
+    };
+    fileRulesByFile.set(
+      entry.filePath,
+      selectRules(runOptions).map((rule) => rule.id)
+    );
+    // A file's kind also changes when a module importing it gains or loses 'use client'
+    let analysis = session?.files.get(entry.filePath);
+    if (!analysis || analysis.sourceText !== entry.sourceText || analysis.kind !== entry.kind) {
+      let results: Pick<RunRulesResult, 'diagnostics' | 'suggestions'> | undefined = cachedRules;
+      if (!results) {
+        onRunRules?.(runOptions);
+        results = runRules({ ...runOptions, sourceFile: sourceFiles.get(entry.filePath) });
+        if (cache && rulesKey) {
+          const { diagnostics, suggestions } = results;
+          setCachedRules(cache, entry.filePath, {
+            key: rulesKey,
+            diagnostics,
+            suggestions,
+            serverActionProps,
+          });
+        }
+      }
+      const { diagnostics, suggestions } = results;
+      analysis = { sourceText: entry.sourceText, kind: entry.kind, diagnostics, suggestions };
+      session?.files.set(entry.filePath, analysis);
+    }
+    const { diagnostics, suggestions } = analysis;
+    if (diagnostics.length > 0) {
+      diagnosticsByFile[entry.filePath] = diagnostics;
+    }
     if (suggestions.length > 0) {
       suggestionsByFile[entry.filePath] = suggestions;
     }
   }
 
-  const clientBundles = await collectClientComponentBundles({ projectRoot, distDir });
-  const manifest = await readManifests({ projectRoot, distDir });
+  if (session) {
+    session.moduleGraph = moduleGraph;
+    session.appDir = appDir;
+    const analyzed = new Set(sources.map((entry) => entry.filePath));
+    for (const file of session.files.keys()) {
+      if (!analyzed.has(file)) {
+        session.files.delete(file);
+      }
+    }
+  }
 
-  // Check for client component size issues
-  const sizeIssues = detectClientSizeIssues(clientBundles);
-  for (const diagnostic of sizeIssues) {
-    if (!diagnostic.loc) continue;
-    const existing = diagnosticsByFile[diagnostic.loc.file] ?? [];
-    existing.push(diagnostic);
-    diagnosticsByFile[diagnostic.loc.file] = existing;
+  if (cache) {
+    await saveAnalysisCache(
+      cache,
+      sources.map((entry) => entry.filePath)
+    );
   }
 
   const cacheMetadataByFile: Record<string, FileCacheMetadata> = {};
@@ -525,7 +987,13 @@ export async function analyzeProject({
     clientBundles,
     suggestionsByFile,
     appDir,
+    pagesDir,
     cacheMetadataByFile,
+    moduleGraph,
+    serverActionUsages,
+    middleware,
+    components,
+    sourceFiles,
   });
 
   const hydrationDurations = await readHydrationSnapshot(projectRoot);
@@ -582,7 +1050,14 @@ export async function analyzeProject({
   };
 
   applyHydrationDurations(nodes, routes, hydrationDurations);
+  // Config runs before aggregation so disabled findings do not feed route-level suggestions,
+  // and again after it for the aggregated suggestions themselves
+  applyConfigToNodes(nodes, config);
+  applySuppressionsToNodes(nodes, suppressionsByFile);
   applyRouteWaterfallSuggestions(nodes, routes);
+  applyConfigToNodes(nodes, config);
+  applySuppressionsToNodes(nodes, suppressionsByFile);
+  reportUnusedSuppressions(nodes, suppressionsByFile, fileRulesByFile, config);
   const flightSamples = await readFlightSnapshot(projectRoot);
 
   return {
@@ -0,0 +1,206 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+
+import type { Diagnostic, DiagnosticLevel, Model, Suggestion } from '@rsc-xray/schemas';
+
+export const DEFAULT_BASELINE_PATH = '.scx/baseline.json';
+
+export const BASELINE_VERSION = 1;
+
+/**
+ * A finding recorded in the baseline. Findings match on rule, file, and fingerprint; level and
+ * message are kept for people reading the file.
+ */
+export interface BaselineEntry {
+  rule: string;
+  file: string;
+  /** Hash of the flagged source lines, independent of their line numbers */
+  fingerprint: string;
+  level: DiagnosticLevel;
+  message: string;
+}
+
+export interface Baseline {
+  version: typeof BASELINE_VERSION;
+  createdAt: string;
+  findings: BaselineEntry[];
+}
+
+export type BaselineStatus = 'new' | 'existing' | 'fixed';
+
+export interface BaselineComparison {
+  /** Current findings missing from the baseline */
+  new: BaselineEntry[];
+  /** Current findings already recorded in the baseline */
+  existing: BaselineEntry[];
+  /** Baseline findings no longer reported */
+  fixed: BaselineEntry[];
+}
+
+export interface CollectedFinding {
+  finding: Diagnostic | Suggestion;
+  /** File of the finding, falling back to the file of the node it is attached to */
+  file: string;
+}
+
+/**
+ * Every diagnostic and suggestion in the model. A finding attached to several nodes (e.g. a
+ * route conflict on both the page module and the route) is listed once.
+ */
+export function collectModelFindings(model: Model): CollectedFinding[] {
+  const seen = new Set<string>();
+  const collected: CollectedFinding[] = [];
+
+  for (const node of Object.values(model.nodes)) {
+    for (const finding of [...(node.diagnostics ?? []), ...(node.suggestions ?? [])]) {
+      const file = finding.loc?.file ?? node.file ?? node.id;
+      const key = [
+        finding.rule,
+        file,
+        finding.loc?.range.from,
+        finding.loc?.range.to,
+        finding.message,
+      ].join('\0');
+      if (!seen.has(key)) {
+        seen.add(key);
+        collected.push({ finding, file });
+      }
+    }
+  }
+
+  return collected;
+}
+
+const normalizeWhitespace = (value: string) => value.replace(/\s+/g, ' ').trim();
+
+/**
+ * Source lines spanned by the finding, whitespace-normalized so re-indenting or moving the code
+ * keeps the fingerprint. Findings without a usable range fall back to their message with
+ * numbers masked, so changing byte counts do not count as a new finding.
+ */
+function getFingerprintSource(finding: Diagnostic | Suggestion, sourceText?: string): string {
+  const range = finding.loc?.range;
+  if (sourceText !== undefined && range && range.to > range.from) {
+    const start = sourceText.lastIndexOf('\n', range.from - 1) + 1;
+    const endIndex = sourceText.indexOf('\n', range.to);
+    const end = endIndex === -1 ? sourceText.length : endIndex;
+    return normalizeWhitespace(sourceText.slice(start, end));
+  }
+  return normalizeWhitespace(finding.message.replace(/\d+(?:\.\d+)?/g, '#'));
+}
+
+export function fingerprintFinding(finding: Diagnostic | Suggestion, sourceText?: string): string {
+  return createHash('sha1')
+    .update(`${finding.rule}\0${getFingerprintSource(finding, sourceText)}`)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+async function readSourceText(projectRoot: string, file: string): Promise<string | undefined> {
+  try {
+    return await readFile(join(projectRoot, file), 'utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Fingerprint every finding of a model against the project's current sources
+ */
+export async function collectBaselineEntries(
+  model: Model,
+  projectRoot: string
+): Promise<BaselineEntry[]> {
+  const sourceTexts = new Map<string, Promise<string | undefined>>();
+  const entries: BaselineEntry[] = [];
+
+  for (const { finding, file } of collectModelFindings(model)) {
+    let sourceText = sourceTexts.get(file);
+    if (!sourceText) {
+      sourceText = readSourceText(projectRoot, file);
+      sourceTexts.set(file, sourceText);
+    }
+    entries.push({
+      rule: finding.rule,
+      file,
+      fingerprint: fingerprintFinding(finding, await sourceText),
+      level: finding.level,
+      message: finding.message,
+    });
+  }
+
+  return entries.sort(
+    (a, b) =>
+      a.file.localeCompare(b.file) ||
+      a.rule.localeCompare(b.rule) ||
+      a.fingerprint.localeCompare(b.fingerprint)
+  );
+}
+
+export async function createBaseline(model: Model, projectRoot: string): Promise<Baseline> {
+  return {
+    version: BASELINE_VERSION,
+    createdAt: new Date().toISOString(),
+    findings: await collectBaselineEntries(model, projectRoot),
+  };
+}
+
+const entryKey = (entry: BaselineEntry) => `${entry.rule}\0${entry.file}\0${entry.fingerprint}`;
+
+/**
+ * Classify current findings against a baseline. Identical fingerprints are matched as a
+ * multiset, so a second copy of a baselined finding in the same file still counts as new.
+ */
+export function compareWithBaseline(
+  baseline: Baseline,
+  current: readonly BaselineEntry[]
+): BaselineComparison {
+  const remaining = new Map<string, BaselineEntry[]>();
+  for (const entry of baseline.findings) {
+    const key = entryKey(entry);
+    remaining.set(key, [...(remaining.get(key) ?? []), entry]);
+  }
+
+  const comparison: BaselineComparison = { new: [], existing: [], fixed: [] };
+  for (const entry of current) {
+    const matches = remaining.get(entryKey(entry));
+    if (matches?.length) {
+      matches.pop();
+      comparison.existing.push(entry);
+    } else {
+      comparison.new.push(entry);
+    }
+  }
+  for (const matches of remaining.values()) {
+    comparison.fixed.push(...matches);
+  }
+
+  return comparison;
+}
+
+/**
+ * Read a baseline file; a missing file is an empty baseline
+ */
+export async function readBaseline(path: string): Promise<Baseline> {
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { version: BASELINE_VERSION, createdAt: new Date(0).toISOString(), findings: [] };
+    }
+    throw error;
+  }
+
+  const baseline = JSON.parse(raw) as Baseline;
+  if (baseline.version !== BASELINE_VERSION || !Array.isArray(baseline.findings)) {
+    throw new Error(`Unsupported baseline file ${path}: expected version ${BASELINE_VERSION}`);
+  }
+  return baseline;
+}
+
+export async function writeBaseline(path: string, baseline: Baseline): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, `${JSON.stringify(baseline, null, 2)}\n`, 'utf8');
+}
@@ -0,0 +1,294 @@
+import { readFile } from 'node:fs/promises';
+
+import type { Diagnostic, Model, RouteBudget, RscXrayBudgets, XNode } from '@rsc-xray/schemas';
+
+import { matchesGlob } from './config.js';
+
+export const DEFAULT_BUDGETS_PATH = 'rsc-xray.budgets.json';
+
+export const ROUTE_BUDGET_RULE = 'route-budget';
+
+export type BudgetMetric = 'totalBytes' | 'clientIslands' | 'islandBytes' | 'sharedChunkBytes';
+
+const BUDGET_LIMITS: Record<BudgetMetric, keyof Omit<RouteBudget, 'routes'>> = {
+  totalBytes: 'maxTotalBytes',
+  clientIslands: 'maxClientIslands',
+  islandBytes: 'maxIslandBytes',
+  sharedChunkBytes: 'maxSharedChunkBytes',
+};
+
+export const BUDGET_METRICS = Object.keys(BUDGET_LIMITS) as BudgetMetric[];
+
+/** Limits of a route after applying every matching budget */
+export type RouteBudgetLimits = Partial<Record<BudgetMetric, number>>;
+
+export interface ClientIsland {
+  id: string;
+  file?: string;
+  bytes: number;
+}
+
+export interface RouteBudgetMetrics {
+  /** `RouteEntry.totalBytes`; undefined without build output */
+  totalBytes?: number;
+  /** Client modules imported by server modules the route renders */
+  islands: ClientIsland[];
+  /** Bytes of the route's chunks that other routes load too; undefined without chunk lists */
+  sharedChunkBytes?: number;
+}
+
+export interface BudgetOverage {
+  route: string;
+  metric: BudgetMetric;
+  limit: number;
+  actual: number;
+  /** Island the overage is about, for `islandBytes` */
+  island?: ClientIsland;
+}
+
+export interface RouteBudgetResult {
+  route: string;
+  limits: RouteBudgetLimits;
+  metrics: RouteBudgetMetrics;
+  overages: BudgetOverage[];
+}
+
+export interface BudgetEvaluation {
+  /** Routes matched by at least one budget */
+  routes: RouteBudgetResult[];
+  overages: BudgetOverage[];
+  passed: boolean;
+}
+
+export interface EvaluateBudgetsOptions {
+  /** Sizes of the routes' chunks, see `readChunkSizes`; shared chunks count as 0 bytes without */
+  chunkSizes?: ReadonlyMap<string, number>;
+}
+
+function fail(source: string, message: string): never {
+  throw new Error(`Invalid rsc-xray budgets (${source}): ${message}`);
+}
+
+/**
+ * Check the shape of a budgets file, reporting the first problem with its key
+ */
+export function validateBudgets(value: unknown, source = 'budgets'): RscXrayBudgets {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fail(source, 'expected an object');
+  }
+  const { budgets } = value as RscXrayBudgets;
+  if (!Array.isArray(budgets)) {
+    fail(source, `'budgets' must be an array`);
+  }
+  budgets.forEach((budget, index) => {
+    if (
+      !Array.isArray(budget?.routes) ||
+      budget.routes.some((route) => typeof route !== 'string')
+    ) {
+      fail(source, `'budgets[${index}].routes' must be an array of strings`);
+    }
+    for (const key of Object.values(BUDGET_LIMITS)) {
+      const limit = budget[key];
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 0)) {
+        fail(source, `'budgets[${index}].${key}' must be a whole number`);
+      }
+    }
+  });
+  return value as RscXrayBudgets;
+}
+
+export async function readBudgets(path: string): Promise<RscXrayBudgets> {
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`Budgets file not found: ${path}`);
+    }
+    throw error;
+  }
+  return validateBudgets(JSON.parse(raw), path);
+}
+
+/**
+ * Limits for a route from every budget whose globs match it, later budgets winning
+ */
+export function resolveRouteBudget(budgets: RscXrayBudgets, route: string): RouteBudgetLimits {
+  const limits: RouteBudgetLimits = {};
+  for (const budget of budgets.budgets) {
+    if (!matchesGlob(route, budget.routes)) {
+      continue;
+    }
+    for (const metric of BUDGET_METRICS) {
+      const limit = budget[BUDGET_LIMITS[metric]];
+      if (limit !== undefined) {
+        limits[metric] = limit;
+      }
+    }
+  }
+  return limits;
+}
+
+/**
+ * Client islands a route renders: client modules reached from its root through server modules.
+ * Modules imported by an island belong to its bundle and are not islands themselves.
+ */
+function collectIslands(model: Model, rootNodeId: string): ClientIsland[] {
+  const islands: ClientIsland[] = [];
+  const visited = new Set<string>();
+  const queue = [rootNodeId];
+  while (queue.length) {
+    const id = queue.shift()!;
+    const node: XNode | undefined = model.nodes[id];
+    if (visited.has(id) || !node) {
+      continue;
+    }
+    visited.add(id);
+    if (node.kind === 'client') {
+      islands.push({ id, ...(node.file && { file: node.file }), bytes: node.bytes ?? 0 });
+      continue;
+    }
+    queue.push(...(node.children ?? []));
+  }
+  return islands.sort((a, b) => b.bytes - a.bytes || a.id.localeCompare(b.id));
+}
+
+export function collectRouteBudgetMetrics(
+  model: Model,
+  route: string,
+  { chunkSizes }: EvaluateBudgetsOptions = {}
+): RouteBudgetMetrics {
+  const entry = model.routes.find((candidate) => candidate.route === route);
+  if (!entry) {
+    throw new Error(`Route ${route} is not part of the model`);
+  }
+
+  const metrics: RouteBudgetMetrics = {
+    ...(entry.totalBytes !== undefined && { totalBytes: entry.totalBytes }),
+    islands: collectIslands(model, entry.rootNodeId),
+  };
+
+  if (entry.chunks) {
+    const routesPerChunk = new Map<string, number>();
+    for (const { chunks } of model.routes) {
+      for (const chunk of new Set(chunks)) {
+        routesPerChunk.set(chunk, (routesPerChunk.get(chunk) ?? 0) + 1);
+      }
+    }
+    metrics.sharedChunkBytes = [...new Set(entry.chunks)]
+      .filter((chunk) => routesPerChunk.get(chunk)! > 1)
+      .reduce((total, chunk) => total + (chunkSizes?.get(chunk) ?? 0), 0);
+  }
+
+  return metrics;
+}
+
+function checkLimits(
+  route: string,
+  limits: RouteBudgetLimits,
+  metrics: RouteBudgetMetrics
+): BudgetOverage[] {
+  const overages: BudgetOverage[] = [];
+  const check = (metric: BudgetMetric, actual: number | undefined, island?: ClientIsland) => {
+    const limit = limits[metric];
+    if (limit !== undefined && actual !== undefined && actual > limit) {
+      overages.push({ route, metric, limit, actual, ...(island && { island }) });
+    }
+  };
+
+  check('totalBytes', metrics.totalBytes);
+  check('clientIslands', metrics.islands.length);
+  const [largest] = metrics.islands;
+  check('islandBytes', largest?.bytes, largest);
+  check('sharedChunkBytes', metrics.sharedChunkBytes);
+  return overages;
+}
+
+/**
+ * Check every route matched by a budget against its limits. Limits whose metric the model
+ * lacks (e.g. `totalBytes` without build output) are skipped.
+ */
+export function evaluateBudgets(
+  model: Model,
+  budgets: RscXrayBudgets,
+  options: EvaluateBudgetsOptions = {}
+): BudgetEvaluation {
+  const routes: RouteBudgetResult[] = [];
+  for (const { route } of [...model.routes].sort((a, b) => a.route.localeCompare(b.route))) {
+    const limits = resolveRouteBudget(budgets, route);
+    if (!Object.keys(limits).length) {
+      continue;
+    }
+    const metrics = collectRouteBudgetMetrics(model, route, options);
+    routes.push({ route, limits, metrics, overages: checkLimits(route, limits, metrics) });
+  }
+
+  const overages = routes.flatMap((result) => result.overages);
+  return { routes, overages, passed: overages.length === 0 };
+}
+
+/**
+ * Bytes as `512 B` or `1.5 kB`, the style of budget messages and CLI tables; undefined sizes
+ * print as `-`
+ */
+export function formatBytes(bytes: number | undefined): string {
+  if (bytes === undefined) {
+    return '-';
+  }
+  return Math.abs(bytes) < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} kB`;
+}
+
+function formatOverageMessage({ route, metric, limit, actual, island }: BudgetOverage): string {
+  switch (metric) {
+    case 'totalBytes':
+      return `Route ${route} loads ${formatBytes(actual)} of JavaScript, ${formatBytes(actual - limit)} over its ${formatBytes(limit)} budget.`;
+    case 'clientIslands':
+      return `Route ${route} renders ${actual} client islands, ${actual - limit} over its budget of ${limit}.`;
+    case 'islandBytes':
+      return `Client island ${island?.file ?? island?.id} of route ${route} is ${formatBytes(actual)}, ${formatBytes(actual - limit)} over its ${formatBytes(limit)} budget.`;
+    case 'sharedChunkBytes':
+      return `Route ${route} loads ${formatBytes(actual)} of chunks shared with other routes, ${formatBytes(actual - limit)} over its ${formatBytes(limit)} budget.`;
+  }
+}
+
+export function createBudgetDiagnostic(overage: BudgetOverage): Diagnostic {
+  return { rule: ROUTE_BUDGET_RULE, level: 'error', message: formatOverageMessage(overage) };
+}
+
+/**
+ * Copy of the model with a `route-budget` diagnostic on the route node of every overage.
+ * Budget diagnostics of an earlier run are replaced.
+ */
+export function applyBudgetDiagnostics(model: Model, overages: readonly BudgetOverage[]): Model {
+  const nodes: Model['nodes'] = {};
+  for (const [id, node] of Object.entries(model.nodes)) {
+    const diagnostics = node.diagnostics?.filter(({ rule }) => rule !== ROUTE_BUDGET_RULE);
+    if (!diagnostics || diagnostics.length === node.diagnostics?.length) {
+      nodes[id] = node;
+      continue;
+    }
+    const copy: XNode = { ...node, diagnostics };
+    if (!diagnostics.length) {
+      delete copy.diagnostics;
+    }
+    nodes[id] = copy;
+  }
+
+  for (const overage of overages) {
+    const entry = model.routes.find(({ route }) => route === overage.route);
+    if (!entry) {
+      continue;
+    }
+    const node: XNode = nodes[entry.rootNodeId] ?? {
+      id: entry.rootNodeId,
+      kind: 'route',
+      name: entry.route,
+    };
+    nodes[entry.rootNodeId] = {
+      ...node,
+      diagnostics: [...(node.diagnostics ?? []), createBudgetDiagnostic(overage)],
+    };
+  }
+
+  return { ...model, nodes };
+}
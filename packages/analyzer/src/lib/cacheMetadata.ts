@@ -1,5 +1,7 @@
 import * as ts from 'typescript';
 
+import { parseSourceFile } from './sourceFiles.js';
+
 export interface FileCacheMetadata {
   tags: Set<string>;
   cacheModes: Set<'force-cache' | 'no-store'>;
@@ -14,6 +16,8 @@ export interface FileCacheMetadata {
 
 interface CollectOptions {
   sourceText: string;
+  /** Tree of `sourceText`, e.g. from the run's source file store; parsed when omitted */
+  sourceFile?: ts.SourceFile;
 }
 
 const CACHE_LITERAL_VALUES = new Set(['force-cache', 'no-store']);
@@ -167,15 +171,11 @@ function isIdentifierWithName(node: ts.Expression, name: string): boolean {
   return false;
 }
 
-export function collectCacheMetadata({ sourceText }: CollectOptions): FileCacheMetadata {
+export function collectCacheMetadata({
+  sourceText,
+  sourceFile = parseSourceFile('inline.tsx', sourceText),
+}: CollectOptions): FileCacheMetadata {
   const metadata = createEmptyMetadata();
-  const sourceFile = ts.createSourceFile(
-    'inline.tsx',
-    sourceText,
-    ts.ScriptTarget.Latest,
-    true,
-    ts.ScriptKind.TSX
-  );
 
   // Track local identifiers imported for dynamic APIs
   const headersIdents = new Set<string>();
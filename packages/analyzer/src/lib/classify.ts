@@ -1,48 +1,192 @@
 import * as ts from 'typescript';
 
+import { parseSourceFile } from './sourceFiles.js';
+
 export type ComponentKind = 'server' | 'client';
 
 interface ClassifyComponentOptions {
   sourceText: string;
   fileName: string;
+  /** Tree of `sourceText`, e.g. from the run's source file store; parsed when omitted */
+  sourceFile?: ts.SourceFile;
+}
+
+/**
+ * Server Actions declared in a module
+ */
+export interface ServerActionInfo {
+  /** The file starts with 'use server', so every exported function is an action */
+  moduleDirective: boolean;
+  /** Exported action names ('default' for the default export); module directive only */
+  exported: string[];
+  /** Named functions declaring 'use server' at the top of their own body */
+  inline: string[];
 }
 
 interface ClassificationResult {
   fileName: string;
   kind: ComponentKind;
   hasUseClientDirective: boolean;
+  hasUseServerDirective: boolean;
+  serverActions?: ServerActionInfo;
 }
 
-function hasUseClientDirective(sourceFile: ts.SourceFile): boolean {
-  for (const statement of sourceFile.statements) {
+function hasDirective(statements: ts.NodeArray<ts.Statement>, directive: string): boolean {
+  for (const statement of statements) {
     if (!ts.isExpressionStatement(statement)) {
       return false;
     }
     if (!ts.isStringLiteral(statement.expression)) {
       return false;
     }
-    if (statement.expression.text === 'use client') {
+    if (statement.expression.text === directive) {
       return true;
     }
   }
   return false;
 }
 
+function hasUseClientDirective(sourceFile: ts.SourceFile): boolean {
+  return hasDirective(sourceFile.statements, 'use client');
+}
+
+type FunctionLike = ts.FunctionDeclaration | ts.FunctionExpression | ts.ArrowFunction;
+
+function isFunctionLike(node: ts.Node): node is FunctionLike {
+  return (
+    ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node) || ts.isArrowFunction(node)
+  );
+}
+
+/**
+ * Check whether a function declares 'use server' at the top of its body (inline Server Action)
+ */
+export function isInlineServerAction(node: ts.Node): boolean {
+  if (!isFunctionLike(node) || !node.body || !ts.isBlock(node.body)) {
+    return false;
+  }
+  return hasDirective(node.body.statements, 'use server');
+}
+
+function hasExportModifier(node: ts.Node): boolean {
+  return (
+    ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node)?.some((modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword) ??
+      false)
+  );
+}
+
+function hasDefaultModifier(node: ts.Node): boolean {
+  return (
+    ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node)?.some((modifier) => modifier.kind === ts.SyntaxKind.DefaultKeyword) ??
+      false)
+  );
+}
+
+/**
+ * Names of the runtime (non-type) exports of a module, 'default' for the default export
+ */
+export function collectExportedNames(sourceFile: ts.SourceFile): string[] {
+  const names = new Set<string>();
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && hasExportModifier(statement)) {
+      if (hasDefaultModifier(statement)) {
+        names.add('default');
+      } else if (statement.name) {
+        names.add(statement.name.text);
+      }
+      continue;
+    }
+
+    if (ts.isVariableStatement(statement) && hasExportModifier(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) {
+          names.add(declaration.name.text);
+        }
+      }
+      continue;
+    }
+
+    if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      names.add('default');
+      continue;
+    }
+
+    if (
+      ts.isExportDeclaration(statement) &&
+      !statement.isTypeOnly &&
+      statement.exportClause &&
+      ts.isNamedExports(statement.exportClause)
+    ) {
+      for (const element of statement.exportClause.elements) {
+        if (!element.isTypeOnly) {
+          names.add(element.name.text);
+        }
+      }
+    }
+  }
+
+  return Array.from(names).sort();
+}
+
+function getFunctionName(node: FunctionLike): string | undefined {
+  if (node.name) {
+    return node.name.text;
+  }
+  const parent = node.parent;
+  if (parent && ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+    return parent.name.text;
+  }
+  return undefined;
+}
+
+/**
+ * Collect Server Actions declared by a module: every export of a 'use server' file, plus named
+ * functions with their own inline 'use server' directive.
+ */
+export function collectServerActions(sourceFile: ts.SourceFile): ServerActionInfo | undefined {
+  const moduleDirective = hasDirective(sourceFile.statements, 'use server');
+  const inline = new Set<string>();
+
+  const visit = (node: ts.Node) => {
+    if (isInlineServerAction(node)) {
+      const name = getFunctionName(node as FunctionLike);
+      if (name) {
+        inline.add(name);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+
+  const exported = moduleDirective ? collectExportedNames(sourceFile) : [];
+
+  if (!moduleDirective && inline.size === 0) {
+    return undefined;
+  }
+
+  return {
+    moduleDirective,
+    exported,
+    inline: Array.from(inline).sort(),
+  };
+}
+
 export function classifyComponent({
   sourceText,
   fileName,
+  sourceFile = parseSourceFile(fileName, sourceText),
 }: ClassifyComponentOptions): ClassificationResult {
-  const sourceFile = ts.createSourceFile(
-    fileName,
-    sourceText,
-    ts.ScriptTarget.Latest,
-    true,
-    ts.ScriptKind.TSX
-  );
-  const hasDirective = hasUseClientDirective(sourceFile);
+  const isClient = hasUseClientDirective(sourceFile);
+  const serverActions = collectServerActions(sourceFile);
   return {
     fileName,
-    kind: hasDirective ? 'client' : 'server',
-    hasUseClientDirective: hasDirective,
+    kind: isClient ? 'client' : 'server',
+    hasUseClientDirective: isClient,
+    hasUseServerDirective: serverActions?.moduleDirective ?? false,
+    ...(serverActions ? { serverActions } : {}),
   };
 }
@@ -1,11 +1,12 @@
 import { readFile } from 'node:fs/promises';
 import { relative } from 'node:path';
 
-import { classifyComponent, type ComponentKind } from './classify.js';
+import { classifyComponent, type ComponentKind, type ServerActionInfo } from './classify.js';
 
 export interface ClassifiedFile {
   filePath: string;
   kind: ComponentKind;
+  serverActions?: ServerActionInfo;
 }
 
 export interface ClassifyFilesOptions {
@@ -24,6 +25,7 @@ export async function classifyFiles({
       return {
         filePath: relative(projectRoot, absPath) || absPath,
         kind: classification.kind,
+        ...(classification.serverActions ? { serverActions: classification.serverActions } : {}),
       } satisfies ClassifiedFile;
     })
   );
@@ -0,0 +1,125 @@
+import type { ClientReason, NodeKind } from '@rsc-xray/schemas';
+
+import type { ServerActionInfo } from './classify.js';
+
+/**
+ * Effective runtime environment of a module:
+ * - `client`: only ever loaded through the client bundle (own directive or client-only imports)
+ * - `shared`: imported from both server modules and client modules, so it ships in both
+ * - `server`: never reachable from a 'use client' entry point
+ */
+export type ModuleKind = 'server' | 'client' | 'shared';
+
+export interface ModuleClassification {
+  kind: ModuleKind;
+  clientReason?: ClientReason;
+}
+
+export interface PropagationInput {
+  id: string;
+  /** Directive-based kind ('client' only when the module declares 'use client') */
+  kind: NodeKind;
+  imports: string[];
+  /** Modules declaring 'use server' are RPC boundaries and never enter the client bundle */
+  serverActions?: ServerActionInfo;
+}
+
+function isServerActionModule(module: PropagationInput | undefined): boolean {
+  return module?.serverActions?.moduleDirective ?? false;
+}
+
+function buildChain(moduleId: string, parents: Map<string, string | undefined>): string[] {
+  const chain: string[] = [];
+  let current: string | undefined = moduleId;
+  while (current) {
+    chain.unshift(current);
+    current = parents.get(current);
+  }
+  return chain;
+}
+
+/**
+ * Compute the effective kind of every module by walking imports from 'use client' entry points.
+ *
+ * Anything a client module imports ends up in the client bundle, so reachability from a
+ * directive marks a module as client. Modules that are also reachable from server code (without
+ * crossing a 'use client' boundary) are reported as shared. The recorded import chain is the
+ * shortest path from a directive module, which is what users need to break the dependency.
+ * Client imports of 'use server' modules only ship action references, so the walk stops there.
+ */
+export function propagateClientKinds(
+  modules: Iterable<PropagationInput>
+): Map<string, ModuleClassification> {
+  const lookup = new Map<string, PropagationInput>();
+  for (const module of modules) {
+    lookup.set(module.id, module);
+  }
+
+  // Breadth-first from every directive module so each chain is the shortest one.
+  const clientParents = new Map<string, string | undefined>();
+  const queue: string[] = [];
+  for (const module of lookup.values()) {
+    if (module.kind === 'client') {
+      clientParents.set(module.id, undefined);
+      queue.push(module.id);
+    }
+  }
+
+  for (let index = 0; index < queue.length; index += 1) {
+    const current = lookup.get(queue[index]!);
+    for (const importedId of current?.imports ?? []) {
+      if (
+        clientParents.has(importedId) ||
+        !lookup.has(importedId) ||
+        isServerActionModule(lookup.get(importedId))
+      ) {
+        continue;
+      }
+      clientParents.set(importedId, current!.id);
+      queue.push(importedId);
+    }
+  }
+
+  // Server reachability starts from every module the client graph never touches and stops at
+  // 'use client' boundaries, because those render on the client from the server's perspective.
+  const serverReachable = new Set<string>();
+  const stack: string[] = [];
+  for (const module of lookup.values()) {
+    if (!clientParents.has(module.id)) {
+      serverReachable.add(module.id);
+      stack.push(module.id);
+    }
+  }
+
+  while (stack.length > 0) {
+    const current = lookup.get(stack.pop()!);
+    for (const importedId of current?.imports ?? []) {
+      const imported = lookup.get(importedId);
+      if (!imported || imported.kind === 'client' || serverReachable.has(importedId)) {
+        continue;
+      }
+      serverReachable.add(importedId);
+      stack.push(importedId);
+    }
+  }
+
+  const result = new Map<string, ModuleClassification>();
+  for (const module of lookup.values()) {
+    if (!clientParents.has(module.id)) {
+      result.set(module.id, { kind: 'server' });
+      continue;
+    }
+
+    const clientReason: ClientReason =
+      module.kind === 'client'
+        ? { type: 'directive' }
+        : { type: 'import', importChain: buildChain(module.id, clientParents) };
+
+    const kind: ModuleKind =
+      module.kind !== 'client' && serverReachable.has(module.id) ? 'shared' : 'client';
+
+    result.set(module.id, { kind, clientReason });
+  }
+
+  return result;
+}
@@ -0,0 +1,392 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { createRequire, isBuiltin } from 'node:module';
+import { tmpdir } from 'node:os';
+import { basename, dirname, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+import * as ts from 'typescript';
+
+import {
+  getRuleInfo,
+  type Diagnostic,
+  type RscXrayConfig,
+  type RuleLevelSetting,
+  type RuleSetting,
+  type Suggestion,
+} from '@rsc-xray/schemas';
+
+export const CONFIG_FILE_NAMES = [
+  'rsc-xray.config.json',
+  'rsc-xray.config.js',
+  'rsc-xray.config.mjs',
+  'rsc-xray.config.ts',
+];
+
+export const DEFAULT_SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+
+export const DEFAULT_EXCLUDE = ['**/node_modules/**', '**/.git/**', '**/.next/**', '**/.turbo/**'];
+
+const RULE_LEVELS = new Set<RuleLevelSetting>(['off', 'error', 'warn', 'info']);
+
+export interface LoadedConfig {
+  config: RscXrayConfig;
+  /** Absolute path of the loaded file; undefined when the project has no config */
+  filePath?: string;
+}
+
+/**
+ * Settings of a rule for one file after applying `rules` and every matching override
+ */
+export interface ResolvedRuleSetting {
+  level?: RuleLevelSetting;
+  options: Record<string, unknown>;
+}
+
+/**
+ * Convert a glob into a regular expression. Supports `*`, `**`, `?` and `{a,b}`; a trailing
+ * `/**` also matches the directory itself so excluded directories can be pruned while walking.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  let index = 0;
+  let braceDepth = 0;
+
+  while (index < glob.length) {
+    const char = glob[index]!;
+
+    if (char === '*' && glob[index + 1] === '*') {
+      const atSegmentStart = index === 0 || glob[index - 1] === '/';
+      const atSegmentEnd = index + 2 === glob.length || glob[index + 2] === '/';
+      if (atSegmentStart && atSegmentEnd) {
+        if (index + 2 === glob.length) {
+          // `dir/**` matches `dir` and everything below it
+          pattern = pattern.endsWith('/') ? `${pattern.slice(0, -1)}(?:/.*)?` : `${pattern}.*`;
+          index += 2;
+        } else {
+          // `**/` matches zero or more directories
+          pattern += '(?:.*/)?';
+          index += 3;
+        }
+        continue;
+      }
+    }
+
+    if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{') {
+      braceDepth += 1;
+      pattern += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth -= 1;
+      pattern += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      pattern += '|';
+    } else {
+      pattern += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+    index += 1;
+  }
+
+  return new RegExp(`^${pattern}$`);
+}
+
+const globCache = new Map<string, RegExp>();
+
+/**
+ * Whether a posix path relative to the project root matches any of the globs
+ */
+export function matchesGlob(filePath: string, globs: readonly string[]): boolean {
+  const normalized = filePath.replace(/^\.\//, '');
+  return globs.some((glob) => {
+    let regex = globCache.get(glob);
+    if (!regex) {
+      regex = globToRegExp(glob.replace(/^\.\//, ''));
+      globCache.set(glob, regex);
+    }
+    return regex.test(normalized);
+  });
+}
+
+function fail(source: string, message: string): never {
+  throw new Error(`Invalid rsc-xray config (${source}): ${message}`);
+}
+
+function validateGlobs(value: unknown, key: string, source: string): void {
+  if (
+    value !== undefined &&
+    (!Array.isArray(value) || value.some((item) => typeof item !== 'string'))
+  ) {
+    fail(source, `'${key}' must be an array of strings`);
+  }
+}
+
+function validateRules(value: unknown, key: string, source: string): void {
+  if (value === undefined) {
+    return;
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fail(source, `'${key}' must be an object keyed by rule id`);
+  }
+  for (const [ruleId, setting] of Object.entries(value)) {
+    const level = typeof setting === 'object' && setting !== null ? setting.level : setting;
+    if (level !== undefined && !RULE_LEVELS.has(level)) {
+      fail(
+        source,
+        `'${key}.${ruleId}' must be one of ${Array.from(RULE_LEVELS).join(', ')} or { level, options }`
+      );
+    }
+    const options = typeof setting === 'object' && setting !== null ? setting.options : undefined;
+    if (options !== undefined && (typeof options !== 'object' || options === null)) {
+      fail(source, `'${key}.${ruleId}.options' must be an object`);
+    }
+  }
+}
+
+/**
+ * Check the shape of a loaded config, reporting the first problem with its key
+ */
+export function validateConfig(value: unknown, source = 'config'): RscXrayConfig {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fail(source, 'expected an object');
+  }
+  const config = value as RscXrayConfig;
+  validateGlobs(config.include, 'include', source);
+  validateGlobs(config.exclude, 'exclude', source);
+  validateGlobs(config.extensions, 'extensions', source);
+  validateRules(config.rules, 'rules', source);
+
+  if (config.plugins !== undefined) {
+    if (!Array.isArray(config.plugins)) {
+      fail(source, `'plugins' must be an array`);
+    }
+    config.plugins.forEach((plugin, index) => {
+      if (typeof plugin !== 'string' && !Array.isArray(plugin?.rules)) {
+        fail(source, `'plugins[${index}]' must be a module name or an object with a rules array`);
+      }
+    });
+  }
+
+  if (config.overrides !== undefined) {
+    if (!Array.isArray(config.overrides)) {
+      fail(source, `'overrides' must be an array`);
+    }
+    config.overrides.forEach((override, index) => {
+      if (!Array.isArray(override?.files)) {
+        fail(source, `'overrides[${index}].files' must be an array of strings`);
+      }
+      validateGlobs(override.files, `overrides[${index}].files`, source);
+      validateRules(override.rules, `overrides[${index}].rules`, source);
+    });
+  }
+
+  return config;
+}
+
+/**
+ * Point the import specifiers of a module at absolute file URLs, so it still resolves its
+ * relative imports and the project's packages when it runs from another directory
+ */
+function createSpecifierTransformer(filePath: string): ts.TransformerFactory<ts.SourceFile> {
+  const requireFromFile = createRequire(filePath);
+  const resolveSpecifier = (specifier: string): string => {
+    if (specifier.startsWith('.')) {
+      return pathToFileURL(resolve(dirname(filePath), specifier)).href;
+    }
+    if (isBuiltin(specifier) || /^[a-z]+:/i.test(specifier)) {
+      return specifier;
+    }
+    try {
+      return pathToFileURL(requireFromFile.resolve(specifier)).href;
+    } catch {
+      return specifier;
+    }
+  };
+
+  return (context) => (sourceFile) => {
+    const { factory } = context;
+    const visit = (node: ts.Node): ts.Node => {
+      if (
+        (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) &&
+        node.moduleSpecifier &&
+        ts.isStringLiteral(node.moduleSpecifier)
+      ) {
+        const specifier = factory.createStringLiteral(resolveSpecifier(node.moduleSpecifier.text));
+        return ts.isImportDeclaration(node)
+          ? factory.updateImportDeclaration(
+              node,
+              node.modifiers,
+              node.importClause,
+              specifier,
+              node.attributes
+            )
+          : factory.updateExportDeclaration(
+              node,
+              node.modifiers,
+              node.isTypeOnly,
+              node.exportClause,
+              specifier,
+              node.attributes
+            );
+      }
+      if (
+        ts.isCallExpression(node) &&
+        node.expression.kind === ts.SyntaxKind.ImportKeyword &&
+        node.arguments[0] &&
+        ts.isStringLiteralLike(node.arguments[0])
+      ) {
+        return factory.updateCallExpression(node, node.expression, node.typeArguments, [
+          factory.createStringLiteral(resolveSpecifier(node.arguments[0].text)),
+          ...node.arguments.slice(1),
+        ]);
+      }
+      return ts.visitEachChild(node, visit, context);
+    };
+    return ts.visitNode(sourceFile, visit) as ts.SourceFile;
+  };
+}
+
+/**
+ * Import a JavaScript or TypeScript module from the user's project, returning its default
+ * export when it has one. TypeScript is transpiled without type checking into the OS temp
+ * directory, so the project's tree and file watchers never see the output.
+ */
+export async function importProjectModule(filePath: string): Promise<unknown> {
+  let modulePath = filePath;
+  let tempDir: string | undefined;
+
+  if (filePath.endsWith('.ts')) {
+    const sourceText = await readFile(filePath, 'utf8');
+    const { outputText } = ts.transpileModule(sourceText, {
+      fileName: filePath,
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+      transformers: { after: [createSpecifierTransformer(filePath)] },
+    });
+    tempDir = await mkdtemp(join(tmpdir(), 'rsc-xray-'));
+    modulePath = join(tempDir, `${basename(filePath, '.ts')}.mjs`);
+    await writeFile(modulePath, outputText, 'utf8');
+  }
+
+  try {
+    // Loaded at runtime from the user's project, never bundled
+    const loaded = (await import(/* webpackIgnore: true */ pathToFileURL(modulePath).href)) as {
+      default?: unknown;
+    };
+    return loaded.default ?? loaded;
+  } finally {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  }
+}
+
+async function readConfigFile(filePath: string): Promise<RscXrayConfig> {
+  const value = filePath.endsWith('.json')
+    ? JSON.parse(await readFile(filePath, 'utf8'))
+    : await importProjectModule(filePath);
+  return validateConfig(value, filePath);
+}
+
+/**
+ * Load `rsc-xray.config.{json,js,mjs,ts}` from the project root, or an explicit config path.
+ * Projects without a config get an empty one, which keeps every built-in default.
+ */
+export async function loadConfig(projectRoot: string, configPath?: string): Promise<LoadedConfig> {
+  if (configPath) {
+    const filePath = resolve(projectRoot, configPath);
+    return { config: await readConfigFile(filePath), filePath };
+  }
+
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const filePath = join(projectRoot, fileName);
+    try {
+      await readFile(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        continue;
+      }
+      throw error;
+    }
+    return { config: await readConfigFile(filePath), filePath };
+  }
+
+  return { config: {} };
+}
+
+function mergeRuleSetting(resolved: ResolvedRuleSetting, setting: RuleSetting | undefined): void {
+  if (setting === undefined) {
+    return;
+  }
+  if (typeof setting === 'string') {
+    resolved.level = setting;
+    return;
+  }
+  if (setting.level) {
+    resolved.level = setting.level;
+  }
+  if (setting.options) {
+    Object.assign(resolved.options, setting.options);
+  }
+}
+
+/**
+ * Level and options of a rule for a file. Overrides whose `files` match are applied in order
+ * after the top-level `rules`; options merge shallowly. Rule aliases from the catalogue are
+ * honored.
+ */
+export function resolveRuleSetting(
+  config: RscXrayConfig,
+  ruleId: string,
+  filePath?: string
+): ResolvedRuleSetting {
+  const resolved: ResolvedRuleSetting = { options: {} };
+  const info = getRuleInfo(ruleId);
+  // Settings under a former id still apply, before those under the current id
+  const ids = info ? [...(info.aliases ?? []), info.id] : [ruleId];
+  const merge = (rules: RscXrayConfig['rules']) => {
+    for (const id of ids) {
+      mergeRuleSetting(resolved, rules?.[id]);
+    }
+  };
+  merge(config.rules);
+
+  if (filePath) {
+    for (const override of config.overrides ?? []) {
+      if (matchesGlob(filePath, override.files)) {
+        merge(override.rules);
+      }
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Drop results of rules turned off for their file and apply severity overrides
+ */
+export function applyRuleConfig<T extends Diagnostic | Suggestion>(
+  results: readonly T[],
+  config: RscXrayConfig,
+  fallbackFile?: string
+): T[] {
+  const applied: T[] = [];
+  for (const result of results) {
+    const { level } = resolveRuleSetting(config, result.rule, result.loc?.file ?? fallbackFile);
+    if (level === 'off') {
+      continue;
+    }
+    applied.push(level && level !== result.level ? { ...result, level } : result);
+  }
+  return applied;
+}
+
+/**
+ * Whether a discovered source file is analyzed under the `include` / `exclude` globs
+ */
+export function isSourceFileIncluded(config: RscXrayConfig, filePath: string): boolean {
+  if (matchesGlob(filePath, [...DEFAULT_EXCLUDE, ...(config.exclude ?? [])])) {
+    return false;
+  }
+  return !config.include?.length || matchesGlob(filePath, config.include);
+}
@@ -3,7 +3,12 @@
  */
 
 import * as ts from 'typescript';
-import type { Diagnostic, Suggestion, DiagnosticLocation } from '@rsc-xray/schemas';
+import type {
+  Diagnostic,
+  DiagnosticLocation,
+  DiagnosticTextEdit,
+  Suggestion,
+} from '@rsc-xray/schemas';
 
 /**
  * Create a diagnostic location from an AST node with precise character offsets
@@ -99,3 +104,141 @@ export function createLocationFromOffsets(
     range: { from, to },
   };
 }
+
+/**
+ * Offsets at which each line of the text starts
+ */
+export function computeLineStarts(text: string): number[] {
+  const starts = [0];
+  for (let index = text.indexOf('\n'); index !== -1; index = text.indexOf('\n', index + 1)) {
+    starts.push(index + 1);
+  }
+  return starts;
+}
+
+/**
+ * 0-based line containing a character offset
+ */
+export function lineOf(lineStarts: readonly number[], position: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid]! <= position) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Create a text edit replacing explicit character offsets
+ *
+ * @param filePath - File path
+ * @param from - Start character offset (0-indexed)
+ * @param to - End character offset (0-indexed, exclusive)
+ * @param newText - Replacement text
+ * @returns DiagnosticTextEdit for a fix
+ */
+export function createTextEdit(
+  filePath: string,
+  from: number,
+  to: number,
+  newText: string
+): DiagnosticTextEdit {
+  return { file: filePath, range: { from, to }, newText };
+}
+
+/**
+ * Create a text edit replacing an AST node, leading comments excluded
+ */
+export function createReplaceNodeEdit(
+  sourceFile: ts.SourceFile,
+  node: ts.Node,
+  filePath: string,
+  newText: string
+): DiagnosticTextEdit {
+  return createTextEdit(filePath, node.getStart(sourceFile), node.getEnd(), newText);
+}
+
+/**
+ * Create a text edit removing a statement together with its line break and one following
+ * blank line, so no empty lines are left behind
+ */
+export function createRemoveStatementEdit(
+  sourceFile: ts.SourceFile,
+  statement: ts.Statement,
+  filePath: string
+): DiagnosticTextEdit {
+  const text = sourceFile.text;
+  let end = statement.getEnd();
+  for (let lineBreaks = 0; lineBreaks < 2; lineBreaks++) {
+    const match = /^[ \t]*\r?\n/.exec(text.slice(end));
+    if (!match) {
+      break;
+    }
+    end += match[0].length;
+  }
+  return createTextEdit(filePath, statement.getStart(sourceFile), end, '');
+}
+
+/**
+ * Create a text edit adding an import after the file's last import, or after its directives
+ * when it has no imports
+ */
+export function createAddImportEdit(
+  sourceFile: ts.SourceFile,
+  filePath: string,
+  importText: string
+): DiagnosticTextEdit {
+  const imports = sourceFile.statements.filter(ts.isImportDeclaration);
+  const lastImport = imports[imports.length - 1];
+  if (lastImport) {
+    return createTextEdit(filePath, lastImport.getEnd(), lastImport.getEnd(), `\n${importText}`);
+  }
+
+  let lastDirective: ts.Statement | undefined;
+  for (const statement of sourceFile.statements) {
+    if (!ts.isExpressionStatement(statement) || !ts.isStringLiteral(statement.expression)) {
+      break;
+    }
+    lastDirective = statement;
+  }
+  if (lastDirective) {
+    return createTextEdit(
+      filePath,
+      lastDirective.getEnd(),
+      lastDirective.getEnd(),
+      `\n\n${importText}`
+    );
+  }
+  return createTextEdit(filePath, 0, 0, `${importText}\n\n`);
+}
+
+/**
+ * Leading whitespace of the line an AST node starts on
+ */
+export function getLineIndent(sourceFile: ts.SourceFile, node: ts.Node): string {
+  const start = node.getStart(sourceFile);
+  const lineStart = sourceFile.text.lastIndexOf('\n', start - 1) + 1;
+  return /^[ \t]*/.exec(sourceFile.text.slice(lineStart, start))![0];
+}
+
+/**
+ * Apply the edits of one file to its source. Edits must not overlap.
+ */
+export function applyTextEdits(sourceText: string, edits: readonly DiagnosticTextEdit[]): string {
+  const sorted = [...edits].sort((a, b) => b.range.from - a.range.from || b.range.to - a.range.to);
+  let text = sourceText;
+  let previousFrom = Infinity;
+  for (const { range, newText } of sorted) {
+    if (range.to > previousFrom) {
+      throw new Error(`Overlapping edits at offsets ${range.from}-${range.to}`);
+    }
+    text = text.slice(0, range.from) + newText + text.slice(range.to);
+    previousFrom = range.from;
+  }
+  return text;
+}
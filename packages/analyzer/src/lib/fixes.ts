@@ -0,0 +1,237 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import {
+  resolveRuleId,
+  type Diagnostic,
+  type DiagnosticFix,
+  type DiagnosticTextEdit,
+  type Suggestion,
+} from '@rsc-xray/schemas';
+
+import { analyzeProject, type AnalyzeProjectOptions } from './analyzeProject.js';
+import { applyTextEdits } from './diagnosticHelpers.js';
+import { runRules, type RunRulesOptions } from './ruleRegistry.js';
+import { applySuppressions, parseSuppressions } from './suppressions.js';
+
+/** Fixes applied to one file before giving up, in case a fix keeps reporting itself */
+export const MAX_FIX_PASSES = 100;
+
+export type FixKind = DiagnosticFix['kind'];
+
+/** Quick fixes keep the code's behavior, so only they apply unless asked otherwise */
+export const DEFAULT_FIX_KINDS: readonly FixKind[] = ['quickfix'];
+
+export interface FixProjectOptions extends AnalyzeProjectOptions {
+  /** Only apply fixes of these rules (ids or former ids from the catalogue) */
+  fixRules?: readonly string[];
+  /** Kinds of fixes to apply; refactors and source fixes change behavior and need review */
+  fixKinds?: readonly FixKind[];
+  /** Fixes applied to one file at most; defaults to `MAX_FIX_PASSES` */
+  maxFixesPerFile?: number;
+}
+
+export interface AppliedFix {
+  rule: string;
+  /** File of the finding the fix belongs to */
+  file: string;
+  title: string;
+  kind: FixKind;
+}
+
+/**
+ * Finding that still has fixes after the run: `limit` when its file reached the maximum number
+ * of fixes, `failed` when none of its fixes applies (e.g. the file a fix creates already exists)
+ */
+export interface UnfixedFinding {
+  rule: string;
+  file: string;
+  message: string;
+  reason: 'limit' | 'failed';
+}
+
+export interface FixedFile {
+  file: string;
+  /** Undefined when a fix created the file */
+  originalText?: string;
+  text: string;
+}
+
+export interface FixProjectResult {
+  /** Changed and created files, sorted by path */
+  files: FixedFile[];
+  fixes: AppliedFix[];
+  /** Fixable findings left in the fixed sources, by file */
+  unfixed: UnfixedFinding[];
+}
+
+type Finding = Diagnostic | Suggestion;
+
+async function readProjectFile(projectRoot: string, file: string): Promise<string | undefined> {
+  try {
+    return await readFile(join(projectRoot, file), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Re-run the rules of a file on its current source, so fix offsets always match the text they
+ * apply to. Suppressed findings keep their fixes out of the run, and findings keep only the
+ * fixes of `kinds`.
+ */
+function collectFixableFindings(
+  run: RunRulesOptions,
+  sourceText: string,
+  ruleIds: Set<string> | undefined,
+  kinds: Set<FixKind>
+): Finding[] {
+  const { fileName } = run.context;
+  const { diagnostics, suggestions } = runRules({
+    ...run,
+    sourceFile: undefined,
+    context: { ...run.context, sourceText },
+  });
+  let findings: Finding[] = [...diagnostics, ...suggestions];
+  const suppressions = parseSuppressions(sourceText, fileName);
+  if (suppressions) {
+    findings = applySuppressions(findings, suppressions).kept;
+  }
+  return findings
+    .filter((finding) => !ruleIds || ruleIds.has(resolveRuleId(finding.rule)))
+    .map((finding) => ({
+      ...finding,
+      fixes: finding.fixes?.filter((fix) => kinds.has(fix.kind)),
+    }))
+    .filter((finding) => finding.fixes?.length);
+}
+
+function groupEditsByFile(edits: readonly DiagnosticTextEdit[]): Map<string, DiagnosticTextEdit[]> {
+  const byFile = new Map<string, DiagnosticTextEdit[]>();
+  for (const edit of edits) {
+    byFile.set(edit.file, [...(byFile.get(edit.file) ?? []), edit]);
+  }
+  return byFile;
+}
+
+/**
+ * Apply the fixes attached to findings across the project without writing anything. Each file is
+ * fixed one fix at a time: after every edit its rules run again on the new source, so later
+ * fixes never rely on stale offsets and overlapping fixes cannot both apply.
+ */
+export async function fixProject({
+  fixRules,
+  fixKinds = DEFAULT_FIX_KINDS,
+  maxFixesPerFile = MAX_FIX_PASSES,
+  ...analyzeOptions
+}: FixProjectOptions): Promise<FixProjectResult> {
+  const { projectRoot } = analyzeOptions;
+  const runs = new Map<string, RunRulesOptions>();
+  // Fixes only edit sources, so the project does not need to be built
+  await analyzeProject({
+    ...analyzeOptions,
+    skipBuildOutput: true,
+    onRunRules: (run) => runs.set(run.context.fileName, run),
+  });
+
+  const ruleIds = fixRules ? new Set(fixRules.map(resolveRuleId)) : undefined;
+  const kinds = new Set(fixKinds);
+  const texts = new Map<string, string>();
+  const originals = new Map<string, string | undefined>();
+  const fixes: AppliedFix[] = [];
+  const unfixed: UnfixedFinding[] = [];
+
+  const readCurrent = async (file: string) => {
+    if (texts.has(file)) {
+      return texts.get(file);
+    }
+    const text = runs.get(file)?.context.sourceText ?? (await readProjectFile(projectRoot, file));
+    originals.set(file, text);
+    return text;
+  };
+
+  // All edits of a fix apply, or none do
+  const tryApplyFix = async (fix: DiagnosticFix): Promise<boolean> => {
+    const updated = new Map<string, string>();
+    for (const [file, edits] of groupEditsByFile(fix.edits)) {
+      const current = await readCurrent(file);
+      // Only insertions at the start can create a missing file
+      const creates = edits.every(({ range }) => range.from === 0 && range.to === 0);
+      if (current === undefined && !creates) {
+        return false;
+      }
+      // Never merge the content of a new file into one that already exists
+      if (current !== undefined && edits.some((edit) => edit.createFile)) {
+        return false;
+      }
+      const text = current ?? '';
+      if (edits.some(({ range }) => range.from > range.to || range.to > text.length)) {
+        return false;
+      }
+      try {
+        updated.set(file, applyTextEdits(text, edits));
+      } catch {
+        return false;
+      }
+    }
+    for (const [file, text] of updated) {
+      texts.set(file, text);
+    }
+    return true;
+  };
+
+  // The first fix of the findings that applies
+  const applyFirstFix = async (
+    file: string,
+    findings: readonly Finding[]
+  ): Promise<AppliedFix | undefined> => {
+    for (const finding of findings) {
+      for (const fix of finding.fixes ?? []) {
+        if (await tryApplyFix(fix)) {
+          return { rule: finding.rule, file, title: fix.title, kind: fix.kind };
+        }
+      }
+    }
+    return undefined;
+  };
+
+  for (const file of [...runs.keys()].sort()) {
+    const run = runs.get(file)!;
+    const collect = async () =>
+      collectFixableFindings(
+        run,
+        (await readCurrent(file)) ?? run.context.sourceText,
+        ruleIds,
+        kinds
+      );
+    let findings = await collect();
+    let applied = 0;
+    while (findings.length && applied < maxFixesPerFile) {
+      const fix = await applyFirstFix(file, findings);
+      if (!fix) {
+        break;
+      }
+      fixes.push(fix);
+      applied += 1;
+      findings = await collect();
+    }
+    const reason = applied < maxFixesPerFile ? 'failed' : 'limit';
+    unfixed.push(
+      ...findings.map(({ rule, message }) => ({ rule, file, message, reason }) as const)
+    );
+  }
+
+  const files: FixedFile[] = [];
+  for (const [file, text] of texts) {
+    const originalText = originals.get(file);
+    if (text !== originalText) {
+      files.push({ file, ...(originalText !== undefined ? { originalText } : {}), text });
+    }
+  }
+  files.sort((a, b) => a.file.localeCompare(b.file));
+
+  return { files, fixes, unfixed };
+}
@@ -5,19 +5,51 @@ import * as ts from 'typescript';
 
 import type {
   Diagnostic,
+  ImportEdgeKind,
+  ModuleEdge,
   NodeCacheMetadata,
   NodeMutationMetadata,
   RouteCacheMetadata,
   RouteEntry,
+  PagesDataFetchingMethod,
+  RouteHandlerMetadata,
+  RouteRouter,
   RouteSegmentConfig,
+  ServerActionMetadata,
   Suggestion,
   XNode,
 } from '@rsc-xray/schemas';
 
+import type { ServerActionInfo } from './classify.js';
 import type { ClassifiedFile } from './classifyFiles.js';
 import type { ClientComponentBundle } from './clientBundles.js';
 import { attributeBytes } from './attributeBytes.js';
 import type { FileCacheMetadata } from './cacheMetadata.js';
+import { expandPathAlias, loadPathAliases, type PathAliasConfig } from './pathAliases.js';
+import { propagateClientKinds, type ModuleClassification } from './clientPropagation.js';
+import { middlewareMatchesRoute, type MiddlewareInfo } from './middleware.js';
+import {
+  collectPagesDataFetching,
+  createPagesRouteCache,
+  getPagesFileRole,
+  parsePagesRoute,
+} from './pagesRouter.js';
+import {
+  buildComponentNodes,
+  collectComponentDeclarations,
+  createComponentNodeId,
+  type ComponentDeclaration,
+} from './renderGraph.js';
+import { collectRouteHandlerMethods } from './routeHandlers.js';
+import { parseSourceFile, type SourceFileStore } from './sourceFiles.js';
+import {
+  collectRouteBoundaries,
+  getSegmentFileRole,
+  indexSegmentFiles,
+  parseAppRoute,
+  type AppRoute,
+  type SegmentBoundary,
+} from './routeTree.js';
 import {
   parseRouteSegmentConfig,
   detectConfigConflicts,
@@ -28,10 +60,32 @@ export interface BuildGraphOptions {
   projectRoot: string;
   classifiedFiles: ClassifiedFile[];
   appDir?: string;
+  /** Pages Router directory; pages found there become routes with `router: 'pages'` */
+  pagesDir?: string;
   diagnosticsByFile?: Record<string, Diagnostic[]>;
   clientBundles?: ClientComponentBundle[];
   suggestionsByFile?: Record<string, Suggestion[]>;
   cacheMetadataByFile?: Record<string, FileCacheMetadata>;
+  /** Pre-collected module graph; collected from `classifiedFiles` when omitted */
+  moduleGraph?: ModuleGraph;
+  /** Server Actions passed from server modules to client components */
+  serverActionUsages?: ServerActionUsage[];
+  /** Project middleware; routes its matcher covers list it in `RouteEntry.middleware` */
+  middleware?: MiddlewareInfo;
+  /** Emit component nodes with render edges next to the module graph */
+  components?: boolean;
+  /** Trees of the run per posix path; route files missing here are read and parsed */
+  sourceFiles?: SourceFileStore;
+}
+
+export interface ServerActionUsage {
+  /** Posix path of the module declaring the action */
+  actionFile: string;
+  action: string;
+  component: string;
+  prop: string;
+  /** Posix path of the server module rendering the client component */
+  file: string;
 }
 
 export interface BuildGraphResult {
@@ -41,12 +95,50 @@ export interface BuildGraphResult {
 
 type NodeKind = XNode['kind'];
 
-interface ModuleMeta {
+export const DUPLICATE_ROUTE_RULE = 'duplicate-route';
+
+interface RoutePage {
+  meta: ModuleMeta;
+  appRoute: AppRoute;
+  router: RouteRouter;
+}
+
+interface RoutePages {
+  owner: RoutePage;
+  duplicates: ModuleMeta[];
+  slots: RoutePage[];
+}
+
+export interface ModuleMeta {
   id: string;
   filePath: string; // posix relative path from project root
   absPath: string;
-  kind: NodeKind;
-  imports: string[]; // module ids
+  kind: NodeKind; // directive-based kind, before client propagation
+  imports: string[]; // module ids loaded at runtime (every edge except type-only)
+  edges: ModuleEdge[]; // every resolved edge with its kind, including type-only
+  importBindings: Record<string, ImportBinding[]>; // value bindings per imported module id
+  exportBindings: Record<string, ImportBinding[]>; // re-exported bindings per module id
+  components: ComponentDeclaration[];
+  serverActions?: ServerActionInfo;
+}
+
+export interface ImportBinding {
+  /** Exported name ('default' for default imports, '*' for namespace imports) */
+  imported: string;
+  /**
+   * Name bound in the importing module; for re-exports the name it exports, so
+   * `export * from './x'` is `*` → `*`
+   */
+  local: string;
+}
+
+export type ModuleGraph = Map<string, ModuleMeta>;
+
+export interface CollectModuleGraphOptions {
+  projectRoot: string;
+  classifiedFiles: ClassifiedFile[];
+  /** Parse results per posix path, e.g. from the analysis cache; other files are read and parsed */
+  parsedModules?: ReadonlyMap<string, ParsedModule>;
 }
 
 const SUPPORTED_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js'];
@@ -60,35 +152,26 @@ function normalizeRelativePath(projectRoot: string, absPath: string): string {
   return toPosixPath(rel);
 }
 
-function deriveRouteFromAppFile(appDir: string, filePath: string): string | undefined {
-  const segments = filePath.split('/');
-
-  if (segments[0] !== appDir) {
-    return undefined;
-  }
-
-  const fileName = segments[segments.length - 1];
-  const baseName = fileName.split('.')[0];
-
-  if (baseName !== 'page') {
-    return undefined;
-  }
-
-  const withoutFile = segments.slice(1, -1); // drop app dir + filename
-
-  const routeSegments = withoutFile
-    .map((segment) => segment.replace(/^\(([^)]+)\)$/, ''))
-    .filter((segment) => segment.length > 0);
-
-  if (routeSegments.length === 0) {
-    return '/';
-  }
+function createNodeId(kind: NodeKind, key: string): string {
+  return `${kind}:${key}`;
+}
 
-  return `/${routeSegments.join('/')}`;
+function createBoundaryNodeId(route: string, boundary: SegmentBoundary): string {
+  return `${boundary.role}:${route}:${boundary.filePath}`;
 }
 
-function createNodeId(kind: NodeKind, key: string): string {
-  return `${kind}:${key}`;
+/**
+ * Copy the public config fields, dropping the AST nodes kept for diagnostic positions
+ */
+function toRouteSegmentConfig(config: RouteSegmentConfig): RouteSegmentConfig {
+  const { dynamic, revalidate, fetchCache, runtime, preferredRegion } = config;
+  return {
+    ...(dynamic ? { dynamic } : {}),
+    ...(revalidate !== undefined ? { revalidate } : {}),
+    ...(fetchCache ? { fetchCache } : {}),
+    ...(runtime ? { runtime } : {}),
+    ...(preferredRegion ? { preferredRegion } : {}),
+  };
 }
 
 function createRouteCacheMetadata(
@@ -126,17 +209,103 @@ function createRouteCacheMetadata(
   return Object.keys(cache).length ? cache : undefined;
 }
 
-async function extractRelativeImports(absPath: string): Promise<string[]> {
-  const sourceText = await readFile(absPath, 'utf8');
-  const sourceFile = ts.createSourceFile(
-    absPath,
-    sourceText,
-    ts.ScriptTarget.Latest,
-    true,
-    absPath.endsWith('.tsx') || absPath.endsWith('.jsx') ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+export interface ImportRecord {
+  specifier: string;
+  kind: ImportEdgeKind;
+  bindings: ImportBinding[];
+}
+
+/**
+ * The parts of a module's graph entry that depend only on its own source
+ */
+export interface ParsedModule {
+  /** Import specifiers before resolution */
+  imports: ImportRecord[];
+  components: ComponentDeclaration[];
+}
+
+function isTypeOnlyImport(node: ts.ImportDeclaration): boolean {
+  const clause = node.importClause;
+  if (!clause) {
+    return false; // side-effect import
+  }
+  if (clause.isTypeOnly) {
+    return true;
+  }
+  const namedBindings = clause.namedBindings;
+  return (
+    !clause.name &&
+    namedBindings !== undefined &&
+    ts.isNamedImports(namedBindings) &&
+    namedBindings.elements.length > 0 &&
+    namedBindings.elements.every((element) => element.isTypeOnly)
   );
+}
 
-  const imports: string[] = [];
+function isTypeOnlyExport(node: ts.ExportDeclaration): boolean {
+  const clause = node.exportClause;
+  return (
+    node.isTypeOnly ||
+    (clause !== undefined &&
+      ts.isNamedExports(clause) &&
+      clause.elements.length > 0 &&
+      clause.elements.every((element) => element.isTypeOnly))
+  );
+}
+
+function collectExportBindings(node: ts.ExportDeclaration): ImportBinding[] {
+  const clause = node.exportClause;
+  if (!clause) {
+    return [{ imported: '*', local: '*' }];
+  }
+  if (ts.isNamespaceExport(clause)) {
+    return [{ imported: '*', local: clause.name.text }];
+  }
+  return clause.elements
+    .filter((element) => !element.isTypeOnly)
+    .map((element) => ({
+      imported: (element.propertyName ?? element.name).text,
+      local: element.name.text,
+    }));
+}
+
+function collectImportBindings(node: ts.ImportDeclaration): ImportBinding[] {
+  const clause = node.importClause;
+  if (!clause || clause.isTypeOnly) {
+    return [];
+  }
+
+  const bindings: ImportBinding[] = [];
+  if (clause.name) {
+    bindings.push({ imported: 'default', local: clause.name.text });
+  }
+  if (clause.namedBindings) {
+    if (ts.isNamespaceImport(clause.namedBindings)) {
+      bindings.push({ imported: '*', local: clause.namedBindings.name.text });
+    } else {
+      for (const element of clause.namedBindings.elements) {
+        if (element.isTypeOnly) {
+          continue;
+        }
+        bindings.push({
+          imported: (element.propertyName ?? element.name).text,
+          local: element.name.text,
+        });
+      }
+    }
+  }
+  return bindings;
+}
+
+export function collectParsedModule(sourceFile: ts.SourceFile): ParsedModule {
+  return {
+    imports: extractRelativeImports(sourceFile),
+    components: collectComponentDeclarations(sourceFile),
+  };
+}
+
+function extractRelativeImports(sourceFile: ts.SourceFile): ImportRecord[] {
+  const imports: ImportRecord[] = [];
 
   sourceFile.forEachChild((node) => {
     if (
@@ -144,29 +313,49 @@ async function extractRelativeImports(absPath: string): Promise<string[]> {
       node.moduleSpecifier &&
       ts.isStringLiteral(node.moduleSpecifier)
     ) {
-      imports.push(node.moduleSpecifier.text);
+      imports.push({
+        specifier: node.moduleSpecifier.text,
+        kind: isTypeOnlyImport(node) ? 'type-only' : 'static',
+        bindings: collectImportBindings(node),
+      });
+    } else if (
+      ts.isExportDeclaration(node) &&
+      node.moduleSpecifier &&
+      ts.isStringLiteral(node.moduleSpecifier)
+    ) {
+      imports.push({
+        specifier: node.moduleSpecifier.text,
+        kind: isTypeOnlyExport(node) ? 'type-only' : 're-export',
+        bindings: isTypeOnlyExport(node) ? [] : collectExportBindings(node),
+      });
     }
   });
 
+  // `import('./x')` anywhere in the module, including `next/dynamic` loaders
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isCallExpression(node) &&
+      node.expression.kind === ts.SyntaxKind.ImportKeyword &&
+      node.arguments[0] &&
+      ts.isStringLiteralLike(node.arguments[0])
+    ) {
+      imports.push({ specifier: node.arguments[0].text, kind: 'dynamic', bindings: [] });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
   return imports;
 }
 
-function resolveImport(
+function resolveCandidatePath(
   projectRoot: string,
-  fromFile: string,
-  importPath: string,
+  basePath: string,
   availableFiles: Set<string>
 ): string | undefined {
-  if (!importPath.startsWith('.') && !importPath.startsWith('/')) {
-    return undefined;
-  }
-
-  const fromDir = dirname(fromFile);
-  const basePath = resolve(fromDir, importPath);
-
   const candidates: string[] = [];
 
-  if (SUPPORTED_EXTENSIONS.some((ext) => importPath.endsWith(ext))) {
+  if (SUPPORTED_EXTENSIONS.some((ext) => basePath.endsWith(ext))) {
     candidates.push(basePath);
   } else {
     for (const ext of SUPPORTED_EXTENSIONS) {
@@ -187,21 +376,162 @@ function resolveImport(
   return undefined;
 }
 
+function resolveImport(
+  projectRoot: string,
+  fromFile: string,
+  importPath: string,
+  availableFiles: Set<string>,
+  pathAliases?: PathAliasConfig
+): string | undefined {
+  if (importPath.startsWith('.') || importPath.startsWith('/')) {
+    return resolveCandidatePath(
+      projectRoot,
+      resolve(dirname(fromFile), importPath),
+      availableFiles
+    );
+  }
+
+  // Bare specifiers only resolve to project files through tsconfig `paths` / `baseUrl`;
+  // anything else is a package import and stays out of the graph.
+  if (!pathAliases) {
+    return undefined;
+  }
+
+  for (const basePath of expandPathAlias(pathAliases, importPath)) {
+    const resolved = resolveCandidatePath(projectRoot, basePath, availableFiles);
+    if (resolved) {
+      return resolved;
+    }
+  }
+
+  return undefined;
+}
+
+function createServerActionMetadata(
+  meta: ModuleMeta,
+  moduleMetas: ModuleGraph,
+  moduleKinds: Map<string, ModuleClassification>,
+  usages: ServerActionUsage[]
+): ServerActionMetadata | undefined {
+  const info = meta.serverActions;
+  if (!info) {
+    return undefined;
+  }
+
+  const importedBy: string[] = [];
+  if (info.moduleDirective) {
+    for (const other of moduleMetas.values()) {
+      const otherKind = moduleKinds.get(other.id)?.kind ?? other.kind;
+      if (otherKind !== 'server' && other.importBindings[meta.id]?.length) {
+        importedBy.push(other.id);
+      }
+    }
+  }
+
+  const passedTo = usages
+    .filter((usage) => usage.actionFile === meta.filePath)
+    .map(({ action, component, prop, file }) => ({ action, component, prop, file }));
+
+  return {
+    module: info.moduleDirective,
+    ...(info.exported.length ? { exported: info.exported } : {}),
+    ...(info.inline.length ? { inline: info.inline } : {}),
+    ...(importedBy.length ? { importedBy: importedBy.sort() } : {}),
+    ...(passedTo.length ? { passedTo } : {}),
+  };
+}
+
 function buildModuleId(filePath: string): string {
   return `module:${filePath}`;
 }
 
+/**
+ * Parse every classified file and resolve its imports to other project modules.
+ */
+export async function collectModuleGraph({
+  projectRoot,
+  classifiedFiles,
+  parsedModules,
+}: CollectModuleGraphOptions): Promise<ModuleGraph> {
+  const availableFiles = new Set(classifiedFiles.map((file) => toPosixPath(file.filePath)));
+  const pathAliases = loadPathAliases(projectRoot);
+  const moduleMetas: ModuleGraph = new Map();
+
+  for (const file of classifiedFiles) {
+    const relPath = toPosixPath(file.filePath);
+    const absPath = join(projectRoot, relPath);
+    const moduleId = buildModuleId(relPath);
+
+    const parsed =
+      parsedModules?.get(relPath) ??
+      collectParsedModule(parseSourceFile(relPath, await readFile(absPath, 'utf8')));
+    const resolvedImports: string[] = [];
+    const edges = new Map<string, ModuleEdge>();
+    const importBindings: Record<string, ImportBinding[]> = {};
+    const exportBindings: Record<string, ImportBinding[]> = {};
+
+    for (const { specifier, kind, bindings } of parsed.imports) {
+      const resolved = resolveImport(projectRoot, absPath, specifier, availableFiles, pathAliases);
+      if (resolved) {
+        const importedId = buildModuleId(resolved);
+        edges.set(`${kind}:${importedId}`, { target: importedId, kind });
+        if (kind === 'type-only') {
+          continue; // erased at compile time, so never loaded or bundled
+        }
+        resolvedImports.push(importedId);
+        const byModule = kind === 're-export' ? exportBindings : importBindings;
+        if (bindings.length) {
+          byModule[importedId] = [...(byModule[importedId] ?? []), ...bindings];
+        }
+      }
+    }
+
+    const meta: ModuleMeta = {
+      id: moduleId,
+      filePath: relPath,
+      absPath,
+      kind: file.kind,
+      imports: Array.from(new Set(resolvedImports)).sort(),
+      edges: Array.from(edges.values()).sort(
+        (a, b) => a.target.localeCompare(b.target) || a.kind.localeCompare(b.kind)
+      ),
+      importBindings,
+      exportBindings,
+      components: parsed.components,
+      ...(file.serverActions ? { serverActions: file.serverActions } : {}),
+    };
+
+    moduleMetas.set(moduleId, meta);
+  }
+
+  return moduleMetas;
+}
+
+async function readRouteSourceFile(
+  meta: ModuleMeta,
+  sourceFiles: SourceFileStore | undefined
+): Promise<ts.SourceFile> {
+  return (
+    sourceFiles?.get(meta.filePath) ??
+    parseSourceFile(meta.filePath, await readFile(meta.absPath, 'utf8'))
+  );
+}
+
 export async function buildGraph({
   projectRoot,
   classifiedFiles,
   appDir = 'app',
+  pagesDir = 'pages',
   diagnosticsByFile,
   clientBundles,
   suggestionsByFile,
   cacheMetadataByFile,
+  moduleGraph,
+  serverActionUsages = [],
+  middleware,
+  components = false,
+  sourceFiles,
 }: BuildGraphOptions): Promise<BuildGraphResult> {
-  const availableFiles = new Set(classifiedFiles.map((file) => toPosixPath(file.filePath)));
-
   const diagnosticsLookup = new Map<string, Diagnostic[]>();
   if (diagnosticsByFile) {
     for (const [filePath, diagnosticList] of Object.entries(diagnosticsByFile)) {
@@ -237,33 +567,8 @@ export async function buildGraph({
     }
   }
 
-  const moduleMetas = new Map<string, ModuleMeta>();
-
-  for (const file of classifiedFiles) {
-    const relPath = toPosixPath(file.filePath);
-    const absPath = join(projectRoot, relPath);
-    const moduleId = buildModuleId(relPath);
-
-    const importSpecifiers = await extractRelativeImports(absPath);
-    const resolvedImports: string[] = [];
-
-    for (const specifier of importSpecifiers) {
-      const resolved = resolveImport(projectRoot, absPath, specifier, availableFiles);
-      if (resolved) {
-        resolvedImports.push(buildModuleId(resolved));
-      }
-    }
-
-    const meta: ModuleMeta = {
-      id: moduleId,
-      filePath: relPath,
-      absPath,
-      kind: file.kind,
-      imports: Array.from(new Set(resolvedImports)).sort(),
-    };
-
-    moduleMetas.set(moduleId, meta);
-  }
+  const moduleMetas = moduleGraph ?? (await collectModuleGraph({ projectRoot, classifiedFiles }));
+  const moduleKinds = propagateClientKinds(moduleMetas.values());
 
   const nodes: Record<string, XNode> = {};
 
@@ -341,61 +646,226 @@ export async function buildGraph({
         })()
       : undefined;
 
+    const classification = moduleKinds.get(meta.id);
+    const role =
+      getSegmentFileRole(appDir, meta.filePath) ?? getPagesFileRole(pagesDir, meta.filePath);
+    const serverActions = createServerActionMetadata(
+      meta,
+      moduleMetas,
+      moduleKinds,
+      serverActionUsages
+    );
+
     nodes[meta.id] = {
       id: meta.id,
-      kind: meta.kind,
+      kind: classification?.kind ?? meta.kind,
       file: meta.filePath,
       name: meta.filePath.split('/').pop(),
       children: meta.imports,
+      ...(meta.edges.length ? { edges: meta.edges } : {}),
       ...(diagnostics ? { diagnostics } : {}),
       ...(bundle && bundle.totalBytes > 0 ? { bytes: bundle.totalBytes } : {}),
       ...(suggestions ? { suggestions } : {}),
       ...(tagSet.size ? { tags: Array.from(tagSet).sort() } : {}),
       ...(nodeCache ? { cache: nodeCache } : {}),
       ...(nodeMutations ? { mutations: nodeMutations } : {}),
+      ...(classification?.clientReason ? { clientReason: classification.clientReason } : {}),
+      ...(serverActions ? { serverActions } : {}),
+      ...(role ? { role } : {}),
+      ...(components && meta.components.length
+        ? {
+            components: meta.components.map((component) =>
+              createComponentNodeId(meta.filePath, component.name)
+            ),
+          }
+        : {}),
     };
   }
 
+  if (components) {
+    Object.assign(nodes, buildComponentNodes(moduleMetas, moduleKinds));
+  }
+
+  const segmentFiles = indexSegmentFiles(
+    appDir,
+    Array.from(moduleMetas.values(), (meta) => meta.filePath)
+  );
+
   const routes: RouteEntry[] = [];
 
   const sortedModules = Array.from(moduleMetas.values()).sort((a, b) =>
     a.filePath.localeCompare(b.filePath)
   );
 
+  // Group pages by the route they render. The first page owns the route; parallel route slot
+  // pages attach to it, and any other page resolving to the same URL is a duplicate. App Router
+  // pages claim routes first, so a Pages Router page for the same URL is reported as conflicting.
+  const routePages = new Map<string, RoutePages>();
+  const slotPages: RoutePage[] = [];
+
+  const addPage = (page: RoutePage) => {
+    const existing = routePages.get(page.appRoute.route);
+    if (existing) {
+      existing.duplicates.push(page.meta);
+    } else {
+      routePages.set(page.appRoute.route, { owner: page, duplicates: [], slots: [] });
+    }
+  };
+
   for (const meta of sortedModules) {
-    const route = deriveRouteFromAppFile(appDir, meta.filePath);
-    if (!route) {
+    const appRoute = parseAppRoute(appDir, meta.filePath);
+    if (!appRoute) {
       continue;
     }
+    if (appRoute.slot && !appRoute.intercepts) {
+      slotPages.push({ meta, appRoute, router: 'app' });
+      continue;
+    }
+    addPage({ meta, appRoute, router: 'app' });
+  }
 
+  let customApp: string | undefined;
+  for (const meta of sortedModules) {
+    if (getPagesFileRole(pagesDir, meta.filePath) === 'layout') {
+      customApp ??= meta.filePath;
+    }
+    const pagesRoute = parsePagesRoute(pagesDir, meta.filePath);
+    if (pagesRoute) {
+      const { route, params, api } = pagesRoute;
+      addPage({
+        meta,
+        appRoute: { route, params, ...(api ? { handler: true } : {}) },
+        router: 'pages',
+      });
+    }
+  }
+
+  for (const page of slotPages) {
+    const existing = routePages.get(page.appRoute.route);
+    if (existing) {
+      existing.slots.push(page);
+    } else {
+      routePages.set(page.appRoute.route, { owner: page, duplicates: [], slots: [] });
+    }
+  }
+
+  // The custom App (`pages/_app`) wraps every Pages Router page like a root layout
+  const collectBoundaries = ({ meta, router }: RoutePage): SegmentBoundary[] => {
+    if (router === 'app') {
+      return collectRouteBoundaries(appDir, meta.filePath, segmentFiles);
+    }
+    return customApp ? [{ role: 'layout', filePath: customApp }] : [];
+  };
+
+  const wrapInBoundaries = (route: string, boundaries: SegmentBoundary[], innerId: string) => {
+    // Innermost first. Boundary nodes are scoped to the route because a shared layout wraps
+    // different children in every route.
+    let childId = innerId;
+    for (const boundary of [...boundaries].reverse()) {
+      const boundaryId = createBoundaryNodeId(route, boundary);
+      const moduleNode = nodes[buildModuleId(boundary.filePath)];
+      nodes[boundaryId] = {
+        id: boundaryId,
+        kind: boundary.role === 'loading' ? 'suspense' : (moduleNode?.kind ?? 'server'),
+        role: boundary.role,
+        file: boundary.filePath,
+        name: boundary.filePath.split('/').pop(),
+        children: [buildModuleId(boundary.filePath), childId],
+      };
+      childId = boundaryId;
+    }
+    return childId;
+  };
+
+  for (const [route, { owner, duplicates, slots }] of routePages) {
+    const { meta, appRoute, router } = owner;
     const routeId = createNodeId('route', route);
-    const routeCache = createRouteCacheMetadata(cacheMetadataLookup.get(meta.filePath));
+
+    // Route handlers and API routes respond directly and never render inside layouts
+    const rootChildId = appRoute.handler
+      ? meta.id
+      : wrapInBoundaries(route, collectBoundaries(owner), meta.id);
+    const routeChildren = [rootChildId];
+
+    // Slots render inside the layout of the segment declaring them, next to its children
+    for (const slot of slots) {
+      const slotDir = slot.appRoute.slotDir!;
+      const slotRootId = wrapInBoundaries(
+        route,
+        collectRouteBoundaries(appDir, slot.meta.filePath, segmentFiles).filter((boundary) =>
+          boundary.filePath.startsWith(`${slotDir}/`)
+        ),
+        slot.meta.id
+      );
+      const parentLayout = segmentFiles.get(slotDir.slice(0, slotDir.lastIndexOf('/')))?.layout;
+      const layoutNode = parentLayout
+        ? nodes[createBoundaryNodeId(route, { role: 'layout', filePath: parentLayout })]
+        : undefined;
+      if (layoutNode) {
+        layoutNode.children = [...(layoutNode.children ?? []), slotRootId];
+      } else {
+        routeChildren.push(slotRootId);
+      }
+    }
+
+    const duplicateDiagnostics: Diagnostic[] = duplicates.map((duplicate) => ({
+      rule: DUPLICATE_ROUTE_RULE,
+      level: 'error',
+      message: `Pages ${meta.filePath} and ${duplicate.filePath} both resolve to route '${route}'. Next.js fails the build when two pages resolve to the same path.`,
+      loc: { file: duplicate.filePath, range: { from: 0, to: 0 } },
+      related: [
+        {
+          message: `Route '${route}' is also defined here`,
+          loc: { file: meta.filePath, range: { from: 0, to: 0 } },
+        },
+      ],
+    }));
+
+    let routeCache = createRouteCacheMetadata(cacheMetadataLookup.get(meta.filePath));
 
     // Parse route segment config if this is a route file
     let segmentConfig: RouteSegmentConfig | undefined;
+    let handler: RouteHandlerMetadata | undefined;
+    let dataFetching: PagesDataFetchingMethod[] | undefined;
     const conflictDiagnostics: Diagnostic[] = [];
 
-    if (isRouteFile(meta.filePath)) {
+    if (router === 'pages') {
+      if (appRoute.handler) {
+        handler = { methods: [] };
+      } else {
+        try {
+          const sourceFile = await readRouteSourceFile(meta, sourceFiles);
+          const pagesDataFetching = collectPagesDataFetching(sourceFile);
+          routeCache = { ...routeCache, ...createPagesRouteCache(pagesDataFetching) };
+          if (pagesDataFetching.methods.length) {
+            dataFetching = pagesDataFetching.methods;
+          }
+        } catch {
+          // Silently skip if file can't be read or parsed
+        }
+      }
+    } else if (isRouteFile(meta.filePath)) {
       try {
-        const sourceText = await readFile(meta.absPath, 'utf8');
-        const sourceFile = ts.createSourceFile(
-          meta.filePath,
-          sourceText,
-          ts.ScriptTarget.Latest,
-          true
-        );
-
-        segmentConfig = parseRouteSegmentConfig(sourceFile);
-
-        if (segmentConfig) {
-          const conflicts = detectConfigConflicts(sourceFile, segmentConfig, meta.filePath);
+        const sourceFile = await readRouteSourceFile(meta, sourceFiles);
+
+        const parsedConfig = parseRouteSegmentConfig(sourceFile);
+
+        if (parsedConfig) {
+          segmentConfig = toRouteSegmentConfig(parsedConfig);
+          const conflicts = detectConfigConflicts(sourceFile, parsedConfig, meta.filePath);
           conflictDiagnostics.push(...conflicts);
         }
+
+        if (appRoute.handler) {
+          handler = { methods: collectRouteHandlerMethods(sourceFile) };
+        }
       } catch {
         // Silently skip if file can't be read or parsed
       }
     }
 
+    conflictDiagnostics.push(...duplicateDiagnostics);
+
     // Merge config diagnostics into route node
     if (conflictDiagnostics.length > 0) {
       const existing = diagnosticsLookup.get(meta.filePath) ?? [];
@@ -408,7 +878,7 @@ export async function buildGraph({
         id: routeId,
         kind: 'route',
         name: route,
-        children: [meta.id],
+        children: routeChildren,
         ...(routeCache?.tags?.length ? { tags: routeCache.tags } : {}),
         diagnostics: [...existingRouteDiagnostics, ...conflictDiagnostics],
       } as XNode;
@@ -417,7 +887,7 @@ export async function buildGraph({
         id: routeId,
         kind: 'route',
         name: route,
-        children: [meta.id],
+        children: routeChildren,
         ...(routeCache?.tags?.length ? { tags: routeCache.tags } : {}),
       };
 
@@ -429,6 +899,15 @@ export async function buildGraph({
       rootNodeId: routeId,
       ...(routeCache ? { cache: routeCache } : {}),
       ...(segmentConfig ? { segmentConfig } : {}),
+      ...(appRoute.params.length ? { params: appRoute.params } : {}),
+      ...(appRoute.intercepts ? { intercepts: appRoute.intercepts } : {}),
+      ...(slots.length ? { slots: slots.map((slot) => slot.appRoute.slot!) } : {}),
+      ...(handler ? { handler } : {}),
+      ...(middleware && middlewareMatchesRoute(middleware, route)
+        ? { middleware: [middleware.filePath] }
+        : {}),
+      router,
+      ...(dataFetching ? { dataFetching } : {}),
     });
   }
 
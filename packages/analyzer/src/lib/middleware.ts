@@ -0,0 +1,205 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import * as ts from 'typescript';
+
+import { parseSourceFile } from './sourceFiles.js';
+
+const MIDDLEWARE_CANDIDATES = [
+  'middleware.ts',
+  'middleware.js',
+  'src/middleware.ts',
+  'src/middleware.js',
+];
+
+export interface MiddlewareInfo {
+  /** Posix path relative to the project root */
+  filePath: string;
+  /** `config.matcher` sources; undefined when middleware runs for every route */
+  matchers?: string[];
+}
+
+function findConfigObject(sourceFile: ts.SourceFile): ts.ObjectLiteralExpression | undefined {
+  for (const statement of sourceFile.statements) {
+    if (
+      !ts.isVariableStatement(statement) ||
+      !statement.modifiers?.some((modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword)
+    ) {
+      continue;
+    }
+    for (const declaration of statement.declarationList.declarations) {
+      if (
+        ts.isIdentifier(declaration.name) &&
+        declaration.name.text === 'config' &&
+        declaration.initializer &&
+        ts.isObjectLiteralExpression(declaration.initializer)
+      ) {
+        return declaration.initializer;
+      }
+    }
+  }
+  return undefined;
+}
+
+function readMatcherSource(element: ts.Expression): string | undefined {
+  if (ts.isStringLiteralLike(element)) {
+    return element.text;
+  }
+  if (ts.isObjectLiteralExpression(element)) {
+    for (const property of element.properties) {
+      if (
+        ts.isPropertyAssignment(property) &&
+        ts.isIdentifier(property.name) &&
+        property.name.text === 'source' &&
+        ts.isStringLiteralLike(property.initializer)
+      ) {
+        return property.initializer.text;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read `config.matcher` from middleware source. Supports a single string, an array of
+ * strings, and `{ source }` objects; `has` / `missing` conditions are ignored.
+ */
+export function parseMiddlewareMatchers(sourceText: string): string[] | undefined {
+  const sourceFile = parseSourceFile('middleware.ts', sourceText);
+  const config = findConfigObject(sourceFile);
+  if (!config) {
+    return undefined;
+  }
+
+  for (const property of config.properties) {
+    if (
+      !ts.isPropertyAssignment(property) ||
+      !ts.isIdentifier(property.name) ||
+      property.name.text !== 'matcher'
+    ) {
+      continue;
+    }
+    const elements = ts.isArrayLiteralExpression(property.initializer)
+      ? Array.from(property.initializer.elements)
+      : [property.initializer];
+    return elements
+      .map((element) => readMatcherSource(element))
+      .filter((source): source is string => Boolean(source));
+  }
+
+  return undefined;
+}
+
+/**
+ * Locate `middleware.(ts|js)` in the project root or `src/` and parse its matcher config.
+ */
+export async function loadMiddleware(projectRoot: string): Promise<MiddlewareInfo | undefined> {
+  for (const candidate of MIDDLEWARE_CANDIDATES) {
+    let sourceText: string;
+    try {
+      sourceText = await readFile(join(projectRoot, candidate), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        continue;
+      }
+      throw error;
+    }
+    const matchers = parseMiddlewareMatchers(sourceText);
+    return { filePath: candidate, ...(matchers ? { matchers } : {}) };
+  }
+  return undefined;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+*?^${}|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Convert a Next.js matcher (path-to-regexp syntax) into a regular expression. Named params
+ * (`:slug`, `:path*`, `:path+`, `:id?`) and raw regex groups such as
+ * `/((?!api|_next/static).*)` are supported.
+ */
+export function matcherToRegExp(matcher: string): RegExp {
+  let pattern = '';
+  let index = 0;
+
+  while (index < matcher.length) {
+    const char = matcher[index]!;
+
+    if (char === '(') {
+      let depth = 0;
+      let end = index;
+      for (; end < matcher.length; end += 1) {
+        if (matcher[end] === '\\') {
+          end += 1;
+        } else if (matcher[end] === '(') {
+          depth += 1;
+        } else if (matcher[end] === ')') {
+          depth -= 1;
+          if (depth === 0) {
+            break;
+          }
+        }
+      }
+      pattern += matcher.slice(index, end + 1);
+      index = end + 1;
+      continue;
+    }
+
+    const param = char === ':' ? /^:(\w+)(\([^)]*\))?([*+?])?/.exec(matcher.slice(index)) : null;
+    if (param) {
+      const [token, , custom, modifier] = param;
+      const segment = custom ?? '[^/]+';
+      const withSlash = pattern.endsWith('/');
+      const prefix = withSlash ? pattern.slice(0, -1) : pattern;
+      const slash = withSlash ? '/' : '';
+
+      if (modifier === '*') {
+        pattern = `${prefix}(?:${slash}${segment}(?:/${segment})*)?`;
+      } else if (modifier === '+') {
+        pattern = `${prefix}${slash}${segment}(?:/${segment})*`;
+      } else if (modifier === '?') {
+        pattern = `${prefix}(?:${slash}${segment})?`;
+      } else {
+        pattern += segment;
+      }
+      index += token.length;
+      continue;
+    }
+
+    pattern += escapeRegExp(char);
+    index += 1;
+  }
+
+  return new RegExp(`^${pattern}/?$`);
+}
+
+/**
+ * Turn a route pattern into a representative pathname: dynamic segments become their param
+ * name and optional catch-alls are dropped.
+ */
+function toSamplePath(route: string): string {
+  const segments = route
+    .split('/')
+    .filter(Boolean)
+    .filter((segment) => !/^\[\[\.\.\.[^\]]+\]\]$/.test(segment))
+    .map((segment) => segment.replace(/^\[(?:\.\.\.)?([^\]]+)\]$/, '$1'));
+  return `/${segments.join('/')}`;
+}
+
+/**
+ * Whether middleware with the given matchers runs for a route pattern
+ */
+export function middlewareMatchesRoute(middleware: MiddlewareInfo, route: string): boolean {
+  if (!middleware.matchers) {
+    return true;
+  }
+  const samplePath = toSamplePath(route);
+  return middleware.matchers.some((matcher) => {
+    try {
+      return matcherToRegExp(matcher).test(samplePath);
+    } catch {
+      return false;
+    }
+  });
+}
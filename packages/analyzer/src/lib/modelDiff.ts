@@ -0,0 +1,242 @@
+import type {
+  CacheDynamicMode,
+  Diagnostic,
+  DiagnosticLevel,
+  Model,
+  RouteCacheMetadata,
+  Suggestion,
+} from '@rsc-xray/schemas';
+
+import { collectModelFindings, fingerprintFinding, type CollectedFinding } from './baseline.js';
+
+export type RouteRendering = 'static' | 'dynamic';
+
+export interface BytesChange {
+  /** Undefined when the route or node has no size in the base model */
+  base?: number;
+  /** Undefined when the route or node has no size in the head model */
+  head?: number;
+  /** `head - base`, counting a missing size as 0 */
+  delta: number;
+}
+
+export interface RouteBytesChange extends BytesChange {
+  route: string;
+}
+
+export interface NodeBytesChange extends BytesChange {
+  id: string;
+  file?: string;
+}
+
+export interface ClientIslandChange {
+  id: string;
+  file?: string;
+  bytes?: number;
+}
+
+export interface RouteCacheState {
+  dynamic?: CacheDynamicMode;
+  revalidateSeconds?: number | false;
+  rendering: RouteRendering;
+}
+
+export interface RouteCacheChange {
+  route: string;
+  base: RouteCacheState;
+  head: RouteCacheState;
+}
+
+export interface ModelDiffFinding {
+  rule: string;
+  file: string;
+  level: DiagnosticLevel;
+  message: string;
+}
+
+export interface FindingChanges {
+  /** Reported by head only */
+  added: ModelDiffFinding[];
+  /** Reported by base only */
+  resolved: ModelDiffFinding[];
+}
+
+export interface ModelDiff {
+  routes: { added: string[]; removed: string[] };
+  /** Routes whose `totalBytes` changed, largest change first */
+  routeBytes: RouteBytesChange[];
+  /** Nodes whose `bytes` changed, largest change first */
+  nodeBytes: NodeBytesChange[];
+  clientIslands: { added: ClientIslandChange[]; removed: ClientIslandChange[] };
+  /** Routes present in both models whose `dynamic` mode or `revalidateSeconds` changed */
+  cache: RouteCacheChange[];
+  diagnostics: FindingChanges;
+  suggestions: FindingChanges;
+}
+
+/**
+ * Whether Next.js renders a route per request: forced dynamic, or revalidated after 0 seconds.
+ * The analyzer already records routes that read cookies, headers, or `searchParams` as
+ * `force-dynamic`.
+ */
+export function getRouteRendering(cache: RouteCacheMetadata | undefined): RouteRendering {
+  return cache?.dynamic === 'force-dynamic' || cache?.revalidateSeconds === 0
+    ? 'dynamic'
+    : 'static';
+}
+
+const byDelta = <T extends BytesChange>(a: T, b: T) =>
+  Math.abs(b.delta) - Math.abs(a.delta) || b.delta - a.delta;
+
+function compareBytes(base: number | undefined, head: number | undefined): BytesChange | null {
+  if (base === head) {
+    return null;
+  }
+  return {
+    ...(base !== undefined && { base }),
+    ...(head !== undefined && { head }),
+    delta: (head ?? 0) - (base ?? 0),
+  };
+}
+
+function getCacheState(cache: RouteCacheMetadata | undefined): RouteCacheState {
+  return {
+    ...(cache?.dynamic !== undefined && { dynamic: cache.dynamic }),
+    ...(cache?.revalidateSeconds !== undefined && { revalidateSeconds: cache.revalidateSeconds }),
+    rendering: getRouteRendering(cache),
+  };
+}
+
+function getClientIslands(model: Model): Map<string, ClientIslandChange> {
+  const islands = new Map<string, ClientIslandChange>();
+  for (const node of Object.values(model.nodes)) {
+    if (node.kind === 'client') {
+      islands.set(node.id, {
+        id: node.id,
+        ...(node.file && { file: node.file }),
+        ...(node.bytes !== undefined && { bytes: node.bytes }),
+      });
+    }
+  }
+  return islands;
+}
+
+function splitFindings(model: Model): {
+  diagnostics: CollectedFinding[];
+  suggestions: CollectedFinding[];
+} {
+  const diagnostics = new Set<Diagnostic | Suggestion>(
+    Object.values(model.nodes).flatMap((node) => node.diagnostics ?? [])
+  );
+  const collected = collectModelFindings(model);
+  return {
+    diagnostics: collected.filter(({ finding }) => diagnostics.has(finding)),
+    suggestions: collected.filter(({ finding }) => !diagnostics.has(finding)),
+  };
+}
+
+// The base sources are usually gone, so findings match on their message with numbers masked
+const findingKey = ({ finding, file }: CollectedFinding) =>
+  `${finding.rule}\0${file}\0${fingerprintFinding(finding)}`;
+
+const toDiffFinding = ({ finding, file }: CollectedFinding): ModelDiffFinding => ({
+  rule: finding.rule,
+  file,
+  level: finding.level,
+  message: finding.message,
+});
+
+/**
+ * Match findings as a multiset, so a second copy of a finding in the same file counts as added
+ */
+function compareFindings(
+  base: readonly CollectedFinding[],
+  head: readonly CollectedFinding[]
+): FindingChanges {
+  const remaining = new Map<string, CollectedFinding[]>();
+  for (const entry of base) {
+    const key = findingKey(entry);
+    remaining.set(key, [...(remaining.get(key) ?? []), entry]);
+  }
+
+  const added: ModelDiffFinding[] = [];
+  for (const entry of head) {
+    const matches = remaining.get(findingKey(entry));
+    if (matches?.length) {
+      matches.pop();
+    } else {
+      added.push(toDiffFinding(entry));
+    }
+  }
+  const resolved = [...remaining.values()].flat().map(toDiffFinding);
+
+  const byLocation = (a: ModelDiffFinding, b: ModelDiffFinding) =>
+    a.file.localeCompare(b.file) || a.rule.localeCompare(b.rule);
+  return { added: added.sort(byLocation), resolved: resolved.sort(byLocation) };
+}
+
+/**
+ * Compare two analysis runs of a project, e.g. of a pull request's base and head commits.
+ * Routes match on their path and nodes on their id.
+ */
+export function diffModels(base: Model, head: Model): ModelDiff {
+  const baseRoutes = new Map(base.routes.map((route) => [route.route, route]));
+  const headRoutes = new Map(head.routes.map((route) => [route.route, route]));
+  const routeNames = [...new Set([...baseRoutes.keys(), ...headRoutes.keys()])].sort();
+
+  const routeBytes: RouteBytesChange[] = [];
+  const cache: RouteCacheChange[] = [];
+  for (const route of routeNames) {
+    const baseRoute = baseRoutes.get(route);
+    const headRoute = headRoutes.get(route);
+    const bytes = compareBytes(baseRoute?.totalBytes, headRoute?.totalBytes);
+    if (bytes) {
+      routeBytes.push({ route, ...bytes });
+    }
+    if (baseRoute && headRoute) {
+      const baseCache = getCacheState(baseRoute.cache);
+      const headCache = getCacheState(headRoute.cache);
+      if (
+        baseCache.dynamic !== headCache.dynamic ||
+        baseCache.revalidateSeconds !== headCache.revalidateSeconds
+      ) {
+        cache.push({ route, base: baseCache, head: headCache });
+      }
+    }
+  }
+
+  const nodeIds = [...new Set([...Object.keys(base.nodes), ...Object.keys(head.nodes)])].sort();
+  const nodeBytes: NodeBytesChange[] = [];
+  for (const id of nodeIds) {
+    const bytes = compareBytes(base.nodes[id]?.bytes, head.nodes[id]?.bytes);
+    if (bytes) {
+      const file = head.nodes[id]?.file ?? base.nodes[id]?.file;
+      nodeBytes.push({ id, ...(file && { file }), ...bytes });
+    }
+  }
+
+  const baseIslands = getClientIslands(base);
+  const headIslands = getClientIslands(head);
+  const baseFindings = splitFindings(base);
+  const headFindings = splitFindings(head);
+
+  return {
+    routes: {
+      added: routeNames.filter((route) => !baseRoutes.has(route)),
+      removed: routeNames.filter((route) => !headRoutes.has(route)),
+    },
+    routeBytes: routeBytes.sort(byDelta),
+    nodeBytes: nodeBytes.sort(byDelta),
+    clientIslands: {
+      added: [...headIslands.values()]
+        .filter(({ id }) => !baseIslands.has(id))
+        .sort((a, b) => a.id.localeCompare(b.id)),
+      removed: [...baseIslands.values()]
+        .filter(({ id }) => !headIslands.has(id))
+        .sort((a, b) => a.id.localeCompare(b.id)),
+    },
+    cache,
+    diagnostics: compareFindings(baseFindings.diagnostics, headFindings.diagnostics),
+    suggestions: compareFindings(baseFindings.suggestions, headFindings.suggestions),
+  };
+}
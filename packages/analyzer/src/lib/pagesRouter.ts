@@ -0,0 +1,198 @@
+import * as ts from 'typescript';
+
+import type {
+  PagesDataFetchingMethod,
+  RouteCacheMetadata,
+  RouteParam,
+  RouteSegmentRole,
+} from '@rsc-xray/schemas';
+
+import { collectExportedNames } from './classify.js';
+import { parseDynamicSegment } from './routeTree.js';
+
+const PAGE_FILE_PATTERN = /^(.+)\.(tsx|ts|jsx|js)$/;
+
+/** Files under `pages/` that configure the router instead of serving a URL */
+const SPECIAL_PAGES = new Map<string, RouteSegmentRole | undefined>([
+  ['_app', 'layout'],
+  ['_document', undefined],
+  ['_error', 'error'],
+]);
+
+/**
+ * Route derived from a file's location under the pages directory
+ */
+export interface PagesRoute {
+  /** Route pattern, e.g. `/blog/[slug]` */
+  route: string;
+  params: RouteParam[];
+  /** The file is an API route (`pages/api/*`) rather than a page */
+  api?: boolean;
+}
+
+/**
+ * Data fetching exported by a Pages Router page
+ */
+export interface PagesDataFetching {
+  methods: PagesDataFetchingMethod[];
+  /** Smallest literal `revalidate` returned from `getStaticProps` */
+  revalidateSeconds?: number | false;
+}
+
+const DATA_FETCHING_EXPORTS: readonly PagesDataFetchingMethod[] = [
+  'getServerSideProps',
+  'getStaticProps',
+  'getStaticPaths',
+];
+
+function stripPagesDir(pagesDir: string, filePath: string): string[] | undefined {
+  if (!filePath.startsWith(`${pagesDir}/`)) {
+    return undefined;
+  }
+  const segments = filePath.slice(pagesDir.length + 1).split('/');
+  const match = PAGE_FILE_PATTERN.exec(segments.pop()!);
+  return match ? [...segments, match[1]!] : undefined;
+}
+
+/**
+ * Role of a Pages Router file: pages and API routes map to `page` / `route`, the custom App
+ * wraps every page like a root layout, and `_error` is the error boundary. Undefined for
+ * `_document` and files outside the pages directory.
+ */
+export function getPagesFileRole(pagesDir: string, filePath: string): RouteSegmentRole | undefined {
+  const segments = stripPagesDir(pagesDir, filePath);
+  if (!segments) {
+    return undefined;
+  }
+  if (segments.length === 1 && SPECIAL_PAGES.has(segments[0]!)) {
+    return SPECIAL_PAGES.get(segments[0]!);
+  }
+  return segments[0] === 'api' ? 'route' : 'page';
+}
+
+/**
+ * Derive the route pattern and params of a page or API route under the pages directory.
+ * Returns undefined for `_app`, `_document`, `_error`, and files outside the directory.
+ */
+export function parsePagesRoute(pagesDir: string, filePath: string): PagesRoute | undefined {
+  const segments = stripPagesDir(pagesDir, filePath);
+  if (!segments || (segments.length === 1 && SPECIAL_PAGES.has(segments[0]!))) {
+    return undefined;
+  }
+
+  if (segments[segments.length - 1] === 'index') {
+    segments.pop();
+  }
+
+  const params = segments
+    .map((segment) => parseDynamicSegment(segment))
+    .filter((param): param is RouteParam => Boolean(param));
+
+  return {
+    route: segments.length ? `/${segments.join('/')}` : '/',
+    params,
+    ...(segments[0] === 'api' ? { api: true } : {}),
+  };
+}
+
+function findExportedFunction(
+  sourceFile: ts.SourceFile,
+  name: string
+): ts.FunctionLikeDeclaration | undefined {
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name?.text === name) {
+      return statement;
+    }
+    if (!ts.isVariableStatement(statement)) {
+      continue;
+    }
+    for (const declaration of statement.declarationList.declarations) {
+      const initializer = declaration.initializer;
+      if (
+        ts.isIdentifier(declaration.name) &&
+        declaration.name.text === name &&
+        initializer &&
+        (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))
+      ) {
+        return initializer;
+      }
+    }
+  }
+  return undefined;
+}
+
+function collectReturnedRevalidate(fn: ts.FunctionLikeDeclaration): number | false | undefined {
+  let result: number | false | undefined;
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isPropertyAssignment(node) &&
+      ts.isIdentifier(node.name) &&
+      node.name.text === 'revalidate'
+    ) {
+      if (node.initializer.kind === ts.SyntaxKind.FalseKeyword) {
+        result ??= false;
+      } else if (ts.isNumericLiteral(node.initializer)) {
+        const value = Number(node.initializer.text);
+        result = typeof result === 'number' ? Math.min(result, value) : value;
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  if (fn.body) {
+    visit(fn.body);
+  }
+  return result;
+}
+
+function assignsGetInitialProps(sourceFile: ts.SourceFile): boolean {
+  return sourceFile.statements.some(
+    (statement) =>
+      ts.isExpressionStatement(statement) &&
+      ts.isBinaryExpression(statement.expression) &&
+      statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+      ts.isPropertyAccessExpression(statement.expression.left) &&
+      statement.expression.left.name.text === 'getInitialProps'
+  );
+}
+
+/**
+ * Detect `getServerSideProps`, `getStaticProps`, `getStaticPaths`, and `Page.getInitialProps`
+ * in a page, along with the ISR interval `getStaticProps` returns.
+ */
+export function collectPagesDataFetching(sourceFile: ts.SourceFile): PagesDataFetching {
+  const exported = new Set(collectExportedNames(sourceFile));
+  const methods: PagesDataFetchingMethod[] = DATA_FETCHING_EXPORTS.filter((name) =>
+    exported.has(name)
+  );
+  if (assignsGetInitialProps(sourceFile)) {
+    methods.push('getInitialProps');
+  }
+
+  const getStaticProps = exported.has('getStaticProps')
+    ? findExportedFunction(sourceFile, 'getStaticProps')
+    : undefined;
+  const revalidateSeconds = getStaticProps ? collectReturnedRevalidate(getStaticProps) : undefined;
+
+  return {
+    methods,
+    ...(revalidateSeconds !== undefined ? { revalidateSeconds } : {}),
+  };
+}
+
+/**
+ * Static or dynamic rendering of a page. `getServerSideProps` and `getInitialProps` render on
+ * every request; everything else is prerendered at build time (with ISR when
+ * `getStaticProps` returns `revalidate`).
+ */
+export function createPagesRouteCache(dataFetching: PagesDataFetching): RouteCacheMetadata {
+  const { methods, revalidateSeconds } = dataFetching;
+  if (methods.includes('getServerSideProps') || methods.includes('getInitialProps')) {
+    return { dynamic: 'force-dynamic' };
+  }
+  return {
+    dynamic: 'force-static',
+    ...(revalidateSeconds !== undefined ? { revalidateSeconds } : {}),
+  };
+}
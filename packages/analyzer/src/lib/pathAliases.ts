@@ -0,0 +1,155 @@
+import { dirname, join, resolve } from 'node:path';
+
+import * as ts from 'typescript';
+
+const CONFIG_FILE_NAMES = ['tsconfig.json', 'jsconfig.json'];
+
+export interface PathAliasConfig {
+  /** Absolute path of the tsconfig/jsconfig the aliases were read from */
+  configPath: string;
+  /** Absolute `compilerOptions.baseUrl`, when set */
+  baseUrl?: string;
+  /** Absolute directory that `paths` targets are relative to */
+  pathsBasePath: string;
+  paths: Record<string, string[]>;
+}
+
+/**
+ * Host used to parse config files. Directory enumeration is stubbed out because we only
+ * need compiler options, not the list of files matched by `include`.
+ */
+const PARSE_CONFIG_HOST: ts.ParseConfigHost = {
+  useCaseSensitiveFileNames: ts.sys.useCaseSensitiveFileNames,
+  fileExists: ts.sys.fileExists,
+  readFile: ts.sys.readFile,
+  readDirectory: () => [],
+};
+
+function findConfigFile(projectRoot: string): string | undefined {
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const candidate = join(projectRoot, fileName);
+    if (ts.sys.fileExists(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Load `baseUrl` and `paths` from the project's tsconfig.json (or jsconfig.json).
+ *
+ * `extends` chains are followed by the TypeScript config parser, so aliases declared in a
+ * shared base config are honoured. Returns undefined when no config exists, it cannot be
+ * parsed, or it declares neither `baseUrl` nor `paths`.
+ */
+export function loadPathAliases(projectRoot: string): PathAliasConfig | undefined {
+  const configPath = findConfigFile(projectRoot);
+  if (!configPath) {
+    return undefined;
+  }
+
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (error || !config) {
+    return undefined;
+  }
+
+  const parsed = ts.parseJsonConfigFileContent(
+    config,
+    PARSE_CONFIG_HOST,
+    dirname(configPath),
+    undefined,
+    configPath
+  );
+  const { baseUrl, paths } = parsed.options;
+
+  if (!baseUrl && !paths) {
+    return undefined;
+  }
+
+  // Without a baseUrl, `paths` targets resolve against the config that declared them
+  // (TypeScript 4.1+ semantics); the parser records that directory as `pathsBasePath`.
+  const declaringDir =
+    typeof parsed.options.pathsBasePath === 'string'
+      ? parsed.options.pathsBasePath
+      : dirname(configPath);
+
+  return {
+    configPath,
+    ...(baseUrl ? { baseUrl: resolve(baseUrl) } : {}),
+    pathsBasePath: resolve(baseUrl ?? declaringDir),
+    paths: paths ?? {},
+  };
+}
+
+interface PatternMatch {
+  pattern: string;
+  captured: string;
+}
+
+function matchPattern(pattern: string, specifier: string): PatternMatch | undefined {
+  const starIndex = pattern.indexOf('*');
+  if (starIndex === -1) {
+    return pattern === specifier ? { pattern, captured: '' } : undefined;
+  }
+
+  const prefix = pattern.slice(0, starIndex);
+  const suffix = pattern.slice(starIndex + 1);
+  if (
+    specifier.length >= prefix.length + suffix.length &&
+    specifier.startsWith(prefix) &&
+    specifier.endsWith(suffix)
+  ) {
+    return { pattern, captured: specifier.slice(prefix.length, specifier.length - suffix.length) };
+  }
+  return undefined;
+}
+
+/**
+ * Pick the `paths` entry TypeScript would use: an exact match wins, otherwise the wildcard
+ * pattern with the longest prefix.
+ */
+function findBestPattern(
+  paths: Record<string, string[]>,
+  specifier: string
+): PatternMatch | undefined {
+  let best: PatternMatch | undefined;
+  let bestPrefixLength = -1;
+
+  for (const pattern of Object.keys(paths)) {
+    const match = matchPattern(pattern, specifier);
+    if (!match) {
+      continue;
+    }
+    const starIndex = pattern.indexOf('*');
+    if (starIndex === -1) {
+      return match;
+    }
+    if (starIndex > bestPrefixLength) {
+      best = match;
+      bestPrefixLength = starIndex;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Expand a bare module specifier into absolute base paths (without extension probing)
+ * using `paths` first and `baseUrl` second. Candidates are returned in priority order.
+ */
+export function expandPathAlias(aliases: PathAliasConfig, specifier: string): string[] {
+  const candidates: string[] = [];
+
+  const match = findBestPattern(aliases.paths, specifier);
+  if (match) {
+    for (const target of aliases.paths[match.pattern] ?? []) {
+      candidates.push(resolve(aliases.pathsBasePath, target.replace('*', match.captured)));
+    }
+  }
+
+  if (aliases.baseUrl) {
+    candidates.push(resolve(aliases.baseUrl, specifier));
+  }
+
+  return candidates;
+}
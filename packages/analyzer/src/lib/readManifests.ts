@@ -30,6 +30,7 @@ interface NextPrerenderManifest {
 }
 
 const DEFAULT_DIST_DIR = '.next';
+const SIZE_MANIFEST_FILE = 'build-manifest.json.__scx_sizes__';
 
 async function readJsonFile<T>(filePath: string): Promise<T> {
   const raw = await readFile(filePath, 'utf8');
@@ -65,6 +66,16 @@ async function readOptionalManifest<T>(filePath: string): Promise<T | undefined>
   }
 }
 
+async function readFirstOptionalManifest<T>(paths: string[]): Promise<T | undefined> {
+  for (const filePath of paths) {
+    const manifest = await readOptionalManifest<T>(filePath);
+    if (manifest) {
+      return manifest;
+    }
+  }
+  return undefined;
+}
+
 function sumBytes(assets: NamedAssetSize[] | undefined): number | undefined {
   if (!assets || assets.length === 0) {
     return undefined;
@@ -136,6 +147,44 @@ async function sumChunkBytes(
   return total > 0 ? total : undefined;
 }
 
+async function readAssetSizes(
+  sizeManifestPath: string
+): Promise<Record<string, number> | undefined> {
+  try {
+    const parsed = await readJsonFile<Record<string, NamedAssetSize[]>>(sizeManifestPath);
+    return Object.fromEntries(
+      Object.entries(parsed).map(([chunk, assets]) => [chunk, sumBytes(assets) ?? 0])
+    );
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+    return undefined;
+  }
+}
+
+interface ReadChunkSizesOptions extends ReadManifestsOptions {
+  chunks: Iterable<string>;
+}
+
+/**
+ * Sizes of build output chunks, e.g. those listed in `RouteEntry.chunks`. Chunks missing from
+ * the build output count as 0 bytes.
+ */
+export async function readChunkSizes({
+  projectRoot,
+  distDir = DEFAULT_DIST_DIR,
+  chunks,
+}: ReadChunkSizesOptions): Promise<Map<string, number>> {
+  const assetSizes = await readAssetSizes(join(projectRoot, distDir, SIZE_MANIFEST_FILE));
+  const cache = new Map<string, number>();
+  const unique = [...new Set(chunks)];
+  const sizes = await Promise.all(
+    unique.map((chunk) => resolveChunkSize(chunk, assetSizes, projectRoot, distDir, cache))
+  );
+  return new Map(unique.map((chunk, index) => [chunk, sizes[index]!]));
+}
+
 export async function readManifests({
   projectRoot,
   distDir = DEFAULT_DIST_DIR,
@@ -145,25 +194,16 @@ export async function readManifests({
     join(projectRoot, distDir, 'server', 'app-build-manifest.json'),
     join(projectRoot, distDir, 'app-build-manifest.json'),
   ];
-  const sizeManifestPath = join(projectRoot, distDir, 'build-manifest.json.__scx_sizes__');
+  const sizeManifestPath = join(projectRoot, distDir, SIZE_MANIFEST_FILE);
   const prerenderManifestPath = join(projectRoot, distDir, 'prerender-manifest.json');
 
+  // Pages Router-only builds have no app-build-manifest
   const [buildManifest, appBuildManifest] = await Promise.all([
     readRequiredManifest<NextBuildManifest>([manifestPath]),
-    readRequiredManifest<NextAppBuildManifest>(appManifestPaths),
+    readFirstOptionalManifest<NextAppBuildManifest>(appManifestPaths),
   ]);
 
-  let assetSizes: Record<string, number> | undefined;
-  try {
-    const parsed = await readJsonFile<Record<string, NamedAssetSize[]>>(sizeManifestPath);
-    assetSizes = Object.fromEntries(
-      Object.entries(parsed).map(([chunk, assets]) => [chunk, sumBytes(assets) ?? 0])
-    );
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-      throw error;
-    }
-  }
+  const assetSizes = await readAssetSizes(sizeManifestPath);
 
   const seenRoutes = new Map<string, Set<string>>();
   const normalizeRoute = (route: string): string => {
@@ -196,7 +236,7 @@ export async function readManifests({
   if (buildManifest.app) {
     Object.entries(buildManifest.app).forEach(([route, chunks]) => appendRoute(route, chunks));
   }
-  Object.entries(appBuildManifest.pages ?? {}).forEach(([route, chunks]) =>
+  Object.entries(appBuildManifest?.pages ?? {}).forEach(([route, chunks]) =>
     appendRoute(route, chunks)
   );
 
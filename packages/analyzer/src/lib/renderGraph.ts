@@ -0,0 +1,255 @@
+import * as ts from 'typescript';
+
+import type { XNode } from '@rsc-xray/schemas';
+
+import type { ModuleClassification } from './clientPropagation.js';
+import type { ModuleGraph, ModuleMeta } from './graph.js';
+
+/**
+ * A React component declared at the top level of a module
+ */
+export interface ComponentDeclaration {
+  /** Declared name, or 'default' for an anonymous default export */
+  name: string;
+  /** Names the component is exported under ('default' for the default export) */
+  exports: string[];
+  /** Component tags rendered in its body: capitalized identifiers and `ns.Member` expressions */
+  renders: string[];
+}
+
+/**
+ * A component resolved from a rendered JSX tag
+ */
+export interface ComponentRef {
+  moduleId: string;
+  name: string;
+}
+
+const WRAPPER_CALLS = new Set(['memo', 'forwardRef', 'React.memo', 'React.forwardRef']);
+
+function isComponentName(name: string): boolean {
+  return /^[A-Z]/.test(name);
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return (
+    ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node)?.some((modifier) => modifier.kind === kind) ?? false)
+  );
+}
+
+/**
+ * Unwrap `memo(...)` / `forwardRef(...)` to the function rendering the component
+ */
+function getComponentFunction(expression: ts.Expression): ts.FunctionLikeDeclaration | undefined {
+  if (ts.isArrowFunction(expression) || ts.isFunctionExpression(expression)) {
+    return expression;
+  }
+  if (
+    ts.isCallExpression(expression) &&
+    WRAPPER_CALLS.has(expression.expression.getText()) &&
+    expression.arguments[0]
+  ) {
+    return getComponentFunction(expression.arguments[0]);
+  }
+  return undefined;
+}
+
+function collectRenderedTags(node: ts.Node): string[] {
+  const tags = new Set<string>();
+
+  const visit = (current: ts.Node) => {
+    if (ts.isJsxOpeningElement(current) || ts.isJsxSelfClosingElement(current)) {
+      const tagName = current.tagName.getText();
+      if (isComponentName(tagName) || ts.isPropertyAccessExpression(current.tagName)) {
+        tags.add(tagName);
+      }
+    }
+    ts.forEachChild(current, visit);
+  };
+
+  visit(node);
+  return Array.from(tags).sort();
+}
+
+/**
+ * Collect top-level components: capitalized function declarations and variables initialized with
+ * a function (optionally wrapped in `memo` / `forwardRef`), plus an anonymous default export.
+ */
+export function collectComponentDeclarations(sourceFile: ts.SourceFile): ComponentDeclaration[] {
+  const components = new Map<string, { fn: ts.Node; exports: Set<string> }>();
+
+  const declare = (name: string, fn: ts.Node, exportName?: string) => {
+    const entry = components.get(name) ?? { fn, exports: new Set<string>() };
+    if (exportName) {
+      entry.exports.add(exportName);
+    }
+    components.set(name, entry);
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.body) {
+      const isExported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+      const isDefault = isExported && hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+      const name = statement.name?.text ?? (isDefault ? 'default' : undefined);
+      if (name && (isComponentName(name) || isDefault)) {
+        declare(name, statement, isDefault ? 'default' : isExported ? name : undefined);
+      }
+      continue;
+    }
+
+    if (ts.isVariableStatement(statement)) {
+      const isExported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+      for (const declaration of statement.declarationList.declarations) {
+        const fn = declaration.initializer && getComponentFunction(declaration.initializer);
+        if (fn && ts.isIdentifier(declaration.name) && isComponentName(declaration.name.text)) {
+          const name = declaration.name.text;
+          declare(name, fn, isExported ? name : undefined);
+        }
+      }
+    }
+  }
+
+  // `export default Page` and `export { Card, Card as Tile }` name components declared above
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      if (ts.isIdentifier(statement.expression)) {
+        components.get(statement.expression.text)?.exports.add('default');
+      } else {
+        const fn = getComponentFunction(statement.expression);
+        if (fn) {
+          declare('default', fn, 'default');
+        }
+      }
+      continue;
+    }
+
+    if (
+      ts.isExportDeclaration(statement) &&
+      !statement.moduleSpecifier &&
+      statement.exportClause &&
+      ts.isNamedExports(statement.exportClause)
+    ) {
+      for (const element of statement.exportClause.elements) {
+        const local = (element.propertyName ?? element.name).text;
+        components.get(local)?.exports.add(element.name.text);
+      }
+    }
+  }
+
+  return Array.from(components, ([name, { fn, exports }]) => ({
+    name,
+    exports: Array.from(exports).sort(),
+    renders: collectRenderedTags(fn),
+  })).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function createComponentNodeId(filePath: string, name: string): string {
+  return `component:${filePath}#${name}`;
+}
+
+function resolveExportedComponent(
+  moduleGraph: ModuleGraph,
+  moduleId: string,
+  exportName: string,
+  visited: Set<string>
+): ComponentRef | undefined {
+  const meta = moduleGraph.get(moduleId);
+  if (!meta || visited.has(moduleId)) {
+    return undefined;
+  }
+  visited.add(moduleId);
+
+  const component = meta.components.find((candidate) => candidate.exports.includes(exportName));
+  if (component) {
+    return { moduleId, name: component.name };
+  }
+
+  // Barrel files: `export * from './Button'`, `export { Button } from './Button'`, and renamed
+  // exports such as `export { default as Button } from './Button'`
+  for (const [targetId, bindings] of Object.entries(meta.exportBindings)) {
+    for (const binding of bindings) {
+      let imported: string | undefined;
+      if (binding.local === '*') {
+        // `export *` never re-exports the default export
+        imported = exportName === 'default' ? undefined : exportName;
+      } else if (binding.local === exportName && binding.imported !== '*') {
+        imported = binding.imported;
+      }
+      const resolved =
+        imported && resolveExportedComponent(moduleGraph, targetId, imported, new Set(visited));
+      if (resolved) {
+        return resolved;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Map a JSX tag rendered in a module to the component declaring it: components of the same
+ * module first, then import bindings (default, named, and namespace) followed through barrels.
+ */
+export function resolveRenderedComponent(
+  moduleGraph: ModuleGraph,
+  meta: ModuleMeta,
+  tag: string
+): ComponentRef | undefined {
+  const [local, member] = tag.split('.');
+  if (!member && meta.components.some((component) => component.name === local)) {
+    return { moduleId: meta.id, name: local! };
+  }
+
+  for (const [importedId, bindings] of Object.entries(meta.importBindings)) {
+    const binding = bindings.find((candidate) => candidate.local === local);
+    if (!binding) {
+      continue;
+    }
+    if (binding.imported === '*') {
+      return member
+        ? resolveExportedComponent(moduleGraph, importedId, member, new Set())
+        : undefined;
+    }
+    return member
+      ? undefined
+      : resolveExportedComponent(moduleGraph, importedId, binding.imported, new Set());
+  }
+
+  return undefined;
+}
+
+/**
+ * Build component nodes with parent → child render edges. Each component takes the effective
+ * kind of its module, so a server component rendering a client component is an exact boundary.
+ */
+export function buildComponentNodes(
+  moduleGraph: ModuleGraph,
+  moduleKinds: Map<string, ModuleClassification>
+): Record<string, XNode> {
+  const nodes: Record<string, XNode> = {};
+
+  for (const meta of moduleGraph.values()) {
+    const kind = moduleKinds.get(meta.id)?.kind ?? meta.kind;
+    for (const component of meta.components) {
+      const children = new Set<string>();
+      for (const tag of component.renders) {
+        const resolved = resolveRenderedComponent(moduleGraph, meta, tag);
+        const target = resolved && moduleGraph.get(resolved.moduleId);
+        if (target) {
+          children.add(createComponentNodeId(target.filePath, resolved.name));
+        }
+      }
+
+      const id = createComponentNodeId(meta.filePath, component.name);
+      nodes[id] = {
+        id,
+        kind,
+        file: meta.filePath,
+        name: component.name,
+        children: Array.from(children).sort(),
+      };
+    }
+  }
+
+  return nodes;
+}
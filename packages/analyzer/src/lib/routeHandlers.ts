@@ -0,0 +1,23 @@
+import * as ts from 'typescript';
+
+import type { HttpMethod } from '@rsc-xray/schemas';
+
+import { collectExportedNames } from './classify.js';
+
+const HTTP_METHODS: readonly HttpMethod[] = [
+  'GET',
+  'HEAD',
+  'POST',
+  'PUT',
+  'PATCH',
+  'DELETE',
+  'OPTIONS',
+];
+
+/**
+ * HTTP methods a route handler (`route.ts`) exports, in canonical order
+ */
+export function collectRouteHandlerMethods(sourceFile: ts.SourceFile): HttpMethod[] {
+  const exported = new Set(collectExportedNames(sourceFile));
+  return HTTP_METHODS.filter((method) => exported.has(method));
+}
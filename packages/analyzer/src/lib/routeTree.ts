@@ -0,0 +1,257 @@
+import type { RouteParam, RouteSegmentRole } from '@rsc-xray/schemas';
+
+/**
+ * Boundary files in the order Next.js nests them inside a segment:
+ * layout → template → error boundary → loading Suspense → not-found boundary → page / child segments
+ */
+export const SEGMENT_BOUNDARY_ROLES = [
+  'layout',
+  'template',
+  'error',
+  'loading',
+  'not-found',
+] as const satisfies readonly RouteSegmentRole[];
+
+export type SegmentBoundaryRole = (typeof SEGMENT_BOUNDARY_ROLES)[number];
+
+const SEGMENT_FILE_PATTERN =
+  /^(page|route|layout|template|error|loading|not-found)\.(tsx|ts|jsx|js)$/;
+
+export interface SegmentBoundary {
+  role: SegmentBoundaryRole;
+  /** Posix path relative to the project root */
+  filePath: string;
+}
+
+/** Boundary files keyed by segment directory (posix, relative to the project root) */
+export type SegmentFileIndex = Map<string, Partial<Record<SegmentBoundaryRole, string>>>;
+
+function splitPath(filePath: string): { dir: string; fileName: string } {
+  const index = filePath.lastIndexOf('/');
+  return index === -1
+    ? { dir: '', fileName: filePath }
+    : { dir: filePath.slice(0, index), fileName: filePath.slice(index + 1) };
+}
+
+function isInsideAppDir(appDir: string, filePath: string): boolean {
+  return filePath.startsWith(`${appDir}/`);
+}
+
+/**
+ * Role of an App Router special file (`page`, `route`, `layout`, `template`, `error`,
+ * `loading`, `not-found`), or undefined for ordinary modules and files outside the app directory.
+ */
+export function getSegmentFileRole(appDir: string, filePath: string): RouteSegmentRole | undefined {
+  if (!isInsideAppDir(appDir, filePath)) {
+    return undefined;
+  }
+  const match = SEGMENT_FILE_PATTERN.exec(splitPath(filePath).fileName);
+  return match ? (match[1] as RouteSegmentRole) : undefined;
+}
+
+/**
+ * Index every boundary file under the app directory by its segment directory. When a segment
+ * has several files for the same role (e.g. `layout.tsx` and `layout.js`) the first in sorted
+ * order wins, mirroring the extension priority used for module resolution.
+ */
+export function indexSegmentFiles(appDir: string, filePaths: Iterable<string>): SegmentFileIndex {
+  const index: SegmentFileIndex = new Map();
+
+  for (const filePath of Array.from(filePaths).sort()) {
+    const role = getSegmentFileRole(appDir, filePath);
+    if (!role || role === 'page' || role === 'route') {
+      continue;
+    }
+    const { dir } = splitPath(filePath);
+    const entry = index.get(dir) ?? {};
+    entry[role] ??= filePath;
+    index.set(dir, entry);
+  }
+
+  return index;
+}
+
+/**
+ * Segment directories from the app root down to `dir` (inclusive), including route groups
+ */
+function segmentDirectories(appDir: string, dir: string): string[] {
+  const dirs = [appDir];
+  const rest = dir.slice(appDir.length + 1);
+  if (!rest) {
+    return dirs;
+  }
+  let current = appDir;
+  for (const segment of rest.split('/')) {
+    current = `${current}/${segment}`;
+    dirs.push(current);
+  }
+  return dirs;
+}
+
+/**
+ * Boundaries wrapping a page, outermost first. Layouts of parent segments are shared by every
+ * route below them, so the chain for `/dashboard/settings` starts with the root layout.
+ */
+export function collectRouteBoundaries(
+  appDir: string,
+  pageFile: string,
+  segmentFiles: SegmentFileIndex
+): SegmentBoundary[] {
+  const boundaries: SegmentBoundary[] = [];
+
+  for (const dir of segmentDirectories(appDir, splitPath(pageFile).dir)) {
+    const entry = segmentFiles.get(dir);
+    if (!entry) {
+      continue;
+    }
+    for (const role of SEGMENT_BOUNDARY_ROLES) {
+      const filePath = entry[role];
+      if (filePath) {
+        boundaries.push({ role, filePath });
+      }
+    }
+  }
+
+  return boundaries;
+}
+
+/**
+ * Whether a `loading` file renders an implicit Suspense boundary around this file. Pages sit
+ * inside the loading boundary of their own segment; layouts and templates only inside the
+ * boundaries of parent segments. Other modules cannot be placed statically.
+ */
+export function isInsideLoadingBoundary(
+  appDir: string,
+  filePath: string,
+  segmentFiles: SegmentFileIndex
+): boolean {
+  const role = getSegmentFileRole(appDir, filePath);
+  if (!role || role === 'loading' || role === 'route') {
+    return false;
+  }
+
+  const { dir } = splitPath(filePath);
+  const dirs = segmentDirectories(appDir, dir);
+  // Layouts, templates, and error boundaries render outside their own segment's loading boundary
+  const candidates = role === 'page' || role === 'not-found' ? dirs : dirs.slice(0, -1);
+
+  return candidates.some((candidate) => Boolean(segmentFiles.get(candidate)?.loading));
+}
+
+const INTERCEPT_PATTERN = /^((?:\(\.\.\.\))|(?:\(\.\))|(?:\(\.\.\))+)(.+)$/;
+
+/**
+ * A parsed URL segment; route groups and parallel route slots never reach the URL
+ */
+type UrlSegment = { text: string; param?: RouteParam };
+
+/**
+ * Route derived from a page file's location under the app directory
+ */
+export interface AppRoute {
+  /** Route pattern, e.g. `/blog/[...slug]`; interceptors keep their marker segment */
+  route: string;
+  params: RouteParam[];
+  /** Parallel route slot (`@name`) the page renders into */
+  slot?: string;
+  /** Directory of the slot, e.g. `app/dashboard/@analytics` */
+  slotDir?: string;
+  /** Route an intercepting page (`(.)`, `(..)`, `(...)`) renders in place of */
+  intercepts?: string;
+  /** The file is a route handler (`route.ts`) rather than a page */
+  handler?: boolean;
+}
+
+/**
+ * Parse a `[param]`, `[...param]`, or `[[...param]]` directory or file segment
+ */
+export function parseDynamicSegment(segment: string): RouteParam | undefined {
+  let match = /^\[\[\.\.\.([^\]]+)\]\]$/.exec(segment);
+  if (match) {
+    return { name: match[1]!, type: 'optional-catch-all' };
+  }
+  match = /^\[\.\.\.([^\]]+)\]$/.exec(segment);
+  if (match) {
+    return { name: match[1]!, type: 'catch-all' };
+  }
+  match = /^\[([^\]]+)\]$/.exec(segment);
+  return match ? { name: match[1]!, type: 'dynamic' } : undefined;
+}
+
+function formatRoute(segments: UrlSegment[]): string {
+  return segments.length ? `/${segments.map((segment) => segment.text).join('/')}` : '/';
+}
+
+/**
+ * Resolve the URL an intercepting segment targets. `(.)` matches the same level, each `(..)`
+ * one level up, and `(...)` the app root; levels count URL segments, not directories.
+ */
+function resolveInterceptedSegments(
+  parents: UrlSegment[],
+  marker: string
+): UrlSegment[] | undefined {
+  if (marker === '(...)') {
+    return [];
+  }
+  if (marker === '(.)') {
+    return parents;
+  }
+  const levels = marker.length / '(..)'.length;
+  return levels <= parents.length ? parents.slice(0, parents.length - levels) : undefined;
+}
+
+/**
+ * Derive the route pattern, params, slot, and interception target of a page or route handler
+ * file with Next.js segment semantics. Returns undefined for any other file.
+ */
+export function parseAppRoute(appDir: string, pageFile: string): AppRoute | undefined {
+  const role = getSegmentFileRole(appDir, pageFile);
+  if (role !== 'page' && role !== 'route') {
+    return undefined;
+  }
+
+  const dirSegments = splitPath(pageFile).dir.slice(appDir.length + 1);
+  const segments: UrlSegment[] = [];
+  const params: RouteParam[] = [];
+  let intercepted: UrlSegment[] | undefined;
+  let slot: string | undefined;
+  let slotDir: string | undefined;
+  let currentDir = appDir;
+
+  for (const segment of dirSegments ? dirSegments.split('/') : []) {
+    currentDir = `${currentDir}/${segment}`;
+
+    if (/^\([^)]+\)$/.test(segment) && !INTERCEPT_PATTERN.test(segment)) {
+      continue; // route group
+    }
+
+    if (segment.startsWith('@')) {
+      slot ??= segment.slice(1);
+      slotDir ??= currentDir;
+      continue;
+    }
+
+    const interceptMatch = INTERCEPT_PATTERN.exec(segment);
+    const param = parseDynamicSegment(interceptMatch ? interceptMatch[2]! : segment);
+    if (param) {
+      params.push(param);
+    }
+
+    if (interceptMatch && !intercepted) {
+      const base = resolveInterceptedSegments(segments, interceptMatch[1]!);
+      intercepted = base ? [...base, { text: interceptMatch[2]!, param }] : undefined;
+    } else if (intercepted) {
+      intercepted.push({ text: segment, param });
+    }
+
+    segments.push({ text: segment, param });
+  }
+
+  return {
+    route: formatRoute(segments),
+    params,
+    ...(slot ? { slot, slotDir } : {}),
+    ...(intercepted ? { intercepts: formatRoute(intercepted) } : {}),
+    ...(role === 'route' ? { handler: true } : {}),
+  };
+}
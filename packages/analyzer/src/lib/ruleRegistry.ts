@@ -0,0 +1,256 @@
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { isAbsolute, join, resolve } from 'node:path';
+
+import * as ts from 'typescript';
+
+import {
+  resolveRuleId,
+  type Diagnostic,
+  type RouteSegmentConfig,
+  type RscXrayConfig,
+  type RscXrayPluginDefinition,
+  type RuleCategory,
+  type Suggestion,
+} from '@rsc-xray/schemas';
+
+import type { ClientComponentBundle } from './clientBundles.js';
+import type { ModuleKind } from './clientPropagation.js';
+import { applyRuleConfig, importProjectModule, resolveRuleSetting } from './config.js';
+import { parseSourceFile } from './sourceFiles.js';
+
+/**
+ * Context passed to every rule. Fields other than the file itself are only known to some
+ * callers: project analysis fills in the module graph facts, while editors usually only send
+ * the file.
+ */
+export interface RuleContext {
+  fileName: string;
+  sourceText: string;
+  /** Effective module kind; undefined when the caller does not know it (e.g. editors) */
+  kind?: ModuleKind;
+  /** Options of this rule from the project config, merged across matching overrides */
+  options: Record<string, unknown>;
+  router?: 'app' | 'pages';
+  /** JSX tags that render client components */
+  clientComponents?: Set<string>;
+  /** Identifiers bound to Server Actions */
+  serverActions?: Set<string>;
+  clientBundles?: ClientComponentBundle[];
+  routeConfig?: RouteSegmentConfig;
+  reactVersion?: string;
+  /** The file renders inside an App Router `loading` boundary */
+  insideLoadingBoundary?: boolean;
+}
+
+/** Optional context fields a rule can require before it runs */
+export type RuleContextKey = Exclude<keyof RuleContext, 'fileName' | 'sourceText' | 'options'>;
+
+export interface RuleMeta {
+  /** Diagnostics report problems; suggestions point out improvements */
+  type: 'diagnostic' | 'suggestion';
+  description: string;
+  category?: RuleCategory;
+  docsUrl?: string;
+}
+
+export interface Rule {
+  id: string;
+  meta: RuleMeta;
+  /** Module kinds the rule runs on; ignored when the kind is unknown */
+  appliesTo: readonly ModuleKind[];
+  /** Context fields that must be present, otherwise the rule is skipped */
+  requires?: readonly RuleContextKey[];
+  check(sourceFile: ts.SourceFile, context: RuleContext): Array<Diagnostic | Suggestion>;
+}
+
+export interface RuleRegistry {
+  register(rule: Rule): void;
+  get(id: string): Rule | undefined;
+  list(): Rule[];
+}
+
+export function createRuleRegistry(rules: Iterable<Rule> = []): RuleRegistry {
+  const byId = new Map<string, Rule>();
+
+  const registry: RuleRegistry = {
+    register(rule) {
+      if (byId.has(rule.id)) {
+        throw new Error(`Rule '${rule.id}' is already registered`);
+      }
+      byId.set(rule.id, rule);
+    },
+    get: (id) => byId.get(resolveRuleId(id)),
+    list: () => Array.from(byId.values()),
+  };
+
+  for (const rule of rules) {
+    registry.register(rule);
+  }
+  return registry;
+}
+
+export interface RunRulesOptions {
+  registry: RuleRegistry;
+  /** Parsed from the context's source text when omitted */
+  sourceFile?: ts.SourceFile;
+  context: Omit<RuleContext, 'options'>;
+  /** Skips rules turned off for the file and applies severity overrides to the results */
+  config?: RscXrayConfig;
+  /** Limit the run to some rules, e.g. the rules of an editor scenario */
+  filter?: (rule: Rule) => boolean;
+  /** Called when a rule throws; the error is rethrown when omitted */
+  onError?: (rule: Rule, error: unknown) => void;
+}
+
+export interface RunRulesResult {
+  diagnostics: Diagnostic[];
+  suggestions: Suggestion[];
+  rulesExecuted: string[];
+}
+
+function isRuleApplicable(rule: Rule, context: RunRulesOptions['context']): boolean {
+  if (context.kind && !rule.appliesTo.includes(context.kind)) {
+    return false;
+  }
+  return (rule.requires ?? []).every((key) => {
+    const value = context[key];
+    return value !== undefined && (!Array.isArray(value) || value.length > 0);
+  });
+}
+
+/**
+ * Rules `runRules` runs against a file: those passing the filter that apply to the context and
+ * are not turned off for the file
+ */
+export function selectRules({
+  registry,
+  context,
+  config = {},
+  filter,
+}: Pick<RunRulesOptions, 'registry' | 'context' | 'config' | 'filter'>): Rule[] {
+  return registry
+    .list()
+    .filter(
+      (rule) =>
+        (!filter || filter(rule)) &&
+        isRuleApplicable(rule, context) &&
+        resolveRuleSetting(config, rule.id, context.fileName).level !== 'off'
+    );
+}
+
+/**
+ * Run every applicable rule of the registry against one file
+ */
+export function runRules({
+  registry,
+  context,
+  sourceFile = parseSourceFile(context.fileName, context.sourceText),
+  config = {},
+  filter,
+  onError,
+}: RunRulesOptions): RunRulesResult {
+  const result: RunRulesResult = { diagnostics: [], suggestions: [], rulesExecuted: [] };
+
+  for (const rule of selectRules({ registry, context, config, filter })) {
+    const { options } = resolveRuleSetting(config, rule.id, context.fileName);
+
+    let findings: Array<Diagnostic | Suggestion>;
+    try {
+      findings = rule.check(sourceFile, { ...context, options });
+    } catch (error) {
+      if (!onError) {
+        throw error;
+      }
+      onError(rule, error);
+      continue;
+    }
+
+    result.rulesExecuted.push(rule.id);
+    const applied = applyRuleConfig(findings, config, context.fileName);
+    if (rule.meta.type === 'suggestion') {
+      result.suggestions.push(...(applied as Suggestion[]));
+    } else {
+      result.diagnostics.push(...(applied as Diagnostic[]));
+    }
+  }
+
+  return result;
+}
+
+function assertRule(value: unknown, source: string): Rule {
+  const rule = value as Partial<Rule> | undefined;
+  if (
+    !rule ||
+    typeof rule.id !== 'string' ||
+    typeof rule.check !== 'function' ||
+    !Array.isArray(rule.appliesTo) ||
+    (rule.meta?.type !== 'diagnostic' && rule.meta?.type !== 'suggestion')
+  ) {
+    throw new Error(
+      `Invalid rule in plugin ${source}: expected { id, meta: { type, description }, appliesTo, check }`
+    );
+  }
+  return rule as Rule;
+}
+
+function readPluginRules(exported: unknown, source: string): Rule[] {
+  const rules = Array.isArray(exported)
+    ? exported
+    : (exported as { rules?: unknown } | undefined)?.rules;
+  if (!Array.isArray(rules)) {
+    throw new Error(`Plugin ${source} must export a 'rules' array or a default array of rules`);
+  }
+  return rules.map((rule) => assertRule(rule, source));
+}
+
+function resolvePluginPath(projectRoot: string, specifier: string): string {
+  if (specifier.startsWith('.') || isAbsolute(specifier)) {
+    return resolve(projectRoot, specifier);
+  }
+  // Resolve packages from the project, not from the analyzer's own node_modules
+  return createRequire(join(projectRoot, 'package.json')).resolve(specifier);
+}
+
+/**
+ * Load the custom rules of the config `plugins`. Strings are npm packages or paths relative to
+ * the project root; objects are inline plugins of JS/TS configs.
+ */
+export async function loadCustomRules(config: RscXrayConfig, projectRoot: string): Promise<Rule[]> {
+  const rules: Rule[] = [];
+
+  for (const plugin of config.plugins ?? []) {
+    if (typeof plugin !== 'string') {
+      const definition = plugin as RscXrayPluginDefinition;
+      rules.push(...readPluginRules(definition, definition.name ?? 'inline plugin'));
+      continue;
+    }
+
+    let filePath: string;
+    try {
+      filePath = resolvePluginPath(projectRoot, plugin);
+    } catch (error) {
+      throw new Error(`Cannot resolve rsc-xray plugin '${plugin}': ${(error as Error).message}`);
+    }
+    rules.push(...readPluginRules(await importProjectModule(filePath), plugin));
+  }
+
+  return rules;
+}
+
+/**
+ * Contents of the files the string `plugins` of the config resolve to, per specifier. Rule
+ * results cached under these stay valid only while the plugin files are unchanged.
+ */
+export async function readPluginSources(
+  config: RscXrayConfig,
+  projectRoot: string
+): Promise<Record<string, string>> {
+  const sources: Record<string, string> = {};
+  for (const plugin of config.plugins ?? []) {
+    if (typeof plugin === 'string') {
+      sources[plugin] = await readFile(resolvePluginPath(projectRoot, plugin), 'utf8');
+    }
+  }
+  return sources;
+}
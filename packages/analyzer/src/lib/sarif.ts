@@ -0,0 +1,275 @@
+import { pathToFileURL } from 'node:url';
+
+import {
+  getRuleInfo,
+  type Diagnostic,
+  type DiagnosticLevel,
+  type Model,
+  type RscXrayDiagnostic,
+  type Suggestion,
+} from '@rsc-xray/schemas';
+
+import { collectModelFindings, fingerprintFinding, type CollectedFinding } from './baseline.js';
+import type { RuleRegistry } from './ruleRegistry.js';
+import { readFindingSources, toRscXrayDiagnostic } from './unifiedDiagnostics.js';
+
+export const SARIF_VERSION = '2.1.0';
+export const SARIF_SCHEMA_URI = 'https://json.schemastore.org/sarif-2.1.0.json';
+/** Base id of artifact URIs, which are relative to the project root */
+export const SARIF_SOURCE_ROOT = '%SRCROOT%';
+/** Key of the fingerprint in `partialFingerprints`, shared with baselines */
+export const SARIF_FINGERPRINT_KEY = 'rscXray/v1';
+
+export type SarifLevel = 'error' | 'warning' | 'note' | 'none';
+
+export interface SarifMessage {
+  text: string;
+}
+
+export interface SarifRegion {
+  startLine: number;
+  startColumn?: number;
+  endLine?: number;
+  /** Exclusive, like `RscXrayDiagnostic.endColumn` */
+  endColumn?: number;
+}
+
+export interface SarifArtifactLocation {
+  uri: string;
+  uriBaseId?: string;
+}
+
+export interface SarifPhysicalLocation {
+  artifactLocation: SarifArtifactLocation;
+  region?: SarifRegion;
+}
+
+export interface SarifLocation {
+  id?: number;
+  message?: SarifMessage;
+  physicalLocation?: SarifPhysicalLocation;
+  logicalLocations?: Array<{ fullyQualifiedName: string }>;
+}
+
+export interface SarifFix {
+  description: SarifMessage;
+  artifactChanges: Array<{
+    artifactLocation: SarifArtifactLocation;
+    replacements: Array<{ deletedRegion: SarifRegion; insertedContent: { text: string } }>;
+  }>;
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: SarifMessage;
+  locations: SarifLocation[];
+  relatedLocations?: SarifLocation[];
+  partialFingerprints: Record<string, string>;
+  fixes?: SarifFix[];
+}
+
+export interface SarifReportingDescriptor {
+  id: string;
+  shortDescription?: SarifMessage;
+  fullDescription?: SarifMessage;
+  helpUri?: string;
+  defaultConfiguration?: { level: SarifLevel };
+  properties: { category: string; tags: string[] };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: typeof SARIF_VERSION;
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string;
+        informationUri: string;
+        version?: string;
+        rules: SarifReportingDescriptor[];
+      };
+    };
+    originalUriBaseIds?: Record<string, { uri: string }>;
+    results: SarifResult[];
+  }>;
+}
+
+export interface CreateSarifLogOptions {
+  /** Source of a project file, for regions and fingerprints */
+  getSourceText?: (file: string) => string | undefined;
+  /** Registry of the run, for the descriptions of custom rules */
+  registry?: RuleRegistry;
+  /** Absolute project root, recorded as the base of the relative artifact URIs */
+  projectRoot?: string;
+  toolVersion?: string;
+}
+
+const SARIF_LEVEL_BY_LEVEL: Record<DiagnosticLevel, SarifLevel> = {
+  error: 'error',
+  warn: 'warning',
+  info: 'note',
+};
+
+function toArtifactLocation(file: string): SarifArtifactLocation {
+  return { uri: encodeURI(file), uriBaseId: SARIF_SOURCE_ROOT };
+}
+
+function createRuleDescriptor(
+  ruleId: string,
+  diagnostic: RscXrayDiagnostic,
+  registry: RuleRegistry | undefined
+): SarifReportingDescriptor {
+  const info = getRuleInfo(ruleId);
+  const meta = registry?.get(ruleId)?.meta;
+  const description = info?.description ?? meta?.description;
+  return {
+    id: ruleId,
+    ...(description ? { shortDescription: { text: description } } : {}),
+    ...(info ? { fullDescription: { text: info.explanation } } : {}),
+    ...(meta?.docsUrl ? { helpUri: meta.docsUrl } : {}),
+    ...(info ? { defaultConfiguration: { level: SARIF_LEVEL_BY_LEVEL[info.defaultLevel] } } : {}),
+    properties: { category: diagnostic.category, tags: [diagnostic.category] },
+  };
+}
+
+function toFixes(diagnostic: RscXrayDiagnostic): SarifFix[] | undefined {
+  return diagnostic.fixes?.map((fix) => {
+    const byFile = new Map<string, SarifFix['artifactChanges'][number]['replacements']>();
+    for (const edit of fix.edits) {
+      byFile.set(edit.file, [
+        ...(byFile.get(edit.file) ?? []),
+        {
+          deletedRegion: {
+            startLine: edit.startLine,
+            startColumn: edit.startColumn,
+            endLine: edit.endLine,
+            endColumn: edit.endColumn,
+          },
+          insertedContent: { text: edit.newText },
+        },
+      ]);
+    }
+    return {
+      description: { text: fix.title },
+      artifactChanges: Array.from(byFile, ([file, replacements]) => ({
+        artifactLocation: toArtifactLocation(file),
+        replacements,
+      })),
+    };
+  });
+}
+
+function toLocation(
+  finding: Diagnostic | Suggestion,
+  diagnostic: RscXrayDiagnostic
+): SarifLocation {
+  // Findings without a location belong to a node, e.g. a route
+  if (!finding.loc) {
+    return { logicalLocations: [{ fullyQualifiedName: diagnostic.file }] };
+  }
+  const region: SarifRegion = { startLine: diagnostic.line, startColumn: diagnostic.column };
+  if (diagnostic.endLine !== undefined) {
+    region.endLine = diagnostic.endLine;
+    region.endColumn = diagnostic.endColumn;
+  }
+  return { physicalLocation: { artifactLocation: toArtifactLocation(diagnostic.file), region } };
+}
+
+/**
+ * Convert findings into a SARIF 2.1.0 log with one run. Rules referenced by the results are
+ * described from the rule catalogue, or the registry for custom rules; each result carries the
+ * baseline fingerprint of its finding.
+ */
+export function createSarifLog(
+  findings: readonly CollectedFinding[],
+  { getSourceText, registry, projectRoot, toolVersion }: CreateSarifLogOptions = {}
+): SarifLog {
+  const rules: SarifReportingDescriptor[] = [];
+  const ruleIndexes = new Map<string, number>();
+  const results: SarifResult[] = [];
+
+  for (const { finding, file } of findings) {
+    const diagnostic = toRscXrayDiagnostic(finding, { file, getSourceText, registry });
+    let ruleIndex = ruleIndexes.get(finding.rule);
+    if (ruleIndex === undefined) {
+      ruleIndex = rules.push(createRuleDescriptor(finding.rule, diagnostic, registry)) - 1;
+      ruleIndexes.set(finding.rule, ruleIndex);
+    }
+
+    const result: SarifResult = {
+      ruleId: finding.rule,
+      ruleIndex,
+      level: SARIF_LEVEL_BY_LEVEL[finding.level],
+      message: { text: finding.message },
+      locations: [toLocation(finding, diagnostic)],
+      partialFingerprints: {
+        [SARIF_FINGERPRINT_KEY]: fingerprintFinding(finding, getSourceText?.(file)),
+      },
+    };
+    if (diagnostic.relatedInformation?.length) {
+      result.relatedLocations = diagnostic.relatedInformation.map((related, index) => ({
+        id: index + 1,
+        message: { text: related.message },
+        physicalLocation: {
+          artifactLocation: toArtifactLocation(related.file),
+          region: { startLine: related.line },
+        },
+      }));
+    }
+    const fixes = toFixes(diagnostic);
+    if (fixes?.length) {
+      result.fixes = fixes;
+    }
+    results.push(result);
+  }
+
+  return {
+    $schema: SARIF_SCHEMA_URI,
+    version: SARIF_VERSION,
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'rsc-xray',
+            informationUri: 'https://github.com/rsc-xray/rsc-xray',
+            ...(toolVersion ? { version: toolVersion } : {}),
+            rules,
+          },
+        },
+        ...(projectRoot
+          ? {
+              originalUriBaseIds: {
+                [SARIF_SOURCE_ROOT]: { uri: pathToFileURL(`${projectRoot}/`).href },
+              },
+            }
+          : {}),
+        results,
+      },
+    ],
+  };
+}
+
+export interface CollectSarifLogOptions
+  extends Omit<CreateSarifLogOptions, 'getSourceText' | 'projectRoot'> {
+  /** Leave out findings, e.g. of rules a CI step ignores */
+  filter?: (finding: Diagnostic | Suggestion) => boolean;
+}
+
+/**
+ * SARIF log of every finding of a model, positioned against the project's current sources
+ */
+export async function collectSarifLog(
+  model: Model,
+  projectRoot: string,
+  { filter, ...options }: CollectSarifLogOptions = {}
+): Promise<SarifLog> {
+  const findings = collectModelFindings(model).filter(({ finding }) => !filter || filter(finding));
+  const sources = await readFindingSources(findings, projectRoot);
+  return createSarifLog(findings, {
+    ...options,
+    projectRoot,
+    getSourceText: (file) => sources.get(file),
+  });
+}
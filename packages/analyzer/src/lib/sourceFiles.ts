@@ -0,0 +1,66 @@
+import * as ts from 'typescript';
+
+/**
+ * Script kind of a file from its extension. Every parse goes through this, so all rules see the
+ * same tree and report the same positions for a file.
+ */
+export function getScriptKind(fileName: string): ts.ScriptKind {
+  if (fileName.endsWith('.tsx')) {
+    return ts.ScriptKind.TSX;
+  }
+  if (fileName.endsWith('.jsx')) {
+    return ts.ScriptKind.JSX;
+  }
+  if (/\.[mc]?ts$/.test(fileName)) {
+    return ts.ScriptKind.TS;
+  }
+  return ts.ScriptKind.JS;
+}
+
+export function parseSourceFile(fileName: string, sourceText: string): ts.SourceFile {
+  return ts.createSourceFile(
+    fileName,
+    sourceText,
+    ts.ScriptTarget.Latest,
+    true, // setParentNodes
+    getScriptKind(fileName)
+  );
+}
+
+/**
+ * Source files parsed during one analysis run, so classification, the module graph, and every
+ * rule share a single tree per file
+ */
+export interface SourceFileStore {
+  /** Parse a file, or return the tree of an earlier call with the same name and text */
+  parse(fileName: string, sourceText: string): ts.SourceFile;
+  /** Tree of a file the store knows the text of, parsed on first use */
+  get(fileName: string): ts.SourceFile | undefined;
+}
+
+/**
+ * @param sourceTexts Texts per file name, parsed only once `get` asks for them
+ */
+export function createSourceFileStore(
+  sourceTexts: ReadonlyMap<string, string> = new Map()
+): SourceFileStore {
+  const byFileName = new Map<string, ts.SourceFile>();
+
+  const store: SourceFileStore = {
+    parse(fileName, sourceText) {
+      let sourceFile = byFileName.get(fileName);
+      if (sourceFile?.text !== sourceText) {
+        sourceFile = parseSourceFile(fileName, sourceText);
+        byFileName.set(fileName, sourceFile);
+      }
+      return sourceFile;
+    },
+    get(fileName) {
+      const sourceText = sourceTexts.get(fileName);
+      return sourceText === undefined
+        ? byFileName.get(fileName)
+        : store.parse(fileName, sourceText);
+    },
+  };
+  return store;
+}
@@ -0,0 +1,169 @@
+import { resolveRuleId, type Diagnostic, type Suggestion } from '@rsc-xray/schemas';
+
+import { computeLineStarts, lineOf } from './diagnosticHelpers.js';
+
+export const UNUSED_SUPPRESSION_RULE = 'unused-suppression';
+
+export type SuppressionKind = 'next-line' | 'block' | 'file';
+
+/**
+ * One rule silenced by an inline comment. A comment listing several rules yields one
+ * suppression per rule so each can be reported as unused on its own.
+ */
+export interface Suppression {
+  kind: SuppressionKind;
+  /** Rule id, or '*' when the comment lists no rules */
+  rule: string;
+  /** First and last suppressed lines (0-based, inclusive) */
+  startLine: number;
+  endLine: number;
+  /** Offsets of the comment, used to report it when unused */
+  from: number;
+  to: number;
+  directive: string;
+  used: boolean;
+}
+
+/**
+ * Suppression comments of one file along with what is needed to place findings on lines
+ */
+export interface FileSuppressions {
+  filePath: string;
+  lineStarts: readonly number[];
+  suppressions: Suppression[];
+}
+
+export interface SuppressionResult<T> {
+  kept: T[];
+  /** Suppressed findings counted per rule id */
+  suppressed: Record<string, number>;
+}
+
+const DIRECTIVE_PATTERN =
+  /(?:\/\/|\/\*)[ \t*]*rsc-xray-(disable-next-line|disable-file|disable|enable)\b([^\n]*)/g;
+
+function parseRuleList(text: string): string[] {
+  // Everything after `--` is a free-form justification, as in ESLint
+  const rules = text
+    .replace(/\*\/.*$/, '')
+    .split('--')[0]!
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(resolveRuleId);
+  return rules.length ? rules : ['*'];
+}
+
+/**
+ * Parse `rsc-xray-disable-next-line`, `rsc-xray-disable` / `rsc-xray-enable`, and
+ * `rsc-xray-disable-file` comments. Returns undefined when the file has none.
+ */
+export function parseSuppressions(
+  sourceText: string,
+  filePath: string
+): FileSuppressions | undefined {
+  if (!sourceText.includes('rsc-xray-')) {
+    return undefined;
+  }
+
+  const lineStarts = computeLineStarts(sourceText);
+  const lastLine = lineStarts.length - 1;
+  const suppressions: Suppression[] = [];
+  const openBlocks: Suppression[] = [];
+
+  for (const match of sourceText.matchAll(DIRECTIVE_PATTERN)) {
+    const directive = `rsc-xray-${match[1]}`;
+    const from = match.index!;
+    const blockEnd = match[0].startsWith('/*') ? sourceText.indexOf('*/', from) : -1;
+    const to = blockEnd === -1 ? from + match[0].trimEnd().length : blockEnd + 2;
+    const rules = parseRuleList(match[2]!);
+    const line = lineOf(lineStarts, to);
+
+    if (match[1] === 'enable') {
+      for (let index = openBlocks.length - 1; index >= 0; index -= 1) {
+        const block = openBlocks[index]!;
+        if (rules.includes('*') || rules.includes(block.rule)) {
+          block.endLine = line;
+          openBlocks.splice(index, 1);
+        }
+      }
+      continue;
+    }
+
+    for (const rule of rules) {
+      const base = { rule, from, to, directive, used: false };
+      if (match[1] === 'disable-next-line') {
+        suppressions.push({ ...base, kind: 'next-line', startLine: line + 1, endLine: line + 1 });
+      } else if (match[1] === 'disable-file') {
+        suppressions.push({ ...base, kind: 'file', startLine: 0, endLine: lastLine });
+      } else {
+        // Blocks without a matching enable run to the end of the file
+        const block: Suppression = { ...base, kind: 'block', startLine: line, endLine: lastLine };
+        suppressions.push(block);
+        openBlocks.push(block);
+      }
+    }
+  }
+
+  return suppressions.length ? { filePath, lineStarts, suppressions } : undefined;
+}
+
+function findSuppression(
+  file: FileSuppressions,
+  finding: Diagnostic | Suggestion
+): Suppression | undefined {
+  // Findings without a location can only be silenced for the whole file
+  const line = finding.loc ? lineOf(file.lineStarts, finding.loc.range.from) : undefined;
+  return file.suppressions.find(
+    (suppression) =>
+      (suppression.rule === '*' || suppression.rule === finding.rule) &&
+      (suppression.kind === 'file' ||
+        (line !== undefined && line >= suppression.startLine && line <= suppression.endLine))
+  );
+}
+
+/**
+ * Remove findings silenced by the file's comments, marking the comments that matched as used.
+ * Unused-suppression warnings themselves are never suppressed.
+ */
+export function applySuppressions<T extends Diagnostic | Suggestion>(
+  findings: readonly T[],
+  file: FileSuppressions
+): SuppressionResult<T> {
+  const kept: T[] = [];
+  const suppressed: Record<string, number> = {};
+
+  for (const finding of findings) {
+    const suppression =
+      finding.rule === UNUSED_SUPPRESSION_RULE ? undefined : findSuppression(file, finding);
+    if (!suppression) {
+      kept.push(finding);
+      continue;
+    }
+    suppression.used = true;
+    suppressed[finding.rule] = (suppressed[finding.rule] ?? 0) + 1;
+  }
+
+  return { kept, suppressed };
+}
+
+/**
+ * Warnings for suppression comments that silenced nothing. `ranRules` limits the report to rules
+ * that were executed, so a partial run does not flag comments for rules it skipped; it holds
+ * `*` when every rule that applies to the file ran.
+ */
+export function collectUnusedSuppressions(
+  file: FileSuppressions,
+  ranRules?: ReadonlySet<string>
+): Diagnostic[] {
+  return file.suppressions
+    .filter((suppression) => !suppression.used && (!ranRules || ranRules.has(suppression.rule)))
+    .map((suppression) => ({
+      rule: UNUSED_SUPPRESSION_RULE,
+      level: 'warn',
+      message:
+        suppression.rule === '*'
+          ? `Unused ${suppression.directive} comment: no findings to suppress.`
+          : `Unused ${suppression.directive} comment: no '${suppression.rule}' findings to suppress.`,
+      loc: { file: file.filePath, range: { from: suppression.from, to: suppression.to } },
+    }));
+}
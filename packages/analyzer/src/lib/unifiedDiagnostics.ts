@@ -0,0 +1,249 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import {
+  getRuleInfo,
+  type Diagnostic,
+  type DiagnosticFix,
+  type DiagnosticLevel,
+  type DiagnosticLocation,
+  type Model,
+  type RscXrayDiagnostic,
+  type RuleCategory,
+  type Suggestion,
+} from '@rsc-xray/schemas';
+
+import { collectModelFindings, type CollectedFinding } from './baseline.js';
+import { computeLineStarts, lineOf } from './diagnosticHelpers.js';
+import type { RuleRegistry } from './ruleRegistry.js';
+
+export const DEFAULT_CODE_FRAME_CONTEXT_LINES = 2;
+
+const SEVERITY_BY_LEVEL: Record<DiagnosticLevel, RscXrayDiagnostic['severity']> = {
+  error: 'error',
+  warn: 'warning',
+  info: 'info',
+};
+
+export interface SourcePosition {
+  /** 1-based line */
+  line: number;
+  /** 1-based column */
+  column: number;
+}
+
+export interface CodeFrameOptions {
+  /** Lines shown above and below the flagged lines */
+  contextLines?: number;
+}
+
+export interface ToRscXrayDiagnosticOptions extends CodeFrameOptions {
+  /** Source of a project file; positions default to line 1 and no code frame without it */
+  getSourceText?: (file: string) => string | undefined;
+  /** File of findings without a location, e.g. the node they are attached to */
+  file?: string;
+  /** Registry of the run, for the category of custom rules */
+  registry?: RuleRegistry;
+  source?: RscXrayDiagnostic['source'];
+}
+
+/**
+ * 1-based line and column of a character offset
+ */
+export function getSourcePosition(lineStarts: readonly number[], offset: number): SourcePosition {
+  const line = lineOf(lineStarts, offset);
+  return { line: line + 1, column: offset - lineStarts[line]! + 1 };
+}
+
+/**
+ * Source excerpt around a range with the flagged lines marked by `>` and the range underlined
+ */
+export function createCodeFrame(
+  sourceText: string,
+  range: DiagnosticLocation['range'],
+  { contextLines = DEFAULT_CODE_FRAME_CONTEXT_LINES }: CodeFrameOptions = {}
+): string {
+  const lines = sourceText.split(/\r?\n/);
+  const lineStarts = computeLineStarts(sourceText);
+  const startLine = lineOf(lineStarts, range.from);
+  const endLine = lineOf(lineStarts, Math.max(range.from, range.to));
+  const first = Math.max(0, startLine - contextLines);
+  const last = Math.min(lines.length - 1, endLine + contextLines);
+  const gutterWidth = String(last + 1).length;
+  const frame: string[] = [];
+
+  for (let line = first; line <= last; line++) {
+    const text = lines[line] ?? '';
+    const flagged = line >= startLine && line <= endLine;
+    const gutter = String(line + 1).padStart(gutterWidth);
+    frame.push(`${flagged ? '>' : ' '} ${gutter} |${text ? ` ${text}` : ''}`);
+
+    if (flagged) {
+      const from = line === startLine ? range.from - lineStarts[line]! : 0;
+      const to = line === endLine ? range.to - lineStarts[line]! : text.length;
+      const marker = ' '.repeat(from) + '^'.repeat(Math.max(1, to - from));
+      frame.push(`  ${' '.repeat(gutterWidth)} | ${marker}`);
+    }
+  }
+
+  return frame.join('\n');
+}
+
+type UnifiedFix = NonNullable<RscXrayDiagnostic['fixes']>[number];
+
+/**
+ * Fix with line/column edits; undefined when an edited file's source is unknown, or when a file
+ * the fix creates already exists. Edits at 0..0 of an unknown file create it, so they start at
+ * 1:1.
+ */
+function toUnifiedFix(
+  fix: DiagnosticFix,
+  getSourceText: ToRscXrayDiagnosticOptions['getSourceText']
+): UnifiedFix | undefined {
+  const edits: UnifiedFix['edits'] = [];
+  for (const { file, range, newText, createFile } of fix.edits) {
+    const sourceText = getSourceText?.(file);
+    if (createFile && sourceText !== undefined) {
+      return undefined;
+    }
+    if (sourceText === undefined) {
+      if (range.from !== 0 || range.to !== 0) {
+        return undefined;
+      }
+      edits.push({ file, startLine: 1, startColumn: 1, endLine: 1, endColumn: 1, newText });
+      continue;
+    }
+    const lineStarts = computeLineStarts(sourceText);
+    const start = getSourcePosition(lineStarts, range.from);
+    const end = getSourcePosition(lineStarts, range.to);
+    edits.push({
+      file,
+      startLine: start.line,
+      startColumn: start.column,
+      endLine: end.line,
+      endColumn: end.column,
+      newText,
+    });
+  }
+  return { title: fix.title, kind: fix.kind, edits };
+}
+
+function resolveCategory(rule: string, registry?: RuleRegistry): RuleCategory {
+  return getRuleInfo(rule)?.category ?? registry?.get(rule)?.meta.category ?? 'best-practice';
+}
+
+/**
+ * Convert an analyzer finding into the unified format shared by editors, the CLI, and the
+ * report. Lines and columns are 1-based; `endColumn` is exclusive. Fixes editing a file whose
+ * source is unknown are dropped.
+ */
+export function toRscXrayDiagnostic(
+  finding: Diagnostic | Suggestion,
+  options: ToRscXrayDiagnosticOptions = {}
+): RscXrayDiagnostic {
+  const { getSourceText, registry, source = 'rsc-xray', contextLines } = options;
+  const file = finding.loc?.file ?? options.file ?? '';
+  const sourceText = finding.loc ? getSourceText?.(file) : undefined;
+
+  const diagnostic: RscXrayDiagnostic = {
+    file,
+    line: 1,
+    column: 1,
+    severity: SEVERITY_BY_LEVEL[finding.level],
+    rule: finding.rule,
+    category: resolveCategory(finding.rule, registry),
+    message: finding.message,
+    source,
+  };
+
+  if (finding.loc && sourceText !== undefined) {
+    const lineStarts = computeLineStarts(sourceText);
+    const start = getSourcePosition(lineStarts, finding.loc.range.from);
+    const end = getSourcePosition(lineStarts, finding.loc.range.to);
+    Object.assign(diagnostic, {
+      line: start.line,
+      column: start.column,
+      endLine: end.line,
+      endColumn: end.column,
+      codeFrame: createCodeFrame(sourceText, finding.loc.range, { contextLines }),
+    });
+  }
+
+  if (finding.related?.length) {
+    diagnostic.relatedInformation = finding.related.map(({ message, loc }) => {
+      const relatedText = getSourceText?.(loc.file);
+      return {
+        file: loc.file,
+        line:
+          relatedText === undefined
+            ? 1
+            : getSourcePosition(computeLineStarts(relatedText), loc.range.from).line,
+        message,
+      };
+    });
+  }
+
+  const fixes = finding.fixes
+    ?.map((fix) => toUnifiedFix(fix, getSourceText))
+    .filter((fix): fix is UnifiedFix => fix !== undefined);
+  if (fixes?.length) {
+    diagnostic.fixes = fixes;
+  }
+
+  return diagnostic;
+}
+
+export function toRscXrayDiagnostics(
+  findings: ReadonlyArray<Diagnostic | Suggestion>,
+  options?: ToRscXrayDiagnosticOptions
+): RscXrayDiagnostic[] {
+  return findings.map((finding) => toRscXrayDiagnostic(finding, options));
+}
+
+/**
+ * Sources of the files findings point at, keyed by path relative to the project root. Files
+ * that cannot be read are left out.
+ */
+export async function readFindingSources(
+  findings: readonly CollectedFinding[],
+  projectRoot: string
+): Promise<Map<string, string>> {
+  const files = new Set(
+    findings.flatMap(({ finding }) => [
+      ...(finding.loc ? [finding.loc.file] : []),
+      ...(finding.related ?? []).map((related) => related.loc.file),
+      ...(finding.fixes ?? []).flatMap((fix) => fix.edits.map((edit) => edit.file)),
+    ])
+  );
+
+  const sources = new Map<string, string>();
+  await Promise.all(
+    Array.from(files, async (file) => {
+      try {
+        sources.set(file, await readFile(join(projectRoot, file), 'utf8'));
+      } catch {
+        // Deleted or generated files keep the line 1 fallback
+      }
+    })
+  );
+  return sources;
+}
+
+/**
+ * Every finding of a model in the unified format, positioned against the project's current
+ * sources and sorted by file and position
+ */
+export async function collectRscXrayDiagnostics(
+  model: Model,
+  projectRoot: string,
+  options: Omit<ToRscXrayDiagnosticOptions, 'getSourceText' | 'file'> = {}
+): Promise<RscXrayDiagnostic[]> {
+  const findings = collectModelFindings(model);
+  const sources = await readFindingSources(findings, projectRoot);
+
+  return findings
+    .map(({ finding, file }) =>
+      toRscXrayDiagnostic(finding, { ...options, file, getSourceText: (path) => sources.get(path) })
+    )
+    .sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column);
+}
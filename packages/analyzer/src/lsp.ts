@@ -6,14 +6,26 @@
  */
 
 import * as ts from 'typescript';
-import type { Diagnostic, Suggestion, RouteSegmentConfig } from '@rsc-xray/schemas';
-import { analyzeSerializationBoundary } from './rules/serializationBoundary.js';
-import { detectSuspenseBoundaryIssues } from './rules/suspenseBoundary.js';
-import { detectReact19CacheOpportunities } from './rules/react19Cache.js';
-import { detectClientSizeIssues } from './rules/clientSizeThreshold.js';
-import { analyzeClientFileForForbiddenImports } from './rules/clientForbiddenImports.js';
-import { detectConfigConflicts } from './rules/routeSegmentConfig.js';
+import {
+  resolveRuleId,
+  type Diagnostic,
+  type Suggestion,
+  type RouteSegmentConfig,
+  type RscXrayConfig,
+  type RscXrayDiagnostic,
+} from '@rsc-xray/schemas';
+import { BUILT_IN_RULES } from './rules/builtin.js';
 import type { ClientComponentBundle } from './lib/clientBundles.js';
+import type { ModuleKind } from './lib/clientPropagation.js';
+import { createRuleRegistry, runRules, type RuleRegistry } from './lib/ruleRegistry.js';
+import { parseSourceFile } from './lib/sourceFiles.js';
+import {
+  applySuppressions,
+  collectUnusedSuppressions,
+  parseSuppressions,
+  UNUSED_SUPPRESSION_RULE,
+} from './lib/suppressions.js';
+import { toRscXrayDiagnostics } from './lib/unifiedDiagnostics.js';
 
 /**
  * LSP analysis request configuration
@@ -38,6 +50,12 @@ export interface LspAnalysisRequest {
   /** Specific rule IDs to run (if omitted, runs all applicable rules) */
   rules?: string[];
 
+  /** Rules to run; defaults to the built-in rules. Add custom rules with `createRuleRegistry` */
+  registry?: RuleRegistry;
+
+  /** Project config for rule levels and options */
+  config?: RscXrayConfig;
+
   /** Additional context for rules that need it */
   context?: {
     /** Client component bundles (for client-size analysis) */
@@ -51,9 +69,29 @@ export interface LspAnalysisRequest {
 
     /** Known client component paths (for serialization-boundary) */
     clientComponentPaths?: string[];
+
+    /** Effective module kind; when omitted, every rule runs and decides from the source */
+    fileKind?: ModuleKind;
   };
 }
 
+type LspScenario = NonNullable<LspAnalysisRequest['scenario']>;
+
+/**
+ * Built-in rules run for each scenario
+ */
+const SCENARIO_RULES: Record<LspScenario, readonly string[]> = {
+  'serialization-boundary': ['server-client-serialization-violation'],
+  'suspense-boundary': ['suspense-boundary-missing', 'suspense-boundary-opportunity'],
+  'react19-cache': ['react19-cache-opportunity'],
+  'client-size': ['client-component-oversized', 'duplicate-dependencies'],
+  'duplicate-dependencies': ['duplicate-dependencies'],
+  'client-forbidden-imports': ['client-forbidden-import'],
+  'route-config': ['route-segment-config-conflict'],
+};
+
+const BUILT_IN_REGISTRY = createRuleRegistry(BUILT_IN_RULES);
+
 /**
  * LSP analysis response
  */
@@ -61,32 +99,24 @@ export interface LspAnalysisResponse {
   /** Diagnostics and suggestions found */
   diagnostics: Array<Diagnostic | Suggestion>;
 
+  /** The same findings in the unified format, with 1-based positions and code frames */
+  unifiedDiagnostics: RscXrayDiagnostic[];
+
   /** Analysis duration in milliseconds */
   duration: number;
 
   /** Rules that were executed */
   rulesExecuted: string[];
+
+  /** Findings silenced by inline `rsc-xray-disable` comments, per rule id */
+  suppressed?: Record<string, number>;
 }
 
 /**
  * Create a TypeScript SourceFile from code string
  */
 export function createSourceFile(code: string, fileName: string): ts.SourceFile {
-  const scriptKind = fileName.endsWith('.tsx')
-    ? ts.ScriptKind.TSX
-    : fileName.endsWith('.jsx')
-      ? ts.ScriptKind.JSX
-      : fileName.endsWith('.ts')
-        ? ts.ScriptKind.TS
-        : ts.ScriptKind.JS;
-
-  return ts.createSourceFile(
-    fileName,
-    code,
-    ts.ScriptTarget.Latest,
-    true, // setParentNodes
-    scriptKind
-  );
+  return parseSourceFile(fileName, code);
 }
 
 /**
@@ -107,117 +137,64 @@ export function createSourceFile(code: string, fileName: string): ts.SourceFile
  */
 export function analyzeLspRequest(request: LspAnalysisRequest): LspAnalysisResponse {
   const startTime = performance.now();
-  const diagnostics: Array<Diagnostic | Suggestion> = [];
-  const rulesExecuted: string[] = [];
-
   const sourceFile = createSourceFile(request.code, request.fileName);
-  const { scenario, rules, context = {}, fileName } = request;
-
-  // Helper to check if a rule should run
-  const shouldRun = (ruleId: string, scenarioId: string): boolean => {
-    if (scenario && scenario !== scenarioId) return false;
-    if (rules && !rules.includes(ruleId)) return false;
-    return true;
-  };
-
-  // Serialization boundary analysis
-  if (shouldRun('serialization-boundary-violation', 'serialization-boundary')) {
-    try {
-      const clientComponents = context.clientComponentPaths
+  const { scenario, rules, context = {}, fileName, registry = BUILT_IN_REGISTRY, config } = request;
+  const scenarioRules = scenario ? new Set(SCENARIO_RULES[scenario]) : undefined;
+  // Former rule ids from the catalogue select the same rules
+  const ruleIds = rules?.map(resolveRuleId);
+
+  const run = runRules({
+    registry,
+    sourceFile,
+    context: {
+      fileName,
+      sourceText: request.code,
+      kind: context.fileKind,
+      clientComponents: context.clientComponentPaths
         ? new Set(context.clientComponentPaths)
-        : undefined;
-
-      const results = analyzeSerializationBoundary({
-        sourceText: request.code,
-        fileName,
-        clientComponents,
-      });
-      diagnostics.push(...results);
-      rulesExecuted.push('serialization-boundary-violation');
-    } catch (error) {
-      // Log error but continue with other rules
-      console.error('[LSP] Serialization boundary analysis failed:', error);
-    }
-  }
-
-  // Suspense boundary analysis
-  if (
-    shouldRun('suspense-boundary-missing', 'suspense-boundary') ||
-    shouldRun('suspense-boundary-opportunity', 'suspense-boundary')
-  ) {
-    try {
-      const results = detectSuspenseBoundaryIssues(sourceFile, fileName);
-      diagnostics.push(...results);
-      rulesExecuted.push('suspense-boundary-missing', 'suspense-boundary-opportunity');
-    } catch (error) {
-      console.error('[LSP] Suspense boundary analysis failed:', error);
-    }
-  }
-
-  // React 19 cache() opportunities
-  if (shouldRun('react19-cache-opportunity', 'react19-cache')) {
-    try {
-      const config = context.reactVersion ? { reactVersion: context.reactVersion } : undefined;
-      const results = detectReact19CacheOpportunities(sourceFile, fileName, config);
-      diagnostics.push(...results);
-      rulesExecuted.push('react19-cache-opportunity');
-    } catch (error) {
-      console.error('[LSP] React 19 cache analysis failed:', error);
+        : undefined,
+      clientBundles: context.clientBundles,
+      routeConfig: context.routeConfig,
+      reactVersion: context.reactVersion,
+    },
+    config,
+    // Custom rules belong to no scenario, so they only run when no scenario is requested
+    filter: (rule) =>
+      (!scenarioRules || scenarioRules.has(rule.id)) && (!ruleIds || ruleIds.includes(rule.id)),
+    // Log the failure and continue with the other rules
+    onError: (rule, error) => console.error(`[LSP] Rule ${rule.id} failed:`, error),
+  });
+  const diagnostics: Array<Diagnostic | Suggestion> = [...run.diagnostics, ...run.suggestions];
+  const { rulesExecuted } = run;
+
+  // Inline suppression comments; unused ones are only reported for rules that actually ran
+  const suppressions = parseSuppressions(request.code, fileName);
+  let suppressed: Record<string, number> | undefined;
+  if (suppressions) {
+    const result = applySuppressions(diagnostics, suppressions);
+    diagnostics.splice(0, diagnostics.length, ...result.kept);
+    if (Object.keys(result.suppressed).length) {
+      suppressed = result.suppressed;
     }
-  }
-
-  // Client component size analysis
-  if (
-    shouldRun('client-component-oversized', 'client-size') ||
-    shouldRun('duplicate-dependencies', 'client-size') ||
-    shouldRun('duplicate-dependencies', 'duplicate-dependencies')
-  ) {
-    if (context.clientBundles && context.clientBundles.length > 0) {
-      try {
-        const results = detectClientSizeIssues(context.clientBundles, {
-          sourceFile,
-        });
-        diagnostics.push(...results);
-        rulesExecuted.push('client-component-oversized', 'duplicate-dependencies');
-      } catch (error) {
-        console.error('[LSP] Client size analysis failed:', error);
-      }
+    if (!rules || rules.includes(UNUSED_SUPPRESSION_RULE)) {
+      diagnostics.push(...collectUnusedSuppressions(suppressions, new Set(rulesExecuted)));
     }
   }
 
-  // Client forbidden imports
-  if (shouldRun('client-forbidden-import', 'client-forbidden-imports')) {
-    try {
-      const results = analyzeClientFileForForbiddenImports({
-        fileName,
-        sourceText: request.code,
-      });
-      diagnostics.push(...results);
-      rulesExecuted.push('client-forbidden-import');
-    } catch (error) {
-      console.error('[LSP] Forbidden imports analysis failed:', error);
-    }
-  }
-
-  // Route segment config conflicts
-  if (shouldRun('route-segment-config-conflict', 'route-config')) {
-    if (context.routeConfig) {
-      try {
-        const results = detectConfigConflicts(sourceFile, context.routeConfig, fileName);
-        diagnostics.push(...results);
-        rulesExecuted.push('route-segment-config-conflict');
-      } catch (error) {
-        console.error('[LSP] Route config analysis failed:', error);
-      }
-    }
-  }
+  const unifiedDiagnostics = toRscXrayDiagnostics(diagnostics, {
+    file: fileName,
+    registry,
+    getSourceText: (file) => (file === fileName ? request.code : undefined),
+  });
 
   const duration = performance.now() - startTime;
 
   return {
     diagnostics,
+    unifiedDiagnostics,
     duration,
     rulesExecuted,
+    ...(suppressed ? { suppressed } : {}),
   };
 }
 
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import * as ts from 'typescript';
+
+import { applyTextEdits } from '../../lib/diagnosticHelpers';
+import { detectUnnecessaryClientDirective } from '../clientDirective';
+
+function detect(source: string) {
+  const sourceFile = ts.createSourceFile(
+    'Price.tsx',
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.TSX
+  );
+  return detectUnnecessaryClientDirective(sourceFile, 'app/components/Price.tsx');
+}
+
+describe('detectUnnecessaryClientDirective', () => {
+  it('reports a directive on a module that needs nothing from the client, with a refactor', () => {
+    const source = [
+      "'use client';",
+      '',
+      "import type { Amount } from './format';",
+      "import styles from './Price.module.css';",
+      '',
+      'export function Price({ amount }: { amount: Amount }) {',
+      '  return <span className={styles.price}>{amount.toFixed(2)}</span>;',
+      '}',
+    ].join('\n');
+
+    const [suggestion] = detect(source);
+
+    expect(suggestion).toMatchObject({
+      rule: 'client-directive-unnecessary',
+      level: 'info',
+      loc: { file: 'app/components/Price.tsx', range: { from: 0, to: 13 } },
+    });
+    expect(suggestion?.fixes?.[0]?.kind).toBe('refactor');
+    expect(applyTextEdits(source, suggestion!.fixes![0]!.edits)).toBe(
+      source.slice("'use client';\n\n".length)
+    );
+  });
+
+  it.each([
+    ['hooks', 'const [open, setOpen] = useState(false);'],
+    ['namespaced hooks', 'const value = React.useContext(Theme);'],
+    ['event handlers', 'const button = <button onClick={toggle} />;'],
+    ['browser globals', 'const width = window.innerWidth;'],
+    ['context', 'export const Theme = createContext(null);'],
+    ['class components', 'export class Chart extends React.Component {}'],
+    ['third-party packages', "import { motion } from 'framer-motion';"],
+    ['project modules', "import { Counter } from './Counter';"],
+    ['re-exported project modules', "export { Counter } from './Counter';"],
+  ])('keeps the directive of modules using %s', (_label, code) => {
+    expect(detect(`'use client';\n${code}`)).toEqual([]);
+  });
+
+  it('ignores modules without the directive and property names that look like globals', () => {
+    expect(detect('export const Price = () => <span />;')).toEqual([]);
+    expect(detect(`'use client';\nexport const size = config.window;`)).toHaveLength(1);
+  });
+});
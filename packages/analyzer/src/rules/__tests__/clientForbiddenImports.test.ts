@@ -3,6 +3,7 @@ import { join } from 'node:path';
 import { describe, expect, it } from 'vitest';
 
 import { classifyFiles } from '../../lib/classifyFiles';
+import { applyTextEdits } from '../../lib/diagnosticHelpers';
 import {
   analyzeClientFileForForbiddenImports,
   collectForbiddenImportDiagnostics,
@@ -30,6 +31,77 @@ describe('client forbidden imports', () => {
     });
   });
 
+  it('offers a refactor replacing named imports with Server Action stubs', () => {
+    const sourceText = "'use client';\nimport { readFile, stat as statFile } from 'node:fs';\n";
+    const [diagnostic] = analyzeClientFileForForbiddenImports({
+      fileName: 'app/components/Uploader.tsx',
+      sourceText,
+    });
+
+    const fix = diagnostic.fixes![0]!;
+    expect(fix.kind).toBe('refactor');
+    const [createActions, replaceImport] = fix.edits;
+    expect(createActions).toMatchObject({
+      file: 'app/components/Uploader.fs.actions.ts',
+      range: { from: 0, to: 0 },
+    });
+    expect(createActions!.newText).toBe(
+      [
+        "'use server';",
+        '',
+        '// Server Actions are public endpoints: check that the caller may run each action and',
+        '// validate its inputs before using them.',
+        '',
+        'export async function readFile() {',
+        "  // TODO: use 'node:fs' here for this action's one task",
+        '}',
+        '',
+        'export async function stat() {',
+        "  // TODO: use 'node:fs' here for this action's one task",
+        '}',
+        '',
+      ].join('\n')
+    );
+    expect(applyTextEdits(sourceText, [replaceImport!])).toBe(
+      "'use client';\nimport { readFile, stat as statFile } from './Uploader.fs.actions';\n"
+    );
+  });
+
+  it('moves every import of a module with one fix creating the actions module once', () => {
+    const sourceText =
+      "'use client';\nimport { readFile } from 'fs';\nimport { stat, readFile as read } from 'node:fs';\n";
+    const diagnostics = analyzeClientFileForForbiddenImports({
+      fileName: 'app/Uploader.tsx',
+      sourceText,
+    });
+
+    expect(diagnostics).toHaveLength(2);
+    const [fix] = diagnostics[0]!.fixes!;
+    expect(diagnostics[1]!.fixes).toEqual([fix]);
+    const creates = fix!.edits.filter((edit) => edit.createFile);
+    expect(creates).toHaveLength(1);
+    expect(creates[0]!.file).toBe('app/Uploader.fs.actions.ts');
+    expect(creates[0]!.newText.match(/'use server'/g)).toHaveLength(1);
+    expect(creates[0]!.newText.match(/export async function/g)).toHaveLength(2);
+    expect(
+      applyTextEdits(
+        sourceText,
+        fix!.edits.filter((edit) => !edit.createFile)
+      )
+    ).toBe(
+      "'use client';\nimport { readFile } from './Uploader.fs.actions';\nimport { stat, readFile as read } from './Uploader.fs.actions';\n"
+    );
+  });
+
+  it('offers no fix for default and namespace imports', () => {
+    const diagnostics = analyzeClientFileForForbiddenImports({
+      fileName: 'Client.tsx',
+      sourceText: "'use client';\nimport fs from 'fs';\nimport * as os from 'os';",
+    });
+
+    expect(diagnostics.map((diagnostic) => diagnostic.fixes)).toEqual([undefined, undefined]);
+  });
+
   it('skips server files automatically', async () => {
     const sourceText = "import fs from 'fs';\nexport const Server = () => null;";
     const diagnostics = analyzeClientFileForForbiddenImports({
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import * as ts from 'typescript';
+
+import { applyTextEdits } from '../../lib/diagnosticHelpers';
+import { detectSequentialAwaits } from '../dataFetching';
+
+function createSourceFile(source: string): ts.SourceFile {
+  return ts.createSourceFile('page.tsx', source, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+}
+
+function fixSource(lines: string[]): string | undefined {
+  const source = lines.join('\n');
+  const [suggestion] = detectSequentialAwaits(createSourceFile(source), 'app/page.tsx');
+  const fix = suggestion?.fixes?.[0];
+  return fix && applyTextEdits(source, fix.edits);
+}
+
+describe('detectSequentialAwaits fixes', () => {
+  it('combines consecutive independent awaits into Promise.all', () => {
+    const source = [
+      'export default async function Page() {',
+      '  const user = await getUser();',
+      '  const [stats] = await getStats();',
+      '  const { posts } = await getFeed();',
+      '  return <Feed user={user} stats={stats} posts={posts} />;',
+      '}',
+    ].join('\n');
+
+    const [suggestion] = detectSequentialAwaits(createSourceFile(source), 'app/page.tsx');
+
+    expect(suggestion?.fixes?.[0]).toMatchObject({
+      title: 'Run 3 awaits in parallel with Promise.all',
+      kind: 'refactor',
+    });
+    expect(applyTextEdits(source, suggestion!.fixes![0]!.edits).split('\n')[1]).toBe(
+      '  const [user, [stats], { posts }] = await Promise.all([getUser(), getStats(), getFeed()]);'
+    );
+  });
+
+  it('stops at an await that reads an earlier result', () => {
+    expect(
+      fixSource([
+        'async function load() {',
+        '  const a = await getA();',
+        '  const b = await getB();',
+        '  const c = await getC(a);',
+        '}',
+      ])
+    ).toBe(
+      [
+        'async function load() {',
+        '  const [a, b] = await Promise.all([getA(), getB()]);',
+        '  const c = await getC(a);',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  it('splits long calls over several lines', () => {
+    expect(
+      fixSource([
+        'async function load() {',
+        "  const products = await fetchProducts({ category: 'shoes', sort: 'price' });",
+        "  const reviews = await fetchReviews({ category: 'shoes', limit: 20 });",
+        '}',
+      ])
+    ).toBe(
+      [
+        'async function load() {',
+        '  const [products, reviews] = await Promise.all([',
+        "    fetchProducts({ category: 'shoes', sort: 'price' }),",
+        "    fetchReviews({ category: 'shoes', limit: 20 }),",
+        '  ]);',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  it('keeps awaits run for their side effects in order', () => {
+    expect(
+      fixSource([
+        'async function submit() {',
+        '  await db.insert(order);',
+        '  await sendEmail(order);',
+        '}',
+      ])
+    ).toBeUndefined();
+    expect(
+      fixSource([
+        'async function submit() {',
+        '  const a = await getA();',
+        '  await save(order);',
+        '  const b = await getB();',
+        '}',
+      ])
+    ).toBeUndefined();
+  });
+
+  it('offers no fix for dependent, annotated, or non-consecutive awaits', () => {
+    expect(
+      fixSource([
+        'async function load() {',
+        '  const a = await getA();',
+        '  const b = await getB(a);',
+        '}',
+      ])
+    ).toBeUndefined();
+    expect(
+      fixSource([
+        'async function load() {',
+        '  const a: A = await getA();',
+        '  const b = await getB();',
+        '}',
+      ])
+    ).toBeUndefined();
+    expect(
+      fixSource([
+        'async function load() {',
+        '  const a = await getA();',
+        '  log(a);',
+        '  const b = await getB();',
+        '}',
+      ])
+    ).toBeUndefined();
+  });
+});
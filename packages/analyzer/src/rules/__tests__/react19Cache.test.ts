@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import * as ts from 'typescript';
 
+import { applyTextEdits } from '../../lib/diagnosticHelpers';
 import { detectReact19CacheOpportunities } from '../react19Cache';
 
 function createSourceFile(source: string): ts.SourceFile {
@@ -57,6 +58,108 @@ describe('React 19 cache() detector', () => {
       expect(suggestions).toHaveLength(1);
       expect(suggestions[0]?.message).toContain('WeakMap');
     });
+
+    it('offers a refactor wrapping the functions that read the Map in cache()', () => {
+      const source = [
+        "import { db } from './db';",
+        '',
+        'const userCache = new Map();',
+        '',
+        'export async function getUser(id: string) {',
+        '  if (!userCache.has(id)) userCache.set(id, db.user(id));',
+        '  return userCache.get(id);',
+        '}',
+        '',
+        'const getTeam = async (id: string) => userCache.get(id) ?? db.team(id);',
+        '',
+        'export function unrelated() {}',
+      ].join('\n');
+
+      const [suggestion] = detectReact19CacheOpportunities(
+        createSourceFile(source),
+        'lib/users.ts'
+      );
+
+      expect(suggestion?.fixes).toHaveLength(1);
+      const fix = suggestion!.fixes![0]!;
+      expect(fix).toMatchObject({
+        title: 'Wrap getUser, getTeam in React cache()',
+        kind: 'refactor',
+      });
+      expect(applyTextEdits(source, fix.edits)).toBe(
+        [
+          "import { db } from './db';",
+          "import { cache } from 'react';",
+          '',
+          'const userCache = new Map();',
+          '',
+          'export const getUser = cache(async function getUser(id: string) {',
+          '  if (!userCache.has(id)) userCache.set(id, db.user(id));',
+          '  return userCache.get(id);',
+          '});',
+          '',
+          'const getTeam = cache(async (id: string) => userCache.get(id) ?? db.team(id));',
+          '',
+          'export function unrelated() {}',
+        ].join('\n')
+      );
+    });
+
+    it('imports cache() under another name when the Map is named cache', () => {
+      const source = [
+        'const cache = new Map();',
+        '',
+        'export function getPrice(id: string) {',
+        '  return cache.get(id) ?? 0;',
+        '}',
+        '',
+        'export function setPrice(id: string, price: number) {',
+        '  cache.set(id, price);',
+        '}',
+        '',
+        'export function resetPrices() {',
+        '  cache.clear();',
+        '}',
+      ].join('\n');
+
+      const [suggestion] = detectReact19CacheOpportunities(
+        createSourceFile(source),
+        'lib/prices.ts'
+      );
+
+      const fix = suggestion!.fixes![0]!;
+      expect(fix.title).toBe('Wrap getPrice in React cache()');
+      expect(applyTextEdits(source, fix.edits)).toBe(
+        [
+          "import { cache as reactCache } from 'react';",
+          '',
+          'const cache = new Map();',
+          '',
+          'export const getPrice = reactCache(function getPrice(id: string) {',
+          '  return cache.get(id) ?? 0;',
+          '});',
+          '',
+          'export function setPrice(id: string, price: number) {',
+          '  cache.set(id, price);',
+          '}',
+          '',
+          'export function resetPrices() {',
+          '  cache.clear();',
+          '}',
+        ].join('\n')
+      );
+    });
+
+    it('offers no fix when no top-level function reads the Map', () => {
+      const source = `export function build() {\n  const seen = new Map();\n  return seen;\n}`;
+
+      const [suggestion] = detectReact19CacheOpportunities(
+        createSourceFile(source),
+        'lib/build.ts'
+      );
+
+      expect(suggestion?.fixes).toBeUndefined();
+    });
   });
 
   describe('closure-based caching patterns', () => {
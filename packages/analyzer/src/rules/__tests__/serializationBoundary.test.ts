@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { analyzeSerializationBoundary } from '../serializationBoundary';
+import { applyTextEdits } from '../../lib/diagnosticHelpers';
+import { analyzeSerializationBoundary, collectServerActionProps } from '../serializationBoundary';
 
 describe('Serialization Boundary Analyzer', () => {
   const clientComponents = new Set(['ClientButton', 'ClientCard', 'ClientComponent']);
@@ -118,6 +119,43 @@ describe('Serialization Boundary Analyzer', () => {
       expect(diagnostics).toHaveLength(1);
       expect(diagnostics[0].message).toContain('Date instance');
     });
+
+    it('offers a refactor passing the Date as an ISO string', () => {
+      const fixSource = (expression: string) => {
+        const sourceText = `const updated = new Date;\nexport default () => <ClientCard at={${expression}} />;`;
+        const [diagnostic] = analyzeSerializationBoundary({
+          fileName: 'test.tsx',
+          sourceText,
+          clientComponents,
+        });
+        expect(diagnostic.fixes).toHaveLength(1);
+        expect(diagnostic.fixes![0]).toMatchObject({
+          title: "Pass 'at' as an ISO string",
+          kind: 'refactor',
+        });
+        return applyTextEdits(sourceText, diagnostic.fixes![0].edits).split('\n')[1];
+      };
+
+      expect(fixSource('new Date()')).toBe(
+        'export default () => <ClientCard at={new Date().toISOString()} />;'
+      );
+      expect(fixSource('new Date')).toBe(
+        'export default () => <ClientCard at={(new Date).toISOString()} />;'
+      );
+      expect(fixSource('updated')).toBe(
+        'export default () => <ClientCard at={updated.toISOString()} />;'
+      );
+    });
+
+    it('offers no fix for other non-serializable props', () => {
+      const [diagnostic] = analyzeSerializationBoundary({
+        fileName: 'test.tsx',
+        sourceText: `export default () => <ClientCard items={new Map()} />;`,
+        clientComponents,
+      });
+
+      expect(diagnostic.fixes).toBeUndefined();
+    });
   });
 
   describe('Map and Set Instances', () => {
@@ -932,4 +970,72 @@ describe('Serialization Boundary Analyzer', () => {
       expect(diagnostics).toHaveLength(0);
     });
   });
+
+  describe('Server Actions', () => {
+    it('allows inline and locally declared server actions', () => {
+      const source = `
+        export default function ServerComponent() {
+          async function save() {
+            'use server';
+          }
+          const remove = async () => {
+            'use server';
+          };
+          return (
+            <ClientCard
+              onSave={save}
+              onRemove={remove.bind(null, 1)}
+              onArchive={async () => {
+                'use server';
+              }}
+            />
+          );
+        }
+      `;
+
+      const diagnostics = analyzeSerializationBoundary({
+        fileName: 'test.tsx',
+        sourceText: source,
+        clientComponents,
+      });
+
+      expect(diagnostics).toHaveLength(0);
+    });
+
+    it('collects server action props including imported references', () => {
+      const source = `
+        import { createTodo } from './actions';
+        import * as actions from './more-actions';
+
+        export default function ServerComponent() {
+          async function save() {
+            'use server';
+          }
+          const format = () => 'x';
+          return (
+            <>
+              <ClientButton onClick={createTodo} />
+              <ClientCard onSave={save} onDelete={actions.deleteTodo} onFormat={format} />
+            </>
+          );
+        }
+      `;
+
+      const options = {
+        fileName: 'test.tsx',
+        sourceText: source,
+        clientComponents,
+        serverActions: new Set(['createTodo', 'actions']),
+      };
+
+      expect(collectServerActionProps(options)).toEqual([
+        { component: 'ClientButton', prop: 'onClick', action: 'createTodo' },
+        { component: 'ClientCard', prop: 'onSave', action: 'save' },
+        { component: 'ClientCard', prop: 'onDelete', action: 'actions.deleteTodo' },
+      ]);
+      expect(analyzeSerializationBoundary(options).map((item) => item.message)).toEqual([
+        expect.stringContaining("'onFormat'"),
+      ]);
+    });
+  });
 });
@@ -96,6 +96,22 @@ describe('Suspense Boundary Analyzer', () => {
       expect(suggestions).toHaveLength(0);
     });
 
+    it('passes when a segment loading file already wraps the component', () => {
+      const source = `
+        export default async function Page() {
+          const data = await fetch('/api/data').then(r => r.json());
+          return <div>{data.title}</div>;
+        }
+      `;
+
+      const sourceFile = createSourceFile(source);
+      const suggestions = detectSuspenseBoundaryIssues(sourceFile, 'app/dashboard/page.tsx', {
+        insideLoadingBoundary: true,
+      });
+
+      expect(suggestions).toHaveLength(0);
+    });
+
     it('passes with self-closing Suspense', () => {
       const source = `
         export default async function ServerComponent() {
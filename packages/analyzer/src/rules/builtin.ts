@@ -0,0 +1,195 @@
+import type * as ts from 'typescript';
+
+import { getRuleInfo, type Diagnostic, type Suggestion } from '@rsc-xray/schemas';
+
+import { classifyComponent } from '../lib/classify.js';
+import type { Rule, RuleContext, RuleMeta } from '../lib/ruleRegistry.js';
+import {
+  analyzeClientFileForForbiddenImports,
+  DEFAULT_FORBIDDEN_MODULES,
+} from './clientForbiddenImports.js';
+import { detectUnnecessaryClientDirective } from './clientDirective.js';
+import { detectClientSizeIssues } from './clientSizeThreshold.js';
+import { detectClientFetchCalls, detectSequentialAwaits } from './dataFetching.js';
+import { detectReact19CacheOpportunities } from './react19Cache.js';
+import { detectConfigConflicts } from './routeSegmentConfig.js';
+import { analyzeSerializationBoundary } from './serializationBoundary.js';
+import { detectSuspenseBoundaryIssues } from './suspenseBoundary.js';
+
+function readStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : [];
+}
+
+/**
+ * Metadata of a built-in rule from the shared rule catalogue
+ */
+function catalogMeta(id: string): RuleMeta {
+  const info = getRuleInfo(id);
+  if (!info) {
+    throw new Error(`Rule '${id}' is missing from the rule catalogue`);
+  }
+  return { type: info.type, description: info.description, category: info.category };
+}
+
+const suspenseIssuesByFile = new WeakMap<
+  ts.SourceFile,
+  { key: string; suggestions: Suggestion[] }
+>();
+
+/**
+ * Suspense boundary findings of a file, detected once for both suspense rules
+ */
+function getSuspenseBoundaryIssues(sourceFile: ts.SourceFile, context: RuleContext): Suggestion[] {
+  const key = `${context.fileName}:${Boolean(context.insideLoadingBoundary)}`;
+  const cached = suspenseIssuesByFile.get(sourceFile);
+  if (cached?.key === key) {
+    return cached.suggestions;
+  }
+  const suggestions = detectSuspenseBoundaryIssues(sourceFile, context.fileName, {
+    insideLoadingBoundary: context.insideLoadingBoundary,
+  });
+  suspenseIssuesByFile.set(sourceFile, { key, suggestions });
+  return suggestions;
+}
+
+const normalizePath = (filePath: string) => filePath.replace(/^\.\//, '');
+
+/**
+ * Fallback for callers that do not know the module kind (e.g. editors): the file's own directive
+ */
+function hasClientDirective(sourceFile: ts.SourceFile, context: RuleContext): boolean {
+  const { fileName, sourceText } = context;
+  return classifyComponent({ fileName, sourceText, sourceFile }).kind === 'client';
+}
+
+/**
+ * Size findings of the run's client bundles that belong to the current file
+ */
+function detectClientSizeIssuesForFile(
+  sourceFile: ts.SourceFile,
+  context: RuleContext,
+  rule: string
+): Diagnostic[] {
+  const thresholdBytes =
+    typeof context.options.thresholdBytes === 'number' ? context.options.thresholdBytes : undefined;
+  return detectClientSizeIssues(context.clientBundles, { thresholdBytes, sourceFile }).filter(
+    (issue) =>
+      issue.rule === rule &&
+      normalizePath(issue.loc?.file ?? '') === normalizePath(context.fileName)
+  );
+}
+
+export const BUILT_IN_RULES: readonly Rule[] = [
+  {
+    id: 'client-forbidden-import',
+    meta: catalogMeta('client-forbidden-import'),
+    appliesTo: ['client', 'shared'],
+    check: (sourceFile, context) =>
+      analyzeClientFileForForbiddenImports({
+        fileName: context.fileName,
+        sourceText: context.sourceText,
+        forbiddenModules: [
+          ...DEFAULT_FORBIDDEN_MODULES,
+          ...readStringList(context.options.modules),
+        ],
+        // Modules imported by client modules are bundled for the client without a directive
+        assumeClient: context.kind !== undefined,
+        sourceFile,
+      }),
+  },
+  {
+    id: 'server-client-serialization-violation',
+    meta: catalogMeta('server-client-serialization-violation'),
+    appliesTo: ['server', 'shared'],
+    check: (sourceFile, context) =>
+      // Pages Router modules hydrate as a whole, so they have no server/client prop boundary
+      context.router === 'pages'
+        ? []
+        : analyzeSerializationBoundary({
+            fileName: context.fileName,
+            sourceText: context.sourceText,
+            clientComponents: context.clientComponents,
+            serverActions: context.serverActions,
+            sourceFile,
+          }),
+  },
+  {
+    id: 'client-hoist-fetch',
+    meta: catalogMeta('client-hoist-fetch'),
+    appliesTo: ['client', 'shared'],
+    check: (sourceFile, context) =>
+      context.kind || hasClientDirective(sourceFile, context)
+        ? detectClientFetchCalls(sourceFile, context.fileName)
+        : [],
+  },
+  {
+    id: 'server-promise-all',
+    meta: catalogMeta('server-promise-all'),
+    appliesTo: ['server', 'shared'],
+    check: (sourceFile, context) =>
+      context.kind || !hasClientDirective(sourceFile, context)
+        ? detectSequentialAwaits(sourceFile, context.fileName)
+        : [],
+  },
+  {
+    id: 'suspense-boundary-missing',
+    meta: catalogMeta('suspense-boundary-missing'),
+    appliesTo: ['server', 'shared'],
+    check: (sourceFile, context) =>
+      getSuspenseBoundaryIssues(sourceFile, context).filter(
+        (suggestion) => suggestion.rule === 'suspense-boundary-missing'
+      ),
+  },
+  {
+    id: 'suspense-boundary-opportunity',
+    meta: catalogMeta('suspense-boundary-opportunity'),
+    appliesTo: ['server', 'shared'],
+    check: (sourceFile, context) =>
+      getSuspenseBoundaryIssues(sourceFile, context).filter(
+        (suggestion) => suggestion.rule === 'suspense-boundary-opportunity'
+      ),
+  },
+  {
+    id: 'react19-cache-opportunity',
+    meta: catalogMeta('react19-cache-opportunity'),
+    appliesTo: ['server', 'shared'],
+    check: (sourceFile, context) =>
+      detectReact19CacheOpportunities(
+        sourceFile,
+        context.fileName,
+        context.reactVersion ? { reactVersion: context.reactVersion } : undefined
+      ),
+  },
+  {
+    id: 'client-component-oversized',
+    meta: catalogMeta('client-component-oversized'),
+    appliesTo: ['client', 'shared'],
+    requires: ['clientBundles'],
+    check: (sourceFile, context) =>
+      detectClientSizeIssuesForFile(sourceFile, context, 'client-component-oversized'),
+  },
+  {
+    id: 'client-directive-unnecessary',
+    meta: catalogMeta('client-directive-unnecessary'),
+    appliesTo: ['client', 'shared'],
+    check: (sourceFile, context) => detectUnnecessaryClientDirective(sourceFile, context.fileName),
+  },
+  {
+    id: 'duplicate-dependencies',
+    meta: catalogMeta('duplicate-dependencies'),
+    appliesTo: ['client', 'shared'],
+    requires: ['clientBundles'],
+    check: (sourceFile, context) =>
+      detectClientSizeIssuesForFile(sourceFile, context, 'duplicate-dependencies'),
+  },
+  {
+    id: 'route-segment-config-conflict',
+    meta: catalogMeta('route-segment-config-conflict'),
+    appliesTo: ['server', 'shared', 'client'],
+    requires: ['routeConfig'],
+    check: (sourceFile, context) =>
+      detectConfigConflicts(sourceFile, context.routeConfig!, context.fileName),
+  },
+];
@@ -0,0 +1,134 @@
+import * as ts from 'typescript';
+
+import type { Suggestion } from '@rsc-xray/schemas';
+import { createRemoveStatementEdit, createSuggestionFromNode } from '../lib/diagnosticHelpers.js';
+
+export const UNNECESSARY_CLIENT_DIRECTIVE_RULE = 'client-directive-unnecessary';
+
+/** Globals that only exist in the browser */
+const BROWSER_GLOBALS = new Set([
+  'window',
+  'document',
+  'localStorage',
+  'sessionStorage',
+  'navigator',
+  'history',
+  'matchMedia',
+  'requestAnimationFrame',
+  'IntersectionObserver',
+  'ResizeObserver',
+  'MutationObserver',
+  'alert',
+]);
+
+/** Packages whose exports also work in server components */
+const SERVER_SAFE_PACKAGES = /^(react|next\/(link|image|navigation|headers|font\/.*))$/;
+
+/** Stylesheets render the same from server and client modules */
+const STYLESHEET = /\.(css|scss|sass|less)$/;
+
+const CLIENT_BASE_CLASSES = new Set(['Component', 'PureComponent']);
+
+function findClientDirective(sourceFile: ts.SourceFile): ts.ExpressionStatement | undefined {
+  for (const statement of sourceFile.statements) {
+    if (!ts.isExpressionStatement(statement) || !ts.isStringLiteral(statement.expression)) {
+      return undefined;
+    }
+    if (statement.expression.text === 'use client') {
+      return statement;
+    }
+  }
+  return undefined;
+}
+
+function getCalleeName(expression: ts.Expression): string | undefined {
+  if (ts.isIdentifier(expression)) {
+    return expression.text;
+  }
+  if (ts.isPropertyAccessExpression(expression)) {
+    return expression.name.text;
+  }
+  return undefined;
+}
+
+function isPropertyName(node: ts.Identifier): boolean {
+  const { parent } = node;
+  return (
+    (ts.isPropertyAccessExpression(parent) && parent.name === node) ||
+    (ts.isPropertyAssignment(parent) && parent.name === node) ||
+    (ts.isJsxAttribute(parent) && parent.name === node)
+  );
+}
+
+/**
+ * Whether the module uses anything that needs the client: hooks, event handlers, browser
+ * globals, context, class components, or imports of project modules and packages that may rely
+ * on this directive to run in the browser
+ */
+function needsClient(sourceFile: ts.SourceFile): boolean {
+  let found = false;
+
+  const visit = (node: ts.Node) => {
+    if (found) {
+      return;
+    }
+    if (
+      (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) &&
+      node.moduleSpecifier &&
+      ts.isStringLiteral(node.moduleSpecifier) &&
+      !(ts.isImportDeclaration(node) ? node.importClause?.isTypeOnly : node.isTypeOnly)
+    ) {
+      // Project modules without a directive of their own are client modules only through this one
+      const specifier = node.moduleSpecifier.text;
+      found = !SERVER_SAFE_PACKAGES.test(specifier) && !STYLESHEET.test(specifier);
+    } else if (ts.isCallExpression(node)) {
+      const name = getCalleeName(node.expression);
+      found = name !== undefined && (/^use([A-Z]|$)/.test(name) || name === 'createContext');
+    } else if (ts.isJsxAttribute(node)) {
+      found = /^on[A-Z]/.test(node.name.getText(sourceFile));
+    } else if (ts.isIdentifier(node)) {
+      found = BROWSER_GLOBALS.has(node.text) && !isPropertyName(node);
+    } else if (ts.isHeritageClause(node)) {
+      found = node.types.some((type) => {
+        const name = getCalleeName(type.expression);
+        return name !== undefined && CLIENT_BASE_CLASSES.has(name);
+      });
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  ts.forEachChild(sourceFile, visit);
+  return found;
+}
+
+/**
+ * A `'use client'` directive in a module that needs nothing from the client and imports no
+ * other project module. Without it the module renders on the server and ships no JavaScript.
+ */
+export function detectUnnecessaryClientDirective(
+  sourceFile: ts.SourceFile,
+  filePath: string
+): Suggestion[] {
+  const directive = findClientDirective(sourceFile);
+  if (!directive || needsClient(sourceFile)) {
+    return [];
+  }
+
+  const suggestion = createSuggestionFromNode(
+    sourceFile,
+    directive,
+    filePath,
+    UNNECESSARY_CLIENT_DIRECTIVE_RULE,
+    "This module uses no hooks, event handlers, or browser APIs. Remove 'use client' to render it on the server and ship less JavaScript.",
+    'info'
+  );
+  suggestion.fixes = [
+    {
+      title: "Remove the 'use client' directive",
+      // Moves the module and what it renders to the server, so never applied by default
+      kind: 'refactor',
+      edits: [createRemoveStatementEdit(sourceFile, directive, filePath)],
+    },
+  ];
+  return [suggestion];
+}
@@ -1,17 +1,27 @@
+import { posix } from 'node:path';
+
 import * as ts from 'typescript';
-import type { Diagnostic } from '@rsc-xray/schemas';
-import { createDiagnosticFromNode } from '../lib/diagnosticHelpers.js';
+import type { Diagnostic, DiagnosticFix } from '@rsc-xray/schemas';
+import {
+  createDiagnosticFromNode,
+  createReplaceNodeEdit,
+  createTextEdit,
+} from '../lib/diagnosticHelpers.js';
 
 import { classifyComponent } from '../lib/classify.js';
 import type { ComponentKind } from '../lib/classify.js';
+import { parseSourceFile } from '../lib/sourceFiles.js';
 
 export interface AnalyzeClientSourceOptions {
   fileName: string;
   sourceText: string;
   forbiddenModules?: readonly string[];
+  /** Tree of `sourceText`, e.g. the one the rule registry passes to rules; parsed when omitted */
+  sourceFile?: ts.SourceFile;
 }
 
-const DEFAULT_MODULES = new Set([
+/** Node built-ins that cannot run in the browser; config `modules` options extend this list */
+export const DEFAULT_FORBIDDEN_MODULES: readonly string[] = [
   'fs',
   'path',
   'child_process',
@@ -22,7 +32,9 @@ const DEFAULT_MODULES = new Set([
   'https',
   'worker_threads',
   'perf_hooks',
-]);
+];
+
+const DEFAULT_MODULES = new Set(DEFAULT_FORBIDDEN_MODULES);
 
 function resolveModuleSet(forbiddenModules?: readonly string[]): Set<string> {
   return forbiddenModules ? new Set(forbiddenModules) : DEFAULT_MODULES;
@@ -32,6 +44,13 @@ function normalizeModule(moduleName: string): string {
   return moduleName.startsWith('node:') ? moduleName.slice(5) : moduleName;
 }
 
+/** e.g. `fs` for 'node:fs', or `acme-db` for '@acme/db' */
+function getModuleSlug(moduleName: string): string {
+  return normalizeModule(moduleName)
+    .replace(/[^\w-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
 function isForbiddenModule(moduleName: string, modules: Set<string>): boolean {
   return modules.has(moduleName) || modules.has(normalizeModule(moduleName));
 }
@@ -57,26 +76,120 @@ function createDiagnostic(
   );
 }
 
+function getNamedImports(declaration: ts.ImportDeclaration): ts.ImportSpecifier[] {
+  const clause = declaration.importClause;
+  const bindings = clause?.namedBindings;
+  if (!clause || clause.isTypeOnly || clause.name || !bindings || !ts.isNamedImports(bindings)) {
+    return [];
+  }
+  return bindings.elements.filter((element) => !element.isTypeOnly);
+}
+
+/**
+ * Point the named imports of a Node.js module at a new `'use server'` module next to the client
+ * file, which exports an empty async Server Action per import for the developer to fill in.
+ * Server Actions are public endpoints, so the stubs take no arguments and never forward them to
+ * the module. Every import of the module in the file moves at once, so the new module is created
+ * by a single edit. Callers now receive promises, so this is a refactor rather than a quick fix.
+ */
+function createServerActionFix(
+  sourceFile: ts.SourceFile,
+  declarations: readonly ts.ImportDeclaration[],
+  moduleName: string
+): DiagnosticFix | undefined {
+  const exported = new Set<string>();
+  for (const declaration of declarations) {
+    for (const element of getNamedImports(declaration)) {
+      exported.add((element.propertyName ?? element.name).getText(sourceFile));
+    }
+  }
+  if (!exported.size) {
+    return undefined;
+  }
+
+  const fileName = sourceFile.fileName;
+  const isTypeScript = /\.tsx?$/.test(fileName);
+  const extension = posix.extname(fileName);
+  const baseName = posix.basename(fileName, extension);
+  const actionsModule = `${baseName}.${getModuleSlug(moduleName)}.actions`;
+  const actionsFile = posix.join(
+    posix.dirname(fileName),
+    `${actionsModule}${isTypeScript ? '.ts' : '.js'}`
+  );
+
+  const actions = [...exported].map(
+    (name) =>
+      `export async function ${name}() {\n  // TODO: use '${moduleName}' here for this action's one task\n}\n`
+  );
+  const actionsText = [
+    "'use server';",
+    '',
+    '// Server Actions are public endpoints: check that the caller may run each action and',
+    '// validate its inputs before using them.',
+    '',
+    actions.join('\n'),
+  ].join('\n');
+
+  return {
+    title: `Replace the '${moduleName}' import with Server Action stubs in ${actionsFile}`,
+    kind: 'refactor',
+    edits: [
+      { ...createTextEdit(actionsFile, 0, 0, actionsText), createFile: true },
+      ...declarations
+        .filter((declaration) => getNamedImports(declaration).length)
+        .map((declaration) =>
+          createReplaceNodeEdit(
+            sourceFile,
+            declaration.moduleSpecifier,
+            fileName,
+            `'./${actionsModule}'`
+          )
+        ),
+    ],
+  };
+}
+
 function analyzeSource({
   fileName,
   sourceText,
   forbiddenModules,
+  sourceFile = parseSourceFile(fileName, sourceText),
 }: AnalyzeClientSourceOptions): Diagnostic[] {
-  const sourceFile = ts.createSourceFile(
-    fileName,
-    sourceText,
-    ts.ScriptTarget.Latest,
-    true,
-    ts.ScriptKind.TSX
-  );
   const diagnostics: Diagnostic[] = [];
   const modules = resolveModuleSet(forbiddenModules);
 
+  // Imports of 'fs' and 'node:fs' share one actions module
+  const importsBySlug = new Map<string, ts.ImportDeclaration[]>();
+  for (const statement of sourceFile.statements) {
+    if (
+      ts.isImportDeclaration(statement) &&
+      ts.isStringLiteral(statement.moduleSpecifier) &&
+      isForbiddenModule(statement.moduleSpecifier.text, modules)
+    ) {
+      const slug = getModuleSlug(statement.moduleSpecifier.text);
+      importsBySlug.set(slug, [...(importsBySlug.get(slug) ?? []), statement]);
+    }
+  }
+  const fixes = new Map<string, DiagnosticFix | undefined>();
+  const getFix = (declaration: ts.ImportDeclaration, moduleName: string) => {
+    const slug = getModuleSlug(moduleName);
+    if (!fixes.has(slug)) {
+      const declarations = importsBySlug.get(slug) ?? [declaration];
+      fixes.set(slug, createServerActionFix(sourceFile, declarations, moduleName));
+    }
+    return fixes.get(slug);
+  };
+
   const visit = (node: ts.Node) => {
     if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
       const moduleName = node.moduleSpecifier.text;
       if (isForbiddenModule(moduleName, modules)) {
-        diagnostics.push(createDiagnostic(sourceFile, node.moduleSpecifier, moduleName));
+        const diagnostic = createDiagnostic(sourceFile, node.moduleSpecifier, moduleName);
+        const fix = getNamedImports(node).length ? getFix(node, moduleName) : undefined;
+        if (fix) {
+          diagnostic.fixes = [fix];
+        }
+        diagnostics.push(diagnostic);
       }
     }
 
@@ -104,18 +217,26 @@ export interface AnalyzeClientFileOptions {
   fileName: string;
   sourceText: string;
   forbiddenModules?: readonly string[];
+  /** Tree of `sourceText`; parsed when omitted */
+  sourceFile?: ts.SourceFile;
+  /**
+   * Skip the 'use client' directive check. Used for modules that are bundled for the client
+   * because a client module imports them.
+   */
+  assumeClient?: boolean;
 }
 
 export function analyzeClientFileForForbiddenImports({
   fileName,
   sourceText,
   forbiddenModules,
+  assumeClient = false,
+  sourceFile = parseSourceFile(fileName, sourceText),
 }: AnalyzeClientFileOptions): Diagnostic[] {
-  const classification = classifyComponent({ fileName, sourceText });
-  if (classification.kind !== 'client') {
+  if (!assumeClient && classifyComponent({ fileName, sourceText, sourceFile }).kind !== 'client') {
     return [];
   }
-  return analyzeSource({ fileName, sourceText, forbiddenModules });
+  return analyzeSource({ fileName, sourceText, forbiddenModules, sourceFile });
 }
 
 export interface CollectForbiddenImportsOptions {
@@ -7,10 +7,12 @@ import { createLocationFromNode, createLocationFromOffsets } from '../lib/diagno
 const OVERSIZED_RULE = 'client-component-oversized';
 const DUPLICATE_DEPS_RULE = 'duplicate-dependencies';
 
-const DEFAULT_THRESHOLD_BYTES = 51200; // 50KB
+export const DEFAULT_THRESHOLD_BYTES = 51200; // 50KB
 
 export interface SizeThresholdConfig {
   thresholdBytes?: number;
+  /** Per-file threshold, e.g. from config overrides; falls back to `thresholdBytes` */
+  resolveThresholdBytes?: (filePath: string) => number | undefined;
   /** Optional source file for accurate diagnostic positioning */
   sourceFile?: ts.SourceFile;
 }
@@ -112,11 +114,12 @@ export function detectClientSizeIssues(
   }
 
   const diagnostics: Diagnostic[] = [];
-  const threshold = config.thresholdBytes ?? DEFAULT_THRESHOLD_BYTES;
+  const defaultThreshold = config.thresholdBytes ?? DEFAULT_THRESHOLD_BYTES;
   const { sourceFile } = config;
 
   // Check for oversized components
   for (const bundle of bundles) {
+    const threshold = config.resolveThresholdBytes?.(bundle.filePath) ?? defaultThreshold;
     if (bundle.totalBytes > threshold) {
       const overage = bundle.totalBytes - threshold;
       const percentage = ((overage / threshold) * 100).toFixed(0);
@@ -152,15 +155,21 @@ export function detectClientSizeIssues(
     if (chunks.size >= 3) {
       // Only report when multiple chunks are duplicated
       for (const component of components) {
-        diagnostics.push(
-          toDiagnostic(
+        diagnostics.push({
+          ...toDiagnostic(
             component,
             DUPLICATE_DEPS_RULE,
             `Component shares ${chunks.size} dependencies with ${components.length - 1} other component(s). Consider extracting shared code to a common module or using dynamic imports.`,
             'warn',
             sourceFile
-          )
-        );
+          ),
+          related: components
+            .filter((other) => other !== component)
+            .map((other) => ({
+              message: `Shares ${chunks.size} chunks with this component`,
+              loc: createLocationFromOffsets(other, 0, 0),
+            })),
+        });
       }
     }
   }
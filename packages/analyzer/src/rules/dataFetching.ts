@@ -0,0 +1,272 @@
+import * as ts from 'typescript';
+
+import {
+  SERVER_PARALLEL_SUGGESTION_RULE,
+  type DiagnosticFix,
+  type Suggestion,
+} from '@rsc-xray/schemas';
+import {
+  createSuggestionFromNode,
+  createTextEdit,
+  getLineIndent,
+} from '../lib/diagnosticHelpers.js';
+
+const FETCH_RULE = 'client-hoist-fetch';
+const PARALLEL_RULE = SERVER_PARALLEL_SUGGESTION_RULE;
+
+function toSuggestion(
+  sourceFile: ts.SourceFile,
+  node: ts.Node,
+  rule: string,
+  message: string,
+  level: 'info' | 'warn',
+  filePath: string
+): Suggestion {
+  return createSuggestionFromNode(sourceFile, node, filePath, rule, message, level);
+}
+
+function isFetchCall(expr: ts.Expression): boolean {
+  if (ts.isIdentifier(expr)) {
+    return expr.text === 'fetch';
+  }
+
+  if (ts.isPropertyAccessExpression(expr)) {
+    return isFetchCall(expr.name);
+  }
+
+  return false;
+}
+
+/**
+ * Awaited `fetch` calls in client modules, which should move to a server component or loader
+ */
+export function detectClientFetchCalls(sourceFile: ts.SourceFile, filePath: string): Suggestion[] {
+  const suggestions: Suggestion[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (ts.isAwaitExpression(node) && ts.isCallExpression(node.expression)) {
+      if (isFetchCall(node.expression.expression)) {
+        suggestions.push(
+          toSuggestion(
+            sourceFile,
+            node,
+            FETCH_RULE,
+            'Move this fetch call to a server component or loader to avoid fetching on the client.',
+            'warn',
+            filePath
+          )
+        );
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  ts.forEachChild(sourceFile, visit);
+  return suggestions;
+}
+
+function isPromiseAllCall(node: ts.CallExpression): boolean {
+  const { expression } = node;
+  if (ts.isPropertyAccessExpression(expression)) {
+    return (
+      ts.isIdentifier(expression.expression) &&
+      expression.expression.text === 'Promise' &&
+      expression.name.text === 'all'
+    );
+  }
+  if (ts.isIdentifier(expression)) {
+    return expression.text === 'Promise_all';
+  }
+  return false;
+}
+
+function collectAwaitExpressions(sourceFile: ts.SourceFile): ts.AwaitExpression[] {
+  const awaits: ts.AwaitExpression[] = [];
+
+  const visit = (node: ts.Node, withinPromiseAll = false) => {
+    if (ts.isCallExpression(node)) {
+      const nextWithin = withinPromiseAll || isPromiseAllCall(node);
+      ts.forEachChild(node, (child) => visit(child, nextWithin));
+      return;
+    }
+
+    if (ts.isAwaitExpression(node)) {
+      if (!withinPromiseAll) {
+        awaits.push(node);
+      }
+      ts.forEachChild(node, (child) => visit(child, withinPromiseAll));
+      return;
+    }
+
+    ts.forEachChild(node, (child) => visit(child, withinPromiseAll));
+  };
+
+  ts.forEachChild(sourceFile, (child) => visit(child, false));
+  return awaits;
+}
+
+/** Fixed statements longer than this are split over several lines */
+const MAX_FIX_LINE_LENGTH = 100;
+
+const VARIABLE_KEYWORDS = new Map<ts.NodeFlags, 'const' | 'let' | 'var'>([
+  [ts.NodeFlags.Const, 'const'],
+  [ts.NodeFlags.Let, 'let'],
+  [ts.NodeFlags.None, 'var'],
+]);
+
+interface AwaitStatement {
+  statement: ts.Statement;
+  /** Binding of `const x = await ...` */
+  name: ts.BindingName;
+  keyword: 'const' | 'let' | 'var';
+  awaited: ts.Expression;
+}
+
+/**
+ * `const x = await ...` statements. Bare `await ...;` statements run for their side effects,
+ * which may depend on the order of the awaits, so they never join a Promise.all.
+ */
+function readAwaitStatement(statement: ts.Statement): AwaitStatement | undefined {
+  if (!ts.isVariableStatement(statement) || statement.modifiers?.length) {
+    return undefined;
+  }
+  const { declarationList } = statement;
+  const [declaration] = declarationList.declarations;
+  if (
+    declarationList.declarations.length !== 1 ||
+    !declaration ||
+    declaration.type ||
+    !declaration.initializer ||
+    !ts.isAwaitExpression(declaration.initializer)
+  ) {
+    return undefined;
+  }
+  // `using` declarations cannot be destructured
+  const keyword = VARIABLE_KEYWORDS.get(declarationList.flags & ts.NodeFlags.BlockScoped);
+  return keyword
+    ? { statement, name: declaration.name, keyword, awaited: declaration.initializer.expression }
+    : undefined;
+}
+
+function collectIdentifiers(node: ts.Node, names: Set<string>): void {
+  if (ts.isIdentifier(node)) {
+    names.add(node.text);
+  }
+  ts.forEachChild(node, (child) => collectIdentifiers(child, names));
+}
+
+function referencesAny(node: ts.Node, names: ReadonlySet<string>): boolean {
+  const referenced = new Set<string>();
+  collectIdentifiers(node, referenced);
+  return Array.from(referenced).some((name) => names.has(name));
+}
+
+/**
+ * Consecutive `await` statements starting at the one holding `first`, up to the first
+ * statement that reads a value bound by an earlier one
+ */
+function collectIndependentAwaits(
+  sourceFile: ts.SourceFile,
+  first: ts.AwaitExpression
+): AwaitStatement[] {
+  let statement: ts.Node = first;
+  while (!ts.isBlock(statement.parent) && !ts.isSourceFile(statement.parent)) {
+    statement = statement.parent;
+    if (ts.isFunctionLike(statement)) {
+      return [];
+    }
+  }
+  const container = statement.parent as ts.Block | ts.SourceFile;
+  const start = readAwaitStatement(statement as ts.Statement);
+  if (!start || start.awaited !== first.expression) {
+    return [];
+  }
+
+  const run = [start];
+  const bound = new Set<string>();
+  collectIdentifiers(start.name, bound);
+  const statements = container.statements;
+  for (let index = statements.indexOf(start.statement) + 1; index < statements.length; index++) {
+    const next = readAwaitStatement(statements[index]!);
+    const previous = run[run.length - 1]!.statement;
+    if (
+      !next ||
+      referencesAny(next.awaited, bound) ||
+      next.keyword !== start.keyword ||
+      // Keep comments between the statements
+      sourceFile.text.slice(previous.getEnd(), next.statement.getStart(sourceFile)).trim()
+    ) {
+      break;
+    }
+    run.push(next);
+    collectIdentifiers(next.name, bound);
+  }
+  return run;
+}
+
+/**
+ * Run the awaited calls together. They now start at once and reject as soon as one fails, which
+ * reorders their side effects and errors, so this is a refactor rather than a quick fix.
+ */
+function createPromiseAllFix(
+  sourceFile: ts.SourceFile,
+  run: AwaitStatement[],
+  filePath: string
+): DiagnosticFix {
+  const indent = getLineIndent(sourceFile, run[0]!.statement);
+  const names = run.map((item) => item.name.getText(sourceFile));
+  const prefix = `${run[0]!.keyword} [${names.join(', ')}] = `;
+  const awaited = run.map((item) => item.awaited.getText(sourceFile));
+
+  let newText = `${prefix}await Promise.all([${awaited.join(', ')}]);`;
+  if (indent.length + newText.length > MAX_FIX_LINE_LENGTH || newText.includes('\n')) {
+    newText = `${prefix}await Promise.all([\n${awaited
+      .map((text) => `${indent}  ${text},\n`)
+      .join('')}${indent}]);`;
+  }
+
+  const from = run[0]!.statement.getStart(sourceFile);
+  const to = run[run.length - 1]!.statement.getEnd();
+  return {
+    title: `Run ${run.length} awaits in parallel with Promise.all`,
+    kind: 'refactor',
+    edits: [createTextEdit(filePath, from, to, newText)],
+  };
+}
+
+/**
+ * Independent sequential awaits in server modules that could run in parallel with Promise.all.
+ * When the awaits are consecutive statements that do not read each other's results, the
+ * suggestion carries a fix combining them.
+ */
+export function detectSequentialAwaits(sourceFile: ts.SourceFile, filePath: string): Suggestion[] {
+  const awaits = collectAwaitExpressions(sourceFile).filter((expr) => {
+    // Skip awaits that already wrap Promise.all directly
+    const expression = expr.expression;
+    if (ts.isCallExpression(expression) && isPromiseAllCall(expression)) {
+      return false;
+    }
+    return true;
+  });
+
+  if (awaits.length < 2) {
+    return [];
+  }
+
+  const target = awaits[1];
+  const suggestion = toSuggestion(
+    sourceFile,
+    target,
+    PARALLEL_RULE,
+    'Consider wrapping independent awaits in Promise.all to run them in parallel.',
+    'info',
+    filePath
+  );
+
+  const run = collectIndependentAwaits(sourceFile, awaits[0]);
+  if (run.length >= 2 && run[1]!.awaited === target.expression) {
+    suggestion.fixes = [createPromiseAllFix(sourceFile, run, filePath)];
+  }
+
+  return [suggestion];
+}
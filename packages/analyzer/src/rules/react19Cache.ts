@@ -1,7 +1,11 @@
 import * as ts from 'typescript';
 
-import type { Suggestion } from '@rsc-xray/schemas';
-import { createSuggestionFromNode } from '../lib/diagnosticHelpers.js';
+import type { DiagnosticFix, DiagnosticTextEdit, Suggestion } from '@rsc-xray/schemas';
+import {
+  createAddImportEdit,
+  createSuggestionFromNode,
+  createTextEdit,
+} from '../lib/diagnosticHelpers.js';
 
 const REACT19_CACHE_OPPORTUNITY_RULE = 'react19-cache-opportunity';
 
@@ -51,6 +55,143 @@ function hasCacheImport(sourceFile: ts.SourceFile): boolean {
   return found;
 }
 
+/** Whether `node` calls `get` or `has` on the Map named `name` */
+function readsFromMap(node: ts.Node, name: string): boolean {
+  if (
+    ts.isCallExpression(node) &&
+    ts.isPropertyAccessExpression(node.expression) &&
+    ts.isIdentifier(node.expression.expression) &&
+    node.expression.expression.text === name &&
+    (node.expression.name.text === 'get' || node.expression.name.text === 'has')
+  ) {
+    return true;
+  }
+  return ts.forEachChild(node, (child) => readsFromMap(child, name)) ?? false;
+}
+
+/**
+ * Local name for React's `cache`: `cache` itself unless the file already uses that name, e.g.
+ * for the Map being replaced
+ */
+function getCacheImportName(sourceFile: ts.SourceFile): string {
+  const names = new Set<string>();
+  const visit = (node: ts.Node) => {
+    if (ts.isIdentifier(node)) {
+      names.add(node.text);
+    }
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(sourceFile, visit);
+
+  if (!names.has('cache')) {
+    return 'cache';
+  }
+  let name = 'reactCache';
+  for (let index = 2; names.has(name); index++) {
+    name = `reactCache${index}`;
+  }
+  return name;
+}
+
+/**
+ * Edit turning a top-level function into a `cache()`-wrapped constant
+ */
+function wrapInCache(
+  sourceFile: ts.SourceFile,
+  statement: ts.Statement,
+  filePath: string,
+  cacheFunction: string
+): { name: string; edit: DiagnosticTextEdit } | undefined {
+  if (ts.isFunctionDeclaration(statement) && statement.name && statement.body) {
+    const modifiers = statement.modifiers ?? [];
+    if (
+      statement.asteriskToken ||
+      modifiers.some((modifier) => modifier.kind === ts.SyntaxKind.DefaultKeyword)
+    ) {
+      return undefined;
+    }
+    const exportKeyword = modifiers.find(
+      (modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword
+    );
+    // The wrapped function starts after `export`
+    const functionStart = exportKeyword
+      ? exportKeyword.getEnd() +
+        /^\s*/.exec(sourceFile.text.slice(exportKeyword.getEnd()))![0].length
+      : statement.getStart(sourceFile);
+    const name = statement.name.text;
+    return {
+      name,
+      edit: createTextEdit(
+        filePath,
+        statement.getStart(sourceFile),
+        statement.getEnd(),
+        `${exportKeyword ? 'export ' : ''}const ${name} = ${cacheFunction}(${sourceFile.text.slice(functionStart, statement.getEnd())});`
+      ),
+    };
+  }
+
+  if (!ts.isVariableStatement(statement) || statement.declarationList.declarations.length !== 1) {
+    return undefined;
+  }
+  const [declaration] = statement.declarationList.declarations;
+  const { initializer } = declaration;
+  if (
+    !ts.isIdentifier(declaration.name) ||
+    !initializer ||
+    !(ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))
+  ) {
+    return undefined;
+  }
+  return {
+    name: declaration.name.text,
+    edit: createTextEdit(
+      filePath,
+      initializer.getStart(sourceFile),
+      initializer.getEnd(),
+      `${cacheFunction}(${initializer.getText(sourceFile)})`
+    ),
+  };
+}
+
+/**
+ * Wrap the top-level functions reading a module-level Map cache in React `cache()`. The Map is
+ * kept, and so are functions that only write to it (e.g. `clear()`); it can be removed by hand
+ * once `cache()` deduplicates the calls. React's `cache` is imported under another name when
+ * the file already uses `cache`.
+ */
+function createCacheFix(
+  sourceFile: ts.SourceFile,
+  declaration: ts.VariableDeclaration,
+  filePath: string
+): DiagnosticFix | undefined {
+  const statement = declaration.parent.parent;
+  if (!ts.isIdentifier(declaration.name) || statement.parent !== sourceFile) {
+    return undefined;
+  }
+  const mapName = declaration.name.text;
+  const cacheFunction = getCacheImportName(sourceFile);
+  const wrapped = sourceFile.statements
+    .filter((candidate) => candidate !== statement && readsFromMap(candidate, mapName))
+    .map((candidate) => wrapInCache(sourceFile, candidate, filePath, cacheFunction))
+    .filter((item): item is NonNullable<typeof item> => item !== undefined);
+  if (!wrapped.length) {
+    return undefined;
+  }
+
+  const importText =
+    cacheFunction === 'cache'
+      ? "import { cache } from 'react';"
+      : `import { cache as ${cacheFunction} } from 'react';`;
+  return {
+    title: `Wrap ${wrapped.map((item) => item.name).join(', ')} in React cache()`,
+    kind: 'refactor',
+    edits: [
+      createAddImportEdit(sourceFile, filePath, importText),
+      ...wrapped.map((item) => item.edit),
+    ],
+  };
+}
+
 /**
  * Detect manual caching patterns using Map or WeakMap
  */
@@ -66,16 +207,19 @@ function detectMapCachingPatterns(sourceFile: ts.SourceFile, filePath: string):
     ) {
       const expr = node.initializer.expression;
       if (ts.isIdentifier(expr) && (expr.text === 'Map' || expr.text === 'WeakMap')) {
-        suggestions.push(
-          toSuggestion(
-            sourceFile,
-            node,
-            REACT19_CACHE_OPPORTUNITY_RULE,
-            `Manual caching with ${expr.text} detected. In React 19+, consider using cache() from 'react' for automatic deduplication. Example: import { cache } from 'react'; const getData = cache(async (id) => { ... });`,
-            'info',
-            filePath
-          )
+        const suggestion = toSuggestion(
+          sourceFile,
+          node,
+          REACT19_CACHE_OPPORTUNITY_RULE,
+          `Manual caching with ${expr.text} detected. In React 19+, consider using cache() from 'react' for automatic deduplication. Example: import { cache } from 'react'; const getData = cache(async (id) => { ... });`,
+          'info',
+          filePath
         );
+        const fix = createCacheFix(sourceFile, node, filePath);
+        if (fix) {
+          suggestion.fixes = [fix];
+        }
+        suggestions.push(suggestion);
       }
     }
 
@@ -1,13 +1,31 @@
 import * as ts from 'typescript';
-import type { Diagnostic } from '@rsc-xray/schemas';
-import { createDiagnosticFromNode } from '../lib/diagnosticHelpers.js';
+import type { Diagnostic, DiagnosticFix } from '@rsc-xray/schemas';
+import { createDiagnosticFromNode, createReplaceNodeEdit } from '../lib/diagnosticHelpers.js';
+import { isInlineServerAction } from '../lib/classify.js';
+import { parseSourceFile } from '../lib/sourceFiles.js';
 
 export interface SerializationBoundaryOptions {
   fileName: string;
   sourceText: string;
   clientComponents?: Set<string>;
+  /** Local identifiers bound to Server Actions (e.g. imports from 'use server' modules) */
+  serverActions?: Set<string>;
+  /** Tree of `sourceText`, e.g. the one the rule registry passes to rules; parsed when omitted */
+  sourceFile?: ts.SourceFile;
 }
 
+/**
+ * A Server Action reference passed as a prop to a client component
+ */
+export interface ServerActionProp {
+  component: string;
+  prop: string;
+  /** Referenced identifier (`ns.name` for namespace imports), or '(inline)' for inline actions */
+  action: string;
+}
+
+const INLINE_ACTION = '(inline)';
+
 /**
  * Detects non-serializable props passed from server to client components.
  *
@@ -41,7 +59,7 @@ function createDiagnostic(
 ): Diagnostic {
   const suggestions = getSuggestions(nonSerializableType);
 
-  return createDiagnosticFromNode(
+  const diagnostic = createDiagnosticFromNode(
     sourceFile,
     node,
     sourceFile.fileName,
@@ -49,6 +67,37 @@ function createDiagnostic(
     `Non-serializable prop '${propName}' (${nonSerializableType}) passed to client component '${componentName}'. Props must be JSON-serializable.${suggestions ? ` ${suggestions}` : ''}`,
     'error'
   );
+  if (nonSerializableType === NON_SERIALIZABLE_PATTERNS.DATE) {
+    diagnostic.fixes = [createDateFix(sourceFile, node, propName)];
+  }
+  return diagnostic;
+}
+
+/**
+ * Pass the Date as an ISO string. The client component still declares and uses a Date, so its
+ * prop has to be parsed back by hand: a refactor, never applied on its own.
+ */
+function createDateFix(sourceFile: ts.SourceFile, node: ts.Node, propName: string): DiagnosticFix {
+  const text = node.getText(sourceFile);
+  // `new Date` without arguments needs parentheses before a property access
+  const needsParentheses = !(
+    ts.isIdentifier(node) ||
+    ts.isPropertyAccessExpression(node) ||
+    ts.isCallExpression(node) ||
+    (ts.isNewExpression(node) && node.arguments)
+  );
+  return {
+    title: `Pass '${propName}' as an ISO string`,
+    kind: 'refactor',
+    edits: [
+      createReplaceNodeEdit(
+        sourceFile,
+        node,
+        sourceFile.fileName,
+        `${needsParentheses ? `(${text})` : text}.toISOString()`
+      ),
+    ],
+  };
 }
 
 function getSuggestions(nonSerializableType: string): string | undefined {
@@ -82,6 +131,8 @@ interface VariableDeclaration {
   name: string;
   initializer: ts.Expression | undefined;
   kind: string | undefined;
+  /** Declared with an inline 'use server' directive */
+  serverAction?: boolean;
 }
 
 /**
@@ -95,11 +146,13 @@ function buildSymbolTable(sourceFile: ts.SourceFile): Map<string, VariableDeclar
     if (ts.isVariableDeclaration(node)) {
       if (ts.isIdentifier(node.name) && node.initializer) {
         const name = node.name.text;
-        const kind = detectNonSerializableExpression(node.initializer);
+        const serverAction = isInlineServerAction(node.initializer);
+        const kind = serverAction ? undefined : detectNonSerializableExpression(node.initializer);
         symbolTable.set(name, {
           name,
           initializer: node.initializer,
           kind,
+          ...(serverAction ? { serverAction } : {}),
         });
       }
     }
@@ -107,10 +160,12 @@ function buildSymbolTable(sourceFile: ts.SourceFile): Map<string, VariableDeclar
     // Function declarations: function foo() {}
     if (ts.isFunctionDeclaration(node) && node.name) {
       const name = node.name.text;
+      const serverAction = isInlineServerAction(node);
       symbolTable.set(name, {
         name,
         initializer: undefined,
-        kind: NON_SERIALIZABLE_PATTERNS.FUNCTION,
+        kind: serverAction ? undefined : NON_SERIALIZABLE_PATTERNS.FUNCTION,
+        ...(serverAction ? { serverAction } : {}),
       });
     }
 
@@ -188,12 +243,54 @@ function isChildrenProp(propName: string | undefined): boolean {
   return propName === 'children';
 }
 
-function analyzeJsxAttributes(
+/**
+ * Resolve a prop expression to a Server Action reference. Actions stay valid across the boundary
+ * because React serializes them as RPC references, including `action.bind(null, ...)` calls.
+ */
+function resolveServerAction(
+  expression: ts.Expression,
+  symbolTable: Map<string, VariableDeclaration>,
+  serverActions: Set<string>
+): string | undefined {
+  if (
+    ts.isCallExpression(expression) &&
+    ts.isPropertyAccessExpression(expression.expression) &&
+    expression.expression.name.text === 'bind'
+  ) {
+    return resolveServerAction(expression.expression.expression, symbolTable, serverActions);
+  }
+
+  if (isInlineServerAction(expression)) {
+    return INLINE_ACTION;
+  }
+
+  if (ts.isIdentifier(expression)) {
+    const name = expression.text;
+    return serverActions.has(name) || symbolTable.get(name)?.serverAction ? name : undefined;
+  }
+
+  if (
+    ts.isPropertyAccessExpression(expression) &&
+    ts.isIdentifier(expression.expression) &&
+    serverActions.has(expression.expression.text)
+  ) {
+    return `${expression.expression.text}.${expression.name.text}`;
+  }
+
+  return undefined;
+}
+
+type ClientPropVisitor = (
+  componentName: string,
+  propName: string,
+  expression: ts.Expression
+) => void;
+
+function visitJsxAttributes(
   sourceFile: ts.SourceFile,
   attributes: ts.JsxAttributes,
   componentName: string,
-  symbolTable: Map<string, VariableDeclaration>,
-  diagnostics: Diagnostic[]
+  visitor: ClientPropVisitor
 ): void {
   for (const prop of attributes.properties) {
     if (!ts.isJsxAttribute(prop)) continue;
@@ -209,33 +306,21 @@ function analyzeJsxAttributes(
       const { expression } = prop.initializer;
       if (!expression) continue;
 
-      // Resolve the expression through the symbol table
-      const { kind: nonSerializableType } = resolveExpression(expression, symbolTable);
-
-      if (nonSerializableType) {
-        diagnostics.push(
-          createDiagnostic(sourceFile, expression, propName, nonSerializableType, componentName)
-        );
-      }
+      visitor(componentName, propName, expression);
     }
   }
 }
 
-function analyzeSource({
-  fileName,
-  sourceText,
-  clientComponents = new Set(),
-}: SerializationBoundaryOptions): Diagnostic[] {
-  const sourceFile = ts.createSourceFile(
-    fileName,
-    sourceText,
-    ts.ScriptTarget.Latest,
-    true,
-    ts.ScriptKind.TSX
-  );
-
+/**
+ * Visit every expression prop passed to a known client component from a server module.
+ * Client modules are skipped entirely: client-to-client props are fine.
+ */
+function visitClientComponentProps(
+  sourceFile: ts.SourceFile,
+  clientComponents: Set<string>,
+  visitor: ClientPropVisitor
+): void {
   // Check if this is a client component (has 'use client' directive)
-  // If it is, we don't need to check it (client-to-client props are fine)
   let hasUseClient = false;
   for (const statement of sourceFile.statements) {
     if (
@@ -250,14 +335,9 @@ function analyzeSource({
 
   // Only analyze server components
   if (hasUseClient) {
-    return [];
+    return;
   }
 
-  // Build symbol table for variable tracking
-  const symbolTable = buildSymbolTable(sourceFile);
-
-  const diagnostics: Diagnostic[] = [];
-
   const visit = (node: ts.Node) => {
     // Look for JSX elements
     if (ts.isJsxSelfClosingElement(node)) {
@@ -265,7 +345,7 @@ function analyzeSource({
 
       // Check if it's a known client component
       if (isClientComponent(tagName, clientComponents)) {
-        analyzeJsxAttributes(sourceFile, node.attributes, tagName, symbolTable, diagnostics);
+        visitJsxAttributes(sourceFile, node.attributes, tagName, visitor);
       }
     }
 
@@ -274,13 +354,7 @@ function analyzeSource({
 
       // Check if it's a known client component
       if (isClientComponent(tagName, clientComponents)) {
-        analyzeJsxAttributes(
-          sourceFile,
-          node.openingElement.attributes,
-          tagName,
-          symbolTable,
-          diagnostics
-        );
+        visitJsxAttributes(sourceFile, node.openingElement.attributes, tagName, visitor);
       }
     }
 
@@ -288,9 +362,62 @@ function analyzeSource({
   };
 
   visit(sourceFile);
+}
+
+function analyzeSource({
+  fileName,
+  sourceText,
+  clientComponents = new Set(),
+  serverActions = new Set(),
+  sourceFile = parseSourceFile(fileName, sourceText),
+}: SerializationBoundaryOptions): Diagnostic[] {
+  // Build symbol table for variable tracking
+  const symbolTable = buildSymbolTable(sourceFile);
+
+  const diagnostics: Diagnostic[] = [];
+
+  visitClientComponentProps(sourceFile, clientComponents, (componentName, propName, expression) => {
+    // Server Action references are serialized by React and are always allowed
+    if (resolveServerAction(expression, symbolTable, serverActions)) {
+      return;
+    }
+
+    // Resolve the expression through the symbol table
+    const { kind: nonSerializableType } = resolveExpression(expression, symbolTable);
+
+    if (nonSerializableType) {
+      diagnostics.push(
+        createDiagnostic(sourceFile, expression, propName, nonSerializableType, componentName)
+      );
+    }
+  });
+
   return diagnostics;
 }
 
 export function analyzeSerializationBoundary(options: SerializationBoundaryOptions): Diagnostic[] {
   return analyzeSource(options);
 }
+
+/**
+ * Collect the Server Actions a server module passes to client components as props
+ */
+export function collectServerActionProps({
+  fileName,
+  sourceText,
+  clientComponents = new Set(),
+  serverActions = new Set(),
+  sourceFile = parseSourceFile(fileName, sourceText),
+}: SerializationBoundaryOptions): ServerActionProp[] {
+  const symbolTable = buildSymbolTable(sourceFile);
+  const props: ServerActionProp[] = [];
+
+  visitClientComponentProps(sourceFile, clientComponents, (component, prop, expression) => {
+    const action = resolveServerAction(expression, symbolTable, serverActions);
+    if (action) {
+      props.push({ component, prop, action });
+    }
+  });
+
+  return props;
+}
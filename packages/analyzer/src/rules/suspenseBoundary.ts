@@ -232,17 +232,23 @@ function hasSuspenseBoundary(node: ts.Node): boolean {
   return found;
 }
 
+export interface SuspenseBoundaryOptions {
+  /** The file renders inside a segment `loading` file, which Next wraps in Suspense */
+  insideLoadingBoundary?: boolean;
+}
+
 /**
  * Detect async server components without Suspense boundaries
  */
 export function detectSuspenseBoundaryIssues(
   sourceFile: ts.SourceFile,
-  filePath: string
+  filePath: string,
+  options: SuspenseBoundaryOptions = {}
 ): Suggestion[] {
   const suggestions: Suggestion[] = [];
 
   // Only check server components
-  if (!isServerComponent(sourceFile)) {
+  if (!isServerComponent(sourceFile) || options.insideLoadingBoundary) {
     return suggestions;
   }
 
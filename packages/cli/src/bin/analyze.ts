@@ -8,6 +8,10 @@ interface CliOptions {
   projectRoot?: string;
   distDir?: string;
   appDir?: string;
+  pagesDir?: string;
+  components?: boolean;
+  configPath?: string;
+  cache?: boolean;
   outputPath?: string;
   pretty?: boolean;
   help?: boolean;
@@ -31,6 +35,22 @@ function parseArgs(argv: string[]): CliOptions {
         options.appDir = argv[++index];
         break;
       }
+      case '--pages': {
+        options.pagesDir = argv[++index];
+        break;
+      }
+      case '--components': {
+        options.components = true;
+        break;
+      }
+      case '--config': {
+        options.configPath = argv[++index];
+        break;
+      }
+      case '--cache': {
+        options.cache = true;
+        break;
+      }
       case '--out': {
         options.outputPath = argv[++index];
         break;
@@ -64,7 +84,7 @@ function parseArgs(argv: string[]): CliOptions {
 
 function printUsage() {
   console.log(
-    'Usage: analyze [--project <path>] --out <file> [--dist <.next>] [--app <appDir>] [--no-pretty]'
+    'Usage: analyze [--project <path>] --out <file> [--dist <.next>] [--app <appDir>] [--pages <pagesDir>] [--components] [--config <file>] [--cache] [--no-pretty]'
   );
 }
 
@@ -93,6 +113,10 @@ async function main() {
       outputPath: resolve(baseDir, rawOutputPath),
       distDir: parsed.distDir,
       appDir: parsed.appDir,
+      pagesDir: parsed.pagesDir,
+      components: parsed.components,
+      configPath: parsed.configPath ? resolve(baseDir, parsed.configPath) : undefined,
+      cache: parsed.cache,
       pretty: parsed.pretty,
     });
   } catch (error) {
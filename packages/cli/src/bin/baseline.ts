@@ -0,0 +1,103 @@
+#!/usr/bin/env node
+import { cwd } from 'node:process';
+import { resolve } from 'node:path';
+
+import { checkBaseline, updateBaseline } from '../commands/baseline';
+
+interface CliOptions {
+  modelPath?: string;
+  projectRoot?: string;
+  baselinePath?: string;
+  update?: boolean;
+  help?: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {};
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    switch (arg) {
+      case '--model': {
+        options.modelPath = argv[++index];
+        break;
+      }
+      case '--project': {
+        options.projectRoot = argv[++index];
+        break;
+      }
+      case '--baseline': {
+        options.baselinePath = argv[++index];
+        break;
+      }
+      case '--update': {
+        options.update = true;
+        break;
+      }
+      case '--help':
+      case '-h': {
+        options.help = true;
+        break;
+      }
+      default: {
+        if (options.help) {
+          break;
+        }
+        if (arg.startsWith('-')) {
+          console.warn(`Unknown flag: ${arg}`);
+        }
+      }
+    }
+  }
+
+  return options;
+}
+
+function printUsage() {
+  console.log(
+    'Usage: baseline --model <model.json> [--project <path>] [--baseline <.scx/baseline.json>] [--update]'
+  );
+}
+
+async function main() {
+  const parsed = parseArgs(process.argv.slice(2));
+
+  if (parsed.help) {
+    printUsage();
+    process.exit(0);
+  }
+
+  const baseDir = process.env.INIT_CWD ?? cwd();
+  const projectRoot = resolve(baseDir, parsed.projectRoot ?? '.');
+  const modelPath = parsed.modelPath ? resolve(baseDir, parsed.modelPath) : undefined;
+
+  if (!modelPath) {
+    console.error('Missing required --model <model.json> argument');
+    printUsage();
+    process.exit(1);
+    return;
+  }
+
+  const options = {
+    modelPath,
+    projectRoot,
+    baselinePath: parsed.baselinePath ? resolve(baseDir, parsed.baselinePath) : undefined,
+  };
+
+  try {
+    if (parsed.update) {
+      await updateBaseline(options);
+      return;
+    }
+    const comparison = await checkBaseline(options);
+    // Only findings missing from the baseline fail the run
+    if (comparison.new.length > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('Failed to compare with baseline:', (error as Error).message);
+    process.exitCode = 1;
+  }
+}
+
+main();
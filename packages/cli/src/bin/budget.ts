@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+import { cwd } from 'node:process';
+import { resolve } from 'node:path';
+
+import { checkBudgets } from '../commands/budget';
+
+interface CliOptions {
+  modelPath?: string;
+  projectRoot?: string;
+  budgetsPath?: string;
+  distDir?: string;
+  outputPath?: string;
+  help?: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {};
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    switch (arg) {
+      case '--model': {
+        options.modelPath = argv[++index];
+        break;
+      }
+      case '--project': {
+        options.projectRoot = argv[++index];
+        break;
+      }
+      case '--budgets': {
+        options.budgetsPath = argv[++index];
+        break;
+      }
+      case '--dist': {
+        options.distDir = argv[++index];
+        break;
+      }
+      case '--out': {
+        options.outputPath = argv[++index];
+        break;
+      }
+      case '--help':
+      case '-h': {
+        options.help = true;
+        break;
+      }
+      default: {
+        if (options.help) {
+          break;
+        }
+        if (arg.startsWith('-')) {
+          console.warn(`Unknown flag: ${arg}`);
+        }
+      }
+    }
+  }
+
+  return options;
+}
+
+function printUsage() {
+  console.log(
+    'Usage: budget --model <model.json> [--project <path>] [--budgets <rsc-xray.budgets.json>] [--dist <.next>] [--out <model.json>]'
+  );
+}
+
+async function main() {
+  const parsed = parseArgs(process.argv.slice(2));
+
+  if (parsed.help) {
+    printUsage();
+    process.exit(0);
+  }
+
+  const baseDir = process.env.INIT_CWD ?? cwd();
+  const projectRoot = resolve(baseDir, parsed.projectRoot ?? '.');
+
+  if (!parsed.modelPath) {
+    console.error('Missing required --model <model.json> argument');
+    printUsage();
+    process.exit(1);
+    return;
+  }
+
+  try {
+    const evaluation = await checkBudgets({
+      modelPath: resolve(baseDir, parsed.modelPath),
+      projectRoot,
+      budgetsPath: parsed.budgetsPath ? resolve(baseDir, parsed.budgetsPath) : undefined,
+      distDir: parsed.distDir,
+      outputPath: parsed.outputPath ? resolve(baseDir, parsed.outputPath) : undefined,
+    });
+    if (!evaluation.passed) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('Failed to check budgets:', (error as Error).message);
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,163 @@
+#!/usr/bin/env node
+import { cwd } from 'node:process';
+import { resolve } from 'node:path';
+
+import { check, FAIL_ON_LEVELS, type FailOnLevel } from '../commands/check';
+import { FORMAT_NAMES } from '../formatters';
+
+interface CliOptions {
+  projectRoot?: string;
+  distDir?: string;
+  appDir?: string;
+  pagesDir?: string;
+  configPath?: string;
+  cache?: boolean;
+  failOn?: string;
+  maxWarnings?: string;
+  rules?: string[];
+  ignoreRules?: string[];
+  format?: string;
+  outputPath?: string;
+  help?: boolean;
+}
+
+// Repeatable, and accepts comma-separated lists
+const appendRules = (current: string[] | undefined, value: string | undefined) => [
+  ...(current ?? []),
+  ...(value ?? '').split(',').filter(Boolean),
+];
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {};
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    switch (arg) {
+      case '--project': {
+        options.projectRoot = argv[++index];
+        break;
+      }
+      case '--dist': {
+        options.distDir = argv[++index];
+        break;
+      }
+      case '--app': {
+        options.appDir = argv[++index];
+        break;
+      }
+      case '--pages': {
+        options.pagesDir = argv[++index];
+        break;
+      }
+      case '--config': {
+        options.configPath = argv[++index];
+        break;
+      }
+      case '--cache': {
+        options.cache = true;
+        break;
+      }
+      case '--fail-on': {
+        options.failOn = argv[++index];
+        break;
+      }
+      case '--max-warnings': {
+        options.maxWarnings = argv[++index];
+        break;
+      }
+      case '--rule': {
+        options.rules = appendRules(options.rules, argv[++index]);
+        break;
+      }
+      case '--ignore-rule': {
+        options.ignoreRules = appendRules(options.ignoreRules, argv[++index]);
+        break;
+      }
+      case '--format': {
+        options.format = argv[++index];
+        break;
+      }
+      case '--out': {
+        options.outputPath = argv[++index];
+        break;
+      }
+      case '--help':
+      case '-h': {
+        options.help = true;
+        break;
+      }
+      default: {
+        if (options.help) {
+          break;
+        }
+        if (arg.startsWith('-')) {
+          console.warn(`Unknown flag: ${arg}`);
+        }
+      }
+    }
+  }
+
+  return options;
+}
+
+function printUsage() {
+  console.log(
+    'Usage: check [--project <path>] [--fail-on error|warn|info] [--max-warnings <n>] [--rule <id>]... [--ignore-rule <id>]... [--format text|sarif|junit|checkstyle] [--out <file>] [--dist <.next>] [--app <appDir>] [--pages <pagesDir>] [--config <file>] [--cache]'
+  );
+}
+
+async function main() {
+  const parsed = parseArgs(process.argv.slice(2));
+
+  if (parsed.help) {
+    printUsage();
+    process.exit(0);
+  }
+
+  if (parsed.failOn !== undefined && !FAIL_ON_LEVELS.includes(parsed.failOn as FailOnLevel)) {
+    console.error(`Invalid --fail-on '${parsed.failOn}', expected ${FAIL_ON_LEVELS.join(', ')}`);
+    printUsage();
+    process.exit(1);
+    return;
+  }
+
+  if (parsed.format !== undefined && !FORMAT_NAMES.includes(parsed.format)) {
+    console.error(`Invalid --format '${parsed.format}', expected ${FORMAT_NAMES.join(', ')}`);
+    printUsage();
+    process.exit(1);
+    return;
+  }
+
+  const maxWarnings = parsed.maxWarnings === undefined ? undefined : Number(parsed.maxWarnings);
+  if (maxWarnings !== undefined && (!Number.isInteger(maxWarnings) || maxWarnings < 0)) {
+    console.error(`Invalid --max-warnings '${parsed.maxWarnings}', expected a whole number`);
+    printUsage();
+    process.exit(1);
+    return;
+  }
+
+  const baseDir = process.env.INIT_CWD ?? cwd();
+
+  try {
+    const result = await check({
+      projectRoot: resolve(baseDir, parsed.projectRoot ?? '.'),
+      distDir: parsed.distDir,
+      appDir: parsed.appDir,
+      pagesDir: parsed.pagesDir,
+      configPath: parsed.configPath ? resolve(baseDir, parsed.configPath) : undefined,
+      cache: parsed.cache,
+      failOn: parsed.failOn as FailOnLevel | undefined,
+      maxWarnings,
+      rules: parsed.rules,
+      ignoreRules: parsed.ignoreRules,
+      format: parsed.format,
+      outputPath: parsed.outputPath ? resolve(baseDir, parsed.outputPath) : undefined,
+    });
+    process.exitCode = result.exitCode;
+  } catch (error) {
+    console.error('Failed to check project:', (error as Error).message);
+    process.exitCode = 1;
+  }
+}
+
+main();
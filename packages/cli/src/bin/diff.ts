@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+import { cwd } from 'node:process';
+import { resolve } from 'node:path';
+
+import { DIFF_FORMATS, diffModelFiles, type DiffFormat } from '../commands/diff';
+
+interface CliOptions {
+  basePath?: string;
+  headPath?: string;
+  format?: string;
+  outputPath?: string;
+  help?: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {};
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    switch (arg) {
+      case '--base': {
+        options.basePath = argv[++index];
+        break;
+      }
+      case '--head': {
+        options.headPath = argv[++index];
+        break;
+      }
+      case '--format': {
+        options.format = argv[++index];
+        break;
+      }
+      case '--out': {
+        options.outputPath = argv[++index];
+        break;
+      }
+      case '--help':
+      case '-h': {
+        options.help = true;
+        break;
+      }
+      default: {
+        if (options.help) {
+          break;
+        }
+        if (arg.startsWith('-')) {
+          console.warn(`Unknown flag: ${arg}`);
+        }
+      }
+    }
+  }
+
+  return options;
+}
+
+function printUsage() {
+  console.log(
+    'Usage: diff --base <model.json> --head <model.json> [--format text|json|markdown] [--out <file>]'
+  );
+}
+
+async function main() {
+  const parsed = parseArgs(process.argv.slice(2));
+
+  if (parsed.help) {
+    printUsage();
+    process.exit(0);
+  }
+
+  if (!parsed.basePath || !parsed.headPath) {
+    console.error('Missing required --base <model.json> and --head <model.json> arguments');
+    printUsage();
+    process.exit(1);
+    return;
+  }
+
+  if (parsed.format !== undefined && !DIFF_FORMATS.includes(parsed.format as DiffFormat)) {
+    console.error(`Invalid --format '${parsed.format}', expected ${DIFF_FORMATS.join(', ')}`);
+    process.exit(1);
+    return;
+  }
+
+  const baseDir = process.env.INIT_CWD ?? cwd();
+
+  try {
+    await diffModelFiles({
+      basePath: resolve(baseDir, parsed.basePath),
+      headPath: resolve(baseDir, parsed.headPath),
+      format: parsed.format as DiffFormat | undefined,
+      outputPath: parsed.outputPath ? resolve(baseDir, parsed.outputPath) : undefined,
+    });
+  } catch (error) {
+    console.error('Failed to diff models:', (error as Error).message);
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,130 @@
+#!/usr/bin/env node
+import { cwd } from 'node:process';
+import { resolve } from 'node:path';
+
+import type { FixKind } from '@rsc-xray/analyzer';
+
+import { fix } from '../commands/fix';
+
+interface CliOptions {
+  projectRoot?: string;
+  appDir?: string;
+  pagesDir?: string;
+  configPath?: string;
+  rules?: string[];
+  kinds?: string[];
+  dryRun?: boolean;
+  write?: boolean;
+  help?: boolean;
+}
+
+const FIX_KINDS: readonly FixKind[] = ['quickfix', 'refactor', 'source'];
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {};
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    switch (arg) {
+      case '--project': {
+        options.projectRoot = argv[++index];
+        break;
+      }
+      case '--app': {
+        options.appDir = argv[++index];
+        break;
+      }
+      case '--pages': {
+        options.pagesDir = argv[++index];
+        break;
+      }
+      case '--config': {
+        options.configPath = argv[++index];
+        break;
+      }
+      case '--rule': {
+        // Repeatable, and accepts comma-separated lists
+        const rules = (argv[++index] ?? '').split(',').filter(Boolean);
+        options.rules = [...(options.rules ?? []), ...rules];
+        break;
+      }
+      case '--kind': {
+        const kinds = (argv[++index] ?? '').split(',').filter(Boolean);
+        options.kinds = [...(options.kinds ?? []), ...kinds];
+        break;
+      }
+      case '--dry-run': {
+        options.dryRun = true;
+        break;
+      }
+      case '--write': {
+        options.write = true;
+        break;
+      }
+      case '--help':
+      case '-h': {
+        options.help = true;
+        break;
+      }
+      default: {
+        if (options.help) {
+          break;
+        }
+        if (arg.startsWith('-')) {
+          console.warn(`Unknown flag: ${arg}`);
+        }
+      }
+    }
+  }
+
+  return options;
+}
+
+function printUsage() {
+  console.log(
+    'Usage: fix [--project <path>] [--rule <id>]... [--kind <quickfix|refactor|source>]... [--dry-run | --write] [--app <appDir>] [--pages <pagesDir>] [--config <file>]'
+  );
+}
+
+async function main() {
+  const parsed = parseArgs(process.argv.slice(2));
+
+  if (parsed.help) {
+    printUsage();
+    process.exit(0);
+  }
+
+  const invalidKind = parsed.kinds?.find((kind) => !FIX_KINDS.includes(kind as FixKind));
+  if (invalidKind !== undefined) {
+    console.error(`Invalid --kind '${invalidKind}', expected ${FIX_KINDS.join(', ')}`);
+    printUsage();
+    process.exit(1);
+    return;
+  }
+
+  if (parsed.dryRun && parsed.write) {
+    console.error('--dry-run and --write cannot be combined');
+    printUsage();
+    process.exit(1);
+    return;
+  }
+
+  const baseDir = process.env.INIT_CWD ?? cwd();
+
+  try {
+    await fix({
+      projectRoot: resolve(baseDir, parsed.projectRoot ?? '.'),
+      appDir: parsed.appDir,
+      pagesDir: parsed.pagesDir,
+      configPath: parsed.configPath ? resolve(baseDir, parsed.configPath) : undefined,
+      rules: parsed.rules,
+      kinds: parsed.kinds as FixKind[] | undefined,
+      write: parsed.write,
+    });
+  } catch (error) {
+    console.error('Failed to fix project:', (error as Error).message);
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -7,6 +7,7 @@ import { generateReport } from '../commands/report';
 interface CliOptions {
   modelPath?: string;
   outputPath?: string;
+  projectRoot?: string;
   help?: boolean;
 }
 
@@ -24,6 +25,10 @@ function parseArgs(argv: string[]): CliOptions {
         options.outputPath = argv[++index];
         break;
       }
+      case '--project': {
+        options.projectRoot = argv[++index];
+        break;
+      }
       case '--help':
       case '-h': {
         options.help = true;
@@ -44,7 +49,7 @@ function parseArgs(argv: string[]): CliOptions {
 }
 
 function printUsage() {
-  console.log('Usage: report --model <model.json> --out <report.html>');
+  console.log('Usage: report --model <model.json> --out <report.html> [--project <path>]');
 }
 
 async function main() {
@@ -58,6 +63,7 @@ async function main() {
   const baseDir = process.env.INIT_CWD ?? cwd();
   const modelPath = parsed.modelPath ? resolve(baseDir, parsed.modelPath) : undefined;
   const outputPath = parsed.outputPath ? resolve(baseDir, parsed.outputPath) : undefined;
+  const projectRoot = resolve(baseDir, parsed.projectRoot ?? '.');
 
   if (!modelPath || !outputPath) {
     console.error('Missing required arguments.');
@@ -67,7 +73,7 @@ async function main() {
   }
 
   try {
-    await generateReport({ modelPath, outputPath });
+    await generateReport({ modelPath, outputPath, projectRoot });
   } catch (error) {
     console.error('Failed to render report:', (error as Error).message);
     process.exitCode = 1;
@@ -0,0 +1,37 @@
+#!/usr/bin/env node
+import { printRules } from '../commands/rules';
+
+function parseArgs(argv: string[]) {
+  let ruleId: string | undefined;
+
+  for (const arg of argv) {
+    if (arg === '--help' || arg === '-h') {
+      return { help: true } as const;
+    }
+    if (arg.startsWith('-')) {
+      console.warn(`Unknown flag: ${arg}`);
+    } else {
+      ruleId = arg;
+    }
+  }
+
+  return { ruleId } as const;
+}
+
+function main() {
+  const parsed = parseArgs(process.argv.slice(2));
+
+  if ('help' in parsed) {
+    console.log('Usage: rules [<rule-id>]');
+    process.exit(0);
+  }
+
+  try {
+    printRules({ ruleId: parsed.ruleId });
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exitCode = 1;
+  }
+}
+
+main();
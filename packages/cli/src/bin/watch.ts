@@ -0,0 +1,123 @@
+#!/usr/bin/env node
+import { cwd } from 'node:process';
+import { resolve } from 'node:path';
+
+import { watch } from '../commands/watch';
+
+interface CliOptions {
+  projectRoot?: string;
+  distDir?: string;
+  appDir?: string;
+  pagesDir?: string;
+  configPath?: string;
+  modelPath?: string;
+  reportPath?: string;
+  debounceMs?: number;
+  help?: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {};
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    switch (arg) {
+      case '--project': {
+        options.projectRoot = argv[++index];
+        break;
+      }
+      case '--dist': {
+        options.distDir = argv[++index];
+        break;
+      }
+      case '--app': {
+        options.appDir = argv[++index];
+        break;
+      }
+      case '--pages': {
+        options.pagesDir = argv[++index];
+        break;
+      }
+      case '--config': {
+        options.configPath = argv[++index];
+        break;
+      }
+      case '--out': {
+        options.modelPath = argv[++index];
+        break;
+      }
+      case '--report': {
+        options.reportPath = argv[++index];
+        break;
+      }
+      case '--debounce': {
+        options.debounceMs = Number(argv[++index]);
+        break;
+      }
+      case '--help':
+      case '-h': {
+        options.help = true;
+        break;
+      }
+      default: {
+        if (options.help) {
+          break;
+        }
+        if (arg.startsWith('-')) {
+          console.warn(`Unknown flag: ${arg}`);
+        }
+      }
+    }
+  }
+
+  return options;
+}
+
+function printUsage() {
+  console.log(
+    'Usage: watch [--project <path>] [--dist <.next>] [--app <appDir>] [--pages <pagesDir>] [--config <file>] [--out <model.json>] [--report <report.html>] [--debounce <ms>]'
+  );
+}
+
+async function main() {
+  const parsed = parseArgs(process.argv.slice(2));
+
+  if (parsed.help) {
+    printUsage();
+    process.exit(0);
+  }
+
+  const baseDir = process.env.INIT_CWD ?? cwd();
+  const projectRoot = resolve(baseDir, parsed.projectRoot ?? '.');
+
+  if (
+    parsed.debounceMs !== undefined &&
+    (!Number.isInteger(parsed.debounceMs) || parsed.debounceMs < 0)
+  ) {
+    console.error('--debounce must be a non-negative whole number of milliseconds');
+    process.exit(1);
+    return;
+  }
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  try {
+    await watch({
+      projectRoot,
+      distDir: parsed.distDir,
+      appDir: parsed.appDir,
+      pagesDir: parsed.pagesDir,
+      configPath: parsed.configPath ? resolve(baseDir, parsed.configPath) : undefined,
+      modelPath: parsed.modelPath ? resolve(baseDir, parsed.modelPath) : undefined,
+      reportPath: parsed.reportPath ? resolve(baseDir, parsed.reportPath) : undefined,
+      debounceMs: parsed.debounceMs,
+      signal: controller.signal,
+    });
+  } catch (error) {
+    console.error('Failed to watch project:', (error as Error).message);
+    process.exitCode = 1;
+  }
+}
+
+main();
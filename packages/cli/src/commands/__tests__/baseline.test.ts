@@ -0,0 +1,72 @@
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PassThrough } from 'node:stream';
+
+import { describe, expect, it } from 'vitest';
+
+import type { Model, Suggestion } from '@rsc-xray/schemas';
+
+import { checkBaseline, updateBaseline } from '../baseline';
+
+function createModel(suggestions: Suggestion[]): Model {
+  return {
+    version: '0.1',
+    build: { nextVersion: '14.2.0', timestamp: new Date().toISOString() },
+    routes: [{ route: '/', rootNodeId: 'route:/' }],
+    nodes: {
+      'route:/': { id: 'route:/', kind: 'route', children: ['module:app/page.tsx'] },
+      'module:app/page.tsx': {
+        id: 'module:app/page.tsx',
+        kind: 'server',
+        file: 'app/page.tsx',
+        suggestions,
+      },
+    },
+  };
+}
+
+function readOutput(stream: PassThrough): string {
+  return stream.read()?.toString() ?? '';
+}
+
+describe('baseline', () => {
+  it('writes a baseline and later reports only findings missing from it as new', async () => {
+    const projectRoot = await mkdtemp(join(tmpdir(), 'scx-cli-baseline-'));
+    try {
+      const modelPath = join(projectRoot, 'model.json');
+      const existing: Suggestion = {
+        rule: 'server-promise-all',
+        level: 'warn',
+        message: 'Sequential awaits detected.',
+        loc: { file: 'app/page.tsx', range: { from: 0, to: 10 } },
+      };
+      await mkdir(join(projectRoot, 'app'), { recursive: true });
+      await writeFile(join(projectRoot, 'app/page.tsx'), 'await a();\nawait b();\n', 'utf8');
+      await writeFile(modelPath, JSON.stringify(createModel([existing])), 'utf8');
+
+      const updateOutput = new PassThrough();
+      await updateBaseline({ modelPath, projectRoot, output: updateOutput });
+      expect(readOutput(updateOutput)).toContain('.scx/baseline.json (1 findings)');
+
+      const added: Suggestion = {
+        rule: 'client-hoist-fetch',
+        level: 'info',
+        message: 'Hoist fetch to the server.',
+      };
+      await writeFile(modelPath, JSON.stringify(createModel([existing, added])), 'utf8');
+
+      const checkOutput = new PassThrough();
+      const comparison = await checkBaseline({ modelPath, projectRoot, output: checkOutput });
+
+      expect(comparison.new.map((entry) => entry.rule)).toEqual(['client-hoist-fetch']);
+      expect(comparison.existing.map((entry) => entry.rule)).toEqual(['server-promise-all']);
+      expect(comparison.fixed).toEqual([]);
+      expect(readOutput(checkOutput)).toBe(
+        'NEW | INFO | client-hoist-fetch | app/page.tsx | Hoist fetch to the server.\nBaseline: 1 new, 1 existing, 0 fixed\n'
+      );
+    } finally {
+      await rm(projectRoot, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,140 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PassThrough } from 'node:stream';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import type { Model } from '@rsc-xray/schemas';
+
+import { checkBudgets } from '../budget';
+
+const MODEL: Model = {
+  version: '0.1',
+  build: { nextVersion: '15.0.0', timestamp: '2025-09-20T10:00:00.000Z' },
+  routes: [
+    {
+      route: '/checkout',
+      rootNodeId: 'route:/checkout',
+      totalBytes: 204_800,
+      chunks: ['static/chunks/shared.js', 'static/chunks/checkout.js'],
+    },
+    {
+      route: '/about',
+      rootNodeId: 'route:/about',
+      totalBytes: 10_240,
+      chunks: ['static/chunks/shared.js'],
+    },
+  ],
+  nodes: {
+    'route:/checkout': {
+      id: 'route:/checkout',
+      kind: 'route',
+      children: ['module:app/checkout/page.tsx'],
+    },
+    'route:/about': { id: 'route:/about', kind: 'route', children: [] },
+    'module:app/checkout/page.tsx': {
+      id: 'module:app/checkout/page.tsx',
+      kind: 'server',
+      file: 'app/checkout/page.tsx',
+      children: ['module:app/checkout/Map.tsx'],
+    },
+    'module:app/checkout/Map.tsx': {
+      id: 'module:app/checkout/Map.tsx',
+      kind: 'client',
+      file: 'app/checkout/Map.tsx',
+      bytes: 61_440,
+    },
+  },
+};
+
+function readOutput(stream: PassThrough): () => string {
+  let result = '';
+  stream.on('data', (chunk) => {
+    result += chunk.toString();
+  });
+  return () => result;
+}
+
+describe('checkBudgets', () => {
+  let projectRoot: string;
+  let modelPath: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(join(tmpdir(), 'scx-cli-budget-'));
+    modelPath = join(projectRoot, 'model.json');
+    await writeFile(modelPath, JSON.stringify(MODEL), 'utf8');
+    await mkdir(join(projectRoot, '.next/static/chunks'), { recursive: true });
+    await writeFile(join(projectRoot, '.next/static/chunks/shared.js'), 'x'.repeat(3_072));
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  async function writeBudgets(budgets: unknown[]) {
+    await writeFile(
+      join(projectRoot, 'rsc-xray.budgets.json'),
+      JSON.stringify({ budgets }),
+      'utf8'
+    );
+  }
+
+  it('prints an overage table and records budget diagnostics in the model', async () => {
+    await writeBudgets([
+      {
+        routes: ['/checkout/**'],
+        maxTotalBytes: 153_600,
+        maxClientIslands: 1,
+        maxIslandBytes: 51_200,
+        maxSharedChunkBytes: 2_048,
+      },
+    ]);
+    const output = new PassThrough();
+    const read = readOutput(output);
+
+    const evaluation = await checkBudgets({ modelPath, projectRoot, output });
+
+    expect(evaluation.passed).toBe(false);
+    expect(read()).toBe(
+      [
+        'Route      Budget                                 Limit     Actual    Over',
+        '/checkout  total bytes                            150.0 kB  200.0 kB  +50.0 kB',
+        '/checkout  largest island (app/checkout/Map.tsx)  50.0 kB   60.0 kB   +10.0 kB',
+        '/checkout  shared chunk bytes                     2.0 kB    3.0 kB    +1.0 kB',
+        '',
+        'Budgets failed: 3 overages in 1 of 1 route',
+        '',
+      ].join('\n')
+    );
+
+    const model = JSON.parse(await readFile(modelPath, 'utf8')) as Model;
+    expect(model.nodes['route:/checkout']!.diagnostics?.map(({ rule }) => rule)).toEqual([
+      'route-budget',
+      'route-budget',
+      'route-budget',
+    ]);
+  });
+
+  it('passes routes within budget and clears earlier budget diagnostics', async () => {
+    await writeBudgets([{ routes: ['/checkout/**'], maxTotalBytes: 153_600 }]);
+    await checkBudgets({ modelPath, projectRoot, output: new PassThrough() });
+
+    await writeBudgets([{ routes: ['/**'], maxTotalBytes: 256_000 }]);
+    const output = new PassThrough();
+    const read = readOutput(output);
+    const outputPath = join(projectRoot, 'model.budgets.json');
+    const evaluation = await checkBudgets({ modelPath, projectRoot, outputPath, output });
+
+    expect(evaluation.passed).toBe(true);
+    expect(read()).toBe('Budgets passed: 2 routes within budget\n');
+    const model = JSON.parse(await readFile(outputPath, 'utf8')) as Model;
+    expect(model.nodes['route:/checkout']).not.toHaveProperty('diagnostics');
+  });
+
+  it('fails when the budgets file is missing', async () => {
+    await expect(
+      checkBudgets({ modelPath, projectRoot, output: new PassThrough() })
+    ).rejects.toThrow('Budgets file not found');
+  });
+});
@@ -0,0 +1,160 @@
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { PassThrough } from 'node:stream';
+
+import { describe, expect, it } from 'vitest';
+
+import { check } from '../check';
+
+const FILES: Record<string, string> = {
+  '.next/build-manifest.json': '{"pages":{}}',
+  'app/page.tsx': `export default async function Page() {\n  const a = await getA();\n  const b = await getB();\n  return <div>{a}{b}</div>;\n}\n`,
+  'app/Uploader.tsx': `'use client';\nimport { readFileSync } from 'fs';\n\nexport function Uploader() {\n  return <button onClick={() => readFileSync('x')} />;\n}\n`,
+};
+
+function readOutput(stream: PassThrough): string {
+  return stream.read()?.toString() ?? '';
+}
+
+async function withProject(run: (projectRoot: string) => Promise<void>) {
+  const projectRoot = await mkdtemp(join(tmpdir(), 'scx-cli-check-'));
+  try {
+    for (const [file, content] of Object.entries(FILES)) {
+      await mkdir(dirname(join(projectRoot, file)), { recursive: true });
+      await writeFile(join(projectRoot, file), content, 'utf8');
+    }
+    await run(projectRoot);
+  } finally {
+    await rm(projectRoot, { recursive: true, force: true });
+  }
+}
+
+describe('check', () => {
+  it('fails on errors by default and prints findings grouped by severity and rule', async () => {
+    await withProject(async (projectRoot) => {
+      const output = new PassThrough();
+      const result = await check({ projectRoot, output });
+
+      expect(result.exitCode).toBe(1);
+      expect(result.counts.error).toBe(1);
+      expect(readOutput(output)).toBe(
+        [
+          'ERROR client-forbidden-import (1)',
+          "  app/Uploader.tsx:2:30 Client components must not import 'fs'.",
+          'WARNING route-waterfall (1)',
+          '  app/page.tsx:3:13 Waterfall suspected in app/page.tsx. Wrap independent awaits in Promise.all, or use Next.js preload / React 19 cache() to start work earlier.',
+          'WARNING suspense-boundary-missing (1)',
+          '  app/page.tsx:4:10 Async server component with 2 await expressions should be wrapped in a Suspense boundary for optimal streaming.',
+          'INFO server-promise-all (1)',
+          '  app/page.tsx:3:13 Consider wrapping independent awaits in Promise.all to run them in parallel.',
+          'INFO suspense-boundary-opportunity (1)',
+          '  app/page.tsx:4:10 Consider splitting 2 await expressions into parallel Suspense boundaries for better streaming performance.',
+          '',
+          '5 findings (1 error, 2 warnings, 2 info)',
+          'Check failed: 1 finding at or above --fail-on error',
+          '',
+        ].join('\n')
+      );
+    });
+  });
+
+  it('applies rule filters before the thresholds', async () => {
+    await withProject(async (projectRoot) => {
+      const output = new PassThrough();
+      const result = await check({
+        projectRoot,
+        ignoreRules: ['client-forbidden-import'],
+        output,
+      });
+
+      expect(result.exitCode).toBe(0);
+      expect(result.diagnostics.map((diagnostic) => diagnostic.rule)).not.toContain(
+        'client-forbidden-import'
+      );
+      expect(readOutput(output)).toMatch(/\(0 errors, 2 warnings, 2 info\)\nCheck passed\n$/);
+
+      const onlyRule = await check({
+        projectRoot,
+        rules: ['server-promise-all'],
+        failOn: 'info',
+        output: new PassThrough(),
+      });
+      expect(onlyRule.diagnostics.map((diagnostic) => diagnostic.rule)).toEqual([
+        'server-promise-all',
+      ]);
+      expect(onlyRule.failures).toEqual(['1 finding at or above --fail-on info']);
+    });
+  });
+
+  it('fails when warnings exceed --max-warnings', async () => {
+    await withProject(async (projectRoot) => {
+      await writeFile(
+        join(projectRoot, 'rsc-xray.config.json'),
+        JSON.stringify({
+          rules: {
+            'server-promise-all': 'warn',
+            'client-forbidden-import': 'off',
+            'route-waterfall': 'off',
+            'suspense-boundary-missing': 'off',
+          },
+        }),
+        'utf8'
+      );
+
+      const lenient = await check({ projectRoot, maxWarnings: 1, output: new PassThrough() });
+      expect(lenient.passed).toBe(true);
+
+      const strict = await check({ projectRoot, maxWarnings: 0, output: new PassThrough() });
+      expect(strict.failures).toEqual(['1 warning exceed --max-warnings 0']);
+      expect(strict.exitCode).toBe(1);
+    });
+  });
+
+  it('writes the filtered findings as SARIF', async () => {
+    await withProject(async (projectRoot) => {
+      const outputPath = join(projectRoot, 'results.sarif');
+      const result = await check({
+        projectRoot,
+        format: 'sarif',
+        rules: ['client-forbidden-import'],
+        outputPath,
+      });
+
+      expect(result.exitCode).toBe(1);
+      const log = JSON.parse(await readFile(outputPath, 'utf8'));
+      expect(log.version).toBe('2.1.0');
+      expect(log.runs[0].tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual([
+        'client-forbidden-import',
+      ]);
+      expect(log.runs[0].results).toEqual([
+        expect.objectContaining({
+          ruleId: 'client-forbidden-import',
+          level: 'error',
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: 'app/Uploader.tsx', uriBaseId: '%SRCROOT%' },
+                region: { startLine: 2, startColumn: 30, endLine: 2, endColumn: 34 },
+              },
+            },
+          ],
+        }),
+      ]);
+    });
+  });
+
+  it('reports the same findings from the analysis cache', async () => {
+    await withProject(async (projectRoot) => {
+      const first = await check({ projectRoot, cache: true, output: new PassThrough() });
+      const cached = await check({ projectRoot, cache: true, output: new PassThrough() });
+
+      const cache = JSON.parse(
+        await readFile(join(projectRoot, '.scx/cache/analysis.json'), 'utf8')
+      );
+      expect(Object.keys(cache.files).sort()).toEqual(['app/Uploader.tsx', 'app/page.tsx']);
+      expect(cached.counts).toEqual(first.counts);
+      expect(cached.diagnostics).toEqual(first.diagnostics);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PassThrough } from 'node:stream';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import type { Model } from '@rsc-xray/schemas';
+
+import { diffModelFiles, type DiffFormat } from '../diff';
+
+const BASE: Model = {
+  version: '0.1',
+  build: { nextVersion: '15.0.0', timestamp: '2025-09-20T10:00:00.000Z' },
+  routes: [
+    { route: '/', rootNodeId: 'route:/', totalBytes: 102_400, cache: { revalidateSeconds: 60 } },
+  ],
+  nodes: {
+    'module:app/page.tsx': {
+      id: 'module:app/page.tsx',
+      kind: 'server',
+      file: 'app/page.tsx',
+      diagnostics: [
+        { rule: 'client-forbidden-import', level: 'error', message: "Don't import 'fs'." },
+      ],
+    },
+  },
+};
+
+const HEAD: Model = {
+  ...BASE,
+  routes: [
+    {
+      route: '/',
+      rootNodeId: 'route:/',
+      totalBytes: 133_120,
+      cache: { dynamic: 'force-dynamic' },
+    },
+  ],
+  nodes: {
+    'module:app/page.tsx': {
+      id: 'module:app/page.tsx',
+      kind: 'server',
+      file: 'app/page.tsx',
+      suggestions: [{ rule: 'route-waterfall', level: 'warn', message: 'A | B awaits.' }],
+    },
+    'module:app/Search.tsx': {
+      id: 'module:app/Search.tsx',
+      kind: 'client',
+      file: 'app/Search.tsx',
+      bytes: 30_720,
+    },
+  },
+};
+
+function readOutput(stream: PassThrough): () => string {
+  let result = '';
+  stream.on('data', (chunk) => {
+    result += chunk.toString();
+  });
+  return () => result;
+}
+
+describe('diffModelFiles', () => {
+  let dir: string;
+  let basePath: string;
+  let headPath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'scx-cli-diff-'));
+    basePath = join(dir, 'base.json');
+    headPath = join(dir, 'head.json');
+    await writeFile(basePath, JSON.stringify(BASE), 'utf8');
+    await writeFile(headPath, JSON.stringify(HEAD), 'utf8');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function runDiff(format?: DiffFormat, paths = { basePath, headPath }): Promise<string> {
+    const output = new PassThrough();
+    const read = readOutput(output);
+    await diffModelFiles({ ...paths, format, output });
+    return read();
+  }
+
+  it('prints the changes as aligned text sections', async () => {
+    expect(await runDiff()).toBe(
+      [
+        'Route bytes',
+        '  Route  Base      Head      Change',
+        '  /      100.0 kB  130.0 kB  +30.0 kB',
+        '',
+        'Node bytes',
+        '  Node            Base  Head     Change',
+        '  app/Search.tsx  -     30.0 kB  +30.0 kB',
+        '',
+        'Client islands',
+        '  Change  Island          Bytes',
+        '  added   app/Search.tsx  30.0 kB',
+        '',
+        'Static/dynamic',
+        '  Route  Base                     Head',
+        '  /      static (revalidate 60s)  dynamic (force-dynamic)',
+        '',
+        'Diagnostics',
+        '  Change    Level  Rule                     File          Message',
+        "  resolved  ERROR  client-forbidden-import  app/page.tsx  Don't import 'fs'.",
+        '',
+        'Suggestions',
+        '  Change  Level  Rule             File          Message',
+        '  added   WARN   route-waterfall  app/page.tsx  A | B awaits.',
+        '',
+        '1 route size change; 1 client island added, 0 removed; 1 static/dynamic flip; 1 finding added, 1 resolved',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('prints Markdown tables for reviews', async () => {
+    const markdown = await runDiff('markdown');
+
+    expect(markdown.startsWith('## rsc-xray diff\n\n1 route size change;')).toBe(true);
+    expect(markdown).toContain(
+      '### Route bytes\n\n| Route | Base | Head | Change |\n| --- | --- | --- | --- |\n| / | 100.0 kB | 130.0 kB | +30.0 kB |'
+    );
+    expect(markdown).toContain(
+      '| added | WARN | route-waterfall | app/page.tsx | A \\| B awaits. |'
+    );
+  });
+
+  it('prints the diff as JSON and writes it to a file', async () => {
+    const outputPath = join(dir, 'diff.json');
+    await diffModelFiles({ basePath, headPath, format: 'json', outputPath });
+
+    const diff = JSON.parse(await readFile(outputPath, 'utf8'));
+    expect(diff.routeBytes).toEqual([{ route: '/', base: 102_400, head: 133_120, delta: 30_720 }]);
+    expect(diff.cache[0].head).toEqual({ dynamic: 'force-dynamic', rendering: 'dynamic' });
+  });
+
+  it('says so when nothing changed', async () => {
+    expect(await runDiff('text', { basePath, headPath: basePath })).toBe(
+      'No changes between base and head\n'
+    );
+  });
+});
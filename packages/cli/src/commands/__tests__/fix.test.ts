@@ -0,0 +1,156 @@
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PassThrough } from 'node:stream';
+
+import { describe, expect, it } from 'vitest';
+
+import { fix } from '../fix';
+import { createUnifiedDiff } from '../../utils/unifiedDiff';
+
+const PAGE = `export default async function Page() {\n  const a = await getA();\n  const b = await getB();\n  return <div>{a}{b}</div>;\n}\n`;
+const FIXED_PAGE = `export default async function Page() {\n  const [a, b] = await Promise.all([getA(), getB()]);\n  return <div>{a}{b}</div>;\n}\n`;
+
+function readOutput(stream: PassThrough): string {
+  return stream.read()?.toString() ?? '';
+}
+
+async function withProject(run: (projectRoot: string) => Promise<void>) {
+  const projectRoot = await mkdtemp(join(tmpdir(), 'scx-cli-fix-'));
+  try {
+    // No build output: fixing does not need a build
+    await mkdir(join(projectRoot, 'app'), { recursive: true });
+    await writeFile(join(projectRoot, 'app/page.tsx'), PAGE, 'utf8');
+    await run(projectRoot);
+  } finally {
+    await rm(projectRoot, { recursive: true, force: true });
+  }
+}
+
+describe('fix', () => {
+  it('prints unified diffs and a summary on dry runs without touching files', async () => {
+    await withProject(async (projectRoot) => {
+      const output = new PassThrough();
+      const result = await fix({ projectRoot, kinds: ['refactor'], output });
+
+      expect(result.fixes).toHaveLength(1);
+      expect(readOutput(output)).toBe(
+        [
+          '--- a/app/page.tsx',
+          '+++ b/app/page.tsx',
+          '@@ -1,5 +1,4 @@',
+          ' export default async function Page() {',
+          '-  const a = await getA();',
+          '-  const b = await getB();',
+          '+  const [a, b] = await Promise.all([getA(), getB()]);',
+          '   return <div>{a}{b}</div>;',
+          ' }',
+          'app/page.tsx: changed, 1 fixes',
+          '  server-promise-all: Run 2 awaits in parallel with Promise.all',
+          'Dry run: would apply 1 fixes in 1 files; pass --write to apply',
+          '',
+        ].join('\n')
+      );
+      expect(await readFile(join(projectRoot, 'app/page.tsx'), 'utf8')).toBe(PAGE);
+    });
+  });
+
+  it('writes fixed files with --write', async () => {
+    await withProject(async (projectRoot) => {
+      const output = new PassThrough();
+      await fix({ projectRoot, kinds: ['refactor'], write: true, output });
+
+      expect(readOutput(output)).toContain('Applied 1 fixes in 1 files');
+      expect(await readFile(join(projectRoot, 'app/page.tsx'), 'utf8')).toBe(FIXED_PAGE);
+    });
+  });
+
+  it('only applies fixes of the requested rules', async () => {
+    await withProject(async (projectRoot) => {
+      const output = new PassThrough();
+      const result = await fix({
+        projectRoot,
+        rules: ['react19-cache-opportunity'],
+        kinds: ['refactor'],
+        output,
+      });
+
+      expect(result.files).toEqual([]);
+      expect(readOutput(output)).toBe(
+        'Dry run: would apply 0 fixes in 0 files; pass --write to apply\n'
+      );
+    });
+  });
+
+  it('applies refactors only when their kind is requested', async () => {
+    await withProject(async (projectRoot) => {
+      await writeFile(
+        join(projectRoot, 'app/Uploader.tsx'),
+        `'use client';\nimport { readFileSync } from 'fs';\n\nexport function Uploader() {\n  return <button onClick={() => readFileSync('x')} />;\n}\n`,
+        'utf8'
+      );
+      const rules = ['client-forbidden-import'];
+
+      expect((await fix({ projectRoot, rules, output: new PassThrough() })).files).toEqual([]);
+      const result = await fix({
+        projectRoot,
+        rules,
+        kinds: ['refactor'],
+        output: new PassThrough(),
+      });
+      expect(result.files.map((file) => file.file)).toEqual([
+        'app/Uploader.fs.actions.ts',
+        'app/Uploader.tsx',
+      ]);
+    });
+  });
+
+  it('lists the findings whose fixes did not apply', async () => {
+    await withProject(async (projectRoot) => {
+      await writeFile(
+        join(projectRoot, 'app/Uploader.tsx'),
+        `'use client';\nimport { readFileSync } from 'fs';\n\nexport function Uploader() {\n  return <button onClick={() => readFileSync('x')} />;\n}\n`,
+        'utf8'
+      );
+      await writeFile(join(projectRoot, 'app/Uploader.fs.actions.ts'), "'use server';\n", 'utf8');
+      const output = new PassThrough();
+      await fix({ projectRoot, rules: ['client-forbidden-import'], kinds: ['refactor'], output });
+
+      expect(readOutput(output).split('\n').slice(0, 2)).toEqual([
+        '1 findings left unfixed:',
+        "  app/Uploader.tsx: client-forbidden-import: Client components must not import 'fs'. (no fix applies)",
+      ]);
+    });
+  });
+});
+
+describe('createUnifiedDiff', () => {
+  it('splits distant changes into hunks and diffs created files against /dev/null', () => {
+    const before = Array.from({ length: 12 }, (_, index) => `line ${index + 1}`).join('\n');
+    const after = before.replace('line 2', 'line two').replace('line 11', 'line eleven');
+
+    expect(createUnifiedDiff('a.ts', before, after).split('\n')).toEqual([
+      '--- a/a.ts',
+      '+++ b/a.ts',
+      '@@ -1,5 +1,5 @@',
+      ' line 1',
+      '-line 2',
+      '+line two',
+      ' line 3',
+      ' line 4',
+      ' line 5',
+      '@@ -8,5 +8,5 @@',
+      ' line 8',
+      ' line 9',
+      ' line 10',
+      '-line 11',
+      '+line eleven',
+      ' line 12',
+      '',
+    ]);
+    expect(createUnifiedDiff('b.ts', undefined, 'new\n')).toBe(
+      '--- /dev/null\n+++ b/b.ts\n@@ -0,0 +1,1 @@\n+new\n'
+    );
+    expect(createUnifiedDiff('a.ts', before, before)).toBe('');
+  });
+});
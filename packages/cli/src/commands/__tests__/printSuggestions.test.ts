@@ -1,4 +1,4 @@
-import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { PassThrough } from 'node:stream';
@@ -79,6 +79,100 @@ describe('printSuggestions', () => {
     }
   });
 
+  it('prints line and column when the project sources are available', async () => {
+    const model: Model = {
+      version: '0.1',
+      build: { nextVersion: '14.2.0', timestamp: new Date().toISOString() },
+      routes: [],
+      nodes: {
+        'module:app/demo/ClientIsland.tsx': {
+          id: 'module:app/demo/ClientIsland.tsx',
+          kind: 'client',
+          file: 'app/demo/ClientIsland.tsx',
+          suggestions: [
+            {
+              rule: 'client-hoist-fetch',
+              level: 'warn',
+              message: 'Move fetch logic to a server component.',
+              loc: { file: 'app/demo/ClientIsland.tsx', range: { from: 100, to: 110 } },
+            },
+          ],
+        },
+      },
+    };
+
+    const dir = await mkdtemp(join(tmpdir(), 'scx-cli-suggestions-'));
+    try {
+      const modelPath = join(dir, 'model.json');
+      await writeFile(modelPath, JSON.stringify(model, null, 2), 'utf8');
+      await mkdir(join(dir, 'app/demo'), { recursive: true });
+      // 40 characters per line, so offset 100 is on line 3, column 19
+      await writeFile(join(dir, 'app/demo/ClientIsland.tsx'), `${'x'.repeat(40)}\n`.repeat(5));
+
+      const output = new PassThrough();
+      let result = '';
+      output.on('data', (chunk) => {
+        result += chunk.toString();
+      });
+
+      await printSuggestions({ modelPath, projectRoot: dir, output });
+
+      expect(result).toContain('app/demo/ClientIsland.tsx:3:19');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('prints only suggestions through a formatter', async () => {
+    const model: Model = {
+      version: '0.1',
+      build: { nextVersion: '14.2.0', timestamp: new Date().toISOString() },
+      routes: [{ route: '/demo', rootNodeId: 'route:/demo' }],
+      nodes: {
+        'route:/demo': {
+          id: 'route:/demo',
+          kind: 'route',
+          children: ['module:app/demo/ClientIsland.tsx'],
+        },
+        'module:app/demo/ClientIsland.tsx': {
+          id: 'module:app/demo/ClientIsland.tsx',
+          kind: 'client',
+          file: 'app/demo/ClientIsland.tsx',
+          diagnostics: [
+            { rule: 'client-forbidden-import', level: 'error', message: "Don't import 'fs'." },
+          ],
+          suggestions: [
+            {
+              rule: 'client-hoist-fetch',
+              level: 'warn',
+              message: 'Move fetch logic to a server component.',
+            },
+          ],
+        },
+      },
+    };
+
+    const dir = await mkdtemp(join(tmpdir(), 'scx-cli-suggestions-'));
+    try {
+      const modelPath = join(dir, 'model.json');
+      await writeFile(modelPath, JSON.stringify(model, null, 2), 'utf8');
+
+      const output = new PassThrough();
+      let result = '';
+      output.on('data', (chunk) => {
+        result += chunk.toString();
+      });
+
+      await printSuggestions({ modelPath, projectRoot: dir, format: 'junit', output });
+
+      expect(result).toContain('<testsuite name="/demo" tests="1" failures="1">');
+      expect(result).toContain('client-hoist-fetch');
+      expect(result).not.toContain('client-forbidden-import');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
   it('prints helper text when no suggestions are present', async () => {
     const model: Model = {
       version: '0.1',
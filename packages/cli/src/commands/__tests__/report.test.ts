@@ -1,4 +1,4 @@
-import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 
@@ -64,6 +64,45 @@ describe('generateReport', () => {
     }
   });
 
+  it('lists located findings with code frames from the project sources', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'scx-cli-report-findings-'));
+    try {
+      const source = `export default async function Page() {\n  const a = await getA();\n  const b = await getB();\n}\n`;
+      const from = source.indexOf('const a');
+      const model: Model = {
+        ...VALID_MODEL,
+        nodes: {
+          ...VALID_MODEL.nodes,
+          'module:app/page.tsx': {
+            ...VALID_MODEL.nodes['module:app/page.tsx']!,
+            suggestions: [
+              {
+                rule: 'server-promise-all',
+                level: 'info',
+                message: 'Consider Promise.all for parallel awaits.',
+                loc: { file: 'app/page.tsx', range: { from, to: source.indexOf('}\n', from) } },
+              },
+            ],
+          },
+        },
+      };
+      const modelPath = join(dir, 'model.json');
+      const outputPath = join(dir, 'report.html');
+      await writeFile(modelPath, JSON.stringify(model), 'utf8');
+      await mkdir(join(dir, 'app'), { recursive: true });
+      await writeFile(join(dir, 'app/page.tsx'), source, 'utf8');
+
+      await generateReport({ modelPath, outputPath, projectRoot: dir });
+
+      const html = await readFile(outputPath, 'utf8');
+      expect(html).toContain('Findings (1)');
+      expect(html).toContain('app/page.tsx:2:3');
+      expect(html).toContain('&gt; 2 |   const a = await getA();');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
   it('throws when the model JSON is invalid', async () => {
     const dir = await mkdtemp(join(tmpdir(), 'scx-cli-report-invalid-'));
     try {
@@ -0,0 +1,47 @@
+import { PassThrough } from 'node:stream';
+
+import { describe, expect, it } from 'vitest';
+
+import { printRules } from '../rules';
+
+function capture() {
+  const output = new PassThrough();
+  let text = '';
+  output.on('data', (chunk) => {
+    text += chunk.toString();
+  });
+  return { output, read: () => text };
+}
+
+describe('printRules', () => {
+  it('lists the rule catalogue grouped by category', () => {
+    const { output, read } = capture();
+
+    const rules = printRules({ output });
+
+    const lines = read().trim().split('\n');
+    expect(lines[0]).toBe('Rule | Category | Type | Default | Description');
+    expect(lines).toContain(
+      'unused-suppression | best-practice | diagnostic | WARN | Suppression comments should still silence a finding.'
+    );
+    expect(rules.map((rule) => rule.category)).toEqual(
+      [...rules.map((rule) => rule.category)].sort()
+    );
+  });
+
+  it('explains one rule by id or alias', () => {
+    const { output, read } = capture();
+
+    printRules({ ruleId: 'serialization-boundary-violation', output });
+
+    const text = read();
+    expect(text.startsWith('server-client-serialization-violation\n')).toBe(true);
+    expect(text).toContain('Aliases: serialization-boundary-violation');
+    expect(text).toContain('Default level: error');
+    expect(text).toContain('Invalid:\n  <Button onClick={() => track()} />');
+  });
+
+  it('rejects unknown rules', () => {
+    expect(() => printRules({ ruleId: 'no-such-rule' })).toThrow("Unknown rule 'no-such-rule'");
+  });
+});
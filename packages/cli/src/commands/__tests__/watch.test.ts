@@ -0,0 +1,160 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PassThrough } from 'node:stream';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import type { Model } from '@rsc-xray/schemas';
+
+import { watch, type WatchAnalysis } from '../watch';
+
+const PAGE = `import { Price } from './Price';\n\nexport default function Page() {\n  return <Price />;\n}\n`;
+const PRICE = `'use client';\n\nexport function Price() {\n  return <button onClick={() => {}}>1</button>;\n}\n`;
+const PRICE_WITH_FS = `'use client';\nimport { readFileSync } from 'fs';\n\nexport function Price() {\n  return <button onClick={() => {}}>1</button>;\n}\n`;
+
+function readOutput(stream: PassThrough): () => string {
+  let result = '';
+  stream.on('data', (chunk) => {
+    result += chunk.toString();
+  });
+  return () => result;
+}
+
+describe('watch', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(join(tmpdir(), 'scx-cli-watch-'));
+    await mkdir(join(projectRoot, 'app'), { recursive: true });
+    await mkdir(join(projectRoot, '.next'), { recursive: true });
+    await writeFile(join(projectRoot, 'app/page.tsx'), PAGE, 'utf8');
+    await writeFile(join(projectRoot, 'app/Price.tsx'), PRICE, 'utf8');
+    await writeFile(join(projectRoot, '.next/build-manifest.json'), '{"pages":{}}', 'utf8');
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('re-analyzes changed files and prints the findings they add and resolve', async () => {
+    const controller = new AbortController();
+    const output = new PassThrough();
+    const read = readOutput(output);
+    const modelPath = join(projectRoot, 'model.json');
+    const analyses: WatchAnalysis[] = [];
+    let notify: () => void = () => {};
+    const nextAnalysis = () =>
+      new Promise<void>((resolve, reject) => {
+        const timeout = setTimeout(() => reject(new Error('No analysis within 5s')), 5_000);
+        notify = () => {
+          clearTimeout(timeout);
+          resolve();
+        };
+      });
+
+    let pending = nextAnalysis();
+    const watching = watch({
+      projectRoot,
+      modelPath,
+      debounceMs: 20,
+      signal: controller.signal,
+      output,
+      onAnalyze: (analysis) => {
+        analyses.push(analysis);
+        notify();
+      },
+    });
+
+    try {
+      await pending;
+      expect(analyses[0]!.analyzedFiles).toEqual(['app/Price.tsx', 'app/page.tsx']);
+
+      pending = nextAnalysis();
+      await writeFile(join(projectRoot, 'app/Price.tsx'), PRICE_WITH_FS, 'utf8');
+      await pending;
+
+      expect(analyses[1]!.changedFiles).toEqual(['app/Price.tsx']);
+      expect(analyses[1]!.analyzedFiles).toEqual(['app/Price.tsx', 'app/page.tsx']);
+      const model = JSON.parse(await readFile(modelPath, 'utf8')) as Model;
+      expect(model.nodes['module:app/Price.tsx']!.diagnostics?.map(({ rule }) => rule)).toEqual([
+        'client-forbidden-import',
+      ]);
+
+      pending = nextAnalysis();
+      await writeFile(join(projectRoot, 'app/Price.tsx'), PRICE, 'utf8');
+      await pending;
+    } finally {
+      controller.abort();
+      await watching;
+    }
+
+    const lines = read().trimEnd().split('\n');
+    expect(lines.slice(0, 3)).toEqual([
+      'Initial analysis: 0 findings',
+      'Watching app for changes',
+      'Changed app/Price.tsx; re-analyzed 2 files',
+    ]);
+    expect(lines[3]).toMatch(/^\+ ERROR client-forbidden-import app\/Price\.tsx /);
+    expect(lines.slice(4, 6)).toEqual([
+      '1 finding (1 new, 0 resolved)',
+      'Changed app/Price.tsx; re-analyzed 2 files',
+    ]);
+    expect(lines[6]).toMatch(/^- ERROR client-forbidden-import app\/Price\.tsx /);
+    expect(lines[7]).toBe('0 findings (0 new, 1 resolved)');
+  });
+
+  it('analyzes again when the middleware outside the source directories changes', async () => {
+    const controller = new AbortController();
+    const analyses: WatchAnalysis[] = [];
+    let notify: () => void = () => {};
+    const nextAnalysis = () =>
+      new Promise<void>((resolve, reject) => {
+        const timeout = setTimeout(() => reject(new Error('No analysis within 5s')), 5_000);
+        notify = () => {
+          clearTimeout(timeout);
+          resolve();
+        };
+      });
+
+    let pending = nextAnalysis();
+    const watching = watch({
+      projectRoot,
+      debounceMs: 20,
+      signal: controller.signal,
+      output: new PassThrough(),
+      onAnalyze: (analysis) => {
+        analyses.push(analysis);
+        notify();
+      },
+    });
+
+    try {
+      await pending;
+      expect(analyses[0]!.model.routes[0]).not.toHaveProperty('middleware');
+
+      pending = nextAnalysis();
+      await writeFile(
+        join(projectRoot, 'middleware.ts'),
+        "export function middleware() {}\n\nexport const config = { matcher: '/' };\n",
+        'utf8'
+      );
+      await pending;
+
+      expect(analyses[1]!.changedFiles).toEqual(['middleware.ts']);
+      expect(analyses[1]!.model.routes[0]?.middleware).toEqual(['middleware.ts']);
+    } finally {
+      controller.abort();
+      await watching;
+    }
+  });
+
+  it('resolves right away when the signal is already aborted', async () => {
+    const output = new PassThrough();
+    const read = readOutput(output);
+
+    await watch({ projectRoot, signal: AbortSignal.abort(), output });
+
+    expect(read()).toBe('Initial analysis: 0 findings\nWatching app for changes\n');
+  });
+});
@@ -0,0 +1,90 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Writable } from 'node:stream';
+
+import type { Model } from '@rsc-xray/schemas';
+import {
+  collectBaselineEntries,
+  compareWithBaseline,
+  createBaseline,
+  DEFAULT_BASELINE_PATH,
+  readBaseline,
+  writeBaseline,
+  type Baseline,
+  type BaselineComparison,
+  type BaselineEntry,
+  type BaselineStatus,
+} from '@rsc-xray/analyzer';
+
+export interface BaselineOptions {
+  modelPath: string;
+  /** Root the model's file paths are relative to; fingerprints read sources from here */
+  projectRoot: string;
+  /** Defaults to `.scx/baseline.json` in the project root */
+  baselinePath?: string;
+  output?: Writable;
+}
+
+const DEFAULT_OUTPUT: Writable = process.stdout;
+
+async function readModel(modelPath: string): Promise<Model> {
+  const raw = await readFile(modelPath, 'utf8');
+  try {
+    return JSON.parse(raw) as Model;
+  } catch (error) {
+    throw new Error(`Failed to parse model JSON from ${modelPath}: ${(error as Error).message}`);
+  }
+}
+
+function formatEntry(status: BaselineStatus, entry: BaselineEntry): string {
+  return [
+    status.toUpperCase(),
+    entry.level.toUpperCase(),
+    entry.rule,
+    entry.file,
+    entry.message,
+  ].join(' | ');
+}
+
+/**
+ * Record every current finding as accepted, replacing the previous baseline
+ */
+export async function updateBaseline({
+  modelPath,
+  projectRoot,
+  baselinePath = join(projectRoot, DEFAULT_BASELINE_PATH),
+  output = DEFAULT_OUTPUT,
+}: BaselineOptions): Promise<Baseline> {
+  const baseline = await createBaseline(await readModel(modelPath), projectRoot);
+  await writeBaseline(baselinePath, baseline);
+  output.write(`Baseline written to ${baselinePath} (${baseline.findings.length} findings)\n`);
+  return baseline;
+}
+
+/**
+ * Classify the model's findings as new, existing, or fixed relative to the baseline and print
+ * the new and fixed ones. Callers fail the build when `new` is not empty.
+ */
+export async function checkBaseline({
+  modelPath,
+  projectRoot,
+  baselinePath = join(projectRoot, DEFAULT_BASELINE_PATH),
+  output = DEFAULT_OUTPUT,
+}: BaselineOptions): Promise<BaselineComparison> {
+  const [baseline, current] = await Promise.all([
+    readBaseline(baselinePath),
+    readModel(modelPath).then((model) => collectBaselineEntries(model, projectRoot)),
+  ]);
+  const comparison = compareWithBaseline(baseline, current);
+
+  const lines = [
+    ...comparison.new.map((entry) => formatEntry('new', entry)),
+    ...comparison.fixed.map((entry) => formatEntry('fixed', entry)),
+  ];
+  lines.push(
+    `Baseline: ${comparison.new.length} new, ${comparison.existing.length} existing, ${comparison.fixed.length} fixed`
+  );
+  output.write(`${lines.join('\n')}\n`);
+
+  return comparison;
+}
@@ -0,0 +1,106 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Writable } from 'node:stream';
+
+import {
+  applyBudgetDiagnostics,
+  DEFAULT_BUDGETS_PATH,
+  evaluateBudgets,
+  formatBytes,
+  readBudgets,
+  readChunkSizes,
+  type BudgetEvaluation,
+  type BudgetMetric,
+  type BudgetOverage,
+} from '@rsc-xray/analyzer';
+import type { Model } from '@rsc-xray/schemas';
+
+export interface BudgetOptions {
+  modelPath: string;
+  /** Root of the project; the budgets file and build output are looked up here */
+  projectRoot: string;
+  /** Defaults to `rsc-xray.budgets.json` in the project root */
+  budgetsPath?: string;
+  /** Build output the chunk sizes are read from, relative to the project root */
+  distDir?: string;
+  /** Where the model with budget diagnostics is written; defaults to the model path */
+  outputPath?: string;
+  output?: Writable;
+}
+
+const DEFAULT_OUTPUT: Writable = process.stdout;
+
+const METRIC_LABELS: Record<BudgetMetric, string> = {
+  totalBytes: 'total bytes',
+  clientIslands: 'client islands',
+  islandBytes: 'largest island',
+  sharedChunkBytes: 'shared chunk bytes',
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+async function readModel(modelPath: string): Promise<Model> {
+  const raw = await readFile(modelPath, 'utf8');
+  try {
+    return JSON.parse(raw) as Model;
+  } catch (error) {
+    throw new Error(`Failed to parse model JSON from ${modelPath}: ${(error as Error).message}`);
+  }
+}
+
+function formatOverageRow({ route, metric, limit, actual, island }: BudgetOverage): string[] {
+  const format = metric === 'clientIslands' ? String : formatBytes;
+  const label = island
+    ? `${METRIC_LABELS[metric]} (${island.file ?? island.id})`
+    : METRIC_LABELS[metric];
+  return [route, label, format(limit), format(actual), `+${format(actual - limit)}`];
+}
+
+function formatOverageTable(overages: readonly BudgetOverage[]): string[] {
+  const rows = [['Route', 'Budget', 'Limit', 'Actual', 'Over'], ...overages.map(formatOverageRow)];
+  const widths = rows[0]!.map((_, index) => Math.max(...rows.map((row) => row[index]!.length)));
+  return rows.map((row) =>
+    row
+      .map((cell, index) => (index < row.length - 1 ? cell.padEnd(widths[index]!) : cell))
+      .join('  ')
+  );
+}
+
+/**
+ * Check the model's routes against the budgets file, print the limits they exceed, and write
+ * the model back with a `route-budget` diagnostic per overage. Callers fail the build when
+ * `passed` is false.
+ */
+export async function checkBudgets({
+  modelPath,
+  projectRoot,
+  budgetsPath = join(projectRoot, DEFAULT_BUDGETS_PATH),
+  distDir,
+  outputPath = modelPath,
+  output = DEFAULT_OUTPUT,
+}: BudgetOptions): Promise<BudgetEvaluation> {
+  const [model, budgets] = await Promise.all([readModel(modelPath), readBudgets(budgetsPath)]);
+  const chunkSizes = await readChunkSizes({
+    projectRoot,
+    distDir,
+    chunks: model.routes.flatMap((route) => route.chunks ?? []),
+  });
+  const evaluation = evaluateBudgets(model, budgets, { chunkSizes });
+
+  const updated = applyBudgetDiagnostics(model, evaluation.overages);
+  await writeFile(outputPath, JSON.stringify(updated, null, 2), 'utf8');
+
+  const lines: string[] = [];
+  if (evaluation.passed) {
+    lines.push(`Budgets passed: ${plural(evaluation.routes.length, 'route')} within budget`);
+  } else {
+    const failedRoutes = new Set(evaluation.overages.map(({ route }) => route));
+    lines.push(
+      ...formatOverageTable(evaluation.overages),
+      '',
+      `Budgets failed: ${plural(evaluation.overages.length, 'overage')} in ${failedRoutes.size} of ${plural(evaluation.routes.length, 'route')}`
+    );
+  }
+  output.write(`${lines.join('\n')}\n`);
+  return evaluation;
+}
@@ -0,0 +1,139 @@
+import { writeFile } from 'node:fs/promises';
+import type { Writable } from 'node:stream';
+
+import { analyzeProject, resolveRuleId } from '@rsc-xray/analyzer';
+import type { Model, RscXrayDiagnostic } from '@rsc-xray/schemas';
+
+import {
+  countFindings,
+  createFormatterContext,
+  getFormatter,
+  type FindingCounts,
+} from '../formatters';
+
+export type FailOnLevel = 'error' | 'warn' | 'info';
+
+export const FAIL_ON_LEVELS: readonly FailOnLevel[] = ['error', 'warn', 'info'];
+
+export interface CheckOptions {
+  projectRoot: string;
+  distDir?: string;
+  appDir?: string;
+  pagesDir?: string;
+  /** Config file to use instead of `rsc-xray.config.*` in the project root */
+  configPath?: string;
+  /** Reuse per-file results from `.scx/cache` for unchanged files and update it */
+  cache?: boolean;
+  /** Lowest level that fails the check; defaults to 'error' */
+  failOn?: FailOnLevel;
+  /** Fail when there are more warnings than this, whatever `failOn` says */
+  maxWarnings?: number;
+  /** Only count findings of these rules */
+  rules?: string[];
+  /** Never count findings of these rules */
+  ignoreRules?: string[];
+  /** Name of a formatter; defaults to the grouped `text` summary */
+  format?: string;
+  /** Write the output to this file instead of the output stream */
+  outputPath?: string;
+  output?: Writable;
+}
+
+export interface CheckResult {
+  model: Model;
+  /** Findings left after the rule filters, sorted by file and position */
+  diagnostics: RscXrayDiagnostic[];
+  counts: FindingCounts;
+  passed: boolean;
+  /** Why the check failed; empty when it passed */
+  failures: string[];
+  /** 1 when the check failed, for `process.exitCode` */
+  exitCode: 0 | 1;
+}
+
+const DEFAULT_OUTPUT: Writable = process.stdout;
+
+/** Severities that fail the check for each `failOn` level */
+const FAILING_SEVERITIES: Record<FailOnLevel, ReadonlyArray<keyof FindingCounts>> = {
+  error: ['error'],
+  warn: ['error', 'warning'],
+  info: ['error', 'warning', 'info'],
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+function createRuleFilter(
+  rules: string[] | undefined,
+  ignoreRules: string[] | undefined
+): (rule: string) => boolean {
+  const only = rules?.length ? new Set(rules.map(resolveRuleId)) : undefined;
+  const ignored = new Set((ignoreRules ?? []).map(resolveRuleId));
+  return (rule) => {
+    const id = resolveRuleId(rule);
+    return (!only || only.has(id)) && !ignored.has(id);
+  };
+}
+
+function evaluate(
+  counts: FindingCounts,
+  failOn: FailOnLevel,
+  maxWarnings: number | undefined
+): string[] {
+  const failures: string[] = [];
+  const failing = FAILING_SEVERITIES[failOn].reduce((sum, severity) => sum + counts[severity], 0);
+  if (failing > 0) {
+    failures.push(`${plural(failing, 'finding')} at or above --fail-on ${failOn}`);
+  }
+  if (maxWarnings !== undefined && counts.warning > maxWarnings) {
+    failures.push(`${plural(counts.warning, 'warning')} exceed --max-warnings ${maxWarnings}`);
+  }
+  return failures;
+}
+
+/**
+ * Analyze the project and decide whether its findings pass the thresholds. Prints the findings
+ * in the requested format and returns the exit code a CI step should use.
+ */
+export async function check({
+  projectRoot,
+  distDir,
+  appDir,
+  pagesDir,
+  configPath,
+  cache,
+  failOn = 'error',
+  maxWarnings,
+  rules,
+  ignoreRules,
+  format = 'text',
+  outputPath,
+  output = DEFAULT_OUTPUT,
+}: CheckOptions): Promise<CheckResult> {
+  const formatter = getFormatter(format);
+  const model = await analyzeProject({
+    projectRoot,
+    distDir,
+    appDir,
+    pagesDir,
+    configPath,
+    cache,
+  });
+  const includeRule = createRuleFilter(rules, ignoreRules);
+  const context = await createFormatterContext(model, projectRoot, {
+    filter: (finding) => includeRule(finding.rule),
+  });
+
+  const { diagnostics } = context;
+  const counts = countFindings(diagnostics);
+  const failures = evaluate(counts, failOn, maxWarnings);
+  const passed = failures.length === 0;
+
+  const text = formatter.format({ ...context, check: { counts, passed, failures } });
+  if (outputPath) {
+    await writeFile(outputPath, `${text}\n`, 'utf8');
+  } else {
+    output.write(`${text}\n`);
+  }
+
+  return { model, diagnostics, counts, passed, failures, exitCode: passed ? 0 : 1 };
+}
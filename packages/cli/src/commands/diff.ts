@@ -0,0 +1,213 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import type { Writable } from 'node:stream';
+
+import {
+  diffModels,
+  formatBytes,
+  type BytesChange,
+  type ModelDiff,
+  type ModelDiffFinding,
+  type RouteCacheState,
+} from '@rsc-xray/analyzer';
+import type { Model } from '@rsc-xray/schemas';
+
+export type DiffFormat = 'text' | 'json' | 'markdown';
+
+export const DIFF_FORMATS: readonly DiffFormat[] = ['text', 'json', 'markdown'];
+
+export interface DiffOptions {
+  basePath: string;
+  headPath: string;
+  /** Defaults to `text` */
+  format?: DiffFormat;
+  /** Write the output to this file instead of the output stream */
+  outputPath?: string;
+  output?: Writable;
+}
+
+/** A titled table of changes; empty sections are left out */
+interface DiffSection {
+  title: string;
+  columns: string[];
+  rows: string[][];
+}
+
+const DEFAULT_OUTPUT: Writable = process.stdout;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+async function readModel(modelPath: string): Promise<Model> {
+  const raw = await readFile(modelPath, 'utf8');
+  try {
+    return JSON.parse(raw) as Model;
+  } catch (error) {
+    throw new Error(`Failed to parse model JSON from ${modelPath}: ${(error as Error).message}`);
+  }
+}
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${formatBytes(delta)}`;
+
+const bytesCells = ({ base, head, delta }: BytesChange) => [
+  formatBytes(base),
+  formatBytes(head),
+  formatDelta(delta),
+];
+
+function formatCacheState({ rendering, dynamic, revalidateSeconds }: RouteCacheState): string {
+  const details: string[] = [];
+  if (dynamic) {
+    details.push(dynamic);
+  }
+  if (revalidateSeconds !== undefined) {
+    details.push(`revalidate ${revalidateSeconds === false ? 'false' : `${revalidateSeconds}s`}`);
+  }
+  return details.length ? `${rendering} (${details.join(', ')})` : rendering;
+}
+
+const findingRows = (added: ModelDiffFinding[], resolved: ModelDiffFinding[]) =>
+  [
+    ...added.map((finding) => ({ change: 'added', finding })),
+    ...resolved.map((finding) => ({ change: 'resolved', finding })),
+  ].map(({ change, finding }) => [
+    change,
+    finding.level.toUpperCase(),
+    finding.rule,
+    finding.file,
+    finding.message,
+  ]);
+
+function getSections(diff: ModelDiff): DiffSection[] {
+  const sections: DiffSection[] = [
+    {
+      title: 'Routes',
+      columns: ['Change', 'Route'],
+      rows: [
+        ...diff.routes.added.map((route) => ['added', route]),
+        ...diff.routes.removed.map((route) => ['removed', route]),
+      ],
+    },
+    {
+      title: 'Route bytes',
+      columns: ['Route', 'Base', 'Head', 'Change'],
+      rows: diff.routeBytes.map((change) => [change.route, ...bytesCells(change)]),
+    },
+    {
+      title: 'Node bytes',
+      columns: ['Node', 'Base', 'Head', 'Change'],
+      rows: diff.nodeBytes.map((change) => [change.file ?? change.id, ...bytesCells(change)]),
+    },
+    {
+      title: 'Client islands',
+      columns: ['Change', 'Island', 'Bytes'],
+      rows: [
+        ...diff.clientIslands.added.map((island) => ({ change: 'added', island })),
+        ...diff.clientIslands.removed.map((island) => ({ change: 'removed', island })),
+      ].map(({ change, island }) => [change, island.file ?? island.id, formatBytes(island.bytes)]),
+    },
+    {
+      title: 'Static/dynamic',
+      columns: ['Route', 'Base', 'Head'],
+      rows: diff.cache.map(({ route, base, head }) => [
+        route,
+        formatCacheState(base),
+        formatCacheState(head),
+      ]),
+    },
+    {
+      title: 'Diagnostics',
+      columns: ['Change', 'Level', 'Rule', 'File', 'Message'],
+      rows: findingRows(diff.diagnostics.added, diff.diagnostics.resolved),
+    },
+    {
+      title: 'Suggestions',
+      columns: ['Change', 'Level', 'Rule', 'File', 'Message'],
+      rows: findingRows(diff.suggestions.added, diff.suggestions.resolved),
+    },
+  ];
+  return sections.filter((section) => section.rows.length);
+}
+
+function formatSummary(diff: ModelDiff): string {
+  const added = diff.diagnostics.added.length + diff.suggestions.added.length;
+  const resolved = diff.diagnostics.resolved.length + diff.suggestions.resolved.length;
+  const flips = diff.cache.filter(({ base, head }) => base.rendering !== head.rendering).length;
+  return [
+    plural(diff.routeBytes.length, 'route size change'),
+    `${plural(diff.clientIslands.added.length, 'client island')} added, ${diff.clientIslands.removed.length} removed`,
+    plural(flips, 'static/dynamic flip'),
+    `${plural(added, 'finding')} added, ${resolved} resolved`,
+  ].join('; ');
+}
+
+function formatText(diff: ModelDiff, sections: DiffSection[]): string {
+  const lines: string[] = [];
+  for (const { title, columns, rows } of sections) {
+    // Pad every column but the last, which holds free text
+    const widths = columns.map((column, index) =>
+      Math.max(column.length, ...rows.map((row) => row[index].length))
+    );
+    const formatRow = (row: string[]) =>
+      row
+        .map((cell, index) => (index < row.length - 1 ? cell.padEnd(widths[index]) : cell))
+        .join('  ');
+    lines.push(title, `  ${formatRow(columns)}`, ...rows.map((row) => `  ${formatRow(row)}`), '');
+  }
+  lines.push(sections.length ? formatSummary(diff) : 'No changes between base and head');
+  return lines.join('\n');
+}
+
+const escapeMarkdownCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+function formatMarkdown(diff: ModelDiff, sections: DiffSection[]): string {
+  const lines = ['## rsc-xray diff', ''];
+  if (!sections.length) {
+    lines.push('No changes between base and head');
+    return lines.join('\n');
+  }
+  lines.push(formatSummary(diff), '');
+  for (const { title, columns, rows } of sections) {
+    lines.push(
+      `### ${title}`,
+      '',
+      `| ${columns.join(' | ')} |`,
+      `| ${columns.map(() => '---').join(' | ')} |`,
+      ...rows.map((row) => `| ${row.map(escapeMarkdownCell).join(' | ')} |`),
+      ''
+    );
+  }
+  return lines.join('\n').trimEnd();
+}
+
+export function formatModelDiff(diff: ModelDiff, format: DiffFormat = 'text'): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(diff, null, 2);
+    case 'markdown':
+      return formatMarkdown(diff, getSections(diff));
+    default:
+      return formatText(diff, getSections(diff));
+  }
+}
+
+/**
+ * Compare the models of two analysis runs and print what changed: route and node sizes, client
+ * islands, static/dynamic rendering, and findings
+ */
+export async function diffModelFiles({
+  basePath,
+  headPath,
+  format = 'text',
+  outputPath,
+  output = DEFAULT_OUTPUT,
+}: DiffOptions): Promise<ModelDiff> {
+  const [base, head] = await Promise.all([readModel(basePath), readModel(headPath)]);
+  const diff = diffModels(base, head);
+
+  const text = formatModelDiff(diff, format);
+  if (outputPath) {
+    await writeFile(outputPath, `${text}\n`, 'utf8');
+  } else {
+    output.write(`${text}\n`);
+  }
+  return diff;
+}
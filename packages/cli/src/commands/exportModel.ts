@@ -7,6 +7,13 @@ export interface ExportModelOptions {
   projectRoot: string;
   distDir?: string;
   appDir?: string;
+  pagesDir?: string;
+  /** Add component nodes with render edges to the model */
+  components?: boolean;
+  /** Config file to use instead of `rsc-xray.config.*` in the project root */
+  configPath?: string;
+  /** Reuse per-file results from `.scx/cache` for unchanged files and update it */
+  cache?: boolean;
   outputPath: string;
   pretty?: boolean;
 }
@@ -15,10 +22,22 @@ export async function exportModel({
   projectRoot,
   distDir,
   appDir,
+  pagesDir,
+  components,
+  configPath,
+  cache,
   outputPath,
   pretty = true,
 }: ExportModelOptions): Promise<Model> {
-  const model = await analyzeProject({ projectRoot, distDir, appDir });
+  const model = await analyzeProject({
+    projectRoot,
+    distDir,
+    appDir,
+    pagesDir,
+    components,
+    configPath,
+    cache,
+  });
   const json = JSON.stringify(model, null, pretty ? 2 : 0);
   await writeFile(outputPath, json, 'utf8');
   return model;
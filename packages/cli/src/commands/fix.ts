@@ -0,0 +1,96 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import type { Writable } from 'node:stream';
+
+import {
+  fixProject,
+  type AppliedFix,
+  type FixKind,
+  type FixProjectResult,
+} from '@rsc-xray/analyzer';
+
+import { createUnifiedDiff } from '../utils/unifiedDiff';
+
+export interface FixOptions {
+  projectRoot: string;
+  appDir?: string;
+  pagesDir?: string;
+  /** Config file to use instead of `rsc-xray.config.*` in the project root */
+  configPath?: string;
+  /** Only apply fixes of these rules */
+  rules?: string[];
+  /** Kinds of fixes to apply; defaults to quick fixes only */
+  kinds?: FixKind[];
+  /** Write the fixed files; otherwise print their diffs */
+  write?: boolean;
+  output?: Writable;
+}
+
+const DEFAULT_OUTPUT: Writable = process.stdout;
+
+function formatSummary(result: FixProjectResult, write: boolean): string {
+  const fixesByFile = new Map<string, AppliedFix[]>();
+  for (const fix of result.fixes) {
+    fixesByFile.set(fix.file, [...(fixesByFile.get(fix.file) ?? []), fix]);
+  }
+
+  const lines: string[] = [];
+  for (const { file, originalText } of result.files) {
+    const fixes = fixesByFile.get(file) ?? [];
+    const status = originalText === undefined ? 'created' : 'changed';
+    lines.push(fixes.length ? `${file}: ${status}, ${fixes.length} fixes` : `${file}: ${status}`);
+    lines.push(...fixes.map((fix) => `  ${fix.rule}: ${fix.title}`));
+  }
+
+  if (result.unfixed.length) {
+    lines.push(`${result.unfixed.length} findings left unfixed:`);
+    for (const { file, rule, message, reason } of result.unfixed) {
+      const why = reason === 'limit' ? 'too many fixes in this file' : 'no fix applies';
+      lines.push(`  ${file}: ${rule}: ${message} (${why})`);
+    }
+  }
+
+  const totals = `${result.fixes.length} fixes in ${result.files.length} files`;
+  lines.push(write ? `Applied ${totals}` : `Dry run: would apply ${totals}; pass --write to apply`);
+  return lines.join('\n');
+}
+
+/**
+ * Apply the fixes of the project's findings. Without `write` nothing changes on disk and the
+ * output is a unified diff per file; both modes end with a summary of the changed files and the
+ * findings whose fixes did not apply.
+ */
+export async function fix({
+  projectRoot,
+  appDir,
+  pagesDir,
+  configPath,
+  rules,
+  kinds,
+  write = false,
+  output = DEFAULT_OUTPUT,
+}: FixOptions): Promise<FixProjectResult> {
+  const result = await fixProject({
+    projectRoot,
+    appDir,
+    pagesDir,
+    configPath,
+    fixRules: rules,
+    fixKinds: kinds,
+  });
+
+  if (write) {
+    for (const { file, text } of result.files) {
+      const filePath = join(projectRoot, file);
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(filePath, text, 'utf8');
+    }
+  } else {
+    for (const { file, originalText, text } of result.files) {
+      output.write(createUnifiedDiff(file, originalText, text));
+    }
+  }
+
+  output.write(`${formatSummary(result, write)}\n`);
+  return result;
+}
@@ -1,34 +1,82 @@
 import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { cwd } from 'node:process';
 import type { Writable } from 'node:stream';
 
-import type { Model, Suggestion } from '@rsc-xray/schemas';
+import { toRscXrayDiagnostic } from '@rsc-xray/analyzer';
+import type { Model, RscXrayDiagnostic, Suggestion } from '@rsc-xray/schemas';
+
+import { createFormatterContext, getFormatter } from '../formatters';
 
 interface PrintSuggestionsOptions {
   modelPath: string;
+  /** Root the model's file paths are relative to; locations print as `file:line:column` */
+  projectRoot?: string;
+  /** Name of a formatter (e.g. `junit`) to use instead of the table */
+  format?: string;
   output?: Writable;
 }
 
 const DEFAULT_OUTPUT: Writable = process.stdout;
 
 const LEVEL_ORDER: Record<Suggestion['level'], number> = {
-  warn: 0,
-  info: 1,
+  error: 0,
+  warn: 1,
+  info: 2,
 };
 
-function formatLocation(suggestion: Suggestion): string {
+function formatLocation(suggestion: Suggestion, diagnostic: RscXrayDiagnostic): string {
   if (!suggestion.loc) {
     return '-';
   }
-  return `${suggestion.loc.file}:${suggestion.loc.range.from}-${suggestion.loc.range.to}`;
+  // Without the source only the character offsets are known
+  if (diagnostic.endLine === undefined) {
+    return `${suggestion.loc.file}:${suggestion.loc.range.from}-${suggestion.loc.range.to}`;
+  }
+  return `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}`;
+}
+
+async function readSources(
+  projectRoot: string | undefined,
+  files: Iterable<string>
+): Promise<Map<string, string>> {
+  const sources = new Map<string, string>();
+  if (!projectRoot) {
+    return sources;
+  }
+  await Promise.all(
+    Array.from(new Set(files), async (file) => {
+      try {
+        sources.set(file, await readFile(join(projectRoot, file), 'utf8'));
+      } catch {
+        // Missing sources keep the offset form
+      }
+    })
+  );
+  return sources;
 }
 
 export async function printSuggestions({
   modelPath,
+  projectRoot,
+  format,
   output = DEFAULT_OUTPUT,
 }: PrintSuggestionsOptions): Promise<void> {
   const raw = await readFile(modelPath, 'utf8');
   const model = JSON.parse(raw) as Model;
 
+  if (format) {
+    const formatter = getFormatter(format);
+    const suggestions = new Set(
+      Object.values(model.nodes).flatMap((node) => node.suggestions ?? [])
+    );
+    const context = await createFormatterContext(model, projectRoot ?? cwd(), {
+      filter: (finding) => suggestions.has(finding),
+    });
+    output.write(`${formatter.format(context)}\n`);
+    return;
+  }
+
   const collected: Array<{ nodeKind: string; nodeLabel: string; suggestion: Suggestion }> = [];
 
   for (const node of Object.values(model.nodes)) {
@@ -58,12 +106,23 @@ export async function printSuggestions({
     return a.nodeLabel.localeCompare(b.nodeLabel);
   });
 
+  const sources = await readSources(
+    projectRoot,
+    collected.flatMap(({ suggestion }) => (suggestion.loc ? [suggestion.loc.file] : []))
+  );
+
   const header = ['Kind', 'File', 'Level', 'Rule', 'Message', 'Location'];
   const lines: string[] = [header.join(' | ')];
 
   for (const entry of collected) {
     const { suggestion } = entry;
-    const location = formatLocation(suggestion);
+    const location = formatLocation(
+      suggestion,
+      toRscXrayDiagnostic(suggestion, {
+        file: entry.nodeLabel,
+        getSourceText: (file) => sources.get(file),
+      })
+    );
     lines.push(
       [
         entry.nodeKind,
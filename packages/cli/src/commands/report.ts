@@ -1,5 +1,7 @@
 import { readFile, writeFile } from 'node:fs/promises';
+import { cwd } from 'node:process';
 
+import { collectRscXrayDiagnostics } from '@rsc-xray/analyzer';
 import type { Model } from '@rsc-xray/schemas';
 import { renderHtmlReport } from '@rsc-xray/report-html';
 
@@ -8,6 +10,8 @@ import { ensureValidModel } from '../utils/validateModel';
 export interface ReportOptions {
   modelPath: string;
   outputPath: string;
+  /** Root the model's file paths are relative to, for line numbers and code frames */
+  projectRoot?: string;
 }
 
 function parseModel(json: string, sourcePath: string): Model {
@@ -19,12 +23,17 @@ function parseModel(json: string, sourcePath: string): Model {
   }
 }
 
-export async function generateReport({ modelPath, outputPath }: ReportOptions): Promise<void> {
+export async function generateReport({
+  modelPath,
+  outputPath,
+  projectRoot = cwd(),
+}: ReportOptions): Promise<void> {
   const raw = await readFile(modelPath, 'utf8');
   const model = parseModel(raw, modelPath);
 
   ensureValidModel(model);
 
-  const html = renderHtmlReport(model);
+  const diagnostics = await collectRscXrayDiagnostics(model, projectRoot);
+  const html = renderHtmlReport(model, { diagnostics });
   await writeFile(outputPath, html, 'utf8');
 }
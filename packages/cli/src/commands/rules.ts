@@ -0,0 +1,74 @@
+import type { Writable } from 'node:stream';
+
+import { getRuleInfo, RULE_CATALOG, type RuleInfo } from '@rsc-xray/analyzer';
+
+export interface PrintRulesOptions {
+  /** Print the full documentation of one rule (id or alias) instead of the list */
+  ruleId?: string;
+  output?: Writable;
+}
+
+const DEFAULT_OUTPUT: Writable = process.stdout;
+
+const indent = (text: string, prefix: string) =>
+  text
+    .split('\n')
+    .map((line) => `${prefix}${line}`)
+    .join('\n');
+
+function formatRuleDetails(rule: RuleInfo): string {
+  const lines = [rule.id];
+  if (rule.aliases?.length) {
+    lines.push(`Aliases: ${rule.aliases.join(', ')}`);
+  }
+  lines.push(
+    `Category: ${rule.category}`,
+    `Type: ${rule.type}`,
+    `Default level: ${rule.defaultLevel}`,
+    '',
+    rule.description,
+    '',
+    rule.explanation
+  );
+
+  for (const example of rule.examples ?? []) {
+    lines.push('', 'Invalid:', indent(example.invalid, '  '));
+    if (example.valid) {
+      lines.push('Valid:', indent(example.valid, '  '));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Print the built-in rules from the rule catalogue, or the documentation of one rule
+ */
+export function printRules({
+  ruleId,
+  output = DEFAULT_OUTPUT,
+}: PrintRulesOptions = {}): RuleInfo[] {
+  if (ruleId) {
+    const rule = getRuleInfo(ruleId);
+    if (!rule) {
+      throw new Error(`Unknown rule '${ruleId}'`);
+    }
+    output.write(`${formatRuleDetails(rule)}\n`);
+    return [rule];
+  }
+
+  const rules = [...RULE_CATALOG].sort(
+    (a, b) => a.category.localeCompare(b.category) || a.id.localeCompare(b.id)
+  );
+  const header = ['Rule', 'Category', 'Type', 'Default', 'Description'];
+  const lines = [header.join(' | ')];
+  for (const rule of rules) {
+    lines.push(
+      [rule.id, rule.category, rule.type, rule.defaultLevel.toUpperCase(), rule.description].join(
+        ' | '
+      )
+    );
+  }
+  output.write(`${lines.join('\n')}\n`);
+  return rules;
+}
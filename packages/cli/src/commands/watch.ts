@@ -0,0 +1,226 @@
+import { existsSync, watch as watchPath, type FSWatcher } from 'node:fs';
+import { writeFile } from 'node:fs/promises';
+import { extname, join, relative, sep } from 'node:path';
+import type { Writable } from 'node:stream';
+
+import {
+  analyzeProject,
+  collectModelFindings,
+  collectRscXrayDiagnostics,
+  createAnalysisSession,
+  DEFAULT_SOURCE_EXTENSIONS,
+  diffModels,
+  invalidateBuildArtifacts,
+  invalidateFiles,
+  loadConfig,
+  type ModelDiffFinding,
+} from '@rsc-xray/analyzer';
+import type { Model } from '@rsc-xray/schemas';
+import { renderHtmlReport } from '@rsc-xray/report-html';
+
+export interface WatchOptions {
+  projectRoot: string;
+  distDir?: string;
+  appDir?: string;
+  pagesDir?: string;
+  /** Config file to use instead of `rsc-xray.config.*` in the project root */
+  configPath?: string;
+  /** Written after every analysis when set */
+  modelPath?: string;
+  /** HTML report written after every analysis when set */
+  reportPath?: string;
+  /** Quiet period after the last file event before analyzing again */
+  debounceMs?: number;
+  /** Stops watching when aborted; `watch` resolves once the watchers are closed */
+  signal?: AbortSignal;
+  output?: Writable;
+  onAnalyze?: (result: WatchAnalysis) => void;
+}
+
+export interface WatchAnalysis {
+  model: Model;
+  /** Files that changed since the previous analysis; empty for the initial analysis */
+  changedFiles: string[];
+  /**
+   * Files whose rules ran again, i.e. the changed files, the modules importing them, and the
+   * segments below changed boundary files
+   */
+  analyzedFiles: string[];
+  buildChanged: boolean;
+}
+
+const DEFAULT_OUTPUT: Writable = process.stdout;
+
+/** Next.js reads middleware from the project root or `src/` */
+const MIDDLEWARE_DIRS = ['', 'src'];
+const MIDDLEWARE_FILE = /^middleware\.(ts|js)$/;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const toPosix = (path: string) => path.split(sep).join('/');
+
+const formatFinding = (sign: '+' | '-', { level, rule, file, message }: ModelDiffFinding) =>
+  `${sign} ${level.toUpperCase()} ${rule} ${file} ${message}`;
+
+function countFindings(model: Model): number {
+  return collectModelFindings(model).length;
+}
+
+/**
+ * Analyze the project, then keep watching its app and pages directories, its middleware, and the
+ * build output. Changed files and the modules importing them are analyzed again, as are the
+ * segments below a changed boundary file such as `loading.tsx`; everything else reuses the
+ * previous results. Prints the findings each run adds or resolves.
+ */
+export async function watch({
+  projectRoot,
+  distDir = '.next',
+  appDir = 'app',
+  pagesDir = 'pages',
+  configPath,
+  modelPath,
+  reportPath,
+  debounceMs = 100,
+  signal,
+  output = DEFAULT_OUTPUT,
+  onAnalyze,
+}: WatchOptions): Promise<void> {
+  const { config } = await loadConfig(projectRoot, configPath);
+  const extensions = new Set(config.extensions ?? DEFAULT_SOURCE_EXTENSIONS);
+  const session = createAnalysisSession();
+
+  const analyze = async (changedFiles: string[], buildChanged: boolean): Promise<WatchAnalysis> => {
+    const analyzedFiles: string[] = [];
+    const model = await analyzeProject({
+      projectRoot,
+      distDir,
+      appDir,
+      pagesDir,
+      config,
+      session,
+      onRunRules: ({ context }) => {
+        analyzedFiles.push(context.fileName);
+      },
+    });
+    if (modelPath) {
+      await writeFile(modelPath, JSON.stringify(model, null, 2), 'utf8');
+    }
+    if (reportPath) {
+      const diagnostics = await collectRscXrayDiagnostics(model, projectRoot);
+      await writeFile(reportPath, renderHtmlReport(model, { diagnostics }), 'utf8');
+    }
+    const result = { model, changedFiles, analyzedFiles: analyzedFiles.sort(), buildChanged };
+    onAnalyze?.(result);
+    return result;
+  };
+
+  let previous = (await analyze([], false)).model;
+  output.write(`Initial analysis: ${plural(countFindings(previous), 'finding')}\n`);
+
+  const sourceDirs = [appDir, pagesDir].filter((dir) => existsSync(join(projectRoot, dir)));
+  const distRoot = join(projectRoot, distDir);
+  output.write(`Watching ${sourceDirs.join(', ') || 'no source directories'} for changes\n`);
+
+  const pendingFiles = new Set<string>();
+  let pendingBuild = false;
+  let timer: NodeJS.Timeout | undefined;
+  let running: Promise<void> | undefined;
+
+  const run = async () => {
+    const changedFiles = [...pendingFiles].sort();
+    const buildChanged = pendingBuild;
+    pendingFiles.clear();
+    pendingBuild = false;
+
+    if (buildChanged) {
+      invalidateBuildArtifacts(session);
+    } else {
+      invalidateFiles(session, changedFiles);
+    }
+
+    try {
+      const { model, analyzedFiles } = await analyze(changedFiles, buildChanged);
+      const diff = diffModels(previous, model);
+      previous = model;
+
+      const cause = buildChanged ? 'Build output changed' : `Changed ${changedFiles.join(', ')}`;
+      const lines = [`${cause}; re-analyzed ${plural(analyzedFiles.length, 'file')}`];
+      for (const { added, resolved } of [diff.diagnostics, diff.suggestions]) {
+        lines.push(
+          ...added.map((finding) => formatFinding('+', finding)),
+          ...resolved.map((finding) => formatFinding('-', finding))
+        );
+      }
+      const added = diff.diagnostics.added.length + diff.suggestions.added.length;
+      const resolved = diff.diagnostics.resolved.length + diff.suggestions.resolved.length;
+      lines.push(`${plural(countFindings(model), 'finding')} (${added} new, ${resolved} resolved)`);
+      output.write(`${lines.join('\n')}\n`);
+    } catch (error) {
+      output.write(`Analysis failed: ${(error as Error).message}\n`);
+    }
+  };
+
+  const flush = () => {
+    timer = undefined;
+    if (running || signal?.aborted) {
+      return;
+    }
+    running = run().finally(() => {
+      running = undefined;
+      if (pendingFiles.size || pendingBuild) {
+        schedule();
+      }
+    });
+  };
+
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = setTimeout(flush, debounceMs);
+  };
+
+  const watchers: FSWatcher[] = sourceDirs.map((dir) =>
+    watchPath(join(projectRoot, dir), { recursive: true }, (_event, fileName) => {
+      if (!fileName || !extensions.has(extname(fileName))) {
+        return;
+      }
+      pendingFiles.add(toPosix(relative(projectRoot, join(projectRoot, dir, fileName))));
+      schedule();
+    })
+  );
+  for (const dir of MIDDLEWARE_DIRS.filter((dir) => existsSync(join(projectRoot, dir)))) {
+    // Middleware sits outside the source directories, so only its own file is of interest
+    watchers.push(
+      watchPath(join(projectRoot, dir), (_event, fileName) => {
+        if (fileName && MIDDLEWARE_FILE.test(fileName)) {
+          pendingFiles.add(toPosix(join(dir, fileName)));
+          schedule();
+        }
+      })
+    );
+  }
+  if (existsSync(distRoot)) {
+    // Only the manifests at the top of the build output are read, so nested files are ignored
+    watchers.push(
+      watchPath(distRoot, (_event, fileName) => {
+        if (fileName?.endsWith('.json')) {
+          pendingBuild = true;
+          schedule();
+        }
+      })
+    );
+  }
+
+  await new Promise<void>((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    signal?.addEventListener('abort', () => resolve(), { once: true });
+  });
+
+  clearTimeout(timer);
+  for (const watcher of watchers) {
+    watcher.close();
+  }
+  await running;
+}
@@ -0,0 +1,133 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import type { Model } from '@rsc-xray/schemas';
+
+import { createFormatterContext, FORMAT_NAMES, getFormatter } from '..';
+
+const PAGE = `export default async function Page() {\n  const a = await getA();\n  const b = await getB();\n  return <Price />;\n}\n`;
+const PRICE = `'use client';\nimport { readFileSync } from 'fs';\n`;
+
+const MODEL: Model = {
+  version: '0.1',
+  build: { nextVersion: '15.0.0', timestamp: new Date().toISOString() },
+  routes: [
+    { route: '/', rootNodeId: 'route:/' },
+    { route: '/about', rootNodeId: 'route:/about' },
+  ],
+  nodes: {
+    'route:/': {
+      id: 'route:/',
+      kind: 'route',
+      children: ['module:app/page.tsx'],
+      suggestions: [{ rule: 'route-waterfall', level: 'warn', message: 'Waterfall <suspected>.' }],
+    },
+    'route:/about': { id: 'route:/about', kind: 'route', children: [] },
+    'module:app/page.tsx': {
+      id: 'module:app/page.tsx',
+      kind: 'server',
+      file: 'app/page.tsx',
+      children: ['module:app/Price.tsx'],
+      suggestions: [
+        {
+          rule: 'server-promise-all',
+          level: 'info',
+          message: 'Run awaits in parallel.',
+          loc: { file: 'app/page.tsx', range: { from: 41, to: 63 } },
+        },
+      ],
+    },
+    'module:app/Price.tsx': {
+      id: 'module:app/Price.tsx',
+      kind: 'client',
+      file: 'app/Price.tsx',
+      diagnostics: [
+        {
+          rule: 'client-forbidden-import',
+          level: 'error',
+          message: "Client components must not import 'fs'.",
+          loc: { file: 'app/Price.tsx', range: { from: 43, to: 47 } },
+        },
+      ],
+    },
+    'module:app/lib/unused.ts': {
+      id: 'module:app/lib/unused.ts',
+      kind: 'server',
+      file: 'app/lib/unused.ts',
+      suggestions: [
+        { rule: 'acme/dead-code', level: 'info', message: 'Unused\u0007 module.\u001b' },
+      ],
+    },
+  },
+};
+
+async function formatModel(format: string): Promise<string> {
+  const projectRoot = await mkdtemp(join(tmpdir(), 'scx-cli-formatters-'));
+  try {
+    await mkdir(join(projectRoot, 'app'), { recursive: true });
+    await writeFile(join(projectRoot, 'app/page.tsx'), PAGE, 'utf8');
+    await writeFile(join(projectRoot, 'app/Price.tsx'), PRICE, 'utf8');
+    return getFormatter(format).format(await createFormatterContext(MODEL, projectRoot));
+  } finally {
+    await rm(projectRoot, { recursive: true, force: true });
+  }
+}
+
+describe('formatters', () => {
+  it('lists every format and rejects unknown ones', () => {
+    expect(FORMAT_NAMES).toEqual(['text', 'sarif', 'junit', 'checkstyle']);
+    expect(() => getFormatter('html')).toThrow(
+      "Unknown format 'html', expected text, sarif, junit, checkstyle"
+    );
+  });
+
+  it('groups findings per file with line and column as Checkstyle XML', async () => {
+    expect(await formatModel('checkstyle')).toBe(
+      [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<checkstyle version="4.3">',
+        '  <file name="app/Price.tsx">',
+        '    <error line="2" column="30" severity="error" message="Client components must not import &apos;fs&apos;." source="rsc-xray.client-forbidden-import" />',
+        '  </file>',
+        '  <file name="app/lib/unused.ts">',
+        '    <error line="1" column="1" severity="info" message="Unused module." source="rsc-xray.acme/dead-code" />',
+        '  </file>',
+        '  <file name="app/page.tsx">',
+        '    <error line="2" column="3" severity="info" message="Run awaits in parallel." source="rsc-xray.server-promise-all" />',
+        '  </file>',
+        '  <file name="route:/">',
+        '    <error line="1" column="1" severity="warning" message="Waterfall &lt;suspected&gt;." source="rsc-xray.route-waterfall" />',
+        '  </file>',
+        '</checkstyle>',
+      ].join('\n')
+    );
+  });
+
+  it('writes a JUnit suite per route with a failed test case per finding it renders', async () => {
+    const xml = await formatModel('junit');
+
+    expect(xml).toContain('<testsuites name="rsc-xray" tests="4" failures="4">');
+    expect(xml).toContain('<testsuite name="/" tests="3" failures="3">');
+    expect(xml).toContain('<testsuite name="/about" tests="0" failures="0" />');
+    expect(xml).toContain('<testsuite name="(unrouted)" tests="1" failures="1">');
+    expect(xml).toContain(
+      '    <testcase name="client-forbidden-import app/Price.tsx:2:30" classname="/">\n' +
+        '      <failure type="error" message="Client components must not import &apos;fs&apos;.">app/Price.tsx:2:30 Client components must not import &apos;fs&apos;.\n\n' +
+        '  1 | &apos;use client&apos;;\n' +
+        '&gt; 2 | import { readFileSync } from &apos;fs&apos;;'
+    );
+  });
+
+  it('prints totals without a check outcome as text', async () => {
+    const text = await formatModel('text');
+
+    expect(text.split('\n').slice(0, 2)).toEqual([
+      'ERROR client-forbidden-import (1)',
+      "  app/Price.tsx:2:30 Client components must not import 'fs'.",
+    ]);
+    expect(text.endsWith('\n4 findings (1 error, 1 warning, 2 info)')).toBe(true);
+  });
+});
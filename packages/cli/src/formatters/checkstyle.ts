@@ -0,0 +1,44 @@
+import type { RscXrayDiagnostic } from '@rsc-xray/schemas';
+
+import { escapeXml } from '../utils/xml';
+import type { Formatter } from './types';
+
+const CHECKSTYLE_SEVERITY: Record<RscXrayDiagnostic['severity'], string> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'info',
+  hint: 'info',
+};
+
+/**
+ * Checkstyle XML with one `<file>` per file and an `<error>` per finding. Sources are
+ * `rsc-xray.<rule>`, as ESLint's formatter uses `eslint.rules.<rule>`.
+ */
+export const checkstyleFormatter: Formatter = {
+  name: 'checkstyle',
+  description: 'Checkstyle XML grouped per file',
+  format({ diagnostics }) {
+    const byFile = new Map<string, RscXrayDiagnostic[]>();
+    for (const diagnostic of diagnostics) {
+      byFile.set(diagnostic.file, [...(byFile.get(diagnostic.file) ?? []), diagnostic]);
+    }
+
+    const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<checkstyle version="4.3">'];
+    for (const file of [...byFile.keys()].sort()) {
+      lines.push(`  <file name="${escapeXml(file)}">`);
+      for (const diagnostic of byFile.get(file)!) {
+        const attributes = [
+          `line="${diagnostic.line}"`,
+          `column="${diagnostic.column}"`,
+          `severity="${CHECKSTYLE_SEVERITY[diagnostic.severity]}"`,
+          `message="${escapeXml(diagnostic.message)}"`,
+          `source="rsc-xray.${escapeXml(diagnostic.rule)}"`,
+        ];
+        lines.push(`    <error ${attributes.join(' ')} />`);
+      }
+      lines.push('  </file>');
+    }
+    lines.push('</checkstyle>');
+    return lines.join('\n');
+  },
+};
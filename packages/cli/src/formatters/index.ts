@@ -0,0 +1,71 @@
+import {
+  collectModelFindings,
+  readFindingSources,
+  toRscXrayDiagnostic,
+  type CollectedFinding,
+} from '@rsc-xray/analyzer';
+import type { Diagnostic, Model, Suggestion } from '@rsc-xray/schemas';
+
+import { checkstyleFormatter } from './checkstyle';
+import { junitFormatter } from './junit';
+import { sarifFormatter } from './sarif';
+import { textFormatter } from './text';
+import type { CheckOutcome, Formatter, FormatterContext } from './types';
+
+export type { CheckOutcome, FindingCounts, Formatter, FormatterContext } from './types';
+export { countFindings } from './text';
+
+export const FORMATTERS: readonly Formatter[] = [
+  textFormatter,
+  sarifFormatter,
+  junitFormatter,
+  checkstyleFormatter,
+];
+
+export const FORMAT_NAMES = FORMATTERS.map((formatter) => formatter.name);
+
+export function getFormatter(name: string): Formatter {
+  const formatter = FORMATTERS.find((candidate) => candidate.name === name);
+  if (!formatter) {
+    throw new Error(`Unknown format '${name}', expected ${FORMAT_NAMES.join(', ')}`);
+  }
+  return formatter;
+}
+
+export interface CreateFormatterContextOptions {
+  /** Leave out findings, e.g. of ignored rules */
+  filter?: (finding: Diagnostic | Suggestion) => boolean;
+  check?: CheckOutcome;
+}
+
+/**
+ * Collect the findings of a model for a formatter, positioned against the project's sources
+ */
+export async function createFormatterContext(
+  model: Model,
+  projectRoot: string,
+  { filter, check }: CreateFormatterContextOptions = {}
+): Promise<FormatterContext> {
+  const collected = collectModelFindings(model).filter(({ finding }) => !filter || filter(finding));
+  const sources = await readFindingSources(collected, projectRoot);
+  const getSourceText = (file: string) => sources.get(file);
+
+  const entries = collected
+    .map((entry) => ({
+      entry,
+      diagnostic: toRscXrayDiagnostic(entry.finding, { file: entry.file, getSourceText }),
+    }))
+    .sort(
+      ({ diagnostic: a }, { diagnostic: b }) =>
+        a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column
+    );
+
+  return {
+    model,
+    projectRoot,
+    diagnostics: entries.map(({ diagnostic }) => diagnostic),
+    findings: entries.map(({ entry }): CollectedFinding => entry),
+    getSourceText,
+    ...(check ? { check } : {}),
+  };
+}
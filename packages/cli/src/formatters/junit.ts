@@ -0,0 +1,91 @@
+import type { Model, RscXrayDiagnostic } from '@rsc-xray/schemas';
+
+import { escapeXml } from '../utils/xml';
+import type { Formatter } from './types';
+
+/** Suite of findings in files no route renders */
+export const JUNIT_UNROUTED_SUITE = '(unrouted)';
+
+/**
+ * Files and node ids of every node a route renders. Findings without a location carry the id of
+ * their node as file, so both identify a route's findings.
+ */
+function collectRouteFiles(model: Model, rootNodeId: string): Set<string> {
+  const files = new Set<string>();
+  const visited = new Set<string>();
+  const queue = [rootNodeId];
+  while (queue.length) {
+    const id = queue.shift()!;
+    const node = model.nodes[id];
+    if (visited.has(id) || !node) {
+      continue;
+    }
+    visited.add(id);
+    files.add(node.id);
+    if (node.file) {
+      files.add(node.file);
+    }
+    queue.push(...(node.children ?? []));
+  }
+  return files;
+}
+
+function formatTestcase(suite: string, diagnostic: RscXrayDiagnostic): string[] {
+  const location = `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}`;
+  const details = [`${location} ${diagnostic.message}`];
+  if (diagnostic.codeFrame) {
+    details.push('', diagnostic.codeFrame);
+  }
+  return [
+    `    <testcase name="${escapeXml(`${diagnostic.rule} ${location}`)}" classname="${escapeXml(suite)}">`,
+    `      <failure type="${diagnostic.severity}" message="${escapeXml(diagnostic.message)}">${escapeXml(details.join('\n'))}</failure>`,
+    '    </testcase>',
+  ];
+}
+
+function formatSuite(name: string, diagnostics: readonly RscXrayDiagnostic[]): string[] {
+  const attributes = `name="${escapeXml(name)}" tests="${diagnostics.length}" failures="${diagnostics.length}"`;
+  if (!diagnostics.length) {
+    return [`  <testsuite ${attributes} />`];
+  }
+  return [
+    `  <testsuite ${attributes}>`,
+    ...diagnostics.flatMap((diagnostic) => formatTestcase(name, diagnostic)),
+    '  </testsuite>',
+  ];
+}
+
+/**
+ * JUnit XML with a test suite per route and a failed test case per finding in the files the
+ * route renders. A finding in a shared module fails every route that renders it.
+ */
+export const junitFormatter: Formatter = {
+  name: 'junit',
+  description: 'JUnit XML with a test suite per route',
+  format({ model, diagnostics }) {
+    const routed = new Set<RscXrayDiagnostic>();
+    const suites: string[] = [];
+    let tests = 0;
+
+    for (const route of model.routes) {
+      const files = collectRouteFiles(model, route.rootNodeId);
+      const routeDiagnostics = diagnostics.filter((diagnostic) => files.has(diagnostic.file));
+      routeDiagnostics.forEach((diagnostic) => routed.add(diagnostic));
+      suites.push(...formatSuite(route.route, routeDiagnostics));
+      tests += routeDiagnostics.length;
+    }
+
+    const unrouted = diagnostics.filter((diagnostic) => !routed.has(diagnostic));
+    if (unrouted.length) {
+      suites.push(...formatSuite(JUNIT_UNROUTED_SUITE, unrouted));
+      tests += unrouted.length;
+    }
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="rsc-xray" tests="${tests}" failures="${tests}">`,
+      ...suites,
+      '</testsuites>',
+    ].join('\n');
+  },
+};
@@ -0,0 +1,11 @@
+import { createSarifLog } from '@rsc-xray/analyzer';
+
+import type { Formatter } from './types';
+
+export const sarifFormatter: Formatter = {
+  name: 'sarif',
+  description: 'SARIF 2.1.0 log for code-scanning dashboards',
+  format({ findings, getSourceText, projectRoot }) {
+    return JSON.stringify(createSarifLog(findings, { getSourceText, projectRoot }), null, 2);
+  },
+};
@@ -0,0 +1,71 @@
+import type { RscXrayDiagnostic } from '@rsc-xray/schemas';
+
+import type { FindingCounts, Formatter } from './types';
+
+type CountedSeverity = keyof FindingCounts;
+
+const SEVERITY_ORDER: CountedSeverity[] = ['error', 'warning', 'info'];
+
+// Hints are not produced by rsc-xray itself and count as info
+const toCountedSeverity = (severity: RscXrayDiagnostic['severity']): CountedSeverity =>
+  severity === 'hint' ? 'info' : severity;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+export function countFindings(diagnostics: readonly RscXrayDiagnostic[]): FindingCounts {
+  const counts: FindingCounts = { error: 0, warning: 0, info: 0 };
+  for (const diagnostic of diagnostics) {
+    counts[toCountedSeverity(diagnostic.severity)] += 1;
+  }
+  return counts;
+}
+
+/**
+ * Findings grouped by severity and rule with their `file:line:column`, then the totals and,
+ * for `check`, whether it passed
+ */
+export const textFormatter: Formatter = {
+  name: 'text',
+  description: 'Findings grouped by severity and rule, with totals',
+  format({ diagnostics, check }) {
+    const groups = new Map<string, RscXrayDiagnostic[]>();
+    for (const diagnostic of diagnostics) {
+      const key = `${toCountedSeverity(diagnostic.severity)}\0${diagnostic.rule}`;
+      groups.set(key, [...(groups.get(key) ?? []), diagnostic]);
+    }
+
+    // Errors first, then rules with the most findings
+    const sorted = [...groups.entries()].sort(([keyA, a], [keyB, b]) => {
+      const [severityA, ruleA] = keyA.split('\0') as [CountedSeverity, string];
+      const [severityB, ruleB] = keyB.split('\0') as [CountedSeverity, string];
+      return (
+        SEVERITY_ORDER.indexOf(severityA) - SEVERITY_ORDER.indexOf(severityB) ||
+        b.length - a.length ||
+        ruleA.localeCompare(ruleB)
+      );
+    });
+
+    const lines: string[] = [];
+    for (const [key, group] of sorted) {
+      const [severity, rule] = key.split('\0');
+      lines.push(`${severity.toUpperCase()} ${rule} (${group.length})`);
+      for (const diagnostic of group) {
+        lines.push(
+          `  ${diagnostic.file}:${diagnostic.line}:${diagnostic.column} ${diagnostic.message}`
+        );
+      }
+    }
+    if (lines.length) {
+      lines.push('');
+    }
+
+    const counts = check?.counts ?? countFindings(diagnostics);
+    lines.push(
+      `${plural(diagnostics.length, 'finding')} (${plural(counts.error, 'error')}, ${plural(counts.warning, 'warning')}, ${counts.info} info)`
+    );
+    if (check) {
+      lines.push(check.passed ? 'Check passed' : `Check failed: ${check.failures.join('; ')}`);
+    }
+    return lines.join('\n');
+  },
+};
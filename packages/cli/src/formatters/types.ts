@@ -0,0 +1,39 @@
+import type { CollectedFinding } from '@rsc-xray/analyzer';
+import type { Model, RscXrayDiagnostic } from '@rsc-xray/schemas';
+
+export interface FindingCounts {
+  error: number;
+  warning: number;
+  info: number;
+}
+
+/** Threshold outcome of a `check` run */
+export interface CheckOutcome {
+  counts: FindingCounts;
+  passed: boolean;
+  /** Why the check failed; empty when it passed */
+  failures: string[];
+}
+
+export interface FormatterContext {
+  model: Model;
+  projectRoot: string;
+  /** Findings to print, in the unified format, sorted by file and position */
+  diagnostics: RscXrayDiagnostic[];
+  /** The model findings behind `diagnostics`, in the same order */
+  findings: CollectedFinding[];
+  /** Source of a project file, relative to the project root */
+  getSourceText: (file: string) => string | undefined;
+  /** Set when the findings come from `check` */
+  check?: CheckOutcome;
+}
+
+/**
+ * Turns the findings of a run into the output of one `--format`
+ */
+export interface Formatter {
+  /** Value of `--format` */
+  name: string;
+  description: string;
+  format(context: FormatterContext): string;
+}
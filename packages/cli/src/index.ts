@@ -1,6 +1,14 @@
 export * from './commands/analyze';
 export * from './commands/exportModel';
 export * from './commands/report';
+export * from './commands/baseline';
+export * from './commands/budget';
+export * from './commands/watch';
+export * from './commands/rules';
+export * from './commands/fix';
+export * from './commands/check';
+export * from './commands/diff';
 export * from './commands/printSuggestions';
 export * from './commands/printManifest';
 export * from './commands/flightTap';
+export * from './formatters';
@@ -0,0 +1,128 @@
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+const DEFAULT_CONTEXT_LINES = 3;
+/** Above this many line pairs the changed middle is shown as removed and re-added */
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+  if (!text) {
+    return [];
+  }
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+function diffMiddle(before: string[], after: string[]): DiffOp[] {
+  const removed = before.map((line): DiffOp => ({ type: '-', line }));
+  const added = after.map((line): DiffOp => ({ type: '+', line }));
+  if (!before.length || !after.length || before.length * after.length > MAX_LCS_CELLS) {
+    return [...removed, ...added];
+  }
+
+  // Longest common subsequence lengths of every pair of suffixes
+  const width = after.length + 1;
+  const lengths = new Uint32Array((before.length + 1) * width);
+  for (let i = before.length - 1; i >= 0; i -= 1) {
+    for (let j = after.length - 1; j >= 0; j -= 1) {
+      lengths[i * width + j] =
+        before[i] === after[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      ops.push({ type: ' ', line: before[i] });
+      i += 1;
+      j += 1;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      ops.push(removed[i]);
+      i += 1;
+    } else {
+      ops.push(added[j]);
+      j += 1;
+    }
+  }
+  return [...ops, ...removed.slice(i), ...added.slice(j)];
+}
+
+function diffLines(before: string[], after: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const same = (line: string): DiffOp => ({ type: ' ', line });
+  return [
+    ...before.slice(0, prefix).map(same),
+    ...diffMiddle(
+      before.slice(prefix, before.length - suffix),
+      after.slice(prefix, after.length - suffix)
+    ),
+    ...before.slice(before.length - suffix).map(same),
+  ];
+}
+
+const formatRange = (start: number, count: number) =>
+  // An empty range names the line before it, as in `diff -u`
+  `${count === 0 ? start : start + 1},${count}`;
+
+/**
+ * Line-based unified diff of one file, with `/dev/null` as the old side of created files.
+ * Returns an empty string when nothing changed.
+ */
+export function createUnifiedDiff(
+  file: string,
+  before: string | undefined,
+  after: string,
+  contextLines = DEFAULT_CONTEXT_LINES
+): string {
+  const ops = diffLines(splitLines(before ?? ''), splitLines(after));
+  const changes = ops.flatMap((op, index) => (op.type === ' ' ? [] : [index]));
+  if (!changes.length) {
+    return '';
+  }
+
+  const lines = [before === undefined ? '--- /dev/null' : `--- a/${file}`, `+++ b/${file}`];
+  let index = 0;
+  while (index < changes.length) {
+    const start = Math.max(0, changes[index] - contextLines);
+    let end = changes[index];
+    // Changes separated by at most twice the context share a hunk
+    while (index + 1 < changes.length && changes[index + 1] - end <= contextLines * 2 + 1) {
+      index += 1;
+      end = changes[index];
+    }
+    end = Math.min(ops.length, end + contextLines + 1);
+    index += 1;
+
+    let oldStart = 0;
+    let newStart = 0;
+    for (const op of ops.slice(0, start)) {
+      oldStart += op.type === '+' ? 0 : 1;
+      newStart += op.type === '-' ? 0 : 1;
+    }
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((op) => op.type !== '+').length;
+    const newCount = hunk.filter((op) => op.type !== '-').length;
+    lines.push(`@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`);
+    lines.push(...hunk.map((op) => `${op.type}${op.line}`));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
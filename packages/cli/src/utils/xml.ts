@@ -0,0 +1,29 @@
+const XML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;',
+};
+
+/**
+ * Tab, line feed, carriage return, and everything from space up; XML 1.0 allows no other
+ * control characters
+ */
+function isXmlChar(code: number): boolean {
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+/**
+ * Escape text for XML content and attribute values. Control characters XML 1.0 does not allow
+ * are dropped.
+ */
+export function escapeXml(value: string | number): string {
+  let text = '';
+  for (const char of String(value)) {
+    if (isXmlChar(char.charCodeAt(0))) {
+      text += char;
+    }
+  }
+  return text.replace(/[&<>"']/g, (char) => XML_ESCAPES[char]!);
+}
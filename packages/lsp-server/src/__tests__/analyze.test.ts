@@ -40,7 +40,7 @@ describe('OSS LSP Server - Basic Wrapper Tests', () => {
       const response = await analyze(request);
 
       expect(response.error).toBeUndefined();
-      expect(response.rulesExecuted).toContain('serialization-boundary-violation');
+      expect(response.rulesExecuted).toContain('server-client-serialization-violation');
     });
 
     it('should detect forbidden client imports', async () => {
@@ -65,6 +65,25 @@ describe('OSS LSP Server - Basic Wrapper Tests', () => {
       expect(response.diagnostics[0].rule).toBe('client-forbidden-import');
     });
 
+    it('should return unified diagnostics with 1-based positions', async () => {
+      const response = await analyze({
+        code: `'use client';\nimport fs from 'fs';\n`,
+        fileName: 'components/BadClient.tsx',
+        scenario: 'client-forbidden-imports',
+      });
+
+      expect(response.unifiedDiagnostics).toHaveLength(response.diagnostics.length);
+      expect(response.unifiedDiagnostics[0]).toMatchObject({
+        file: 'components/BadClient.tsx',
+        line: 2,
+        severity: 'error',
+        rule: 'client-forbidden-import',
+        category: 'correctness',
+        source: 'rsc-xray',
+      });
+      expect(response.unifiedDiagnostics[0].codeFrame).toContain("> 2 | import fs from 'fs';");
+    });
+
     it('should detect missing Suspense boundaries', async () => {
       const request: LspAnalysisRequest = {
         code: `
@@ -41,6 +41,7 @@ export async function analyze(request: LspAnalysisRequest): Promise<LspAnalysisR
 
     return {
       diagnostics: [],
+      unifiedDiagnostics: [],
       duration: Date.now() - startTime,
       rulesExecuted: [],
       version: getAnalyzerVersion(),
@@ -76,6 +76,9 @@ describe('renderHtmlReport', () => {
     expect(html).toContain('static/chunks/app/page.js');
     expect(html).toContain('<table class="suggestions-table">');
     expect(html).toContain('<td>client-hoist-fetch</td>');
+    expect(html).toContain(
+      '<td class="rule-category" title="Fetch data in server components or loaders instead of client components.">performance</td>'
+    );
     expect(html).toContain('<td class="suggestion-level-warn">WARN</td>');
     expect(html).toContain('Move fetch to server component');
     expect(html).toContain('app/components/ClientIsland.tsx');
@@ -87,4 +90,104 @@ describe('renderHtmlReport', () => {
     expect(html).toContain('Cache tags:');
     expect(html).toContain('catalog');
   });
+
+  it('lists modules loaded through import() apart from first-load modules', () => {
+    const model: Model = {
+      version: '0.1',
+      build: { nextVersion: '15.0.0', timestamp: '2025-09-20T10:00:00.000Z' },
+      routes: [{ route: '/', rootNodeId: 'route:/' }],
+      nodes: {
+        'route:/': { id: 'route:/', kind: 'route', children: ['module:app/page.tsx'] },
+        'module:app/page.tsx': {
+          id: 'module:app/page.tsx',
+          kind: 'server',
+          file: 'app/page.tsx',
+          children: ['module:app/Chart.tsx', 'module:app/Header.tsx'],
+          edges: [
+            { target: 'module:app/Chart.tsx', kind: 'dynamic' },
+            { target: 'module:app/Header.tsx', kind: 'static' },
+          ],
+        },
+        'module:app/Chart.tsx': {
+          id: 'module:app/Chart.tsx',
+          kind: 'client',
+          file: 'app/Chart.tsx',
+        },
+        'module:app/Header.tsx': {
+          id: 'module:app/Header.tsx',
+          kind: 'server',
+          file: 'app/Header.tsx',
+        },
+      },
+    };
+
+    const html = renderHtmlReport(model);
+    const [firstLoad, lazy] = html.split('Lazy-loaded via import()');
+
+    expect(firstLoad).toContain('app/Header.tsx');
+    expect(firstLoad).not.toContain('app/Chart.tsx');
+    expect(lazy).toContain('app/Chart.tsx');
+  });
+
+  it('summarizes findings suppressed by inline comments', () => {
+    const model: Model = {
+      version: '0.1',
+      build: { nextVersion: '15.0.0', timestamp: '2025-09-20T10:00:00.000Z' },
+      routes: [{ route: '/', rootNodeId: 'route:/' }],
+      nodes: {
+        'route:/': { id: 'route:/', kind: 'route', children: ['module:app/page.tsx'] },
+        'module:app/page.tsx': {
+          id: 'module:app/page.tsx',
+          kind: 'server',
+          file: 'app/page.tsx',
+          suppressed: { 'server-promise-all': 2 },
+        },
+        'module:app/Chart.tsx': {
+          id: 'module:app/Chart.tsx',
+          kind: 'client',
+          file: 'app/Chart.tsx',
+          suppressed: { 'client-forbidden-import': 1 },
+        },
+      },
+    };
+
+    const html = renderHtmlReport(model);
+
+    expect(html).toContain(
+      '3 findings suppressed by inline rsc-xray-disable comments (client-forbidden-import: 1, server-promise-all: 2)'
+    );
+  });
+
+  it('lists unified findings with their code frames', () => {
+    const model: Model = {
+      version: '0.1',
+      build: { nextVersion: '15.0.0', timestamp: '2025-09-20T10:00:00.000Z' },
+      routes: [],
+      nodes: {},
+    };
+
+    const html = renderHtmlReport(model, {
+      diagnostics: [
+        {
+          file: 'app/page.tsx',
+          line: 3,
+          column: 7,
+          severity: 'error',
+          rule: 'duplicate-route',
+          category: 'correctness',
+          message: "Pages app/page.tsx and app/(shop)/page.tsx both resolve to route '/'.",
+          source: 'rsc-xray',
+          codeFrame: '> 3 | <Page />\n    |       ^',
+          relatedInformation: [
+            { file: 'app/(shop)/page.tsx', line: 1, message: "Route '/' is also defined here" },
+          ],
+        },
+      ],
+    });
+
+    expect(html).toContain('Findings (1)');
+    expect(html).toContain('app/page.tsx:3:7');
+    expect(html).toContain('<pre class="code-frame">&gt; 3 | &lt;Page /&gt;');
+    expect(html).toContain("app/(shop)/page.tsx:1: Route '/' is also defined here");
+  });
 });
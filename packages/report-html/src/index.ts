@@ -1 +1 @@
-export { renderHtmlReport } from './renderReport';
+export { renderHtmlReport, type RenderHtmlReportOptions } from './renderReport';
@@ -1,5 +1,16 @@
-import { ROUTE_WATERFALL_SUGGESTION_RULE } from '@rsc-xray/schemas';
-import type { Model, RouteCacheMetadata, Suggestion } from '@rsc-xray/schemas';
+import { getRuleInfo, ROUTE_WATERFALL_SUGGESTION_RULE } from '@rsc-xray/schemas';
+import type {
+  Model,
+  RouteCacheMetadata,
+  RscXrayDiagnostic,
+  Suggestion,
+  XNode,
+} from '@rsc-xray/schemas';
+
+export interface RenderHtmlReportOptions {
+  /** Findings in the unified format, listed with code frames in a Findings section */
+  diagnostics?: RscXrayDiagnostic[];
+}
 
 const styles = `
   body {
@@ -30,6 +41,12 @@ const styles = `
     font-size: 13px;
     color: rgba(148, 163, 184, 0.8);
   }
+  .lazy-heading {
+    margin: 16px 0 0;
+    font-size: 13px;
+    font-weight: 600;
+    color: rgba(148, 163, 184, 0.9);
+  }
   .route-cache-tags {
     margin-top: 8px;
     font-size: 12px;
@@ -103,12 +120,55 @@ const styles = `
     font-size: 12px;
     color: rgba(226, 232, 240, 0.7);
   }
+  .suppressed-summary {
+    margin: -12px 0 24px;
+    font-size: 13px;
+    color: rgba(148, 163, 184, 0.85);
+  }
+  .rule-category {
+    color: rgba(148, 163, 184, 0.85);
+  }
+  .suggestion-level-error {
+    color: rgb(239, 68, 68);
+  }
   .suggestion-level-warn {
     color: rgb(249, 115, 22);
   }
   .suggestion-level-info {
     color: rgb(56, 189, 248);
   }
+  .finding {
+    border-top: 1px solid rgba(148, 163, 184, 0.15);
+    padding: 10px 0;
+    font-size: 13px;
+  }
+  .finding-header {
+    display: flex;
+    flex-wrap: wrap;
+    gap: 12px;
+  }
+  .finding-related {
+    margin: 6px 0 0;
+    color: rgba(148, 163, 184, 0.85);
+  }
+  .code-frame {
+    margin: 8px 0 0;
+    padding: 8px 12px;
+    overflow-x: auto;
+    background: rgba(15, 23, 42, 0.6);
+    border-radius: 6px;
+    font-size: 12px;
+  }
+  .severity-error {
+    color: rgb(239, 68, 68);
+  }
+  .severity-warning {
+    color: rgb(249, 115, 22);
+  }
+  .severity-info,
+  .severity-hint {
+    color: rgb(56, 189, 248);
+  }
 `;
 
 function formatBytes(bytes?: number): string {
@@ -126,7 +186,7 @@ function renderSuggestionsBadge(suggestions?: Suggestion[]): string {
   if (!suggestions || suggestions.length === 0) {
     return '';
   }
-  const hasWarn = suggestions.some((item) => item.level === 'warn');
+  const hasWarn = suggestions.some((item) => item.level !== 'info');
   const title = suggestions
     .map((item) => `${item.level.toUpperCase()}: ${item.message}`)
     .join('\n');
@@ -153,13 +213,27 @@ function indentLabel(label: string, depth: number): string {
   return `${padding}${label}`;
 }
 
-function renderNodeRows(model: Model, nodeId: string, depth: number): string {
+/**
+ * Children only reached through `import()`; they load in their own chunks after first load
+ */
+function getLazyChildren(node: XNode): Set<string> {
+  const edges = node.edges ?? [];
+  const eager = new Set(edges.filter((edge) => edge.kind !== 'dynamic').map((edge) => edge.target));
+  return new Set(
+    edges
+      .filter((edge) => edge.kind === 'dynamic' && !eager.has(edge.target))
+      .map((edge) => edge.target)
+  );
+}
+
+function renderNodeRows(model: Model, nodeId: string, depth: number, lazy: string[]): string {
   const node = model.nodes[nodeId];
   if (!node) {
     return '';
   }
 
-  const label = indentLabel(node.file ?? node.name ?? node.id, depth);
+  const roleBadge = node.role ? ` <span class="badge">${node.role}</span>` : '';
+  const label = indentLabel(`${node.file ?? node.name ?? node.id}${roleBadge}`, depth);
   const bytesLabel = formatBytes(node.bytes);
   const suggestions = renderSuggestionsBadge(node.suggestions);
 
@@ -170,8 +244,15 @@ function renderNodeRows(model: Model, nodeId: string, depth: number): string {
     <td>${suggestions}</td>
   </tr>`;
 
+  const lazyChildren = getLazyChildren(node);
   const childRows = (node.children ?? [])
-    .map((childId) => renderNodeRows(model, childId, depth + 1))
+    .map((childId) => {
+      if (lazyChildren.has(childId)) {
+        lazy.push(childId);
+        return '';
+      }
+      return renderNodeRows(model, childId, depth + 1, lazy);
+    })
     .join('');
 
   return `${currentRow}${childRows}`;
@@ -254,14 +335,100 @@ function renderRouteCacheTags(cache: RouteCacheMetadata | undefined): string {
   return `<div class="route-cache-tags"><strong>Cache tags:</strong>${chips}</div>`;
 }
 
-export function renderHtmlReport(model: Model): string {
+/**
+ * Total findings silenced by inline comments across the model, with a per-rule breakdown
+ */
+function renderSuppressedSummary(model: Model): string {
+  const byRule = new Map<string, number>();
+  for (const node of Object.values(model.nodes)) {
+    for (const [rule, count] of Object.entries(node.suppressed ?? {})) {
+      byRule.set(rule, (byRule.get(rule) ?? 0) + count);
+    }
+  }
+  if (byRule.size === 0) {
+    return '';
+  }
+  const total = Array.from(byRule.values()).reduce((sum, count) => sum + count, 0);
+  const breakdown = Array.from(byRule)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([rule, count]) => `${rule}: ${count}`)
+    .join(', ');
+  return `<p class="suppressed-summary" title="${escapeHtmlAttr(breakdown)}">${total} ${
+    total === 1 ? 'finding' : 'findings'
+  } suppressed by inline rsc-xray-disable comments (${escapeHtml(breakdown)})</p>`;
+}
+
+function renderFinding(diagnostic: RscXrayDiagnostic): string {
+  const location = `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}`;
+  const related = diagnostic.relatedInformation?.length
+    ? `<ul class="finding-related">${diagnostic.relatedInformation
+        .map(
+          (info) =>
+            `<li>${escapeHtml(`${info.file}:${info.line}`)}: ${escapeHtml(info.message)}</li>`
+        )
+        .join('')}</ul>`
+    : '';
+  const codeFrame = diagnostic.codeFrame
+    ? `<pre class="code-frame">${escapeHtml(diagnostic.codeFrame)}</pre>`
+    : '';
+  return `<div class="finding">
+      <div class="finding-header">
+        <span class="severity-${diagnostic.severity}">${diagnostic.severity.toUpperCase()}</span>
+        <span>${escapeHtml(diagnostic.rule)}</span>
+        <span class="rule-category">${diagnostic.category}</span>
+        <span>${escapeHtml(location)}</span>
+      </div>
+      <p>${escapeHtml(diagnostic.message)}</p>
+      ${codeFrame}
+      ${related}
+    </div>`;
+}
+
+function renderFindings(diagnostics: RscXrayDiagnostic[] | undefined): string {
+  if (!diagnostics?.length) {
+    return '';
+  }
+  return `<section class="route findings">
+      <h2>Findings (${diagnostics.length})</h2>
+      ${diagnostics.map(renderFinding).join('\n')}
+    </section>`;
+}
+
+export function renderHtmlReport(model: Model, options: RenderHtmlReportOptions = {}): string {
   const routeSections = model.routes
     .map((route) => {
       const node = model.nodes[route.rootNodeId];
+      const lazy: string[] = [];
       const rows = (node?.children ?? [])
-        .map((childId) => renderNodeRows(model, childId, 0))
+        .map((childId) => renderNodeRows(model, childId, 0, lazy))
         .join('');
 
+      // Lazy subtrees can load further lazy modules; each is listed once
+      const renderedLazy = new Set<string>();
+      let lazyRows = '';
+      for (let index = 0; index < lazy.length; index += 1) {
+        const lazyId = lazy[index]!;
+        if (!renderedLazy.has(lazyId)) {
+          renderedLazy.add(lazyId);
+          lazyRows += renderNodeRows(model, lazyId, 0, lazy);
+        }
+      }
+      const lazyTable = lazyRows
+        ? `<p class="lazy-heading">Lazy-loaded via import() (not part of first-load JS)</p>
+        <table>
+          <thead>
+            <tr>
+              <th>Kind</th>
+              <th>File</th>
+              <th>Bytes</th>
+              <th>Suggestions</th>
+            </tr>
+          </thead>
+          <tbody>${lazyRows}
+          </tbody>
+        </table>`
+        : '';
+
       const collectedSuggestions = collectRouteSuggestions(model, route.rootNodeId);
       const routeWaterfall = node?.suggestions?.find(
         (suggestion) => suggestion.rule === ROUTE_WATERFALL_SUGGESTION_RULE
@@ -270,11 +437,26 @@ export function renderHtmlReport(model: Model): string {
         ? `<span class="badge warn" title="${escapeHtmlAttr(routeWaterfall.message)}">Waterfall suspected</span>`
         : '';
       const cacheBadges = renderRouteCacheBadges(route.cache);
+      const handlerBadge = route.handler
+        ? `<span class="badge info">${
+            route.router === 'pages'
+              ? 'API route'
+              : `Route handler ${route.handler.methods.join(' ')}`
+          }</span>`
+        : '';
+      const routerBadge =
+        route.router === 'pages'
+          ? `<span class="badge" title="${escapeHtmlAttr(route.dataFetching?.join(', ') ?? 'No data fetching')}">Pages Router</span>`
+          : '';
+      const middlewareBadge = route.middleware?.length
+        ? `<span class="badge" title="${escapeHtmlAttr(route.middleware.join(', '))}">Middleware</span>`
+        : '';
       const suggestionsTable = collectedSuggestions.length
         ? `<table class="suggestions-table">
             <thead>
               <tr>
                 <th>Rule</th>
+                <th>Category</th>
                 <th>Level</th>
                 <th>Location</th>
                 <th>Message</th>
@@ -288,8 +470,11 @@ export function renderHtmlReport(model: Model): string {
                     ? `${suggestion.loc.file}:${suggestion.loc.range.from}-${suggestion.loc.range.to}`
                     : 'n/a';
                   const levelClass = `suggestion-level-${suggestion.level}`;
+                  // Custom rules are missing from the catalogue
+                  const ruleInfo = getRuleInfo(suggestion.rule);
                   return `<tr>
                     <td>${suggestion.rule}</td>
+                    <td class="rule-category" title="${escapeHtmlAttr(ruleInfo?.description ?? '')}">${ruleInfo?.category ?? '-'}</td>
                     <td class="${levelClass}">${suggestion.level.toUpperCase()}</td>
                     <td>${loc}</td>
                     <td>${suggestion.message}</td>
@@ -310,6 +495,9 @@ export function renderHtmlReport(model: Model): string {
           <span class="route-chunks">${chunkLabel}</span>
           <span class="badge">${node?.kind.toUpperCase()}</span>
           <span class="badge">${bytesLabel || '0 KB'}</span>
+          ${routerBadge}
+          ${handlerBadge}
+          ${middlewareBadge}
           ${cacheBadges}
           ${waterfallBadge}
         </div>
@@ -326,6 +514,7 @@ export function renderHtmlReport(model: Model): string {
          <tbody>${rows}
           </tbody>
        </table>
+        ${lazyTable}
         ${suggestionsTable}
       </section>`;
     })
@@ -340,7 +529,9 @@ export function renderHtmlReport(model: Model): string {
   </head>
   <body>
     <h1>RSC XRay Report</h1>
+    ${renderSuppressedSummary(model)}
     ${routeSections}
+    ${renderFindings(options.diagnostics)}
   </body>
 </html>`;
 }
@@ -1,5 +1,7 @@
 import { describe, expect, it } from 'vitest';
 
+import budgetsSchema from './budgets.schema.json' assert { type: 'json' };
+import configSchema from './config.schema.json' assert { type: 'json' };
 import { modelSchema } from './index';
 
 describe('modelSchema', () => {
@@ -7,4 +9,20 @@ describe('modelSchema', () => {
     expect(modelSchema.$id).toContain('model.schema.json');
     expect(modelSchema.properties?.version?.const).toBe('0.1');
   });
+
+  it('publishes the config schema', () => {
+    expect(configSchema.$id).toContain('config.schema.json');
+    expect(configSchema.definitions.RuleLevel.enum).toEqual(['off', 'error', 'warn', 'info']);
+  });
+
+  it('publishes the budgets schema', () => {
+    expect(budgetsSchema.$id).toContain('budgets.schema.json');
+    expect(Object.keys(budgetsSchema.definitions.RouteBudget.properties)).toEqual([
+      'routes',
+      'maxTotalBytes',
+      'maxClientIslands',
+      'maxIslandBytes',
+      'maxSharedChunkBytes',
+    ]);
+  });
 });
@@ -1,6 +1,17 @@
 import schema from './model.schema.json' assert { type: 'json' };
+import config from './config.schema.json' assert { type: 'json' };
+import budgets from './budgets.schema.json' assert { type: 'json' };
 
 export * from './types.js';
+export * from './rules.js';
 
 export const modelSchema = schema;
 export type ModelSchema = typeof schema;
+
+/** JSON schema of `rsc-xray.config.json`, for editor completion and validation */
+export const configSchema = config;
+export type ConfigSchema = typeof config;
+
+/** JSON schema of `rsc-xray.budgets.json`, for editor completion and validation */
+export const budgetsSchema = budgets;
+export type BudgetsSchema = typeof budgets;
@@ -0,0 +1,238 @@
+import {
+  ROUTE_WATERFALL_SUGGESTION_RULE,
+  SERVER_PARALLEL_SUGGESTION_RULE,
+  type DiagnosticLevel,
+} from './types.js';
+
+export type RuleCategory = 'performance' | 'correctness' | 'best-practice' | 'security';
+
+export interface RuleExample {
+  /** Code the rule reports */
+  invalid: string;
+  /** The same code after following the rule */
+  valid?: string;
+}
+
+/**
+ * Documentation of a built-in rule, shared by the analyzer, CLI, report, and editors
+ */
+export interface RuleInfo {
+  id: string;
+  /** Former or alternative ids accepted in configs, suppression comments, and rule filters */
+  aliases?: string[];
+  category: RuleCategory;
+  /** Diagnostics report problems; suggestions point out improvements */
+  type: 'diagnostic' | 'suggestion';
+  /** Level of the rule's findings unless the config overrides it */
+  defaultLevel: DiagnosticLevel;
+  /** One-line summary */
+  description: string;
+  /** Why the rule exists and how to address its findings */
+  explanation: string;
+  examples?: RuleExample[];
+}
+
+export const RULE_CATALOG: readonly RuleInfo[] = [
+  {
+    id: 'client-forbidden-import',
+    category: 'correctness',
+    type: 'diagnostic',
+    defaultLevel: 'error',
+    description: 'Client modules must not import Node.js built-ins or other server-only modules.',
+    explanation:
+      'Modules in the client bundle run in the browser, where Node.js built-ins such as `fs` do not exist. Move the code into a server component, a Server Action, or a route handler. Modules imported by a client module are checked too. The `modules` option adds packages to the list.',
+    examples: [
+      {
+        invalid: `'use client';\nimport { readFileSync } from 'fs';`,
+        valid: `// app/page.tsx (server component)\nimport { readFileSync } from 'fs';`,
+      },
+    ],
+  },
+  {
+    id: 'server-client-serialization-violation',
+    aliases: ['serialization-boundary-violation'],
+    category: 'correctness',
+    type: 'diagnostic',
+    defaultLevel: 'error',
+    description: 'Props passed from server to client components must be serializable.',
+    explanation:
+      'Props that cross from a server component into a client component are serialized into the RSC payload. Functions (other than Server Actions), class instances, Dates, Maps, Sets, Promises, and Symbols cannot be serialized. Pass plain data instead and rebuild rich values on the client.',
+    examples: [
+      {
+        invalid: `<Button onClick={() => track()} />`,
+        valid: `<Button trackingId="signup" />`,
+      },
+    ],
+  },
+  {
+    id: 'client-hoist-fetch',
+    category: 'performance',
+    type: 'suggestion',
+    defaultLevel: 'warn',
+    description: 'Fetch data in server components or loaders instead of client components.',
+    explanation:
+      'An awaited `fetch` in a client module only starts after the JavaScript has loaded and hydrated, which delays content and adds a client-server round trip. Fetch on the server and pass the data down as props.',
+    examples: [
+      {
+        invalid: `'use client';\nconst res = await fetch('/api/user');`,
+        valid: `// server component\nconst user = await getUser();\nreturn <Profile user={user} />;`,
+      },
+    ],
+  },
+  {
+    id: SERVER_PARALLEL_SUGGESTION_RULE,
+    category: 'performance',
+    type: 'suggestion',
+    defaultLevel: 'info',
+    description: 'Run independent sequential awaits in parallel.',
+    explanation:
+      'Awaiting independent requests one after another adds their latencies together. Start them together with `Promise.all` so the component waits only for the slowest one.',
+    examples: [
+      {
+        invalid: `const user = await getUser();\nconst posts = await getPosts();`,
+        valid: `const [user, posts] = await Promise.all([getUser(), getPosts()]);`,
+      },
+    ],
+  },
+  {
+    id: ROUTE_WATERFALL_SUGGESTION_RULE,
+    category: 'performance',
+    type: 'suggestion',
+    defaultLevel: 'warn',
+    description: 'Sequential awaits across a route form a data waterfall.',
+    explanation:
+      'Reported on the route when modules it renders await sequentially. Each waterfall step delays the response. Parallelize independent requests, preload data, or deduplicate repeated fetches with React `cache()`.',
+  },
+  {
+    id: 'suspense-boundary-missing',
+    category: 'performance',
+    type: 'suggestion',
+    defaultLevel: 'warn',
+    description: 'Async server components should render inside a Suspense boundary.',
+    explanation:
+      'Without a Suspense boundary, an async component blocks the rest of the page until its data resolves. Wrap it in `<Suspense>` (or add a `loading` file for the segment) so the shell streams first.',
+    examples: [
+      {
+        invalid: `<UserFeed />`,
+        valid: `<Suspense fallback={<Spinner />}>\n  <UserFeed />\n</Suspense>`,
+      },
+    ],
+  },
+  {
+    id: 'suspense-boundary-opportunity',
+    category: 'performance',
+    type: 'suggestion',
+    defaultLevel: 'info',
+    description: 'Split several awaits in one component across parallel Suspense boundaries.',
+    explanation:
+      'A component that awaits several data sources shows nothing until all of them resolve. Move each request into its own component behind its own Suspense boundary so each part streams as soon as its data is ready.',
+  },
+  {
+    id: 'react19-cache-opportunity',
+    category: 'performance',
+    type: 'suggestion',
+    defaultLevel: 'info',
+    description: 'Deduplicate repeated data requests with React 19 cache().',
+    explanation:
+      'The same request made from several places during one render runs several times. Wrap the loader in `cache()` from React 19 to share a single result per request.',
+    examples: [
+      {
+        invalid: `export async function getUser(id) {\n  return db.user.find(id);\n}`,
+        valid: `export const getUser = cache(async (id) => db.user.find(id));`,
+      },
+    ],
+  },
+  {
+    id: 'client-component-oversized',
+    category: 'performance',
+    type: 'diagnostic',
+    defaultLevel: 'warn',
+    description: 'Client component bundles should stay under the size threshold.',
+    explanation:
+      'Large client components slow down download, parse, and hydration. Split the component, lazy-load heavy parts with `next/dynamic`, or move non-interactive parts to the server. The `thresholdBytes` option sets the limit (default 51200).',
+  },
+  {
+    id: 'client-directive-unnecessary',
+    category: 'performance',
+    type: 'suggestion',
+    defaultLevel: 'info',
+    description: "Remove 'use client' from modules that need nothing from the client.",
+    explanation:
+      "A module marked 'use client' ships its code to the browser and hydrates, even when it only renders markup. Modules without hooks, event handlers, browser APIs, context, or class components can render on the server instead. Modules importing third-party packages are skipped because the package may need the client.",
+    examples: [
+      {
+        invalid: `'use client';\nexport function Price({ amount }) {\n  return <span>{amount} EUR</span>;\n}`,
+        valid: `export function Price({ amount }) {\n  return <span>{amount} EUR</span>;\n}`,
+      },
+    ],
+  },
+  {
+    id: 'duplicate-dependencies',
+    category: 'performance',
+    type: 'diagnostic',
+    defaultLevel: 'warn',
+    description: 'Client components should not ship the same chunks separately.',
+    explanation:
+      'Reported when components share three or more chunks, which usually means common code is bundled more than once. Extract the shared code into a common module or load it dynamically.',
+  },
+  {
+    id: 'route-segment-config-conflict',
+    category: 'correctness',
+    type: 'diagnostic',
+    defaultLevel: 'error',
+    description: 'Route segment config exports must not contradict each other.',
+    explanation:
+      'Route segment exports (`dynamic`, `revalidate`, `fetchCache`, `runtime`) must agree with each other and with the code: `force-static` routes cannot read cookies, headers, or `searchParams`, `force-dynamic` or `fetchCache = "force-no-store"` make `revalidate` ineffective, and the edge runtime cannot import Node.js modules. Keep one intent per segment.',
+    examples: [
+      {
+        invalid: `export const dynamic = 'force-dynamic';\nexport const revalidate = 60;`,
+        valid: `export const revalidate = 60;`,
+      },
+    ],
+  },
+  {
+    id: 'duplicate-route',
+    category: 'correctness',
+    type: 'diagnostic',
+    defaultLevel: 'error',
+    description: 'Two page files must not resolve to the same URL.',
+    explanation:
+      'Pages in different route groups, or an App Router page and a Pages Router page, can claim the same path. Next.js fails the build on such conflicts, so keep only one page per URL.',
+  },
+  {
+    id: 'route-budget',
+    category: 'performance',
+    type: 'diagnostic',
+    defaultLevel: 'error',
+    description: 'Routes should stay within the bundle budgets set for them.',
+    explanation:
+      'Reported on a route by the `budget` command when it exceeds a limit of a matching budget in `rsc-xray.budgets.json`: total JavaScript bytes, client island count, bytes of the largest island, or bytes of chunks shared with other routes. Split or lazy-load client components, move non-interactive parts to the server, or raise the budget deliberately.',
+  },
+  {
+    id: 'unused-suppression',
+    category: 'best-practice',
+    type: 'diagnostic',
+    defaultLevel: 'warn',
+    description: 'Suppression comments should still silence a finding.',
+    explanation:
+      'An `rsc-xray-disable` comment that no longer matches any finding hides nothing. It would silently hide new findings later, so remove it.',
+  },
+];
+
+const RULES_BY_ID = new Map<string, RuleInfo>(
+  RULE_CATALOG.flatMap((rule) => [rule.id, ...(rule.aliases ?? [])].map((id) => [id, rule]))
+);
+
+/**
+ * Catalogue entry of a built-in rule, looked up by id or alias
+ */
+export function getRuleInfo(idOrAlias: string): RuleInfo | undefined {
+  return RULES_BY_ID.get(idOrAlias);
+}
+
+/**
+ * Canonical id of a rule; unknown ids (e.g. custom rules) are returned as is
+ */
+export function resolveRuleId(idOrAlias: string): string {
+  return RULES_BY_ID.get(idOrAlias)?.id ?? idOrAlias;
+}
@@ -1,7 +1,9 @@
+import type { RuleCategory } from './rules.js';
+
 export const SERVER_PARALLEL_SUGGESTION_RULE = 'server-promise-all' as const;
 export const ROUTE_WATERFALL_SUGGESTION_RULE = 'route-waterfall' as const;
 
-export type NodeKind = 'server' | 'client' | 'suspense' | 'route';
+export type NodeKind = 'server' | 'client' | 'shared' | 'suspense' | 'route';
 
 export type CacheDynamicMode = 'auto' | 'force-dynamic' | 'force-static' | 'error';
 
@@ -16,6 +18,8 @@ export type RouteSegmentFetchCache =
 
 export type RouteSegmentRuntime = 'nodejs' | 'edge';
 
+export type HttpMethod = 'GET' | 'HEAD' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'OPTIONS';
+
 export interface DiagnosticLocation {
   file: string;
   /**
@@ -30,18 +34,55 @@ export interface DiagnosticLocation {
   };
 }
 
+export type DiagnosticLevel = 'error' | 'warn' | 'info';
+
+/**
+ * A text replacement in a project file. An edit at 0..0 of a file that does not exist yet
+ * creates it.
+ */
+export interface DiagnosticTextEdit {
+  file: string;
+  /** 0-indexed character offsets of the replaced text */
+  range: DiagnosticLocation['range'];
+  newText: string;
+  /** The edit creates `file`, so its fix does not apply when the file already exists */
+  createFile?: boolean;
+}
+
+/**
+ * Machine-applicable fix of a finding, computed from the AST
+ */
+export interface DiagnosticFix {
+  title: string;
+  /** Quick fixes keep the code's behavior; refactors change it and need review */
+  kind: 'quickfix' | 'refactor' | 'source';
+  edits: DiagnosticTextEdit[];
+}
+
+/**
+ * Another place in the code that explains a finding, e.g. the other page of a duplicate route
+ */
+export interface DiagnosticRelatedLocation {
+  message: string;
+  loc: DiagnosticLocation;
+}
+
 export interface Diagnostic {
   rule: string;
-  level: 'warn' | 'error';
+  level: DiagnosticLevel;
   message: string;
   loc?: DiagnosticLocation;
+  related?: DiagnosticRelatedLocation[];
+  fixes?: DiagnosticFix[];
 }
 
 export interface Suggestion {
   rule: string;
-  level: 'info' | 'warn';
+  level: DiagnosticLevel;
   message: string;
   loc?: DiagnosticLocation;
+  related?: DiagnosticRelatedLocation[];
+  fixes?: DiagnosticFix[];
 }
 
 /**
@@ -62,7 +103,7 @@ export interface RscXrayDiagnostic {
   // Classification
   severity: 'error' | 'warning' | 'info' | 'hint';
   rule: string;
-  category: 'performance' | 'correctness' | 'best-practice' | 'security';
+  category: RuleCategory;
 
   // Content
   message: string;
@@ -152,6 +193,67 @@ export interface LspAnalysisResponse {
   };
 }
 
+/**
+ * Why a module ships in the client bundle
+ */
+export interface ClientReason {
+  /** 'directive' for modules declaring 'use client', 'import' when pulled in by a client module */
+  type: 'directive' | 'import';
+  /** Module node ids from the 'use client' entry point down to this module (import only) */
+  importChain?: string[];
+}
+
+/**
+ * App Router special files, nested per segment as
+ * layout → template → error → loading → not-found → page
+ */
+export type RouteSegmentRole =
+  | 'layout'
+  | 'template'
+  | 'error'
+  | 'loading'
+  | 'not-found'
+  | 'page'
+  | 'route';
+
+export interface ServerActionReceiver {
+  /** Action name as exported ('default' for default exports) or declared inline */
+  action: string;
+  /** Client component receiving the action */
+  component: string;
+  prop: string;
+  /** Server file rendering the client component */
+  file: string;
+}
+
+export interface ServerActionMetadata {
+  /** The module starts with 'use server', so every export is a Server Action */
+  module: boolean;
+  /** Exported action names (module directive only) */
+  exported?: string[];
+  /** Functions declaring their own inline 'use server' directive */
+  inline?: string[];
+  /** Client module node ids importing actions from this module */
+  importedBy?: string[];
+  /** Client components receiving one of these actions as a prop */
+  passedTo?: ServerActionReceiver[];
+}
+
+/**
+ * How a module references another:
+ * - `static`: `import` declaration, part of first-load JS
+ * - `dynamic`: `import()` (including `next/dynamic`), loaded lazily in its own chunk
+ * - `re-export`: `export ... from`, e.g. barrel files
+ * - `type-only`: `import type` / `export type`, erased at compile time
+ */
+export type ImportEdgeKind = 'static' | 'dynamic' | 're-export' | 'type-only';
+
+export interface ModuleEdge {
+  /** Module node id */
+  target: string;
+  kind: ImportEdgeKind;
+}
+
 export interface XNode {
   id: string;
   file?: string;
@@ -161,12 +263,48 @@ export interface XNode {
   hydrationMs?: number;
   diagnostics?: Diagnostic[];
   suggestions?: Suggestion[];
+  /** Diagnostics and suggestions silenced by inline `rsc-xray-disable` comments, per rule id */
+  suppressed?: Record<string, number>;
   children?: string[];
+  /** Module imports with their kind; type-only edges are not part of `children` */
+  edges?: ModuleEdge[];
+  /**
+   * Component node ids (`component:<file>#<name>`) declared by a module. Component nodes list
+   * the components they render as `children`. Only present with the component layer enabled.
+   */
+  components?: string[];
   tags?: string[];
   cache?: NodeCacheMetadata;
   mutations?: NodeMutationMetadata;
+  clientReason?: ClientReason;
+  serverActions?: ServerActionMetadata;
+  /**
+   * Router file role, for special files and the route tree nodes wrapping them. Pages Router
+   * pages and API routes map to `page` / `route`, `_app` to `layout`, and `_error` to `error`.
+   */
+  role?: RouteSegmentRole;
+}
+
+export interface RouteParam {
+  name: string;
+  /** `[id]`, `[...slug]`, or `[[...slug]]` */
+  type: 'dynamic' | 'catch-all' | 'optional-catch-all';
 }
 
+export interface RouteHandlerMetadata {
+  /** HTTP methods exported by the `route.ts` file; empty for Pages Router API routes */
+  methods: HttpMethod[];
+}
+
+/** Router serving a route: the App Router (`app/`) or the Pages Router (`pages/`) */
+export type RouteRouter = 'app' | 'pages';
+
+export type PagesDataFetchingMethod =
+  | 'getServerSideProps'
+  | 'getStaticProps'
+  | 'getStaticPaths'
+  | 'getInitialProps';
+
 export interface RouteEntry {
   route: string;
   rootNodeId: string;
@@ -175,6 +313,19 @@ export interface RouteEntry {
   totalBytes?: number;
   cache?: RouteCacheMetadata;
   segmentConfig?: RouteSegmentConfig;
+  /** Dynamic segments in URL order */
+  params?: RouteParam[];
+  /** Route rendered in place of by this intercepting route (`(.)`, `(..)`, `(...)`) */
+  intercepts?: string;
+  /** Parallel route slots (`@name`) rendered alongside the page */
+  slots?: string[];
+  /** Present when the route is served by a route handler instead of a page */
+  handler?: RouteHandlerMetadata;
+  /** Middleware files whose `config.matcher` covers this route */
+  middleware?: string[];
+  router?: RouteRouter;
+  /** Data fetching methods of a Pages Router page */
+  dataFetching?: PagesDataFetchingMethod[];
 }
 
 export interface BuildInfo {
@@ -233,3 +384,76 @@ export interface RouteConfigDiagnostic {
   config?: RouteSegmentConfig;
   conflicts?: string[];
 }
+
+/** Rule severity in `rsc-xray.config.*`; 'off' disables the rule */
+export type RuleLevelSetting = DiagnosticLevel | 'off';
+
+export interface RuleConfig {
+  level?: RuleLevelSetting;
+  /** Rule-specific options, e.g. `thresholdBytes` or `modules` */
+  options?: Record<string, unknown>;
+}
+
+/** A severity, or a severity with rule options */
+export type RuleSetting = RuleLevelSetting | RuleConfig;
+
+export interface RscXrayConfigOverride {
+  /** Globs (relative to the project root) of the files the override applies to */
+  files: string[];
+  rules?: Record<string, RuleSetting>;
+}
+
+/**
+ * Custom rules defined inline in a JavaScript or TypeScript config. Rule objects implement the
+ * `Rule` interface of `@rsc-xray/analyzer`.
+ */
+export interface RscXrayPluginDefinition {
+  name?: string;
+  rules: unknown[];
+}
+
+/**
+ * Project configuration loaded from `rsc-xray.config.{json,js,ts}` in the project root
+ */
+export interface RscXrayConfig {
+  $schema?: string;
+  /** Globs of source files to analyze; every file under the app and pages directories by default */
+  include?: string[];
+  /** Globs of source files to skip, added to the default node_modules / build output excludes */
+  exclude?: string[];
+  /** Source file extensions to analyze (default: .ts, .tsx, .js, .jsx) */
+  extensions?: string[];
+  rules?: Record<string, RuleSetting>;
+  /** Rule settings for matching files, applied in order after `rules` */
+  overrides?: RscXrayConfigOverride[];
+  /**
+   * Custom rule packages: npm package names, paths relative to the project root, or (in JS/TS
+   * configs) inline plugin objects. Each module exports `rules` or a default array of rules.
+   */
+  plugins?: Array<string | RscXrayPluginDefinition>;
+}
+
+/**
+ * Limits for the routes matching `routes`. Sizes are in bytes; limits left out are not checked.
+ */
+export interface RouteBudget {
+  /** Globs of route paths, e.g. `/checkout/**` */
+  routes: string[];
+  /** JavaScript the route loads (`RouteEntry.totalBytes`) */
+  maxTotalBytes?: number;
+  /** Client components rendered by the route's server components */
+  maxClientIslands?: number;
+  /** Bundle of the largest client island */
+  maxIslandBytes?: number;
+  /** Chunks the route shares with other routes */
+  maxSharedChunkBytes?: number;
+}
+
+/**
+ * Route budgets loaded from `rsc-xray.budgets.json`. Budgets matching a route apply in order, so
+ * later budgets override the limits they set.
+ */
+export interface RscXrayBudgets {
+  $schema?: string;
+  budgets: RouteBudget[];
+}